@@ -22,6 +22,9 @@ const generateSinglePageSummary = require('./report-modules/summary-single');
 const generateCrawlSummary = require('./report-modules/summary-crawl');
 const generatePerformance = require('./report-modules/performance');
 const generateHeadingStructure = require('./report-modules/heading-structure');
+const generateRuleResults = require('./report-modules/rule-results');
+const generateConformance = require('./report-modules/conformance');
+const generateScreenReader = require('./report-modules/screen-reader');
 const getScripts = require('./report-modules/scripts');
 const { generatePageModal, generateModalScripts } = require('./report-modules/page-modal');
 
@@ -98,6 +101,12 @@ function calculateCrawlStats(data) {
   };
 
   (data.pages || []).forEach(page => {
+    // Scanner output groups violations by severity – page modules expect a flat array
+    if (page.violations && !Array.isArray(page.violations)) {
+      page.violations = ['critical', 'serious', 'moderate', 'minor'].reduce((acc, severity) =>
+        acc.concat((page.violations[severity] || []).map(v => ({ ...v, impact: v.impact || severity }))), []);
+    }
+
     (page.violations || []).forEach(v => {
       const impact = (v.impact || 'minor').toLowerCase();
       stats.total++;
@@ -130,6 +139,24 @@ const structureHtml = `
   </section>
 `;
 
+const reviewHtml = `
+  <section id="tab-review" class="hidden">
+    ${generateRuleResults(data, isCrawl)}
+  </section>
+`;
+
+const conformanceHtml = `
+  <section id="tab-conformance" class="hidden">
+    ${generateConformance(data, isCrawl)}
+  </section>
+`;
+
+const screenReaderHtml = `
+  <section id="tab-screenreader" class="hidden">
+    ${generateScreenReader(data, isCrawl)}
+  </section>
+`;
+
 // Assemble complete HTML document
 const html = `<!DOCTYPE html>
 <html lang="en" class="dark">
@@ -170,6 +197,9 @@ const html = `<!DOCTYPE html>
       ${summaryHtml}
       ${performanceHtml}
       ${structureHtml}
+      ${reviewHtml}
+      ${conformanceHtml}
+      ${screenReaderHtml}
     </div>
   </main>
 
@@ -385,6 +385,9 @@ const KEYBOARD_TYPE_LABELS = {
   'no-visible-focus': 'Bez viditelného focusu',
   'no-focusable-elements': 'Bez fokusovatelných prvků',
   'offscreen-focus': 'Fokus mimo viewport',
+  'focus-obscured': 'Fokus zakrytý overlayem',
+  'focus-appearance': 'Slabý indikátor fokusu',
+  'reverse-focus-order': 'Shift+Tab v jiném pořadí',
 };
 
 function buildKeyboardSummaryHtml(summary) {
@@ -400,6 +403,8 @@ function buildKeyboardSummaryHtml(summary) {
       'focus-loop': 0,
       'no-visible-focus': 0,
       'no-focusable-elements': 0,
+      'focus-obscured': 0,
+      'focus-appearance': 0,
     };
 
     for (const page of summary.pages) {
@@ -440,6 +445,8 @@ function buildKeyboardSummaryHtml(summary) {
     'focus-loop': 0,
     'no-visible-focus': 0,
     'no-focusable-elements': 0,
+    'focus-obscured': 0,
+    'focus-appearance': 0,
   };
 
   for (const issue of k.issues) {
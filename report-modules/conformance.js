@@ -0,0 +1,118 @@
+/**
+ * WCAG Conformance Component
+ * Per-criterion matrix (failed / needs review / passed / partially verified / not tested)
+ * Supports both single-page and crawl modes
+ */
+
+const { escapeHtml } = require('./utils');
+
+const STATUS = {
+  failed: { label: 'Failed', cls: 'bg-danger', border: 'border-danger', icon: 'fa-times-circle' },
+  'needs-review': { label: 'Needs Review', cls: 'bg-info', border: 'border-info', icon: 'fa-eye' },
+  passed: { label: 'Passed', cls: 'bg-success', border: 'border-success', icon: 'fa-check-circle' },
+  'partially-verified': { label: 'Partially Verified', cls: 'bg-teal-700', border: 'border-teal-600', icon: 'fa-check' },
+  'not-tested': { label: 'Not Tested', cls: 'bg-gray-600', border: 'border-gray-500', icon: 'fa-minus-circle' }
+};
+
+const PRINCIPLES = {
+  '1': 'Perceivable',
+  '2': 'Operable',
+  '3': 'Understandable',
+  '4': 'Robust'
+};
+
+function renderStats(summary) {
+  return `
+    <div class="grid grid-cols-2 md:grid-cols-5 gap-4">
+      ${Object.keys(STATUS).map(status => `
+        <div class="bg-cardDark p-5 rounded-xl border-l-4 ${STATUS[status].border} shadow-lg">
+          <div class="text-gray-400 text-sm font-medium mb-1"><i class="fas ${STATUS[status].icon} mr-1"></i>${STATUS[status].label}</div>
+          <div class="text-3xl font-bold text-white">${summary[status] || 0}</div>
+          <div class="text-xs text-gray-500 mt-1">criteria</div>
+        </div>
+      `).join('')}
+    </div>
+  `;
+}
+
+function renderRules(entry, pageCount) {
+  const parts = [];
+  if (entry.failedRules.length > 0) {
+    parts.push(`<span class="text-red-400">${entry.failedRules.map(escapeHtml).join(', ')}</span>`);
+  }
+  if (entry.reviewRules.length > 0) {
+    parts.push(`<span class="text-blue-400">${entry.reviewRules.map(escapeHtml).join(', ')}</span>`);
+  }
+  if (parts.length === 0 && entry.passedRules.length > 0) {
+    parts.push(`<span class="text-gray-500">${entry.passedRules.length} rule${entry.passedRules.length === 1 ? '' : 's'} passed${entry.status === 'partially-verified' ? ', confirm in manual audit' : ''}</span>`);
+  }
+  if (pageCount && entry.failedPages) {
+    parts.push(`<span class="text-gray-400">failed on ${entry.failedPages}/${pageCount} pages</span>`);
+  }
+  return parts.join('<br>');
+}
+
+function renderPrinciple(principle, entries, pageCount) {
+  if (entries.length === 0) return '';
+  const id = `conformance-${principle}`;
+
+  return `
+    <div class="bg-cardDark rounded-xl border border-gray-700 p-6">
+      <button onclick="toggleIssueDetails('${id}')" class="w-full flex items-center gap-3 text-left">
+        <h3 class="text-xl font-bold text-white flex-1">${principle}. ${PRINCIPLES[principle]}</h3>
+        ${['failed', 'needs-review'].map(status => {
+          const count = entries.filter(e => e.status === status).length;
+          return count > 0 ? `<span class="${STATUS[status].cls} text-white px-2 py-0.5 rounded text-xs font-bold">${count} ${STATUS[status].label}</span>` : '';
+        }).join('')}
+        <i id="icon-${id}" class="fas fa-chevron-down text-gray-400 transition-transform"></i>
+      </button>
+      <div id="${id}" class="hidden mt-4 overflow-x-auto">
+        <table class="w-full text-sm">
+          <thead>
+            <tr class="text-left text-gray-400 border-b border-gray-700">
+              <th class="py-2 pr-4">Criterion</th>
+              <th class="py-2 pr-4">Level</th>
+              <th class="py-2 pr-4">Status</th>
+              <th class="py-2">Rules</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${entries.map(e => `
+              <tr class="border-b border-gray-800 align-top">
+                <td class="py-2 pr-4 text-white"><span class="font-mono">${escapeHtml(e.id)}</span> ${escapeHtml(e.title)}</td>
+                <td class="py-2 pr-4 text-gray-400">${escapeHtml(e.level)}</td>
+                <td class="py-2 pr-4"><span class="${STATUS[e.status].cls} text-white px-2 py-0.5 rounded text-xs font-bold whitespace-nowrap">${STATUS[e.status].label}</span></td>
+                <td class="py-2 text-xs font-mono break-all">${renderRules(e, pageCount)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  `;
+}
+
+module.exports = function generateConformance(data, isCrawl) {
+  const matrix = data.conformance;
+
+  if (!matrix) {
+    return `
+      <div class="bg-cardDark rounded-xl border border-gray-700 p-6 text-gray-400">
+        <i class="fas fa-info-circle mr-2"></i>No WCAG conformance data in this report.
+      </div>
+    `;
+  }
+
+  const pageCount = isCrawl ? (data.pages || []).length : 0;
+
+  return `
+    <div class="space-y-6">
+      <div>
+        <h2 class="text-2xl font-bold text-white">WCAG ${escapeHtml(matrix.version)} Level ${escapeHtml(matrix.level)}</h2>
+        <p class="text-sm text-gray-400">Every success criterion of the target level, mapped from automated rules and the manual audit checklist. Only the manual audit marks a criterion as passed.</p>
+      </div>
+      ${renderStats(matrix.summary)}
+      ${Object.keys(PRINCIPLES).map(p => renderPrinciple(p, matrix.entries.filter(e => e.id.startsWith(`${p}.`)), pageCount)).join('')}
+    </div>
+  `;
+};
@@ -1,17 +1,157 @@
 /**
  * Heading Structure Component
  * H1-H6 hierarchy analysis, issue detection, and visualization
+ * Renders the landmark-aware document outline and, in crawl mode,
+ * the heading template comparison across pages
  * Supports both single-page and crawl modes
  */
 
 const { escapeHtml } = require('./utils');
 
+const LANDMARK_LABELS = {
+  banner: 'Banner',
+  navigation: 'Navigation',
+  main: 'Main',
+  contentinfo: 'Content info',
+  complementary: 'Complementary',
+  search: 'Search',
+  region: 'Region',
+  form: 'Form'
+};
+
+// Mirrors the landmark-without-heading check; navigation, banner and footer may go without a heading
+const LANDMARKS_EXPECTING_HEADING = ['main', 'complementary', 'region'];
+
+const HIDDEN_REASON_LABELS = {
+  'display-none': 'display: none',
+  'visibility-hidden': 'visibility: hidden',
+  'aria-hidden': 'aria-hidden="true"'
+};
+
+const TEMPLATE_ISSUE_LABELS = {
+  'inconsistent-level': 'Inconsistent level',
+  'missing-template-heading': 'Missing on some pages',
+  'h1-placement': 'H1 placement'
+};
+
+function headingBadges(h) {
+  const badges = [];
+  if (h.source === 'aria') {
+    badges.push('<span class="px-1.5 py-0.5 rounded bg-purple-900/40 text-purple-300 text-[10px] font-mono">role=heading</span>');
+  }
+  if (h.visuallyHidden) {
+    badges.push('<span class="px-1.5 py-0.5 rounded bg-gray-700 text-gray-300 text-[10px]">visually hidden</span>');
+  }
+  return badges.join(' ');
+}
+
+function renderOutlineNodes(nodes, getColorClass) {
+  if (!nodes || nodes.length === 0) return '';
+  return `
+    <ul class="space-y-1">
+      ${nodes.map(node => {
+        const children = renderOutlineNodes(node.children, getColorClass);
+        if (node.kind === 'landmark') {
+          const label = LANDMARK_LABELS[node.role] || node.role;
+          return `
+            <li class="border-l-2 border-dashed border-gray-600 pl-3 my-2">
+              <div class="flex items-center gap-2 text-xs text-gray-400 uppercase tracking-wide">
+                <i class="fas fa-map-signs"></i>
+                <span>${escapeHtml(label)}${node.label ? ` – ${escapeHtml(node.label)}` : ''}</span>
+              </div>
+              ${children ? `<div class="mt-1">${children}</div>` : `<div class="text-xs ${LANDMARKS_EXPECTING_HEADING.includes(node.role) ? 'text-orange-400' : 'text-gray-500'} mt-1">No heading in this landmark</div>`}
+            </li>
+          `;
+        }
+        return `
+          <li class="pl-3">
+            <div class="flex items-center gap-2">
+              <span class="px-2 py-0.5 rounded border ${getColorClass(node.level)} font-mono text-xs shrink-0">H${node.level}</span>
+              <span class="text-gray-300 text-sm ${!node.text ? 'italic text-gray-500' : ''}">${node.text ? escapeHtml(node.text) : '(empty)'}</span>
+              ${headingBadges(node)}
+            </div>
+            ${children ? `<div class="ml-4 mt-1">${children}</div>` : ''}
+          </li>
+        `;
+      }).join('')}
+    </ul>
+  `;
+}
+
+function renderHiddenHeadings(hiddenHeadings) {
+  if (!hiddenHeadings || hiddenHeadings.length === 0) return '';
+  return `
+    <div class="mt-6">
+      <h4 class="text-white font-bold mb-3">Hidden from Screen Readers (${hiddenHeadings.length})</h4>
+      <div class="bg-bgDark rounded-lg p-4 border border-gray-700 space-y-2">
+        ${hiddenHeadings.map(h => `
+          <div class="flex items-center gap-2 text-sm">
+            <span class="px-2 py-0.5 rounded border border-gray-600 text-gray-400 font-mono text-xs shrink-0">H${h.level}</span>
+            <span class="text-gray-400">${h.text ? escapeHtml(h.text) : '(empty)'}</span>
+            <span class="text-xs text-gray-500 font-mono">${escapeHtml(HIDDEN_REASON_LABELS[h.hiddenReason] || h.hiddenReason || '')}</span>
+          </div>
+        `).join('')}
+      </div>
+    </div>
+  `;
+}
+
+function renderHeadingTemplates(templates) {
+  if (!templates) return '';
+  const issues = templates.issues || [];
+  const shared = templates.sharedHeadings || [];
+
+  return `
+    <div class="mt-6">
+      <h4 class="text-white font-bold mb-1">Heading Templates Across Pages</h4>
+      <p class="text-sm text-gray-400 mb-3">${shared.length} headings repeat on most of the ${templates.pagesCompared} compared pages</p>
+      ${issues.length > 0 ? `
+        <div class="bg-red-900/20 border border-red-900/50 rounded-xl p-4 mb-4 space-y-3">
+          ${issues.map(issue => `
+            <div class="text-sm text-gray-300">
+              <div>
+                <span class="px-2 py-0.5 rounded bg-red-900/40 text-red-300 text-xs mr-2">${escapeHtml(TEMPLATE_ISSUE_LABELS[issue.type] || issue.type)}</span>
+                ${escapeHtml(issue.description)}
+              </div>
+              <div class="text-xs text-gray-500 mt-1 break-all">${issue.pages.slice(0, 5).map(url => escapeHtml(url)).join('<br>')}${issue.pages.length > 5 ? `<br>+${issue.pages.length - 5} more` : ''}</div>
+            </div>
+          `).join('')}
+        </div>
+      ` : `
+        <div class="bg-green-900/20 border border-green-900/50 rounded-xl p-4 mb-4 text-sm text-white">
+          <i class="fas fa-check-circle text-success mr-2"></i>Shared headings use the same structure on every page.
+        </div>
+      `}
+      ${shared.length > 0 ? `
+        <div class="bg-bgDark rounded-lg border border-gray-700 overflow-x-auto">
+          <table class="w-full text-sm">
+            <thead class="text-xs text-gray-400 uppercase border-b border-gray-700">
+              <tr><th class="text-left p-3">Heading</th><th class="text-left p-3">Landmark</th><th class="text-left p-3">Levels</th><th class="text-right p-3">Pages</th></tr>
+            </thead>
+            <tbody>
+              ${shared.map(h => `
+                <tr class="border-b border-gray-800">
+                  <td class="p-3 text-gray-300">${escapeHtml(h.text)}</td>
+                  <td class="p-3 text-gray-400">${escapeHtml(LANDMARK_LABELS[h.landmark] || h.landmark || '—')}</td>
+                  <td class="p-3 font-mono ${h.levels.length > 1 ? 'text-orange-400' : 'text-gray-300'}">${h.levels.map(l => `H${l}`).join(', ')}</td>
+                  <td class="p-3 text-right text-gray-300">${h.pageCount}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+        </div>
+      ` : ''}
+    </div>
+  `;
+}
+
 function generateHeadingStructureSingleView(data) {
   const headingStructure = data.headingStructure || { headings: [], issues: [] };
   const headings = headingStructure.headings || [];
   const issues = headingStructure.issues || [];
+  const outline = headingStructure.outline || [];
 
-  if (headings.length === 0) {
+  if (headings.length === 0 && outline.length === 0) {
     return `
       <div class="bg-cardDark rounded-xl border border-gray-700 p-6">
         <h3 class="text-xl font-bold text-white mb-4">Heading Structure</h3>
@@ -89,10 +229,11 @@ function generateHeadingStructureSingleView(data) {
 
       ${issuesHtml}
 
-      <!-- Headings List -->
+      <!-- Outline (landmarks + nested headings); older reports only have the flat list -->
       <div>
-        <h4 class="text-white font-bold mb-3">Hierarchy</h4>
+        <h4 class="text-white font-bold mb-3">${outline.length > 0 ? 'Document Outline' : 'Hierarchy'}</h4>
         <div class="bg-bgDark rounded-lg p-4 border border-gray-700 max-h-96 overflow-y-auto">
+          ${outline.length > 0 ? renderOutlineNodes(outline, getColorClass) : `
           <div class="space-y-2">
             ${headings.map(h => {
               const indent = (h.level - 1) * 16;
@@ -100,12 +241,16 @@ function generateHeadingStructureSingleView(data) {
                 <div class="flex items-center gap-2" style="margin-left: ${indent}px">
                   <span class="px-2 py-0.5 rounded border ${getColorClass(h.level)} font-mono text-xs shrink-0">H${h.level}</span>
                   <span class="text-gray-300 text-sm ${!h.text ? 'italic text-gray-500' : ''}">${h.text ? escapeHtml(h.text) : '(empty)'}</span>
+                  ${headingBadges(h)}
                 </div>
               `;
             }).join('')}
           </div>
+          `}
         </div>
       </div>
+
+      ${renderHiddenHeadings(headingStructure.hiddenHeadings)}
     </div>
   `;
 }
@@ -161,7 +306,9 @@ function generateHeadingStructureCrawlView(data) {
         </div>
       </div>
 
-      <div class="text-sm text-gray-400 text-center">
+      ${renderHeadingTemplates(data.headingTemplates)}
+
+      <div class="text-sm text-gray-400 text-center mt-6">
         <i class="fas fa-info-circle mr-2"></i>
         View individual page details in the Overview tab for complete heading structure analysis
       </div>
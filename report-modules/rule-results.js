@@ -0,0 +1,260 @@
+/**
+ * Manual Review Component
+ * Needs-review checklist (axe incomplete), WCAG criteria for manual audit,
+ * plus passed and inapplicable rules
+ * Supports both single-page and crawl modes
+ */
+
+const { escapeHtml } = require('./utils');
+
+function impactBadge(impact) {
+  if (!impact) return '';
+  const cls = impact === 'critical' ? 'bg-danger' : impact === 'serious' ? 'bg-warning' : 'bg-blue-500';
+  return `<span class="${cls} text-white px-2 py-0.5 rounded text-xs font-bold uppercase shrink-0">${escapeHtml(impact)}</span>`;
+}
+
+function renderNodeChecklist(nodes, pageUrl) {
+  return nodes.map(node => `
+    <label class="flex items-start gap-3 bg-bgDark rounded-lg border border-gray-700 p-3 cursor-pointer">
+      <input type="checkbox" class="mt-1 shrink-0 accent-blue-500">
+      <div class="flex-1 min-w-0">
+        <div class="text-sm text-white">${escapeHtml(node.elementLabel || node.cssSelector || (node.target || []).join(' '))}</div>
+        ${node.cssSelector ? `<div class="text-xs text-gray-500 font-mono break-all">${escapeHtml(node.cssSelector)}</div>` : ''}
+        ${node.componentName ? `<div class="text-xs text-gray-500"><i class="fas fa-cube mr-1"></i>${escapeHtml(node.componentName)}</div>` : ''}
+        ${node.accName ? `<div class="text-xs text-gray-500"><i class="fas fa-tag mr-1"></i>${escapeHtml(node.accName.role)} "${escapeHtml(node.accName.name || '(no name)')}"${node.accName.nameSource ? ` · from ${escapeHtml(node.accName.nameSource)}` : ''}</div>` : ''}
+        ${pageUrl ? `<div class="text-xs text-gray-500 break-all"><i class="fas fa-link mr-1"></i>${escapeHtml(pageUrl)}</div>` : ''}
+        ${node.failureSummary ? `<div class="text-xs text-gray-400 mt-1 whitespace-pre-line">${escapeHtml(node.failureSummary)}</div>` : ''}
+      </div>
+    </label>
+  `).join('');
+}
+
+function renderReviewRule(rule, entries, id) {
+  const total = entries.reduce((acc, e) => acc + e.nodes.length, 0);
+
+  return `
+    <div class="bg-bgDark rounded-lg border border-gray-700">
+      <button onclick="toggleIssueDetails('${id}')" class="w-full p-4 flex items-start gap-3 text-left">
+        ${impactBadge(rule.impact)}
+        <div class="flex-1">
+          <h4 class="font-bold text-white">${escapeHtml(rule.title)}</h4>
+          <p class="text-sm text-gray-400">${escapeHtml(rule.description)}</p>
+          <div class="text-xs text-gray-500 mt-1"><span class="font-mono">${escapeHtml(rule.id)}</span> · ${total} element${total === 1 ? '' : 's'} to verify</div>
+        </div>
+        <i id="icon-${id}" class="fas fa-chevron-down text-gray-400 transition-transform"></i>
+      </button>
+      <div id="${id}" class="hidden px-4 pb-4 space-y-2">
+        ${rule.helpUrl ? `<a href="${escapeHtml(rule.helpUrl)}" target="_blank" rel="noopener" class="text-xs text-brand hover:underline"><i class="fas fa-book mr-1"></i>Rule documentation</a>` : ''}
+        ${entries.map(e => renderNodeChecklist(e.nodes, e.pageUrl)).join('')}
+      </div>
+    </div>
+  `;
+}
+
+function renderRuleList(title, icon, iconClass, rules, id) {
+  if (rules.length === 0) return '';
+
+  return `
+    <div class="bg-cardDark rounded-xl border border-gray-700 p-6">
+      <button onclick="toggleIssueDetails('${id}')" class="w-full flex items-center gap-3 text-left">
+        <i class="fas ${icon} ${iconClass}"></i>
+        <h3 class="text-xl font-bold text-white flex-1">${title} (${rules.length})</h3>
+        <i id="icon-${id}" class="fas fa-chevron-down text-gray-400 transition-transform"></i>
+      </button>
+      <div id="${id}" class="hidden mt-4 grid grid-cols-1 md:grid-cols-2 gap-2">
+        ${rules.map(r => `
+          <div class="bg-bgDark rounded-lg border border-gray-700 px-3 py-2 text-sm">
+            <div class="text-white">${escapeHtml(r.title)}</div>
+            <div class="text-xs text-gray-500"><span class="font-mono">${escapeHtml(r.id)}</span>${r.detail ? ` · ${escapeHtml(r.detail)}` : ''}</div>
+          </div>
+        `).join('')}
+      </div>
+    </div>
+  `;
+}
+
+function renderStats(reviewRules, reviewNodes, passedCount, inapplicableCount) {
+  return `
+    <div class="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div class="bg-cardDark p-5 rounded-xl border-l-4 border-warning shadow-lg">
+        <div class="text-gray-400 text-sm font-medium mb-1">Needs Review</div>
+        <div class="text-3xl font-bold text-white">${reviewRules}</div>
+        <div class="text-xs text-warning mt-2"><i class="fas fa-user-check"></i> ${reviewNodes} element${reviewNodes === 1 ? '' : 's'} for manual check</div>
+      </div>
+      <div class="bg-cardDark p-5 rounded-xl border-l-4 border-success shadow-lg">
+        <div class="text-gray-400 text-sm font-medium mb-1">Passed Rules</div>
+        <div class="text-3xl font-bold text-white">${passedCount}</div>
+        <div class="text-xs text-success mt-2"><i class="fas fa-check-circle"></i> No issues found</div>
+      </div>
+      <div class="bg-cardDark p-5 rounded-xl border-l-4 border-gray-500 shadow-lg">
+        <div class="text-gray-400 text-sm font-medium mb-1">Inapplicable Rules</div>
+        <div class="text-3xl font-bold text-white">${inapplicableCount}</div>
+        <div class="text-xs text-gray-400 mt-2"><i class="fas fa-minus-circle"></i> No matching elements</div>
+      </div>
+    </div>
+  `;
+}
+
+function renderReviewSection(reviewItems) {
+  return `
+    <div class="bg-cardDark rounded-xl border border-gray-700 p-6">
+      <div class="flex items-center gap-3 mb-2">
+        <i class="fas fa-clipboard-check text-2xl text-warning"></i>
+        <h3 class="text-2xl font-bold text-white">Manual Review Checklist</h3>
+      </div>
+      <p class="text-sm text-gray-400 mb-4">Automated testing could not decide these items. Verify each element and tick it off.</p>
+      ${reviewItems.length > 0 ? `
+        <div class="space-y-3">
+          ${reviewItems.map((item, i) => renderReviewRule(item.rule, item.entries, `review-rule-${i}`)).join('')}
+        </div>
+      ` : `
+        <div class="bg-green-900/20 border border-green-900/50 rounded-xl p-4 flex items-center gap-3">
+          <i class="fas fa-check-circle text-success"></i>
+          <p class="text-white font-medium">Nothing left for manual review.</p>
+        </div>
+      `}
+    </div>
+  `;
+}
+
+const MANUAL_STATUS = {
+  pass: { label: 'Pass', cls: 'bg-green-600' },
+  fail: { label: 'Fail', cls: 'bg-danger' },
+  'not-applicable': { label: 'N/A', cls: 'bg-gray-600' },
+  pending: { label: 'To do', cls: 'bg-warning' }
+};
+
+function renderManualChecklist(items, meta) {
+  if (items.length === 0) return '';
+
+  return `
+    <div class="bg-cardDark rounded-xl border border-gray-700 p-6">
+      <div class="flex items-center gap-3 mb-2">
+        <i class="fas fa-user-shield text-2xl text-brand"></i>
+        <h3 class="text-2xl font-bold text-white">WCAG Criteria for Manual Audit</h3>
+      </div>
+      <p class="text-sm text-gray-400 mb-4">
+        ${meta.auditedAt
+          ? `Audited${meta.auditor ? ` by ${escapeHtml(meta.auditor)}` : ''} on ${escapeHtml(meta.auditedAt)}.`
+          : 'Automation cannot decide these success criteria. Record verdicts as JSON and merge them back into the report.'}
+      </p>
+      <div class="space-y-2">
+        ${items.map(item => {
+          const status = MANUAL_STATUS[item.status] || MANUAL_STATUS.pending;
+          return `
+            <div class="bg-bgDark rounded-lg border border-gray-700 p-4 flex items-start gap-3">
+              <span class="${status.cls} text-white px-2 py-0.5 rounded text-xs font-bold uppercase shrink-0">${status.label}</span>
+              <div class="flex-1">
+                <h4 class="font-bold text-white">${escapeHtml(item.name)}</h4>
+                <div class="text-xs text-gray-500 mb-1">WCAG ${escapeHtml((item.wcag || []).join(', '))} · <span class="font-mono">${escapeHtml(item.ruleId)}</span>${item.detail ? ` · ${escapeHtml(item.detail)}` : ''}</div>
+                <p class="text-sm text-gray-400">${escapeHtml(item.guidance)}</p>
+                ${item.note ? `<p class="text-sm text-gray-300 mt-1"><i class="fas fa-comment mr-1"></i>${escapeHtml(item.note)}</p>` : ''}
+              </div>
+            </div>
+          `;
+        }).join('')}
+      </div>
+    </div>
+  `;
+}
+
+function generateSingleView(data) {
+  const needsReview = data.needsReview || [];
+  const passes = data.passes || [];
+  const inapplicable = data.inapplicable || [];
+
+  const reviewItems = needsReview.map(rule => ({
+    rule,
+    entries: [{ pageUrl: null, nodes: rule.nodes || [] }]
+  }));
+  const reviewNodes = needsReview.reduce((acc, r) => acc + (r.nodeCount || 0), 0);
+
+  return `
+    <div class="space-y-6">
+      ${renderStats(needsReview.length, reviewNodes, passes.length, inapplicable.length)}
+      ${renderReviewSection(reviewItems)}
+      ${renderManualChecklist((data.manualChecklist || {}).items || [], data.manualChecklist || {})}
+      ${renderRuleList('Passed Rules', 'fa-check-circle', 'text-success',
+        passes.map(r => ({ id: r.id, title: r.title, detail: r.nodeCount ? `${r.nodeCount} element${r.nodeCount === 1 ? '' : 's'}` : '' })),
+        'passed-rules')}
+      ${renderRuleList('Inapplicable Rules', 'fa-minus-circle', 'text-gray-400',
+        inapplicable.map(r => ({ id: r.id, title: r.title })),
+        'inapplicable-rules')}
+    </div>
+  `;
+}
+
+function generateCrawlView(data) {
+  const pages = data.pages || [];
+  const reviewByRule = new Map();
+  const passedPages = new Map();
+  const inapplicablePages = new Map();
+
+  pages.forEach(page => {
+    (page.needsReview || []).forEach(rule => {
+      if (!reviewByRule.has(rule.id)) {
+        reviewByRule.set(rule.id, { rule, entries: [], nodeCount: 0 });
+      }
+      const item = reviewByRule.get(rule.id);
+      item.entries.push({ pageUrl: page.url, nodes: rule.nodes || [] });
+      item.nodeCount += rule.nodeCount || 0;
+    });
+
+    (page.passes || []).forEach(rule => {
+      const entry = passedPages.get(rule.id) || { id: rule.id, title: rule.title, pages: 0 };
+      entry.pages++;
+      passedPages.set(rule.id, entry);
+    });
+
+    (page.inapplicable || []).forEach(rule => {
+      const entry = inapplicablePages.get(rule.id) || { id: rule.id, title: rule.title, pages: 0 };
+      entry.pages++;
+      inapplicablePages.set(rule.id, entry);
+    });
+  });
+
+  // Manual criteria: worst status across pages (fail > to do > pass > n/a)
+  const manualByRule = new Map();
+  const statusRank = { fail: 3, pending: 2, pass: 1, 'not-applicable': 0 };
+  let manualMeta = {};
+  pages.forEach(page => {
+    const checklist = page.manualChecklist;
+    if (!checklist) return;
+    if (checklist.auditedAt) manualMeta = checklist;
+    (checklist.items || []).forEach(item => {
+      const entry = manualByRule.get(item.ruleId) || { ...item, failedPages: 0 };
+      if (statusRank[item.status] > statusRank[entry.status]) {
+        entry.status = item.status;
+        entry.note = item.note;
+      }
+      if (item.status === 'fail') entry.failedPages++;
+      manualByRule.set(item.ruleId, entry);
+    });
+  });
+  const manualItems = Array.from(manualByRule.values()).map(item => ({
+    ...item,
+    detail: item.failedPages > 0 ? `failed on ${item.failedPages}/${pages.length} pages` : ''
+  }));
+
+  const reviewItems = Array.from(reviewByRule.values()).sort((a, b) => b.nodeCount - a.nodeCount);
+  const reviewNodes = reviewItems.reduce((acc, item) => acc + item.nodeCount, 0);
+  const toList = (map) => Array.from(map.values()).map(r => ({
+    id: r.id,
+    title: r.title,
+    detail: `${r.pages}/${pages.length} pages`
+  }));
+
+  return `
+    <div class="space-y-6">
+      ${renderStats(reviewItems.length, reviewNodes, passedPages.size, inapplicablePages.size)}
+      ${renderReviewSection(reviewItems)}
+      ${renderManualChecklist(manualItems, manualMeta)}
+      ${renderRuleList('Passed Rules', 'fa-check-circle', 'text-success', toList(passedPages), 'passed-rules')}
+      ${renderRuleList('Inapplicable Rules', 'fa-minus-circle', 'text-gray-400', toList(inapplicablePages), 'inapplicable-rules')}
+    </div>
+  `;
+}
+
+module.exports = function generateRuleResults(data, isCrawl) {
+  return isCrawl ? generateCrawlView(data) : generateSingleView(data);
+};
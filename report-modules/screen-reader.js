@@ -0,0 +1,281 @@
+/**
+ * Screen Reader Component
+ * Linear "virtual screen reader" transcript built from the Chromium accessibility tree,
+ * accessible names of interactive elements and live announcements (status messages)
+ * recorded during the scan
+ * Supports both single-page and crawl modes
+ */
+
+const { escapeHtml } = require('./utils');
+
+const KIND_STYLES = {
+  document: 'text-gray-300 border-gray-500',
+  landmark: 'text-purple-400 border-purple-400',
+  heading: 'text-blue-400 border-blue-400',
+  link: 'text-green-400 border-green-400',
+  control: 'text-yellow-400 border-yellow-400',
+  image: 'text-pink-400 border-pink-400',
+  list: 'text-gray-400 border-gray-500',
+  table: 'text-gray-400 border-gray-500',
+  dialog: 'text-orange-400 border-orange-400',
+  text: 'text-gray-500 border-gray-700'
+};
+
+const COUNT_LABELS = {
+  landmarks: 'Landmarks',
+  headings: 'Headings',
+  links: 'Links',
+  controls: 'Controls',
+  images: 'Images',
+  unnamed: 'Unnamed'
+};
+
+const MISS_REASON_LABELS = {
+  'outside-live-region': 'Outside live region',
+  'region-inserted-with-content': 'Region inserted with text',
+  'hidden-region': 'Hidden live region'
+};
+
+// Crawl view renders one transcript per page – keep each one short
+const CRAWL_TRANSCRIPT_LIMIT = 300;
+const ELEMENT_TABLE_LIMIT = 200;
+
+function renderCounts(counts) {
+  return `
+    <div class="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
+      ${Object.keys(COUNT_LABELS).map(key => {
+        const value = counts[key] || 0;
+        const warn = key === 'unnamed' && value > 0;
+        return `
+          <div class="bg-bgDark rounded-lg p-3 border ${warn ? 'border-red-600' : 'border-gray-700'} text-center">
+            <div class="text-xs text-gray-400 mb-1">${COUNT_LABELS[key]}</div>
+            <div class="text-2xl font-bold ${warn ? 'text-red-400' : 'text-white'}">${value}</div>
+          </div>
+        `;
+      }).join('')}
+    </div>
+  `;
+}
+
+function renderTranscript(tree, id, limit) {
+  const lines = limit ? tree.transcript.slice(0, limit) : tree.transcript;
+  const hidden = tree.transcript.length - lines.length;
+
+  return `
+    <div class="flex items-center gap-2 mb-3">
+      <button onclick="speakTranscript('${id}')" class="px-3 py-1.5 rounded bg-brand text-white text-sm hover:bg-blue-700"><i class="fas fa-volume-up mr-1"></i>Read aloud</button>
+      <button onclick="window.speechSynthesis && window.speechSynthesis.cancel()" class="px-3 py-1.5 rounded bg-gray-700 text-gray-200 text-sm hover:bg-gray-600"><i class="fas fa-stop mr-1"></i>Stop</button>
+      <span class="text-xs text-gray-500">Uses your browser's speech synthesis</span>
+    </div>
+    <ol id="${id}" class="bg-bgDark rounded-lg p-4 border border-gray-700 max-h-[32rem] overflow-y-auto font-mono text-sm space-y-1">
+      ${lines.map(u => `
+        <li class="sr-line flex items-start gap-2" style="margin-left: ${Math.min(u.depth, 8) * 14}px" data-text="${escapeHtml(u.text)}">
+          <span class="px-1.5 rounded border text-[10px] uppercase shrink-0 ${KIND_STYLES[u.kind] || KIND_STYLES.text}">${escapeHtml(u.kind)}</span>
+          <span class="${u.unnamed ? 'text-red-400 font-bold' : (u.kind === 'text' ? 'text-gray-400' : 'text-gray-200')}">${escapeHtml(u.text)}</span>
+          ${u.unnamed ? '<i class="fas fa-exclamation-triangle text-red-400 mt-0.5" title="No accessible name"></i>' : ''}
+        </li>
+      `).join('')}
+    </ol>
+    ${hidden > 0 || tree.truncated ? `
+      <p class="text-xs text-gray-500 mt-2"><i class="fas fa-info-circle mr-1"></i>Transcript shortened${hidden > 0 ? ` (${hidden} more lines in the JSON report)` : ' to keep the report small'}.</p>
+    ` : ''}
+  `;
+}
+
+function renderAnnouncements(liveRegions) {
+  const announcements = liveRegions.announcements || [];
+
+  return `
+    <div class="flex flex-wrap gap-3 text-sm mb-3">
+      <span class="px-2 py-1 rounded bg-bgDark border border-gray-700 text-gray-300">${liveRegions.regionCount} live regions</span>
+      <span class="px-2 py-1 rounded bg-bgDark border border-green-700 text-green-400">${liveRegions.announcedCount} announced</span>
+      <span class="px-2 py-1 rounded bg-bgDark border ${liveRegions.missedCount > 0 ? 'border-red-600 text-red-400' : 'border-gray-700 text-gray-400'}">${liveRegions.missedCount} missed</span>
+    </div>
+    ${announcements.length === 0 ? `
+      <p class="text-sm text-gray-500">No dynamic messages appeared during the scan.</p>
+    ` : `
+      <div class="overflow-x-auto">
+        <table class="w-full text-sm text-left">
+          <thead class="text-xs text-gray-400 uppercase border-b border-gray-700">
+            <tr><th class="py-2 pr-3">Time</th><th class="py-2 pr-3">Action</th><th class="py-2 pr-3">Status</th><th class="py-2 pr-3">Message</th><th class="py-2">Element</th></tr>
+          </thead>
+          <tbody>
+            ${announcements.map(a => `
+              <tr class="border-b border-gray-800 align-top">
+                <td class="py-2 pr-3 text-gray-400 whitespace-nowrap">+${(a.offsetMs / 1000).toFixed(1)} s</td>
+                <td class="py-2 pr-3 text-gray-300 font-mono text-xs">${escapeHtml(a.action)}</td>
+                <td class="py-2 pr-3 whitespace-nowrap">${a.status === 'missed'
+                  ? `<span class="text-red-400 font-bold">Missed</span><div class="text-xs text-gray-500">${escapeHtml(MISS_REASON_LABELS[a.reason] || '')}</div>`
+                  : `<span class="text-green-400">Announced</span><div class="text-xs text-gray-500">${escapeHtml(a.politeness || '')}</div>`}</td>
+                <td class="py-2 pr-3 text-gray-200">${escapeHtml(a.text)}</td>
+                <td class="py-2 text-gray-400 font-mono text-xs break-all">${escapeHtml(a.selector)}</td>
+              </tr>
+            `).join('')}
+          </tbody>
+        </table>
+      </div>
+    `}
+    ${liveRegions.truncated ? '<p class="text-xs text-gray-500 mt-2"><i class="fas fa-info-circle mr-1"></i>Only the first 100 messages were recorded.</p>' : ''}
+  `;
+}
+
+function renderAnnouncementsCard(liveRegions) {
+  if (!liveRegions) return '';
+
+  return `
+    <div class="bg-cardDark rounded-xl border border-gray-700 p-6">
+      <div class="flex items-center gap-3 mb-4">
+        <i class="fas fa-bullhorn text-2xl text-brand"></i>
+        <div>
+          <h3 class="text-2xl font-bold text-white">Live Announcements</h3>
+          <p class="text-sm text-gray-400">Messages that appeared while the scan ran, and whether a screen reader announces them (WCAG 4.1.3 Status Messages).</p>
+        </div>
+      </div>
+      ${renderAnnouncements(liveRegions)}
+    </div>
+  `;
+}
+
+function renderInteractiveElements(inventory, limit) {
+  const counts = inventory.counts || {};
+  // Problems first
+  const rank = e => (e.labelInNameMismatch ? 0 : !e.name ? 1 : e.iconOnly ? 2 : 3);
+  const elements = [...(inventory.elements || [])].sort((a, b) => rank(a) - rank(b));
+  const shown = elements.slice(0, limit);
+
+  return `
+    <div class="flex flex-wrap gap-3 text-sm mb-3">
+      <span class="px-2 py-1 rounded bg-bgDark border border-gray-700 text-gray-300">${inventory.total} interactive elements</span>
+      <span class="px-2 py-1 rounded bg-bgDark border ${counts.unnamed > 0 ? 'border-red-600 text-red-400' : 'border-gray-700 text-gray-400'}">${counts.unnamed || 0} without name</span>
+      <span class="px-2 py-1 rounded bg-bgDark border ${counts.labelInNameMismatches > 0 ? 'border-red-600 text-red-400' : 'border-gray-700 text-gray-400'}">${counts.labelInNameMismatches || 0} label not in name</span>
+      <span class="px-2 py-1 rounded bg-bgDark border ${counts.duplicateIconNames > 0 ? 'border-yellow-600 text-yellow-400' : 'border-gray-700 text-gray-400'}">${counts.duplicateIconNames || 0} duplicate icon names</span>
+    </div>
+    <div class="overflow-x-auto max-h-[32rem] overflow-y-auto">
+      <table class="w-full text-sm text-left">
+        <thead class="text-xs text-gray-400 uppercase border-b border-gray-700">
+          <tr><th class="py-2 pr-3">Role</th><th class="py-2 pr-3">Accessible name</th><th class="py-2 pr-3">Source</th><th class="py-2 pr-3">Visible label</th><th class="py-2 pr-3">Description</th><th class="py-2">Element</th></tr>
+        </thead>
+        <tbody>
+          ${shown.map(e => `
+            <tr class="border-b border-gray-800 align-top">
+              <td class="py-2 pr-3 text-gray-300">${escapeHtml(e.role)}${e.iconOnly ? ' <i class="fas fa-icons text-gray-500" title="Icon only"></i>' : ''}</td>
+              <td class="py-2 pr-3 ${!e.name || e.labelInNameMismatch ? 'text-red-400 font-bold' : 'text-gray-200'}">${e.name ? escapeHtml(e.name) : '(no name)'}</td>
+              <td class="py-2 pr-3 text-gray-400 font-mono text-xs">${escapeHtml(e.nameSource || '')}</td>
+              <td class="py-2 pr-3 text-gray-400">${escapeHtml(e.visibleLabel || '')}</td>
+              <td class="py-2 pr-3 text-gray-400">${escapeHtml(e.description || '')}</td>
+              <td class="py-2 text-gray-500 font-mono text-xs break-all">${escapeHtml(e.selector)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+    ${elements.length > shown.length || inventory.truncated ? `
+      <p class="text-xs text-gray-500 mt-2"><i class="fas fa-info-circle mr-1"></i>Showing ${shown.length} of ${inventory.total} elements – the full list is in the JSON report.</p>
+    ` : ''}
+  `;
+}
+
+function renderInteractiveElementsCard(inventory) {
+  if (!inventory) return '';
+
+  return `
+    <div class="bg-cardDark rounded-xl border border-gray-700 p-6">
+      <div class="flex items-center gap-3 mb-4">
+        <i class="fas fa-tags text-2xl text-brand"></i>
+        <div>
+          <h3 class="text-2xl font-bold text-white">Accessible Names</h3>
+          <p class="text-sm text-gray-400">Name and description of every interactive element as computed by the browser (accname 1.2), compared with the visible label (WCAG 2.5.3 Label in Name).</p>
+        </div>
+      </div>
+      ${renderInteractiveElements(inventory, ELEMENT_TABLE_LIMIT)}
+    </div>
+  `;
+}
+
+function generateScreenReaderSingleView(data) {
+  const tree = data.accessibilityTree;
+
+  if (!tree || !Array.isArray(tree.transcript) || tree.transcript.length === 0) {
+    return `
+      <div class="space-y-6">
+        <div class="bg-cardDark rounded-xl border border-gray-700 p-6 text-gray-400">
+          <i class="fas fa-info-circle mr-2"></i>No accessibility tree data in this report.
+        </div>
+        ${renderInteractiveElementsCard(data.interactiveElements)}
+        ${renderAnnouncementsCard(data.liveRegions)}
+      </div>
+    `;
+  }
+
+  return `
+    <div class="space-y-6">
+      <div class="bg-cardDark rounded-xl border border-gray-700 p-6 space-y-6">
+        <div class="flex items-center gap-3">
+          <i class="fas fa-headphones text-2xl text-brand"></i>
+          <div>
+            <h3 class="text-2xl font-bold text-white">Screen Reader Transcript</h3>
+            <p class="text-sm text-gray-400">What a screen reader announces when reading the page top to bottom – role, name, state, headings and landmarks from the accessibility tree (${tree.nodeCount} nodes).</p>
+          </div>
+        </div>
+        ${renderCounts(tree.counts || {})}
+        <div>${renderTranscript(tree, 'sr-transcript')}</div>
+      </div>
+      ${renderInteractiveElementsCard(data.interactiveElements)}
+      ${renderAnnouncementsCard(data.liveRegions)}
+    </div>
+  `;
+}
+
+function generateScreenReaderCrawlView(data) {
+  const pages = (data.pages || []).filter(page => page.accessibilityTree && Array.isArray(page.accessibilityTree.transcript));
+
+  if (pages.length === 0) {
+    return `
+      <div class="bg-cardDark rounded-xl border border-gray-700 p-6 text-gray-400">
+        <i class="fas fa-info-circle mr-2"></i>No accessibility tree data in this report.
+      </div>
+    `;
+  }
+
+  return `
+    <div class="space-y-4">
+      <div class="flex items-center gap-3">
+        <i class="fas fa-headphones text-2xl text-brand"></i>
+        <div>
+          <h3 class="text-2xl font-bold text-white">Screen Reader Transcripts</h3>
+          <p class="text-sm text-gray-400">${pages.length} pages – expand a page to read its transcript.</p>
+        </div>
+      </div>
+      ${pages.map((page, i) => {
+        const tree = page.accessibilityTree;
+        const id = `sr-page-${i}`;
+        const unnamed = (tree.counts && tree.counts.unnamed) || 0;
+        const missed = (page.liveRegions && page.liveRegions.missedCount) || 0;
+        return `
+          <div class="bg-cardDark rounded-xl border border-gray-700 p-4">
+            <button onclick="toggleIssueDetails('${id}-wrap')" class="w-full flex items-center gap-3 text-left">
+              <span class="flex-1 text-white text-sm font-mono break-all">${escapeHtml(page.url)}</span>
+              ${unnamed > 0 ? `<span class="bg-danger text-white px-2 py-0.5 rounded text-xs font-bold">${unnamed} unnamed</span>` : ''}
+              ${missed > 0 ? `<span class="bg-warning text-white px-2 py-0.5 rounded text-xs font-bold">${missed} missed announcements</span>` : ''}
+              <i id="icon-${id}-wrap" class="fas fa-chevron-down text-gray-400 transition-transform"></i>
+            </button>
+            <div id="${id}-wrap" class="hidden mt-4 space-y-4">
+              ${renderCounts(tree.counts || {})}
+              <div>${renderTranscript(tree, id, CRAWL_TRANSCRIPT_LIMIT)}</div>
+              ${page.interactiveElements ? `<div><h4 class="text-white font-semibold mb-2">Accessible names</h4>${renderInteractiveElements(page.interactiveElements, 50)}</div>` : ''}
+              ${page.liveRegions ? `<div><h4 class="text-white font-semibold mb-2">Live announcements</h4>${renderAnnouncements(page.liveRegions)}</div>` : ''}
+            </div>
+          </div>
+        `;
+      }).join('')}
+    </div>
+  `;
+}
+
+module.exports = function generateScreenReader(data, isCrawl) {
+  if (isCrawl) {
+    return generateScreenReaderCrawlView(data);
+  } else {
+    return generateScreenReaderSingleView(data);
+  }
+};
@@ -46,7 +46,7 @@ module.exports = function getScripts() {
         event.currentTarget.classList.add('bg-brand/10', 'text-brand', 'border', 'border-brand/20');
 
         // Hide all sections
-        ['summary', 'performance', 'structure'].forEach(id => {
+        ['summary', 'performance', 'structure', 'review', 'conformance', 'screenreader'].forEach(id => {
           const el = document.getElementById('tab-' + id);
           if (el) el.classList.add('hidden');
         });
@@ -104,6 +104,22 @@ module.exports = function getScripts() {
         }, 2000);
       }
 
+      // Read screen reader transcript aloud (browser speech synthesis)
+      function speakTranscript(listId) {
+        if (!window.speechSynthesis) return;
+        const list = document.getElementById(listId);
+        if (!list) return;
+
+        window.speechSynthesis.cancel();
+        list.querySelectorAll('.sr-line').forEach(line => {
+          const utterance = new SpeechSynthesisUtterance(line.dataset.text || '');
+          utterance.lang = 'en-US';
+          utterance.onstart = () => line.classList.add('bg-brand/20');
+          utterance.onend = () => line.classList.remove('bg-brand/20');
+          window.speechSynthesis.speak(utterance);
+        });
+      }
+
       // Initialize - show first tab on load
       document.addEventListener('DOMContentLoaded', () => {
         console.log('A11y Flow Report loaded');
@@ -1,6 +1,6 @@
 /**
  * Sidebar Navigation Component
- * Tab navigation for Summary, Performance, and Heading Structure sections
+ * Tab navigation for Summary, Performance, Heading Structure, Manual Review, WCAG Conformance and Screen Reader sections
  */
 
 module.exports = function generateSidebar(stats, isCrawl) {
@@ -29,6 +29,15 @@ module.exports = function generateSidebar(stats, isCrawl) {
           <button onclick="switchTab('structure')" class="nav-btn w-full text-left px-4 py-3 rounded-lg text-gray-400 hover:bg-gray-700/50 hover:text-white transition-colors flex items-center gap-3">
             <i class="fas fa-sitemap w-5"></i> Structure
           </button>
+          <button onclick="switchTab('review')" class="nav-btn w-full text-left px-4 py-3 rounded-lg text-gray-400 hover:bg-gray-700/50 hover:text-white transition-colors flex items-center gap-3">
+            <i class="fas fa-clipboard-check w-5"></i> Manual Review
+          </button>
+          <button onclick="switchTab('conformance')" class="nav-btn w-full text-left px-4 py-3 rounded-lg text-gray-400 hover:bg-gray-700/50 hover:text-white transition-colors flex items-center gap-3">
+            <i class="fas fa-list-check w-5"></i> WCAG Conformance
+          </button>
+          <button onclick="switchTab('screenreader')" class="nav-btn w-full text-left px-4 py-3 rounded-lg text-gray-400 hover:bg-gray-700/50 hover:text-white transition-colors flex items-center gap-3">
+            <i class="fas fa-headphones w-5"></i> Screen Reader
+          </button>
           ${totalIssues > 0 ? `
             <div class="mt-4 pt-4 border-t border-gray-700">
               <div class="text-xs text-gray-500 uppercase tracking-wider mb-2 px-4">Issues</div>
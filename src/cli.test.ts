@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { main, EXIT_OK, EXIT_POLICY_FAILED, EXIT_USAGE, EXIT_SCAN_FAILED } from './cli';
+import { WebScanner } from './core/WebScanner';
+import { Crawler } from './core/Crawler';
+import { AuditReport } from './core/types';
+import { PAGE_URL, crawl as crawlSummary, page, violation } from './core/testFixtures';
+
+// Skutečný prohlížeč ve specu nespouštíme – sken i crawl vrací připravený report
+jest.mock('./core/WebScanner', () => ({
+  ...jest.requireActual('./core/WebScanner'),
+  WebScanner: jest.fn(),
+}));
+jest.mock('./core/Crawler', () => ({ Crawler: jest.fn() }));
+
+const MockedWebScanner = WebScanner as unknown as jest.Mock;
+const MockedCrawler = Crawler as unknown as jest.Mock;
+
+function report(score: number, criticalCount = 0): AuditReport {
+  const critical = criticalCount > 0 ? [violation('image-alt', 'critical', [], { count: criticalCount })] : [];
+  return page(PAGE_URL, critical, { score });
+}
+
+describe('cli main', () => {
+  let dir: string;
+  let scan: jest.Mock;
+  let closeBrowser: jest.Mock;
+  let crawl: jest.Mock;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'a11y-flow-cli-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    scan = jest.fn().mockResolvedValue(report(95));
+    closeBrowser = jest.fn().mockResolvedValue(undefined);
+    crawl = jest.fn();
+    MockedWebScanner.mockImplementation(() => ({ scan, closeBrowser }));
+    MockedCrawler.mockImplementation(() => ({ crawl }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const output = () => path.join(dir, 'report');
+
+  const writePolicy = (policy: unknown): string => {
+    const file = path.join(dir, 'policy.json');
+    fs.writeFileSync(file, JSON.stringify(policy));
+    return file;
+  };
+
+  it('prints help with exit code 0', async () => {
+    await expect(main(['--help'])).resolves.toBe(EXIT_OK);
+    expect(scan).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [[]],
+    [['audit', 'https://example.com']],
+    [['scan']],
+    [['scan', 'not a url']],
+    [['scan', 'https://example.com', '--unknown', 'x']],
+    [['scan', 'https://example.com', '--device']],
+    [['scan', 'https://example.com', '--device', 'toaster']],
+    [['crawl', 'https://example.com', '--max-pages', '0']],
+    [['scan', 'https://example.com', '--format', 'json,pdf']],
+    [['scan', 'https://example.com', '--acr-edition', 'XYZ']],
+    [['scan', 'https://example.com', '--act-tests', 'no-such-test']],
+    [['scan', 'https://example.com', '--basic-auth', 'nopassword']],
+    [['scan', 'https://example.com', '--header', 'no separator']],
+    [['scan', 'https://example.com', '--cookie', '=value']],
+    [['scan', 'https://example.com', '--credential-origins', 'not-an-origin']],
+    [['scan', 'https://example.com', '--policy', '/nonexistent/policy.json']],
+  ])('returns exit code 2 for %j', async (argv) => {
+    await expect(main(argv)).resolves.toBe(EXIT_USAGE);
+    expect(scan).not.toHaveBeenCalled();
+  });
+
+  it('returns exit code 2 for an invalid policy file', async () => {
+    const policy = writePolicy({ minScore: 'high' });
+
+    await expect(main(['scan', 'https://example.com', '--policy', policy])).resolves.toBe(EXIT_USAGE);
+    expect(scan).not.toHaveBeenCalled();
+  });
+
+  it('returns exit code 0 and writes the report when no policy is given', async () => {
+    await expect(main(['scan', 'https://example.com', '--output', output()])).resolves.toBe(EXIT_OK);
+
+    expect(JSON.parse(fs.readFileSync(`${output()}.json`, 'utf-8')).score).toBe(95);
+    expect(closeBrowser).toHaveBeenCalled();
+  });
+
+  it('returns exit code 0 when the policy passes and 1 when it fails', async () => {
+    const policy = writePolicy({ minScore: 90, maxCritical: 0 });
+    const argv = ['scan', 'https://example.com', '--output', output(), '--policy', policy];
+
+    await expect(main(argv)).resolves.toBe(EXIT_OK);
+
+    scan.mockResolvedValue(report(80, 2));
+    await expect(main(argv)).resolves.toBe(EXIT_POLICY_FAILED);
+  });
+
+  it('returns exit code 3 when the scan fails and still closes the browser', async () => {
+    scan.mockRejectedValue(new Error('net::ERR_NAME_NOT_RESOLVED'));
+
+    await expect(main(['scan', 'https://example.com', '--output', output()])).resolves.toBe(EXIT_SCAN_FAILED);
+    expect(closeBrowser).toHaveBeenCalled();
+  });
+
+  it('returns exit code 3 when a crawl scans no page', async () => {
+    crawl.mockResolvedValue(crawlSummary([]));
+
+    await expect(main(['crawl', 'https://example.com', '--output', output()])).resolves.toBe(EXIT_SCAN_FAILED);
+    expect(MockedCrawler).toHaveBeenCalledWith(5, expect.objectContaining({ device: 'desktop' }));
+  });
+
+  it('passes credentials from the options to the scanner', async () => {
+    const argv = [
+      'scan',
+      'https://example.com/app',
+      '--output',
+      output(),
+      '--header',
+      'X-Team: a11y',
+      '--header=Authorization: Bearer abc:def',
+      '--basic-auth',
+      'user:pa:ss',
+      '--cookie',
+      'session=a=b',
+      '--credential-origins',
+      'https://api.example.com',
+    ];
+
+    await expect(main(argv)).resolves.toBe(EXIT_OK);
+
+    expect(scan).toHaveBeenCalledWith('https://example.com/app', expect.objectContaining({
+      auth: {
+        headers: { 'X-Team': 'a11y', Authorization: 'Bearer abc:def' },
+        basicAuth: { username: 'user', password: 'pa:ss' },
+        cookies: [{ name: 'session', value: 'a=b', domain: 'example.com' }],
+        credentialOrigins: ['https://api.example.com'],
+      },
+    }));
+  });
+});
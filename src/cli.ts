@@ -0,0 +1,438 @@
+#!/usr/bin/env node
+/**
+ * a11y-flow CLI – vstupní bod pro CI pipeline.
+ *
+ * Použití:
+ *   a11y-flow scan <url>  [--device mobile] [--format json,html,sarif,junit,tap,acr,acr-doc] [--output ./report] [--policy policy.json]
+ *   a11y-flow crawl <url> [--max-pages 10] [...]
+ *   Vlastní pravidla: [--rule-pack ./packs/design-system.js] [--act-tests focus-order,ds-button-size]
+ *   Přihlášení: [--auth auth.json] [--header "Authorization: Bearer …"] [--basic-auth user:pass] [--cookie name=value]
+ *
+ * Exit kódy:
+ *   0 – sken proběhl a politika prošla (nebo žádná nebyla zadána)
+ *   1 – politika porušena (build má selhat)
+ *   2 – chybné argumenty nebo neplatný policy soubor
+ *   3 – sken samotný selhal (síť, prohlížeč, …)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { URL } from 'url';
+import { WebScanner, ScanAuthOptions, ScanDevice, SCAN_DEVICES } from './core/WebScanner';
+import { Crawler } from './core/Crawler';
+import { SarifExporter } from './core/SarifExporter';
+import { TestRunnerExporter } from './core/TestRunnerExporter';
+import { PolicyEvaluator, A11yPolicy, PolicyResult } from './core/PolicyEvaluator';
+import { AcrGenerator } from './core/AcrGenerator';
+import { listCustomActTests, loadActRulePack } from './core/acts/CustomActSuite';
+import { AcrEdition, AuditReport, CrawlSummary } from './core/types';
+
+export const EXIT_OK = 0;
+export const EXIT_POLICY_FAILED = 1;
+export const EXIT_USAGE = 2;
+export const EXIT_SCAN_FAILED = 3;
+
+type CliCommand = 'scan' | 'crawl';
+type OutputFormat = 'json' | 'html' | 'sarif' | 'junit' | 'tap' | 'acr' | 'acr-doc';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['json', 'html', 'sarif', 'junit', 'tap', 'acr', 'acr-doc'];
+
+interface CliOptions {
+  command: CliCommand;
+  url: string;
+  device: ScanDevice;
+  maxPages: number;
+  formats: OutputFormat[];
+  output: string;
+  policyPath?: string;
+  acrEdition: AcrEdition;
+  rulePacks: string[];
+  enabledTests?: string[];
+  auth?: ScanAuthOptions;
+}
+
+class UsageError extends Error {}
+
+const USAGE = `Usage:
+  a11y-flow scan <url>  [options]
+  a11y-flow crawl <url> [options]
+
+Options:
+  --device <name>      ${SCAN_DEVICES.join(' | ')} (default: desktop)
+  --max-pages <n>      Max pages for crawl, 1-50 (default: 5)
+  --format <list>      Comma separated output formats: ${OUTPUT_FORMATS.join(', ')} (default: json)
+  --output <path>      Output file path without extension (default: a11y-flow-report-<timestamp>)
+  --policy <file>      JSON policy file (minScore, minPageScore, maxCritical, maxSerious, failOnRules)
+  --acr-edition <ed>   VPAT edition for acr/acr-doc output: ${AcrGenerator.EDITIONS.join(', ')} (default: WCAG)
+  --rule-pack <list>   Comma separated custom ACT rule pack modules to load
+  --act-tests <list>   Comma separated custom ACT test IDs to run (default: all default-enabled tests)
+  --auth <file>        JSON file with login options (cookies, headers, basicAuth, credentialOrigins, formLogin)
+  --header <h>         Extra request header "Name: value", repeatable; sent only to the scanned origin
+  --basic-auth <u:p>   HTTP Basic credentials "user:password", sent only to the scanned origin
+  --cookie <c>         Session cookie "name=value" for the scanned host, repeatable
+  --credential-origins <list>  Comma separated extra origins allowed to receive headers / basic auth
+  -h, --help           Show this help
+
+Exit codes: 0 passed, 1 policy failed, 2 usage error, 3 scan failed`;
+
+// Volby, které lze zadat vícekrát (každý výskyt přidá hodnotu)
+const REPEATABLE_FLAGS = ['header', 'cookie'];
+
+function parseArgs(argv: string[]): CliOptions {
+  const positional: string[] = [];
+  const flags: Record<string, string> = {};
+  const repeated: Record<string, string[]> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith('--')) {
+      const separator = arg.indexOf('=');
+      const name = separator === -1 ? arg.slice(2) : arg.slice(2, separator);
+      const value = separator === -1 ? argv[++i] : arg.slice(separator + 1);
+      if (value === undefined) {
+        throw new UsageError(`Missing value for --${name}`);
+      }
+      if (REPEATABLE_FLAGS.includes(name)) {
+        (repeated[name] = repeated[name] || []).push(value);
+      }
+      flags[name] = value;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  const [command, url] = positional;
+
+  if (command !== 'scan' && command !== 'crawl') {
+    throw new UsageError(command ? `Unknown command "${command}"` : 'Missing command');
+  }
+
+  if (!url) {
+    throw new UsageError('Missing <url>');
+  }
+
+  try {
+    new URL(url);
+  } catch {
+    throw new UsageError(`Invalid URL "${url}"`);
+  }
+
+  const knownFlags = [
+    'device',
+    'max-pages',
+    'format',
+    'output',
+    'policy',
+    'acr-edition',
+    'rule-pack',
+    'act-tests',
+    'auth',
+    'header',
+    'basic-auth',
+    'cookie',
+    'credential-origins',
+  ];
+  for (const name of Object.keys(flags)) {
+    if (!knownFlags.includes(name)) {
+      throw new UsageError(`Unknown option --${name}`);
+    }
+  }
+
+  const device = (flags.device || 'desktop') as ScanDevice;
+  if (!SCAN_DEVICES.includes(device)) {
+    throw new UsageError(`Unknown device "${flags.device}"`);
+  }
+
+  const maxPages = flags['max-pages'] !== undefined ? Number(flags['max-pages']) : 5;
+  if (!Number.isInteger(maxPages) || maxPages < 1 || maxPages > 50) {
+    throw new UsageError('--max-pages must be an integer between 1 and 50');
+  }
+
+  const formats = (flags.format || 'json').split(',').map((f) => f.trim()).filter(Boolean) as OutputFormat[];
+  const unknownFormat = formats.find((f) => !OUTPUT_FORMATS.includes(f));
+  if (unknownFormat) {
+    throw new UsageError(`Unknown format "${unknownFormat}"`);
+  }
+
+  const acrEdition = (flags['acr-edition'] || 'WCAG') as AcrEdition;
+  if (!AcrGenerator.EDITIONS.includes(acrEdition)) {
+    throw new UsageError(`Unknown ACR edition "${flags['acr-edition']}"`);
+  }
+
+  return {
+    command,
+    url,
+    device,
+    maxPages,
+    formats,
+    output: flags.output || `a11y-flow-report-${Date.now()}`,
+    policyPath: flags.policy,
+    acrEdition,
+    rulePacks: splitList(flags['rule-pack']),
+    enabledTests: flags['act-tests'] !== undefined ? splitList(flags['act-tests']) : undefined,
+    auth: parseAuth(flags, repeated, url),
+  };
+}
+
+/**
+ * Složí přihlašovací údaje z --auth souboru a jednotlivých voleb (volby mají přednost).
+ * Hesla a tokeny je bezpečnější předat souborem – příkazová řádka je vidět v seznamu procesů.
+ */
+function parseAuth(flags: Record<string, string>, repeated: Record<string, string[]>, url: string): ScanAuthOptions | undefined {
+  let auth: ScanAuthOptions = {};
+
+  if (flags.auth !== undefined) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(flags.auth, 'utf-8'));
+    } catch (e) {
+      throw new UsageError(`Cannot read auth file ${flags.auth}: ${e instanceof Error ? e.message : e}`);
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new UsageError(`Invalid auth file ${flags.auth}: expected a JSON object`);
+    }
+    auth = raw as ScanAuthOptions;
+  }
+
+  for (const header of repeated.header || []) {
+    const separator = header.indexOf(':');
+    const name = header.slice(0, separator).trim();
+    if (separator === -1 || !name) {
+      throw new UsageError(`Invalid --header "${header}", expected "Name: value"`);
+    }
+    auth.headers = { ...auth.headers, [name]: header.slice(separator + 1).trim() };
+  }
+
+  if (flags['basic-auth'] !== undefined) {
+    const separator = flags['basic-auth'].indexOf(':');
+    if (separator <= 0) {
+      throw new UsageError('Invalid --basic-auth, expected "user:password"');
+    }
+    auth.basicAuth = {
+      username: flags['basic-auth'].slice(0, separator),
+      password: flags['basic-auth'].slice(separator + 1),
+    };
+  }
+
+  for (const cookie of repeated.cookie || []) {
+    const separator = cookie.indexOf('=');
+    if (separator <= 0) {
+      throw new UsageError(`Invalid --cookie "${cookie}", expected "name=value"`);
+    }
+    auth.cookies = [
+      ...(auth.cookies || []),
+      { name: cookie.slice(0, separator).trim(), value: cookie.slice(separator + 1), domain: new URL(url).hostname },
+    ];
+  }
+
+  if (flags['credential-origins'] !== undefined) {
+    const origins = splitList(flags['credential-origins']);
+    const invalid = origins.find((o) => {
+      try {
+        new URL(o);
+        return false;
+      } catch {
+        return true;
+      }
+    });
+    if (invalid) {
+      throw new UsageError(`Invalid origin "${invalid}" in --credential-origins`);
+    }
+    auth.credentialOrigins = origins;
+  }
+
+  return Object.keys(auth).length > 0 ? auth : undefined;
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * Načte rule packy a ověří výběr testů – až po načtení packů známe všechna ID.
+ */
+function loadRulePacks(options: CliOptions): void {
+  for (const modulePath of options.rulePacks) {
+    try {
+      loadActRulePack(modulePath);
+    } catch (e) {
+      throw new UsageError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  const knownTests = listCustomActTests().map((t) => t.id);
+  const unknownTest = (options.enabledTests || []).find((id) => !knownTests.includes(id));
+  if (unknownTest) {
+    throw new UsageError(`Unknown custom ACT test "${unknownTest}"`);
+  }
+}
+
+function loadPolicy(policyPath: string): A11yPolicy {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(policyPath, 'utf-8'));
+  } catch (e) {
+    throw new UsageError(`Cannot read policy file ${policyPath}: ${e instanceof Error ? e.message : e}`);
+  }
+
+  try {
+    return PolicyEvaluator.parse(raw);
+  } catch (e) {
+    throw new UsageError(e instanceof Error ? e.message : String(e));
+  }
+}
+
+async function runScan(options: CliOptions): Promise<AuditReport | CrawlSummary> {
+  if (options.command === 'crawl') {
+    const crawler = new Crawler(options.maxPages, {
+      device: options.device,
+      enabledTests: options.enabledTests,
+      auth: options.auth,
+    });
+    return crawler.crawl(options.url);
+  }
+
+  const scanner = new WebScanner();
+  try {
+    return await scanner.scan(options.url, {
+      device: options.device,
+      enabledTests: options.enabledTests,
+      auth: options.auth,
+    });
+  } finally {
+    await scanner.closeBrowser();
+  }
+}
+
+function writeOutputs(result: AuditReport | CrawlSummary, options: CliOptions): string[] {
+  const written: string[] = [];
+  const basePath = path.resolve(options.output.replace(/\.(json|html|sarif|junit\.xml|tap|acr\.html|acr\.doc)$/i, ''));
+  const jsonPath = `${basePath}.json`;
+
+  // HTML report generator čte JSON, takže ho zapisujeme vždy, když je potřeba
+  if (options.formats.includes('json') || options.formats.includes('html')) {
+    fs.writeFileSync(jsonPath, JSON.stringify(result, null, 2));
+    if (options.formats.includes('json')) written.push(jsonPath);
+  }
+
+  if (options.formats.includes('html')) {
+    const generator = path.resolve(__dirname, '..', 'generate-html-report-v2.js');
+    const proc = spawnSync(process.execPath, [generator, jsonPath], { stdio: 'inherit' });
+    if (proc.status === 0) {
+      written.push(`${basePath}.html`);
+    } else {
+      console.warn('[a11y-flow] HTML report generation failed, continuing with remaining outputs.');
+    }
+  }
+
+  if (options.formats.includes('sarif')) {
+    const sarifPath = `${basePath}.sarif`;
+    fs.writeFileSync(sarifPath, JSON.stringify(SarifExporter.export(result), null, 2));
+    written.push(sarifPath);
+  }
+
+  if (options.formats.includes('junit')) {
+    const junitPath = `${basePath}.junit.xml`;
+    fs.writeFileSync(junitPath, TestRunnerExporter.toJUnitXml(result));
+    written.push(junitPath);
+  }
+
+  if (options.formats.includes('tap')) {
+    const tapPath = `${basePath}.tap`;
+    fs.writeFileSync(tapPath, TestRunnerExporter.toTap(result));
+    written.push(tapPath);
+  }
+
+  if (options.formats.includes('acr') || options.formats.includes('acr-doc')) {
+    const acr = AcrGenerator.build(result, { edition: options.acrEdition });
+
+    if (options.formats.includes('acr')) {
+      const acrPath = `${basePath}.acr.html`;
+      fs.writeFileSync(acrPath, AcrGenerator.toHtml(acr));
+      written.push(acrPath);
+    }
+
+    // Word otevře HTML s příponou .doc jako dokument
+    if (options.formats.includes('acr-doc')) {
+      const docPath = `${basePath}.acr.doc`;
+      fs.writeFileSync(docPath, AcrGenerator.toWordHtml(acr));
+      written.push(docPath);
+    }
+  }
+
+  return written;
+}
+
+function printPolicyResult(result: PolicyResult): void {
+  if (result.passed) {
+    console.log('✅ Accessibility policy passed.');
+    return;
+  }
+
+  console.error(`❌ Accessibility policy failed (${result.failures.length} check(s)):`);
+  for (const failure of result.failures) {
+    console.error(`   - [${failure.check}] ${failure.message}${failure.pageUrl ? ` (${failure.pageUrl})` : ''}`);
+  }
+}
+
+export async function main(argv: string[]): Promise<number> {
+  if (argv.includes('-h') || argv.includes('--help')) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  let options: CliOptions;
+  let policy: A11yPolicy | undefined;
+
+  try {
+    options = parseArgs(argv);
+    loadRulePacks(options);
+    policy = options.policyPath ? loadPolicy(options.policyPath) : undefined;
+  } catch (e) {
+    if (e instanceof UsageError) {
+      console.error(`Error: ${e.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    throw e;
+  }
+
+  let result: AuditReport | CrawlSummary;
+  try {
+    result = await runScan(options);
+  } catch (e) {
+    console.error('❌ Scan failed:', e instanceof Error ? e.message : e);
+    return EXIT_SCAN_FAILED;
+  }
+
+  const isCrawl = options.command === 'crawl';
+  if (isCrawl && (result as CrawlSummary).totalPagesScanned === 0) {
+    console.error('❌ Crawl finished without any successfully scanned page.');
+    return EXIT_SCAN_FAILED;
+  }
+
+  const score = isCrawl ? (result as CrawlSummary).averageScore : (result as AuditReport).score;
+  const total = isCrawl ? (result as CrawlSummary).totalViolations : (result as AuditReport).stats.totalViolations;
+  console.log(`📊 Score: ${score}/100, issues: ${total}`);
+
+  for (const file of writeOutputs(result, options)) {
+    console.log(`📄 Report written: ${file}`);
+  }
+
+  if (!policy) {
+    return EXIT_OK;
+  }
+
+  const policyResult = PolicyEvaluator.evaluate(result, policy);
+  printPolicyResult(policyResult);
+  return policyResult.passed ? EXIT_OK : EXIT_POLICY_FAILED;
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2))
+    .then((code) => process.exit(code))
+    .catch((e) => {
+      console.error('❌ Unexpected error:', e);
+      process.exit(EXIT_SCAN_FAILED);
+    });
+}
@@ -1,4 +1,4 @@
-import { AuditReport, AccessibilityViolation } from './types.js';
+import { AuditReport, AccessibilityViolation, ManualChecklist, ConformanceMatrix } from './types.js';
 
 /**
  * AccessibilityStatementGenerator
@@ -27,6 +27,8 @@ export class AccessibilityStatementGenerator {
     const score = report.score;
     const critical = report.violations.critical;
     const serious = report.violations.serious;
+    const manual = report.manualChecklist;
+    const conformance = report.conformance;
 
     // Determine compliance level
     const isFullyCompliant = score === 100;
@@ -44,7 +46,9 @@ export class AccessibilityStatementGenerator {
       isPartiallyCompliant,
       isNonCompliant,
       language,
-      contactInfo
+      contactInfo,
+      manual,
+      conformance
     );
 
     // Convert markdown to HTML
@@ -66,12 +70,14 @@ export class AccessibilityStatementGenerator {
     isPartiallyCompliant: boolean,
     isNonCompliant: boolean,
     language: Language,
-    contactInfo?: ContactInfo
+    contactInfo?: ContactInfo,
+    manual?: ManualChecklist,
+    conformance?: ConformanceMatrix
   ): string {
     const translations = this.getTranslations(language);
 
     if (isFullyCompliant) {
-      return this.generateCompliantStatement(domain, date, language, contactInfo);
+      return this.generateCompliantStatement(domain, date, language, contactInfo, manual, conformance);
     } else {
       return this.generatePartialStatement(
         domain,
@@ -80,7 +86,9 @@ export class AccessibilityStatementGenerator {
         critical,
         serious,
         language,
-        contactInfo
+        contactInfo,
+        manual,
+        conformance
       );
     }
   }
@@ -92,7 +100,9 @@ export class AccessibilityStatementGenerator {
     domain: string,
     date: string,
     language: Language,
-    contactInfo?: ContactInfo
+    contactInfo?: ContactInfo,
+    manual?: ManualChecklist,
+    conformance?: ConformanceMatrix
   ): string {
     const t = this.getTranslations(language);
 
@@ -103,9 +113,9 @@ export class AccessibilityStatementGenerator {
 ## ${t.complianceStatusTitle}
 
 ${t.fullyCompliant}
-
+${this.getConformanceSection(t, conformance)}
 **${t.testingDate}:** ${date}  
-**${t.testingMethod}:** ${t.automatedTesting}
+**${t.testingMethod}:** ${this.getTestingMethod(t, manual)}
 
 ## ${t.technicalInfo}
 
@@ -135,10 +145,18 @@ ${t.footer}
     critical: AccessibilityViolation[],
     serious: AccessibilityViolation[],
     language: Language,
-    contactInfo?: ContactInfo
+    contactInfo?: ContactInfo,
+    manual?: ManualChecklist,
+    conformance?: ConformanceMatrix
   ): string {
     const t = this.getTranslations(language);
 
+    // Kritéria, která auditor při ručním auditu označil jako nesplněná
+    const manualIssues = (manual?.items || [])
+      .filter((item) => item.status === 'fail')
+      .map((item) => `- **${item.name}** (WCAG ${item.wcag.join(', ')})${item.note ? ` – ${item.note}` : ''}`)
+      .join('\n');
+
     // Create list of issues
     const issues = [...critical, ...serious]
       .slice(0, 10) // Limit to top 10
@@ -166,11 +184,12 @@ ${t.partiallyCompliant}
 ${issues}
 
 ${critical.length + serious.length > 10 ? `\n${t.andMore.replace('{count}', String(critical.length + serious.length - 10))}` : ''}
-
+${manualIssues ? `\n### ${t.manualIssues}\n\n${manualIssues}\n` : ''}
+${this.getConformanceSection(t, conformance)}
 ${t.remediationPlan.replace('{deadline}', deadline)}
 
 **${t.testingDate}:** ${date}  
-**${t.testingMethod}:** ${t.automatedTesting}
+**${t.testingMethod}:** ${this.getTestingMethod(t, manual)}
 
 ## ${t.technicalInfo}
 
@@ -192,6 +211,40 @@ ${t.footer}
 `;
   }
 
+  /**
+   * Souhrn matice souladu s WCAG a výčet nesplněných kritérií
+   */
+  private getConformanceSection(t: Translations, conformance?: ConformanceMatrix): string {
+    if (!conformance) return '';
+
+    const summary = t.conformanceSummary
+      .replace('{failed}', String(conformance.summary.failed))
+      .replace('{review}', String(conformance.summary['needs-review']))
+      .replace('{passed}', String(conformance.summary.passed))
+      .replace('{notTested}', String(conformance.summary['not-tested']));
+
+    const failed = conformance.entries
+      .filter((entry) => entry.status === 'failed')
+      .map((entry) => `- **${entry.id} ${entry.title}** (${entry.level})`)
+      .join('\n');
+
+    return `
+### ${t.conformanceTitle.replace('{version}', conformance.version).replace('{level}', conformance.level)}
+
+${summary}
+${failed ? `\n${t.failedCriteria}:\n\n${failed}\n` : ''}`;
+  }
+
+  /**
+   * Metoda testování – po zapracování ručního auditu doplníme auditora a datum
+   */
+  private getTestingMethod(t: Translations, manual?: ManualChecklist): string {
+    if (!manual?.auditedAt) return t.automatedTesting;
+
+    const auditor = manual.auditor ? ` (${manual.auditor}, ${manual.auditedAt})` : ` (${manual.auditedAt})`;
+    return `${t.automatedTesting}; ${t.manualTesting}${auditor}`;
+  }
+
   /**
    * Get translations for specified language
    */
@@ -211,6 +264,11 @@ ${t.footer}
         testingDate: 'Datum testování',
         testingMethod: 'Metoda testování',
         automatedTesting: 'Automatizované testování pomocí A11y-Flow (axe-core 4.8.3 + vlastní ACT testy)',
+        manualTesting: 'ruční audit kritérií WCAG 2.2 AA',
+        manualIssues: 'Nedostatky zjištěné ručním auditem',
+        conformanceTitle: 'Soulad s WCAG {version} úrovně {level}',
+        conformanceSummary: 'Nesplněno: {failed}, k ruční kontrole: {review}, splněno: {passed}, netestováno: {notTested} kritérií.',
+        failedCriteria: 'Nesplněná kritéria',
         technicalInfo: 'Technické informace',
         technicalDetails: 'Tento web byl testován s ohledem na:\n- WCAG 2.1 úroveň AA\n- EN 301 549\n- Směrnici EU 2019/882 (European Accessibility Act)',
         contactTitle: 'Kontakt',
@@ -235,6 +293,11 @@ ${t.footer}
         testingDate: 'Testing date',
         testingMethod: 'Testing method',
         automatedTesting: 'Automated testing using A11y-Flow (axe-core 4.8.3 + custom ACT tests)',
+        manualTesting: 'manual audit of WCAG 2.2 AA criteria',
+        manualIssues: 'Issues found by manual audit',
+        conformanceTitle: 'WCAG {version} Level {level} conformance',
+        conformanceSummary: 'Failed: {failed}, needs manual review: {review}, passed: {passed}, not tested: {notTested} criteria.',
+        failedCriteria: 'Failed criteria',
         technicalInfo: 'Technical Information',
         technicalDetails: 'This website was tested against:\n- WCAG 2.1 Level AA\n- EN 301 549\n- EU Directive 2019/882 (European Accessibility Act)',
         contactTitle: 'Contact',
@@ -259,6 +322,11 @@ ${t.footer}
         testingDate: 'Testdatum',
         testingMethod: 'Testmethode',
         automatedTesting: 'Automatisierte Prüfung mit A11y-Flow (axe-core 4.8.3 + eigene ACT-Tests)',
+        manualTesting: 'manuelle Prüfung der WCAG 2.2 AA Kriterien',
+        manualIssues: 'Bei der manuellen Prüfung festgestellte Mängel',
+        conformanceTitle: 'Konformität mit WCAG {version} Level {level}',
+        conformanceSummary: 'Nicht erfüllt: {failed}, manuell zu prüfen: {review}, erfüllt: {passed}, nicht getestet: {notTested} Kriterien.',
+        failedCriteria: 'Nicht erfüllte Kriterien',
         technicalInfo: 'Technische Informationen',
         technicalDetails: 'Diese Website wurde getestet gegen:\n- WCAG 2.1 Level AA\n- EN 301 549\n- EU-Richtlinie 2019/882 (European Accessibility Act)',
         contactTitle: 'Kontakt',
@@ -344,6 +412,11 @@ interface Translations {
   testingDate: string;
   testingMethod: string;
   automatedTesting: string;
+  manualTesting: string;
+  manualIssues: string;
+  conformanceTitle: string;
+  conformanceSummary: string;
+  failedCriteria: string;
   technicalInfo: string;
   technicalDetails: string;
   contactTitle: string;
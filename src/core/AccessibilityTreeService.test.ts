@@ -0,0 +1,113 @@
+import { Page, SerializedAXNode } from 'puppeteer-core';
+import { AccessibilityTreeService } from './AccessibilityTreeService';
+import { AccessibilityTreeNode } from './types';
+
+const node = (role: string, name?: string, children?: SerializedAXNode[], extra: Partial<SerializedAXNode> = {}) =>
+  ({ role, name, children, ...extra }) as SerializedAXNode;
+
+function fakePage(snapshot: SerializedAXNode | null): Page {
+  return { accessibility: { snapshot: async () => snapshot } } as unknown as Page;
+}
+
+const fixture = node('RootWebArea', 'Shop', [
+  node('banner', undefined, [node('link', 'Home', [node('StaticText', 'Home', [node('InlineTextBox', 'Home')])])]),
+  // region a form bez názvu nejsou landmark
+  node('region', undefined, [
+    node('heading', 'Welcome', [node('StaticText', 'Welcome')], { level: 1 }),
+    node('paragraph', undefined, [
+      node('StaticText', 'Some '),
+      node('generic', undefined, [node('StaticText', 'intro')]),
+      node('StaticText', ' text.'),
+    ]),
+  ]),
+  node('region', 'Promo', [node('button', undefined, [], { expanded: false })]),
+  node('checkbox', 'Newsletter', [], { checked: false, required: true }),
+  node('img', ''),
+]);
+
+describe('AccessibilityTreeService', () => {
+  it('drops technical and transparent nodes from the captured tree', async () => {
+    const report = await AccessibilityTreeService.capture(fakePage(fixture));
+
+    const paragraph = report!.root!.children![1].children![1];
+    expect(paragraph).toEqual({
+      role: 'paragraph',
+      children: [
+        { role: 'StaticText', name: 'Some ' },
+        { role: 'StaticText', name: 'intro' },
+        { role: 'StaticText', name: ' text.' },
+      ],
+    });
+    const link = report!.root!.children![0].children![0];
+    expect(link.children).toEqual([{ role: 'StaticText', name: 'Home' }]);
+    expect(report!.root!.children![3].states).toEqual(['not checked', 'required']);
+  });
+
+  it('reads the tree in order, merges text runs and skips the contents of leaf roles', async () => {
+    const report = await AccessibilityTreeService.capture(fakePage(fixture));
+
+    expect(report!.transcript.map((u) => `${u.depth}:${u.kind}:${u.text}`)).toEqual([
+      '0:document:Shop, document',
+      '1:landmark:banner landmark',
+      '2:link:link, Home',
+      '1:heading:heading level 1, Welcome',
+      '1:text:Some intro text.',
+      '1:landmark:Promo, region landmark',
+      '2:control:(unlabelled), button, collapsed',
+      '1:control:Newsletter, check box, not checked, required',
+      '1:image:unlabelled graphic',
+    ]);
+    expect(report!.counts).toEqual({ headings: 1, landmarks: 2, links: 1, controls: 2, images: 1, unnamed: 2 });
+    expect(report!.transcript.find((u) => u.kind === 'heading')!.level).toBe(1);
+    expect(report!.truncated).toBe(false);
+  });
+
+  it('announces a named form as a landmark but not an unnamed one', () => {
+    const root: AccessibilityTreeNode = {
+      role: 'RootWebArea',
+      children: [
+        { role: 'form', children: [{ role: 'textbox', name: 'Search' }] },
+        { role: 'form', name: 'Login', children: [{ role: 'textbox', name: 'E-mail', value: 'a@b.cz' }] },
+      ],
+    };
+
+    const report = AccessibilityTreeService.buildTranscript(root);
+
+    expect(report.transcript.map((u) => u.text)).toEqual([
+      'document',
+      'Search, edit',
+      'Login, form landmark',
+      'E-mail, edit, a@b.cz',
+    ]);
+    expect(report.nodeCount).toBe(5);
+  });
+
+  it('truncates long texts and the transcript and marks the report truncated', () => {
+    const links = Array.from({ length: 2100 }, (_, i): AccessibilityTreeNode => ({ role: 'link', name: `Link ${i}` }));
+    const root: AccessibilityTreeNode = {
+      role: 'RootWebArea',
+      children: [{ role: 'StaticText', name: 'x'.repeat(400) }, ...links],
+    };
+
+    const report = AccessibilityTreeService.buildTranscript(root);
+
+    expect(report.truncated).toBe(true);
+    expect(report.transcript).toHaveLength(2000);
+    expect(report.transcript[1].text).toBe('x'.repeat(300) + '…');
+    expect(report.counts.links).toBe(2100);
+  });
+
+  it('stops copying the tree at the node limit but still counts the rest', async () => {
+    const children = Array.from({ length: 3100 }, (_, i) => node('link', `Link ${i}`));
+
+    const report = await AccessibilityTreeService.capture(fakePage(node('RootWebArea', 'Big', children)));
+
+    expect(report!.truncated).toBe(true);
+    expect(report!.nodeCount).toBe(3101);
+    expect(report!.root!.children!.length).toBeLessThan(3100);
+  });
+
+  it('returns undefined when Chromium has no snapshot', async () => {
+    expect(await AccessibilityTreeService.capture(fakePage(null))).toBeUndefined();
+  });
+});
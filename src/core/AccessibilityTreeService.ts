@@ -0,0 +1,312 @@
+import { Page, SerializedAXNode } from 'puppeteer-core';
+import {
+  AccessibilityTreeNode,
+  AccessibilityTreeReport,
+  ScreenReaderUtterance,
+  ScreenReaderUtteranceKind,
+} from './types';
+
+// Limity kvůli velikosti reportu (Lambda odpověď, JSON v S3)
+const MAX_TREE_NODES = 3000;
+const MAX_TRANSCRIPT_LINES = 2000;
+const MAX_TEXT_LENGTH = 300;
+
+const LANDMARK_ROLES: Record<string, string> = {
+  banner: 'banner',
+  navigation: 'navigation',
+  main: 'main',
+  contentinfo: 'content info',
+  complementary: 'complementary',
+  search: 'search',
+  region: 'region',
+  form: 'form',
+};
+
+// Technické uzly Chromia, které čtečka nečte (text je už ve StaticText rodiče)
+const DROPPED_ROLES = new Set(['InlineTextBox', 'ListMarker', 'LineBreak']);
+
+// Obalové uzly bez vlastní sémantiky – ve stromu je nahradí jejich potomci
+const TRANSPARENT_ROLES = new Set(['none', 'generic', 'presentation', 'LabelText', 'strong', 'emphasis', 'Abbr', 'mark', 'time']);
+
+// Role, jejichž název se počítá z obsahu – potomky nečteme znovu
+const LEAF_ROLES = new Set([
+  'heading',
+  'link',
+  'button',
+  'tab',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'checkbox',
+  'radio',
+  'switch',
+  'img',
+  'image',
+  'textbox',
+  'searchbox',
+  'combobox',
+  'slider',
+  'spinbutton',
+  'treeitem',
+]);
+
+const CONTROL_ROLES = new Set([
+  'button',
+  'checkbox',
+  'radio',
+  'switch',
+  'textbox',
+  'searchbox',
+  'combobox',
+  'listbox',
+  'slider',
+  'spinbutton',
+  'tab',
+  'menuitem',
+  'menuitemcheckbox',
+  'menuitemradio',
+  'option',
+  'treeitem',
+]);
+
+// Jak roli vysloví čtečka (NVDA / JAWS mluví anglicky podle jazyka hlasu; držíme se angličtiny)
+const SPOKEN_ROLES: Record<string, string> = {
+  textbox: 'edit',
+  searchbox: 'search edit',
+  combobox: 'combo box',
+  listbox: 'list box',
+  spinbutton: 'spin button',
+  menuitem: 'menu item',
+  menuitemcheckbox: 'menu item check box',
+  menuitemradio: 'menu item radio button',
+  checkbox: 'check box',
+  radio: 'radio button',
+  treeitem: 'tree item',
+};
+
+/**
+ * AccessibilityTreeService
+ *
+ * Zachytí accessibility strom, jak ho Chromium předává asistivním technologiím,
+ * a sestaví z něj lineární přepis "virtuální čtečky obrazovky" – role, název, stav,
+ * nadpisy a landmarky v pořadí čtení. Vývojář tak vidí, co uslyší uživatel NVDA,
+ * aniž by čtečku spouštěl.
+ */
+export class AccessibilityTreeService {
+  public static async capture(page: Page): Promise<AccessibilityTreeReport | undefined> {
+    // interestingOnly vynechává seznamy, tabulky i obrázky bez alt – bereme celý strom a čistíme sami
+    const snapshot = await page.accessibility.snapshot({ interestingOnly: false });
+    if (!snapshot) {
+      return undefined;
+    }
+
+    const budget = { remaining: MAX_TREE_NODES, total: 0 };
+    const [root] = this.toTreeNodes(snapshot, budget);
+    if (!root) {
+      return undefined;
+    }
+
+    const report = this.buildTranscript(root);
+    return {
+      ...report,
+      nodeCount: budget.total,
+      truncated: report.truncated || budget.total > MAX_TREE_NODES,
+      root,
+    };
+  }
+
+  /**
+   * Projde strom do hloubky (= pořadí čtení) a vrátí přepis se souhrnnými počty.
+   */
+  public static buildTranscript(root: AccessibilityTreeNode): AccessibilityTreeReport {
+    const transcript: ScreenReaderUtterance[] = [];
+    const counts = { headings: 0, landmarks: 0, links: 0, controls: 0, images: 0, unnamed: 0 };
+    let truncated = false;
+
+    const push = (utterance: ScreenReaderUtterance) => {
+      if (transcript.length >= MAX_TRANSCRIPT_LINES) {
+        truncated = true;
+        return;
+      }
+      transcript.push(utterance);
+    };
+
+    const visit = (node: AccessibilityTreeNode, depth: number) => {
+      const role = node.role;
+      const name = (node.name || '').trim();
+      const states = node.states || [];
+      let kind: ScreenReaderUtteranceKind | null = null;
+      let text = '';
+      let unnamed = false;
+
+      if (role === 'RootWebArea' || role === 'WebArea') {
+        kind = 'document';
+        text = name ? `${name}, document` : 'document';
+      } else if (LANDMARK_ROLES[role] && (name || (role !== 'region' && role !== 'form'))) {
+        // region a form jsou landmarkem jen s přístupným názvem
+        kind = 'landmark';
+        counts.landmarks++;
+        text = [name, `${LANDMARK_ROLES[role]} landmark`].filter(Boolean).join(', ');
+      } else if (role === 'heading') {
+        kind = 'heading';
+        counts.headings++;
+        unnamed = !name;
+        text = `heading level ${node.level || 2}, ${name || '(empty)'}`;
+      } else if (role === 'link') {
+        kind = 'link';
+        counts.links++;
+        unnamed = !name;
+        text = this.join(['link', name || '(unlabelled)', ...states]);
+      } else if (role === 'img' || role === 'image') {
+        kind = 'image';
+        counts.images++;
+        unnamed = !name;
+        text = name ? `graphic, ${name}` : 'unlabelled graphic';
+      } else if (CONTROL_ROLES.has(role)) {
+        kind = 'control';
+        counts.controls++;
+        unnamed = !name;
+        const value = node.value !== undefined && node.value !== '' ? String(node.value) : '';
+        text = this.join([name || '(unlabelled)', SPOKEN_ROLES[role] || role, value, ...states]);
+      } else if (role === 'list') {
+        kind = 'list';
+        const items = (node.children || []).filter((c) => c.role === 'listitem').length;
+        text = `list with ${items} item${items === 1 ? '' : 's'}`;
+      } else if (role === 'table' || role === 'grid') {
+        kind = 'table';
+        const rows = this.countRole(node, 'row');
+        text = this.join([name, `table with ${rows} row${rows === 1 ? '' : 's'}`]);
+      } else if (role === 'dialog' || role === 'alertdialog') {
+        kind = 'dialog';
+        text = this.join([name, role === 'alertdialog' ? 'alert dialog' : 'dialog']);
+      } else if ((role === 'StaticText' || role === 'text') && name) {
+        // Samostatný text (kořen podstromu) – sourozenecké texty slučuje smyčka níže
+        kind = 'text';
+        text = name;
+      }
+
+      if (kind) {
+        if (unnamed) counts.unnamed++;
+        push({
+          kind,
+          role,
+          text: text.length > MAX_TEXT_LENGTH ? text.slice(0, MAX_TEXT_LENGTH) + '…' : text,
+          depth,
+          level: role === 'heading' ? node.level : undefined,
+          unnamed: unnamed || undefined,
+        });
+      }
+
+      if (LEAF_ROLES.has(role)) return;
+
+      // Sousední textové uzly (např. "Some ", "intro" ze <strong>, " text.") čtečka přečte jako jeden řádek
+      const childDepth = kind ? depth + 1 : depth;
+      let textRun = '';
+      const flushText = () => {
+        const merged = textRun.replace(/\s+/g, ' ').trim();
+        textRun = '';
+        if (!merged) return;
+        push({
+          kind: 'text',
+          role: 'StaticText',
+          text: merged.length > MAX_TEXT_LENGTH ? merged.slice(0, MAX_TEXT_LENGTH) + '…' : merged,
+          depth: childDepth,
+        });
+      };
+
+      for (const child of node.children || []) {
+        if (child.role === 'StaticText' || child.role === 'text') {
+          textRun += child.name || '';
+          continue;
+        }
+        flushText();
+        visit(child, childDepth);
+      }
+      flushText();
+    };
+
+    visit(root, 0);
+
+    return {
+      nodeCount: this.countTreeNodes(root),
+      truncated,
+      transcript,
+      counts,
+    };
+  }
+
+  /**
+   * Převede uzel z puppeteer snapshotu. Obalové uzly bez sémantiky (generic, none, label,
+   * strong …) vynechá a jejich potomky přesune o úroveň výš – proto vrací pole.
+   */
+  private static toTreeNodes(node: SerializedAXNode, budget: { remaining: number; total: number }): AccessibilityTreeNode[] {
+    if (DROPPED_ROLES.has(node.role)) {
+      return [];
+    }
+
+    const children: AccessibilityTreeNode[] = [];
+    const transparent = TRANSPARENT_ROLES.has(node.role) && !node.name;
+    if (!transparent) {
+      budget.total++;
+      budget.remaining--;
+    }
+
+    for (const child of node.children || []) {
+      if (budget.remaining <= 0) {
+        // Zbytek stromu jen spočítáme
+        budget.total += this.countNodes(child);
+        continue;
+      }
+      children.push(...this.toTreeNodes(child, budget));
+    }
+
+    if (transparent) {
+      return children;
+    }
+
+    const states: string[] = [];
+    if (node.checked === 'mixed') states.push('half checked');
+    else if (node.checked === true) states.push('checked');
+    else if (node.checked === false && ['checkbox', 'menuitemcheckbox', 'switch'].includes(node.role)) states.push('not checked');
+    if (node.pressed === true) states.push('pressed');
+    if (node.expanded === true) states.push('expanded');
+    else if (node.expanded === false) states.push('collapsed');
+    if (node.selected) states.push('selected');
+    if (node.disabled) states.push('unavailable');
+    if (node.required) states.push('required');
+    if (node.invalid && node.invalid !== 'false') states.push('invalid entry');
+    if (node.readonly && CONTROL_ROLES.has(node.role)) states.push('read only');
+    if (node.haspopup && node.haspopup !== 'false') states.push(node.haspopup === 'menu' || node.haspopup === 'true' ? 'has popup' : `has ${node.haspopup} popup`);
+    if (node.modal) states.push('modal');
+
+    const result: AccessibilityTreeNode = { role: node.role };
+    if (node.name) result.name = node.name;
+    if (node.value !== undefined && node.value !== '') result.value = node.value;
+    if (node.description) result.description = node.description;
+    if (node.level !== undefined && node.role === 'heading') result.level = node.level;
+    if (states.length > 0) result.states = states;
+    if (children.length > 0) result.children = children;
+
+    return [result];
+  }
+
+  private static countTreeNodes(node: AccessibilityTreeNode): number {
+    return 1 + (node.children || []).reduce((acc, child) => acc + this.countTreeNodes(child), 0);
+  }
+
+  private static countNodes(node: SerializedAXNode): number {
+    return 1 + (node.children || []).reduce((acc, child) => acc + this.countNodes(child), 0);
+  }
+
+  private static countRole(node: AccessibilityTreeNode, role: string): number {
+    return (node.children || []).reduce(
+      (acc, child) => acc + (child.role === role ? 1 : 0) + (child.role === role ? 0 : this.countRole(child, role)),
+      0,
+    );
+  }
+
+  private static join(parts: (string | undefined)[]): string {
+    return parts.filter((p) => p && p.trim()).join(', ');
+  }
+}
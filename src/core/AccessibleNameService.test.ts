@@ -0,0 +1,122 @@
+import { AccessibleNameService } from './AccessibleNameService';
+import { InteractiveElement, InteractiveElementsReport } from './types';
+
+function element(overrides: Partial<InteractiveElement>): InteractiveElement {
+  return {
+    selector: '#send',
+    tag: 'button',
+    role: 'button',
+    name: 'Send',
+    nameSource: 'contents',
+    ...overrides,
+  };
+}
+
+function inventory(elements: InteractiveElement[]): InteractiveElementsReport {
+  return {
+    total: elements.length,
+    truncated: false,
+    counts: { unnamed: 0, labelInNameMismatches: 0, iconOnly: 0, duplicateIconNames: 0 },
+    elements,
+  };
+}
+
+const isLabelInNameMismatch = (e: InteractiveElement): boolean => AccessibleNameService.isLabelInNameMismatch(e);
+
+describe('AccessibleNameService', () => {
+  describe('label in name', () => {
+    it.each([
+      ['the name starts with the visible label', 'Search', 'Search articles'],
+      ['case, punctuation and whitespace differ', 'Log in!', 'log   in'],
+      ['the label is only a symbol', '×', 'Close dialog'],
+    ])('accepts when %s', (_case, visibleLabel, name) => {
+      expect(isLabelInNameMismatch(element({ visibleLabel, name, nameSource: 'aria-label' }))).toBe(false);
+    });
+
+    it('accepts names computed from the content and icon-only controls', () => {
+      expect(isLabelInNameMismatch(element({ visibleLabel: 'Send', name: 'Send now', nameSource: 'contents' }))).toBe(false);
+      expect(isLabelInNameMismatch(element({ visibleLabel: undefined, name: 'Close', iconOnly: true }))).toBe(false);
+    });
+
+    it.each([
+      ['the name replaces the label', 'Send', 'Submit form'],
+      ['the label only matches part of a word', 'Art', 'Articles'],
+    ])('flags when %s', (_case, visibleLabel, name) => {
+      expect(isLabelInNameMismatch(element({ visibleLabel, name, nameSource: 'aria-label' }))).toBe(true);
+    });
+  });
+
+  describe('buildFindings', () => {
+    it('reports label-in-name mismatches with the unique selector of each element', () => {
+      const mismatch = element({
+        selector: 'html > body > form:nth-of-type(2) > button',
+        visibleLabel: 'Send',
+        name: 'Submit form',
+        nameSource: 'aria-label',
+        labelInNameMismatch: true,
+      });
+
+      const { violations, actionItems } = AccessibleNameService.buildFindings(
+        inventory([mismatch, element({})]),
+        'https://example.com/',
+      );
+
+      expect(violations.map((v) => v.id)).toEqual(['a11yflow-label-in-name']);
+      expect(violations[0].nodes).toEqual([
+        expect.objectContaining({
+          target: ['html > body > form:nth-of-type(2) > button'],
+          accName: { role: 'button', name: 'Submit form', nameSource: 'aria-label', description: undefined },
+        }),
+      ]);
+      expect(actionItems[0]).toMatchObject({ exampleTarget: mismatch.selector, wcagReference: '2.5.3 Label in Name' });
+    });
+
+    it('groups icon-only controls sharing a name, except links to the same address', () => {
+      const icon = (selector: string, overrides: Partial<InteractiveElement> = {}) =>
+        element({ selector, name: 'Delete', nameSource: 'aria-label', iconOnly: true, ...overrides });
+
+      const { violations, actionItems } = AccessibleNameService.buildFindings(
+        inventory([
+          icon('#rows > li:nth-of-type(1) > button'),
+          icon('#rows > li:nth-of-type(2) > button', { name: ' delete ' }),
+          // Stejný název, ale jiná role – jiná skupina
+          icon('#toolbar > a', { role: 'link', tag: 'a', href: 'https://example.com/trash' }),
+          icon('#share > a:nth-of-type(1)', { role: 'link', tag: 'a', name: 'Share', href: 'https://example.com/share' }),
+          icon('#share > a:nth-of-type(2)', { role: 'link', tag: 'a', name: 'Share', href: 'https://example.com/share' }),
+          element({ selector: '#send', name: 'Delete' }),
+        ]),
+        'https://example.com/',
+      );
+
+      expect(violations.map((v) => v.id)).toEqual(['a11yflow-duplicate-icon-names']);
+      const [violation] = violations;
+      expect(violation.count).toBe(1);
+      expect(violation.nodes[0].target).toEqual(['#rows > li:nth-of-type(1) > button', '#rows > li:nth-of-type(2) > button']);
+      expect(violation.helpUrl).toContain('headings-and-labels');
+      expect(actionItems[0]).toMatchObject({
+        exampleTarget: '#rows > li:nth-of-type(1) > button',
+        wcagReference: '2.4.6 Headings and Labels',
+      });
+    });
+
+    it('points icon links with the same name but different targets to Link Purpose', () => {
+      const link = (selector: string, href: string) =>
+        element({ selector, tag: 'a', role: 'link', name: 'Facebook', nameSource: 'aria-label', iconOnly: true, href });
+
+      const { violations, actionItems } = AccessibleNameService.buildFindings(
+        inventory([link('#footer > a', 'https://facebook.com/acme'), link('#article > a', 'https://facebook.com/sharer')]),
+        'https://example.com/',
+      );
+
+      expect(violations[0].helpUrl).toContain('link-purpose-in-context');
+      expect(actionItems[0].wcagReference).toBe('2.4.4 Link Purpose (In Context)');
+    });
+
+    it('returns nothing for a clean inventory', () => {
+      expect(AccessibleNameService.buildFindings(inventory([element({})]), 'https://example.com/')).toEqual({
+        violations: [],
+        actionItems: [],
+      });
+    });
+  });
+});
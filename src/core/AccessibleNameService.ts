@@ -0,0 +1,426 @@
+import { CDPSession, Page, Protocol } from 'puppeteer-core';
+import {
+  AccessibilityViolation,
+  AccessibleNameInfo,
+  AuditReport,
+  HumanReadableActionItem,
+  ImpactLevel,
+  InteractiveElement,
+  InteractiveElementsReport,
+} from './types';
+
+// Limity kvůli délce skenu (jedno CDP volání na prvek) a velikosti reportu
+const MAX_ELEMENTS = 500;
+const MAX_VIOLATION_NODES = 200;
+const MAX_TEXT_LENGTH = 150;
+// Dočasný atribut, přes který spárujeme prvky z page.evaluate s uzly v CDP
+const MARKER_ATTRIBUTE = 'data-a11yflow-accname';
+
+const INTERACTIVE_SELECTOR = [
+  'a[href]',
+  'button',
+  'input:not([type="hidden"])',
+  'select',
+  'textarea',
+  'summary',
+  '[role="button"]',
+  '[role="link"]',
+  '[role="checkbox"]',
+  '[role="radio"]',
+  '[role="switch"]',
+  '[role="tab"]',
+  '[role="menuitem"]',
+  '[role="menuitemcheckbox"]',
+  '[role="menuitemradio"]',
+  '[role="option"]',
+  '[role="combobox"]',
+  '[role="textbox"]',
+  '[role="searchbox"]',
+  '[role="slider"]',
+  '[role="spinbutton"]',
+  '[role="treeitem"]',
+  '[tabindex]:not([tabindex="-1"])',
+].join(', ');
+
+interface RawInteractiveElement {
+  index: number;
+  selector: string;
+  tag: string;
+  visibleLabel?: string;
+  iconOnly?: boolean;
+  href?: string;
+}
+
+/**
+ * AccessibleNameService
+ *
+ * Přístupný název a popis (accname 1.2) nepočítáme sami z HTML – bereme je
+ * z accessibility stromu Chromia přes CDP (Accessibility.getPartialAXTree),
+ * tedy přesně to, co prohlížeč předá čtečce obrazovky. Nad inventářem
+ * interaktivních prvků pak kontroluje WCAG 2.5.3 Label in Name a duplicitní
+ * názvy ikonových ovládacích prvků.
+ */
+export class AccessibleNameService {
+  /**
+   * Inventář viditelných interaktivních prvků stránky s přístupnými názvy.
+   */
+  public static async collectInteractiveElements(page: Page): Promise<InteractiveElementsReport> {
+    const raw = await this.markInteractiveElements(page);
+    const elements: InteractiveElement[] = [];
+
+    const session = await page.createCDPSession();
+    try {
+      const { root } = await session.send('DOM.getDocument', { depth: 0 });
+      const { nodeIds } = await session.send('DOM.querySelectorAll', {
+        nodeId: root.nodeId,
+        selector: `[${MARKER_ATTRIBUTE}]`,
+      });
+
+      const byIndex = new Map(raw.elements.map((e) => [e.index, e]));
+      for (const nodeId of nodeIds) {
+        const { attributes } = await session.send('DOM.getAttributes', { nodeId });
+        const markerAt = attributes.indexOf(MARKER_ATTRIBUTE);
+        const source = markerAt >= 0 ? byIndex.get(Number(attributes[markerAt + 1])) : undefined;
+        if (!source) continue;
+
+        const info = await this.computeName(session, nodeId);
+        if (!info) continue;
+
+        const element: InteractiveElement = {
+          selector: source.selector,
+          tag: source.tag,
+          visibleLabel: source.visibleLabel,
+          iconOnly: source.iconOnly,
+          href: source.href,
+          ...info,
+        };
+        element.labelInNameMismatch = this.isLabelInNameMismatch(element) || undefined;
+        elements.push(element);
+      }
+    } finally {
+      await session.detach().catch(() => {});
+      await this.unmarkInteractiveElements(page).catch(() => {});
+    }
+
+    const duplicateIconNames = this.findDuplicateIconNames(elements);
+
+    return {
+      total: raw.total,
+      truncated: raw.total > elements.length,
+      counts: {
+        unnamed: elements.filter((e) => !e.name).length,
+        labelInNameMismatches: elements.filter((e) => e.labelInNameMismatch).length,
+        iconOnly: elements.filter((e) => e.iconOnly).length,
+        duplicateIconNames: duplicateIconNames.reduce((acc, group) => acc + group.length, 0),
+      },
+      elements,
+    };
+  }
+
+  /**
+   * Doplní accName do uzlů axe nálezů (violations + needsReview). Selektory axe jsou
+   * unikátní, takže je můžeme rovnou dohledat v CDP. Prvky v iframe / shadow DOM přeskočí.
+   */
+  public static async enrichReportNodes(page: Page, report: AuditReport): Promise<void> {
+    const nodes = [
+      ...report.violations.critical,
+      ...report.violations.serious,
+      ...report.violations.moderate,
+      ...report.violations.minor,
+      ...(report.needsReview || []),
+    ]
+      .flatMap((v) => v.nodes || [])
+      .filter((n) => Array.isArray(n.target) && n.target.length === 1 && typeof n.target[0] === 'string')
+      .slice(0, MAX_VIOLATION_NODES);
+
+    if (nodes.length === 0) return;
+
+    const session = await page.createCDPSession();
+    try {
+      const { root } = await session.send('DOM.getDocument', { depth: 0 });
+      const cache = new Map<string, AccessibleNameInfo | null>();
+
+      for (const node of nodes) {
+        const selector = String(node.target[0]);
+        if (!cache.has(selector)) {
+          const { nodeId } = await session
+            .send('DOM.querySelector', { nodeId: root.nodeId, selector })
+            .catch(() => ({ nodeId: 0 }));
+          cache.set(selector, nodeId ? await this.computeName(session, nodeId) : null);
+        }
+        const info = cache.get(selector);
+        if (info) node.accName = info;
+      }
+    } finally {
+      await session.detach().catch(() => {});
+    }
+  }
+
+  /**
+   * Nálezy WCAG 2.5.3 (viditelný text není v přístupném názvu) a duplicitních
+   * názvů ikonových ovládacích prvků.
+   */
+  public static buildFindings(
+    inventory: InteractiveElementsReport,
+    pageUrl: string,
+  ): { violations: AccessibilityViolation[]; actionItems: HumanReadableActionItem[] } {
+    const violations: AccessibilityViolation[] = [];
+    const actionItems: HumanReadableActionItem[] = [];
+
+    const mismatches = inventory.elements.filter((e) => e.labelInNameMismatch);
+    if (mismatches.length > 0) {
+      const impact: ImpactLevel = 'serious';
+      const violation: AccessibilityViolation = {
+        id: 'a11yflow-label-in-name',
+        title: 'Viditelný text ovládacího prvku není v jeho přístupném názvu',
+        description:
+          'Přístupný název (aria-label, aria-labelledby, title) přepisuje viditelný text prvku a neobsahuje ho. ' +
+          'Uživatel hlasového ovládání řekne to, co vidí ("klikni na Odeslat"), ale prvek se jmenuje jinak a příkaz nefunguje.',
+        impact,
+        helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/label-in-name.html',
+        count: mismatches.length,
+        suggestedFix:
+          'Přístupný název musí obsahovat viditelný text, ideálně na začátku – např. viditelné "Hledat" a aria-label "Hledat v článcích". ' +
+          'Pokud aria-label nic nepřidává, odstraňte ho.',
+        nodes: mismatches.map((e) => ({
+          html: '',
+          target: [e.selector],
+          failureSummary: `Viditelný text "${e.visibleLabel}", přístupný název "${e.name}" (zdroj: ${e.nameSource || 'neznámý'}).`,
+          accName: { role: e.role, name: e.name, nameSource: e.nameSource, description: e.description },
+        })),
+      };
+      violations.push(violation);
+      actionItems.push({
+        id: violation.id,
+        impact,
+        priority: '🟠 Serious',
+        category: 'Forms',
+        what: `Prvek s viditelným textem "${mismatches[0].visibleLabel}" má přístupný název "${mismatches[0].name}".`,
+        fix: 'Upravte aria-label / aria-labelledby tak, aby obsahoval viditelný text prvku (nejlépe na začátku).',
+        exampleUrl: pageUrl,
+        exampleTarget: mismatches[0].selector,
+        wcagReference: '2.5.3 Label in Name',
+      });
+    }
+
+    const duplicateGroups = this.findDuplicateIconNames(inventory.elements);
+    if (duplicateGroups.length > 0) {
+      const impact: ImpactLevel = 'moderate';
+      const affected = duplicateGroups.flat();
+      const hasLinks = affected.some((e) => e.role === 'link');
+      const violation: AccessibilityViolation = {
+        id: 'a11yflow-duplicate-icon-names',
+        title: 'Ikonová tlačítka a odkazy se stejným přístupným názvem',
+        description:
+          'Několik ovládacích prvků bez viditelného textu (jen ikona) má stejný přístupný název, ale dělá něco jiného. ' +
+          'V seznamu odkazů a tlačítek čtečky obrazovky je uživatel nerozliší.',
+        impact,
+        helpUrl: hasLinks
+          ? 'https://www.w3.org/WAI/WCAG22/Understanding/link-purpose-in-context.html'
+          : 'https://www.w3.org/WAI/WCAG22/Understanding/headings-and-labels.html',
+        count: duplicateGroups.length,
+        suggestedFix:
+          'Doplňte do názvu cíl akce – např. "Smazat položku Faktura 2024-01" místo "Smazat", "Facebook – sdílet článek" místo "ikona".',
+        nodes: duplicateGroups.map((group) => ({
+          html: '',
+          target: group.map((e) => e.selector),
+          failureSummary: `${group.length} ikonových prvků (${group[0].role}) se jmenuje "${group[0].name}".`,
+          accName: { role: group[0].role, name: group[0].name, nameSource: group[0].nameSource },
+        })),
+      };
+      violations.push(violation);
+      actionItems.push({
+        id: violation.id,
+        impact,
+        priority: '🟡 Moderate',
+        category: 'Navigation',
+        what: `${duplicateGroups[0].length} ikonových prvků má stejný název "${duplicateGroups[0][0].name}".`,
+        fix: 'Rozlište názvy ikonových tlačítek a odkazů podle toho, čeho se týkají (aria-label "Smazat – Faktura 2024-01").',
+        exampleUrl: pageUrl,
+        exampleTarget: duplicateGroups[0][0].selector,
+        wcagReference: hasLinks ? '2.4.4 Link Purpose (In Context)' : '2.4.6 Headings and Labels',
+      });
+    }
+
+    return { violations, actionItems };
+  }
+
+  private static async computeName(session: CDPSession, nodeId: number): Promise<AccessibleNameInfo | null> {
+    const { nodes } = await session
+      .send('Accessibility.getPartialAXTree', { nodeId, fetchRelatives: false })
+      .catch(() => ({ nodes: [] as Protocol.Accessibility.AXNode[] }));
+
+    const axNode = nodes.find((n) => !n.ignored) || nodes[0];
+    if (!axNode) return null;
+
+    const name = this.clip(String(axNode.name?.value ?? '').trim());
+    const description = this.clip(String(axNode.description?.value ?? '').trim());
+
+    // Použitý zdroj názvu je první s hodnotou, který není přebit jiným
+    const source = (axNode.name?.sources || []).find((s) => !s.superseded && (s.value?.value ?? '') !== '');
+    const nameSource = source ? source.attribute || source.nativeSource || source.type : undefined;
+
+    return {
+      role: String(axNode.role?.value ?? ''),
+      name,
+      nameSource: name ? nameSource : undefined,
+      description: description || undefined,
+    };
+  }
+
+  /**
+   * Visible label in name: viditelný text (normalizovaný) musí být obsažen v názvu.
+   * Název z obsahu (contents) se shoduje z definice, ikonové prvky nemají co porovnávat.
+   * Čistá funkce nad inventářem – collectInteractiveElements jí plní labelInNameMismatch.
+   */
+  public static isLabelInNameMismatch(element: InteractiveElement): boolean {
+    if (!element.visibleLabel || !element.name || element.nameSource === 'contents') return false;
+
+    const normalize = (text: string) =>
+      text
+        .toLowerCase()
+        .normalize('NFKC')
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
+
+    const label = normalize(element.visibleLabel);
+    // Jen symboly (×, →, …) nebo příliš dlouhý text – kritérium se na ně prakticky nevztahuje
+    if (!label || label.length > 80) return false;
+
+    return !` ${normalize(element.name)} `.includes(` ${label} `);
+  }
+
+  /**
+   * Skupiny ikonových prvků se stejným názvem. Odkazy na stejnou adresu duplicitou nejsou.
+   */
+  private static findDuplicateIconNames(elements: InteractiveElement[]): InteractiveElement[][] {
+    const groups = new Map<string, InteractiveElement[]>();
+    for (const element of elements) {
+      if (!element.iconOnly || !element.name) continue;
+      const key = `${element.role}|${element.name.trim().toLowerCase()}`;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(element);
+    }
+
+    return Array.from(groups.values()).filter((group) => {
+      if (group.length < 2) return false;
+      const hrefs = new Set(group.map((e) => e.href));
+      return !(group.every((e) => e.href) && hrefs.size === 1);
+    });
+  }
+
+  private static clip(text: string): string {
+    return text.length > MAX_TEXT_LENGTH ? text.slice(0, MAX_TEXT_LENGTH) + '…' : text;
+  }
+
+  private static async markInteractiveElements(
+    page: Page,
+  ): Promise<{ total: number; elements: RawInteractiveElement[] }> {
+    return page.evaluate(
+      (selector: string, marker: string, maxElements: number) => {
+        const d = (globalThis as any).document as any;
+        if (!d || !d.body) return { total: 0, elements: [] as any[] };
+
+        // Unikátní cesta (jako u keyboard auditu) – ikonová tlačítka mívají stejné třídy
+        const getUniqueSelector = (el: any): string => {
+          if (!el || el.nodeType !== 1) return '';
+          const escape = (value: string) => (globalThis as any).CSS.escape(value);
+          if (el.id) return '#' + escape(el.id);
+
+          const path: string[] = [];
+          let current = el;
+          while (current && current.nodeType === 1) {
+            let selector = current.tagName.toLowerCase();
+            if (current.id) {
+              path.unshift('#' + escape(current.id));
+              break;
+            }
+            let sibling = current;
+            let nth = 1;
+            while ((sibling = sibling.previousElementSibling)) {
+              if (sibling.tagName === current.tagName) nth++;
+            }
+            if (nth > 1) selector += `:nth-of-type(${nth})`;
+            path.unshift(selector);
+            current = current.parentNode;
+          }
+          return path.join(' > ');
+        };
+
+        // Text, který je opravdu vidět – sr-only texty (1×1 px, clip) a skryté části vynecháme
+        const visibleText = (root: any): string => {
+          const walker = d.createTreeWalker(root, 4 /* NodeFilter.SHOW_TEXT */);
+          const parts: string[] = [];
+          let node = walker.nextNode();
+          while (node) {
+            const parent = node.parentElement;
+            const value = String(node.nodeValue || '');
+            // Glyfy ikonových fontů (<i class="icon">, ligatury Material Icons) popiskou nejsou
+            const isGlyph = parent && parent !== root && parent.closest('i, [class*="icon"], [aria-hidden="true"]');
+            if (parent && value.trim() && !(isGlyph && root.contains(isGlyph))) {
+              const rect = parent.getBoundingClientRect();
+              const style = (globalThis as any).getComputedStyle(parent);
+              const hidden =
+                rect.width <= 1 ||
+                rect.height <= 1 ||
+                style.visibility === 'hidden' ||
+                style.opacity === '0';
+              if (!hidden) parts.push(value);
+            }
+            node = walker.nextNode();
+          }
+          return parts.join(' ').replace(/\s+/g, ' ').trim();
+        };
+
+        const candidates = (Array.from(d.querySelectorAll(selector)) as any[]).filter((el) => {
+          if (el.closest('[inert], [hidden]')) return false;
+          const rect = el.getBoundingClientRect();
+          return rect.width > 0 && rect.height > 0;
+        });
+
+        const elements = candidates.slice(0, maxElements).map((el, index) => {
+          el.setAttribute(marker, String(index));
+          const tag = el.tagName.toLowerCase();
+          const type = String(el.getAttribute('type') || '').toLowerCase();
+
+          let visibleLabel = '';
+          if (tag === 'input' && ['submit', 'button', 'reset'].includes(type)) {
+            visibleLabel = String(el.value || '');
+          } else if (['input', 'select', 'textarea'].includes(tag)) {
+            // Viditelná popiska pole je <label>, ne obsah pole
+            visibleLabel = (Array.from(el.labels || []) as any[]).map((label) => visibleText(label)).join(' ');
+          } else {
+            visibleLabel = visibleText(el);
+          }
+          visibleLabel = visibleLabel.replace(/\s+/g, ' ').trim();
+
+          const isField = ['input', 'select', 'textarea'].includes(tag) && !['submit', 'button', 'reset', 'image'].includes(type);
+          const hasGraphic = !!el.querySelector('svg, img, i, [class*="icon"]') || (tag === 'input' && type === 'image');
+
+          return {
+            index,
+            selector: getUniqueSelector(el),
+            tag,
+            visibleLabel: visibleLabel ? visibleLabel.slice(0, 150) : undefined,
+            iconOnly: !isField && !visibleLabel && hasGraphic ? true : undefined,
+            href: tag === 'a' ? String(el.href || '') : undefined,
+          };
+        });
+
+        return { total: candidates.length, elements };
+      },
+      INTERACTIVE_SELECTOR,
+      MARKER_ATTRIBUTE,
+      MAX_ELEMENTS,
+    ) as Promise<{ total: number; elements: RawInteractiveElement[] }>;
+  }
+
+  private static async unmarkInteractiveElements(page: Page): Promise<void> {
+    await page.evaluate((marker: string) => {
+      const d = (globalThis as any).document as any;
+      for (const el of Array.from(d.querySelectorAll(`[${marker}]`)) as any[]) {
+        el.removeAttribute(marker);
+      }
+    }, MARKER_ATTRIBUTE);
+  }
+}
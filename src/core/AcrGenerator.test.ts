@@ -0,0 +1,69 @@
+import { AcrGenerator } from './AcrGenerator';
+import { AcrReport, AuditReport } from './types';
+import { PAGE_URL, manual, outcomes, page, violation } from './testFixtures';
+
+const report = (extra: Partial<AuditReport> = {}) => page(PAGE_URL, [], extra);
+
+function row(acr: AcrReport, id: string) {
+  return acr.tables.flatMap((t) => t.rows).find((r) => r.id === id)!;
+}
+
+describe('AcrGenerator', () => {
+  it('does not claim Supports from automated passes alone', () => {
+    const acr = AcrGenerator.build(report({ passes: outcomes('image-alt'), inapplicable: outcomes('video-caption') }));
+
+    expect(row(acr, '1.1.1')).toMatchObject({
+      conformance: 'Not Evaluated',
+      remarks: 'Automated checks passed (image-alt). Not confirmed by a manual audit.',
+    });
+    expect(row(acr, '1.2.2')).toMatchObject({
+      conformance: 'Not Evaluated',
+      remarks: 'Automated checks found no content this criterion applies to; not confirmed by a manual audit.',
+    });
+    expect(row(acr, '3.2.6').remarks).toBe('Not covered by automated testing; requires manual evaluation.');
+  });
+
+  it('claims Supports only with a manual pass and Not Applicable for a manual not-applicable verdict', () => {
+    const acr = AcrGenerator.build(report({
+      passes: outcomes('image-alt'),
+      manualChecklist: {
+        automatedScore: 90,
+        auditor: 'QA team',
+        auditedAt: '2026-01-05',
+        items: [manual('multiple-ways-manual', 'pass'), manual('consistent-help-manual', 'not-applicable')],
+      },
+    }));
+
+    expect(row(acr, '2.4.5')).toMatchObject({ conformance: 'Supports', remarks: 'Verified by manual audit.' });
+    expect(row(acr, '3.2.6').conformance).toBe('Not Applicable');
+    expect(acr.evaluationMethods).toContain('manual audit by QA team (2026-01-05)');
+  });
+
+  it('derives failure severity from the impact of the failed rules', () => {
+    const acr = AcrGenerator.build(report({
+      violations: {
+        critical: [violation('image-alt', 'critical', ['img'])],
+        serious: [],
+        moderate: [violation('list', 'moderate', ['ul'])],
+        minor: [],
+      },
+    }));
+
+    expect(row(acr, '1.1.1').conformance).toBe('Does Not Support');
+    expect(row(acr, '1.3.1').conformance).toBe('Partially Supports');
+  });
+
+  it('treats 4.1.1 Parsing as satisfied only in the WCAG edition', () => {
+    const wcag21 = AcrGenerator.build(report(), { edition: 'WCAG', wcagVersion: '2.1' });
+    const section508 = AcrGenerator.build(report(), { edition: '508' });
+
+    expect(row(wcag21, '4.1.1').conformance).toBe('Supports');
+    expect(row(section508, '4.1.1').conformance).toBe('Not Evaluated');
+    // WCAG 2.2 kritérium 4.1.1 vůbec neobsahuje
+    expect(row(AcrGenerator.build(report()), '4.1.1')).toBeUndefined();
+  });
+
+  it('rejects an unknown edition', () => {
+    expect(() => AcrGenerator.build(report(), { edition: 'XYZ' as never })).toThrow('Invalid ACR edition: XYZ');
+  });
+});
@@ -0,0 +1,505 @@
+import {
+  AcrConformance,
+  AcrEdition,
+  AcrReport,
+  AcrRow,
+  AcrTable,
+  AuditReport,
+  ConformanceEntry,
+  CrawlSummary,
+  ImpactLevel,
+  WcagLevel,
+  WcagVersion,
+} from './types';
+import { ConformanceMatrixBuilder } from './ConformanceMatrixBuilder';
+import { ActRuleRegistry } from './acts/ActRuleRegistry';
+
+export type En301549Edition = 'V3.2.1' | 'V3.1.1' | 'V2.1.2' | 'V1.1.2';
+
+export interface AcrOptions {
+  edition?: AcrEdition;
+  productName?: string;
+  productVersion?: string;
+  productDescription?: string;
+  vendor?: string;
+  contact?: string;
+  notes?: string;
+  // Výchozí verze WCAG podle edice: WCAG/INT 2.2, 508 2.0, EU dle edice EN 301 549
+  wcagVersion?: WcagVersion;
+  // AAA přidá třetí tabulku WCAG
+  wcagLevel?: Exclude<WcagLevel, 'A'>;
+  en301549Edition?: En301549Edition;
+}
+
+interface FunctionalCriterion {
+  id: string;
+  title: string;
+  wcag: string[];
+}
+
+interface RuleFailure {
+  title: string;
+  impact: ImpactLevel;
+  count: number;
+  pages: Set<string>;
+}
+
+/**
+ * Accessibility Conformance Report ve formátu VPAT 2.x (edice WCAG, 508, EU a INT).
+ *
+ * Stav kritéria se odvozuje z matice souladu (ConformanceMatrixBuilder),
+ * poznámky (Remarks and Explanations) z pravidel, která na kritériu selhala.
+ * Funkční kritéria Section 508 (kap. 3) a EN 301 549 (4.2) jsou odvozena z navázaných kritérií WCAG.
+ */
+export class AcrGenerator {
+  public static readonly EDITIONS: AcrEdition[] = ['WCAG', '508', 'EU', 'INT'];
+
+  // Verze WCAG, na kterou odkazuje daná edice EN 301 549 (kapitola 9 – Web)
+  private static readonly EN_WCAG_VERSION: Record<En301549Edition, WcagVersion> = {
+    'V3.2.1': '2.1',
+    'V3.1.1': '2.1',
+    'V2.1.2': '2.1',
+    'V1.1.2': '2.0',
+  };
+
+  // 4.1.1 Parsing: errata WCAG 2.0/2.1 (2023) ho pro HTML/XML prohlašuje za vždy splněné (ve 2.2 je
+  // zrušené). Revised 508 a EN 301 549 V3.x přebírají WCAG bez errat, INT je pokrývá obě – tam se
+  // kritérium hodnotí jako každé jiné.
+  private static readonly PARSING_OBSOLETE: Record<AcrEdition, boolean> = {
+    WCAG: true,
+    '508': false,
+    EU: false,
+    INT: false,
+  };
+
+  private static readonly SECTION_508_FPC: FunctionalCriterion[] = [
+    { id: '302.1', title: 'Without Vision', wcag: ['1.1.1', '1.3.1', '1.3.2', '2.1.1', '2.4.2', '2.4.3', '2.4.4', '3.1.1', '4.1.2'] },
+    { id: '302.2', title: 'With Limited Vision', wcag: ['1.4.3', '1.4.4', '1.4.10', '1.4.11', '1.4.12', '2.4.7'] },
+    { id: '302.3', title: 'Without Perception of Color', wcag: ['1.4.1', '1.4.3', '1.4.11'] },
+    { id: '302.4', title: 'Without Hearing', wcag: ['1.2.1', '1.2.2', '1.2.4'] },
+    { id: '302.5', title: 'With Limited Hearing', wcag: ['1.2.2', '1.2.4', '1.4.2'] },
+    { id: '302.6', title: 'Without Speech', wcag: [] },
+    { id: '302.7', title: 'With Limited Manipulation', wcag: ['2.1.1', '2.1.2', '2.5.1', '2.5.2', '2.5.7', '2.5.8'] },
+    { id: '302.8', title: 'With Limited Reach and Strength', wcag: ['2.1.1', '2.2.1', '2.5.1', '2.5.8'] },
+    { id: '302.9', title: 'With Limited Language, Cognitive, and Learning Abilities', wcag: ['2.2.1', '2.2.2', '2.4.6', '3.1.1', '3.2.3', '3.2.4', '3.3.1', '3.3.2', '3.3.3'] },
+  ];
+
+  private static readonly EN_301_549_FPS: FunctionalCriterion[] = [
+    { id: '4.2.1', title: 'Usage without vision', wcag: ['1.1.1', '1.3.1', '1.3.2', '2.1.1', '2.4.2', '2.4.3', '2.4.4', '3.1.1', '4.1.2'] },
+    { id: '4.2.2', title: 'Usage with limited vision', wcag: ['1.4.3', '1.4.4', '1.4.10', '1.4.11', '1.4.12', '2.4.7'] },
+    { id: '4.2.3', title: 'Usage without perception of colour', wcag: ['1.4.1', '1.4.3', '1.4.11'] },
+    { id: '4.2.4', title: 'Usage without hearing', wcag: ['1.2.1', '1.2.2', '1.2.4'] },
+    { id: '4.2.5', title: 'Usage with limited hearing', wcag: ['1.2.2', '1.2.4', '1.4.2'] },
+    { id: '4.2.6', title: 'Usage with no or limited vocal capability', wcag: [] },
+    { id: '4.2.7', title: 'Usage with limited manipulation or strength', wcag: ['2.1.1', '2.1.2', '2.5.1', '2.5.2', '2.5.7', '2.5.8'] },
+    { id: '4.2.8', title: 'Usage with limited reach', wcag: ['2.1.1', '2.5.8'] },
+    { id: '4.2.9', title: 'Minimize photosensitive seizure triggers', wcag: ['2.3.1'] },
+    { id: '4.2.10', title: 'Usage with limited cognition, language or learning', wcag: ['2.2.1', '2.2.2', '2.4.6', '3.1.1', '3.2.3', '3.2.4', '3.3.1', '3.3.2', '3.3.3'] },
+    { id: '4.2.11', title: 'Privacy', wcag: [] },
+  ];
+
+  private static readonly TERMS: Record<AcrConformance, string> = {
+    Supports: 'The functionality of the product has at least one method that meets the criterion without known defects or meets with equivalent facilitation.',
+    'Partially Supports': 'Some functionality of the product does not meet the criterion.',
+    'Does Not Support': 'The majority of product functionality does not meet the criterion.',
+    'Not Applicable': 'The criterion is not relevant to the product.',
+    'Not Evaluated': 'The product has not been evaluated against the criterion.',
+  };
+
+  public static build(report: AuditReport | CrawlSummary, options: AcrOptions = {}): AcrReport {
+    const edition = options.edition || 'WCAG';
+    if (!this.EDITIONS.includes(edition)) {
+      throw new Error(`Invalid ACR edition: ${edition}`);
+    }
+
+    const isCrawl = Array.isArray((report as CrawlSummary).pages);
+    const pages = isCrawl ? (report as CrawlSummary).pages : [report as AuditReport];
+    const rootUrl = isCrawl ? (report as CrawlSummary).rootUrl : (report as AuditReport).url;
+
+    const enEdition = options.en301549Edition || 'V3.2.1';
+    if (!this.EN_WCAG_VERSION[enEdition]) {
+      throw new Error(`Invalid EN 301 549 edition: ${enEdition}`);
+    }
+
+    const wcagVersion =
+      options.wcagVersion ||
+      (edition === '508' ? '2.0' : edition === 'EU' ? this.EN_WCAG_VERSION[enEdition] : '2.2');
+    const wcagLevel = options.wcagLevel || 'AA';
+
+    const context = this.collectContext(pages);
+    const rowsFor = (version: WcagVersion, level: WcagLevel): AcrRow[] =>
+      ConformanceMatrixBuilder.build(report, { version, level }).entries.map((entry) =>
+        this.toRow(entry, context, pages.length, this.PARSING_OBSOLETE[edition]),
+      );
+
+    const wcagRows = rowsFor(wcagVersion, wcagLevel);
+
+    const tables: AcrTable[] = [
+      { id: 'wcag-a', title: `Table 1: Success Criteria, Level A (WCAG ${wcagVersion})`, rows: wcagRows.filter((r) => r.level === 'A') },
+      { id: 'wcag-aa', title: `Table 2: Success Criteria, Level AA (WCAG ${wcagVersion})`, rows: wcagRows.filter((r) => r.level === 'AA') },
+    ];
+    if (wcagLevel === 'AAA') {
+      tables.push({ id: 'wcag-aaa', title: `Table 3: Success Criteria, Level AAA (WCAG ${wcagVersion})`, rows: wcagRows.filter((r) => r.level === 'AAA') });
+    }
+
+    if (edition === '508' || edition === 'INT') {
+      // Revised Section 508 přebírá pro web WCAG 2.0 A/AA (E205.4)
+      const rows508 = wcagVersion === '2.0' && wcagLevel === 'AA' ? wcagRows : rowsFor('2.0', 'AA');
+      tables.push({
+        id: 'section-508-fpc',
+        title: 'Revised Section 508 – Chapter 3: Functional Performance Criteria (FPC)',
+        description: 'Derived from the WCAG 2.0 Level A and AA results that address each functional need.',
+        rows: this.toFunctionalRows(this.SECTION_508_FPC, rows508),
+      });
+    }
+
+    if (edition === 'EU' || edition === 'INT') {
+      const enVersion = this.EN_WCAG_VERSION[enEdition];
+      const enRows = enVersion === wcagVersion && wcagLevel === 'AA' ? wcagRows : rowsFor(enVersion, 'AA');
+
+      tables.push({
+        id: 'en-301-549-fps',
+        title: `EN 301 549 ${enEdition} – Clause 4.2: Functional Performance Statements`,
+        description: `Derived from the WCAG ${enVersion} Level A and AA results that address each functional need.`,
+        rows: this.toFunctionalRows(this.EN_301_549_FPS, enRows),
+      });
+      tables.push({
+        id: 'en-301-549-web',
+        title: `EN 301 549 ${enEdition} – Clause 9: Web`,
+        rows: enRows.map((r) => ({ ...r, id: `9.${r.id}` })),
+      });
+    }
+
+    const audited = pages.find((p) => p.manualChecklist?.auditedAt)?.manualChecklist;
+    const methods = ['Automated testing with axe-core and A11y-Flow custom ACT rules'];
+    if (audited) {
+      methods.push(`manual audit${audited.auditor ? ` by ${audited.auditor}` : ''} (${audited.auditedAt})`);
+    }
+
+    return {
+      edition,
+      productName: options.productName || this.hostname(rootUrl),
+      productVersion: options.productVersion,
+      productDescription: options.productDescription,
+      vendor: options.vendor,
+      contact: options.contact,
+      reportDate: new Date().toISOString().slice(0, 10),
+      wcagVersion,
+      en301549Edition: edition === 'EU' || edition === 'INT' ? enEdition : undefined,
+      evaluationMethods: methods.join('; '),
+      scope: pages.map((p) => p.url),
+      notes: options.notes,
+      tables,
+    };
+  }
+
+  /**
+   * Samostatné HTML (náhled v prohlížeči, podklad pro PDF).
+   */
+  public static toHtml(acr: AcrReport): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${this.escapeHtml(this.title(acr))}</title>
+<style>
+  body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; color: #1f2937; line-height: 1.5; margin: 0; padding: 24px; }
+  h1 { font-size: 26px; margin: 0 0 16px; }
+  h2 { font-size: 20px; margin: 32px 0 8px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; margin-bottom: 16px; }
+  th, td { border: 1px solid #9ca3af; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #e5e7eb; }
+  tr { page-break-inside: avoid; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 4px 16px; }
+  dt { font-weight: bold; }
+  dd { margin: 0; }
+  .conformance-does-not-support { color: #b91c1c; font-weight: bold; }
+  .conformance-partially-supports { color: #b45309; font-weight: bold; }
+  .conformance-supports { color: #047857; }
+</style>
+</head>
+<body>
+${this.renderBody(acr)}
+</body>
+</html>`;
+  }
+
+  /**
+   * HTML, které Word otevře jako dokument (uložit jako .doc) – inline okraje tabulek,
+   * stránka A4 a zobrazení "Print Layout".
+   */
+  public static toWordHtml(acr: AcrReport): string {
+    return `<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word" xmlns="http://www.w3.org/TR/REC-html40" lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="ProgId" content="Word.Document">
+<meta name="Generator" content="A11y-Flow">
+<title>${this.escapeHtml(this.title(acr))}</title>
+<!--[if gte mso 9]><xml><w:WordDocument><w:View>Print</w:View><w:Zoom>100</w:Zoom></w:WordDocument></xml><![endif]-->
+<style>
+  @page Section1 { size: 21cm 29.7cm; margin: 2cm 1.5cm 2cm 1.5cm; }
+  div.Section1 { page: Section1; }
+  body { font-family: Calibri, Arial, sans-serif; font-size: 11pt; }
+  h1 { font-size: 20pt; }
+  h2 { font-size: 14pt; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border: 1pt solid #808080; padding: 4pt; vertical-align: top; font-size: 10pt; }
+  th { background: #D9D9D9; }
+</style>
+</head>
+<body>
+<div class="Section1">
+${this.renderBody(acr, true)}
+</div>
+</body>
+</html>`;
+  }
+
+  private static renderBody(acr: AcrReport, word = false): string {
+    const tableAttrs = word ? ' border="1" cellspacing="0" cellpadding="4" width="100%"' : '';
+    const meta: Array<[string, string | undefined]> = [
+      ['Name of Product/Version', [acr.productName, acr.productVersion].filter(Boolean).join(' ')],
+      ['Report Date', acr.reportDate],
+      ['Product Description', acr.productDescription],
+      ['Vendor', acr.vendor],
+      ['Contact Information', acr.contact],
+      ['Notes', acr.notes],
+      ['Evaluation Methods Used', acr.evaluationMethods],
+    ];
+
+    const standards = [`Web Content Accessibility Guidelines ${acr.wcagVersion}`];
+    if (acr.edition === '508' || acr.edition === 'INT') standards.push('Revised Section 508 standards (January 2017)');
+    if (acr.en301549Edition) standards.push(`EN 301 549 Accessibility requirements for ICT products and services ${acr.en301549Edition}`);
+
+    return `
+<h1>${this.escapeHtml(this.title(acr))}</h1>
+<p>Based on VPAT<sup>®</sup> 2.5 ${this.escapeHtml(acr.edition === 'EU' ? 'EU' : acr.edition === 'INT' ? 'INT' : acr.edition === '508' ? 'Revised Section 508' : 'WCAG')} Edition</p>
+
+<dl>
+${meta.filter(([, value]) => value).map(([label, value]) => `  <dt>${label}</dt><dd>${this.escapeHtml(value as string)}</dd>`).join('\n')}
+</dl>
+
+<h2>Applicable Standards/Guidelines</h2>
+<ul>
+${standards.map((s) => `  <li>${this.escapeHtml(s)}</li>`).join('\n')}
+</ul>
+
+<h2>Evaluated Pages</h2>
+<ul>
+${acr.scope.map((url) => `  <li>${this.escapeHtml(url)}</li>`).join('\n')}
+</ul>
+
+<h2>Terms</h2>
+<ul>
+${(Object.keys(this.TERMS) as AcrConformance[]).map((term) => `  <li><strong>${term}:</strong> ${this.TERMS[term]}</li>`).join('\n')}
+</ul>
+${acr.tables.map((table) => `
+<h2>${this.escapeHtml(table.title)}</h2>
+${table.description ? `<p>${this.escapeHtml(table.description)}</p>` : ''}
+<table${tableAttrs}>
+  <thead>
+    <tr><th scope="col">Criteria</th><th scope="col">Conformance Level</th><th scope="col">Remarks and Explanations</th></tr>
+  </thead>
+  <tbody>
+${table.rows.map((row) => `    <tr>
+      <td>${this.escapeHtml(`${row.id} ${row.title}`)}${row.level ? ` (Level ${row.level})` : ''}</td>
+      <td class="conformance-${row.conformance.toLowerCase().replace(/\s+/g, '-')}">${row.conformance}</td>
+      <td>${this.escapeHtml(row.remarks)}</td>
+    </tr>`).join('\n')}
+  </tbody>
+</table>`).join('\n')}
+
+<h2>Legal Disclaimer</h2>
+<p>This report was generated from automated scan results${acr.evaluationMethods.includes('manual audit') ? ' and a manual audit' : ''}. Automated testing cannot verify every success criterion; criteria marked "Not Evaluated" require manual review before the product can be claimed to conform.</p>
+`;
+  }
+
+  /**
+   * "Supports" a "Not Applicable" jen s potvrzením z ručního auditu – prošlé automatické
+   * kontroly kritérium nikdy celé neověří, takže bez auditu zůstává "Not Evaluated".
+   */
+  private static toRow(entry: ConformanceEntry, context: AcrContext, pageCount: number, parsingObsolete: boolean): AcrRow {
+    const base = { id: entry.id, title: entry.title, level: entry.level };
+
+    if (entry.status === 'failed') {
+      const failures = entry.failedRules.map((ruleId) => this.describeFailure(ruleId, context, pageCount));
+      const severe = entry.failedRules.some((ruleId) => {
+        const failure = context.failures.get(ruleId);
+        return failure ? failure.impact === 'critical' || failure.impact === 'serious' : context.manualFailures.has(ruleId);
+      });
+      // Selhání jen na části stránek crawlu je vždy "Partially Supports"
+      const everywhere = pageCount <= 1 || (entry.failedPages || 0) >= pageCount;
+
+      return {
+        ...base,
+        conformance: severe && everywhere ? 'Does Not Support' : 'Partially Supports',
+        remarks: failures.join(' '),
+      };
+    }
+
+    // Needs-review jen z prošlých automatických pravidel popisujeme níž spolu s nimi
+    if (entry.status === 'needs-review' && entry.reviewRules.length > 0) {
+      const titles = entry.reviewRules.map((ruleId) => context.titles.get(ruleId) || ruleId);
+      return {
+        ...base,
+        conformance: 'Not Evaluated',
+        remarks: `Automated checks could not decide; requires manual verification: ${titles.join('; ')}.`,
+      };
+    }
+
+    const manual = entry.passedRules.filter((ruleId) => context.manualRules.has(ruleId));
+    const automated = entry.passedRules.filter((ruleId) => !context.manualRules.has(ruleId));
+    const automatedRemark = automated.length > 0 ? `Automated checks passed (${automated.join(', ')}). ` : '';
+
+    if (entry.status === 'passed' && manual.length > 0) {
+      const confirmed = manual.filter((ruleId) => context.applied.has(ruleId));
+      if (confirmed.length === 0) {
+        return { ...base, conformance: 'Not Applicable', remarks: 'Manual audit found no content this criterion applies to.' };
+      }
+      return { ...base, conformance: 'Supports', remarks: `${automatedRemark}Verified by manual audit.` };
+    }
+
+    if (entry.id === '4.1.1' && parsingObsolete) {
+      return { ...base, conformance: 'Supports', remarks: 'Per the WCAG 2.0 and 2.1 errata, this criterion is always satisfied for content using HTML or XML.' };
+    }
+
+    if (entry.status === 'needs-review' || entry.status === 'passed') {
+      const notApplicable = automated.every((ruleId) => context.notApplicable.has(ruleId) && !context.applied.has(ruleId));
+      return {
+        ...base,
+        conformance: 'Not Evaluated',
+        remarks: notApplicable
+          ? 'Automated checks found no content this criterion applies to; not confirmed by a manual audit.'
+          : `${automatedRemark}Not confirmed by a manual audit.`,
+      };
+    }
+
+    return { ...base, conformance: 'Not Evaluated', remarks: 'Not covered by automated testing; requires manual evaluation.' };
+  }
+
+  /**
+   * Funkční kritéria (508 FPC, EN 4.2) – nejhorší výsledek z navázaných kritérií WCAG.
+   */
+  private static toFunctionalRows(criteria: FunctionalCriterion[], wcagRows: AcrRow[]): AcrRow[] {
+    return criteria.map((criterion) => {
+      const mapped = wcagRows.filter((r) => criterion.wcag.includes(r.id));
+
+      if (mapped.length === 0) {
+        return { id: criterion.id, title: criterion.title, conformance: 'Not Evaluated', remarks: 'Not covered by automated web testing.' };
+      }
+
+      const ids = (list: AcrRow[]) => list.map((r) => r.id).join(', ');
+      const failing = mapped.filter((r) => r.conformance === 'Does Not Support' || r.conformance === 'Partially Supports');
+      const notEvaluated = mapped.filter((r) => r.conformance === 'Not Evaluated');
+      const basis = `Based on WCAG ${ids(mapped)}.`;
+
+      let conformance: AcrConformance;
+      let remarks: string;
+
+      if (failing.length > 0) {
+        conformance = failing.length === mapped.length && failing.every((r) => r.conformance === 'Does Not Support')
+          ? 'Does Not Support'
+          : 'Partially Supports';
+        remarks = `${basis} Not met: ${ids(failing)}.`;
+      } else if (notEvaluated.length > 0) {
+        conformance = 'Not Evaluated';
+        remarks = `${basis} Not evaluated: ${ids(notEvaluated)}.`;
+      } else if (mapped.every((r) => r.conformance === 'Not Applicable')) {
+        conformance = 'Not Applicable';
+        remarks = basis;
+      } else {
+        conformance = 'Supports';
+        remarks = basis;
+      }
+
+      return { id: criterion.id, title: criterion.title, conformance, remarks };
+    });
+  }
+
+  private static describeFailure(ruleId: string, context: AcrContext, pageCount: number): string {
+    const failure = context.failures.get(ruleId);
+    if (failure) {
+      const pages = pageCount > 1 ? ` on ${failure.pages.size} of ${pageCount} pages` : '';
+      return `Fails "${failure.title}" (${ruleId}): ${failure.count} instance${failure.count === 1 ? '' : 's'}${pages}.`;
+    }
+
+    const manual = context.manualFailures.get(ruleId);
+    if (manual) {
+      return `Manual audit: ${manual.title}${manual.notes.length > 0 ? ` – ${manual.notes.join('; ')}` : ''}.`;
+    }
+
+    return `Fails ${ruleId}.`;
+  }
+
+  private static collectContext(pages: AuditReport[]): AcrContext {
+    const context: AcrContext = {
+      failures: new Map(),
+      manualFailures: new Map(),
+      titles: new Map(),
+      applied: new Set(),
+      notApplicable: new Set(),
+      manualRules: new Set(ActRuleRegistry.filter((r) => r.status === 'manual').map((r) => r.id)),
+    };
+
+    for (const page of pages) {
+      for (const impact of ['critical', 'serious', 'moderate', 'minor'] as ImpactLevel[]) {
+        for (const v of page.violations[impact] || []) {
+          const failure = context.failures.get(v.id) || { title: v.title, impact, count: 0, pages: new Set<string>() };
+          failure.count += v.count;
+          failure.pages.add(page.url);
+          context.failures.set(v.id, failure);
+          context.titles.set(v.id, v.title);
+        }
+      }
+
+      for (const r of page.needsReview || []) context.titles.set(r.id, r.title);
+      for (const r of page.passes || []) context.applied.add(r.id);
+      for (const r of page.inapplicable || []) context.notApplicable.add(r.id);
+
+      for (const item of page.manualChecklist?.items || []) {
+        context.titles.set(item.ruleId, item.name);
+        if (item.status === 'pass') context.applied.add(item.ruleId);
+        if (item.status === 'not-applicable') context.notApplicable.add(item.ruleId);
+        if (item.status === 'fail') {
+          const failure = context.manualFailures.get(item.ruleId) || { title: item.name, notes: [] };
+          if (item.note && !failure.notes.includes(item.note)) failure.notes.push(item.note);
+          context.manualFailures.set(item.ruleId, failure);
+        }
+      }
+    }
+
+    return context;
+  }
+
+  private static title(acr: AcrReport): string {
+    return `${acr.productName} Accessibility Conformance Report`;
+  }
+
+  private static hostname(url: string): string {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return url;
+    }
+  }
+
+  private static escapeHtml(str: string): string {
+    return String(str == null ? '' : str)
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
+
+interface AcrContext {
+  failures: Map<string, RuleFailure>;
+  manualFailures: Map<string, { title: string; notes: string[] }>;
+  titles: Map<string, string>;
+  // Pravidla, která na některé stránce reálně něco otestovala (passes / ruční "pass")
+  applied: Set<string>;
+  notApplicable: Set<string>;
+  manualRules: Set<string>;
+}
@@ -0,0 +1,121 @@
+import { ConformanceMatrixBuilder } from './ConformanceMatrixBuilder';
+import { AuditReport, ConformanceMatrix, CustomActRun, KeyboardNavigationIssue } from './types';
+import { PAGE_URL, crawl, manual, outcomes, page, violation } from './testFixtures';
+
+function keyboardIssue(type: KeyboardNavigationIssue['type'], extra: Partial<KeyboardNavigationIssue> = {}): KeyboardNavigationIssue {
+  return { type, step: 1, description: type, ...extra };
+}
+
+function run(testId: string, status: CustomActRun['status']): CustomActRun {
+  return { testId, label: testId, status, durationMs: 10, violationCount: 0, ruleIds: [] };
+}
+
+function entry(matrix: ConformanceMatrix, id: string) {
+  return matrix.entries.find((e) => e.id === id)!;
+}
+
+const build = (extra: Partial<AuditReport>) => ConformanceMatrixBuilder.build(page(PAGE_URL, [], extra));
+
+describe('ConformanceMatrixBuilder', () => {
+  it('leaves criteria covered only by passed or inapplicable rules for review, never passed', () => {
+    const matrix = build({
+      passes: outcomes('image-alt'),
+      inapplicable: outcomes('video-caption'),
+    });
+
+    expect(entry(matrix, '1.1.1')).toMatchObject({ status: 'needs-review', passedRules: ['image-alt'], reviewRules: [] });
+    expect(entry(matrix, '1.2.2').status).toBe('needs-review');
+    expect(entry(matrix, '3.2.6').status).toBe('not-tested');
+    expect(matrix.summary.passed).toBe(0);
+    expect(Object.keys(matrix.summary).sort()).toEqual(['failed', 'needs-review', 'not-tested', 'passed']);
+  });
+
+  it('lets only a manual verdict mark a criterion as passed and keeps failures and review on top', () => {
+    const matrix = build({
+      violations: { critical: [], serious: [violation('link-in-text-block', 'serious')], moderate: [], minor: [] },
+      passes: outcomes('image-alt', 'color-contrast'),
+      needsReview: outcomes('color-contrast'),
+      manualChecklist: {
+        automatedScore: 90,
+        items: [
+          manual('use-of-color-manual', 'pass'),
+          manual('multiple-ways-manual', 'pass'),
+          manual('headings-labels-descriptive-manual', 'pending'),
+          manual('images-of-text-manual', 'pass'),
+        ],
+      },
+    });
+
+    expect(entry(matrix, '2.4.5').status).toBe('passed');
+    expect(entry(matrix, '1.4.5').status).toBe('passed');
+    expect(entry(matrix, '1.4.1')).toMatchObject({ status: 'failed', failedRules: ['link-in-text-block'] });
+    expect(entry(matrix, '1.4.3')).toMatchObject({ status: 'needs-review', reviewRules: ['color-contrast'] });
+    expect(entry(matrix, '2.4.6').status).toBe('needs-review');
+  });
+
+  it('maps custom and service rule ids through the registry', () => {
+    const matrix = build({
+      violations: {
+        critical: [],
+        serious: [violation('a11yflow-focus-trap', 'serious'), violation('a11yflow-status-messages', 'serious')],
+        moderate: [],
+        minor: [],
+      },
+      customActRuns: [run('focus-order', 'failed')],
+    });
+
+    expect(entry(matrix, '2.1.2').failedRules).toContain('a11yflow-focus-trap');
+    expect(entry(matrix, '4.1.3').failedRules).toContain('a11yflow-status-messages');
+  });
+
+  it('credits custom test coverage only on pages where the test ran to the end', () => {
+    const passes = outcomes('a11yflow-reflow', 'a11yflow-resize-text');
+
+    const ran = build({ passes, customActRuns: [run('reflow', 'passed')] });
+    const timedOut = build({ passes, customActRuns: [run('reflow', 'timed-out')] });
+
+    expect(entry(ran, '1.4.10')).toMatchObject({ status: 'needs-review', passedRules: ['a11yflow-reflow', 'a11yflow-resize-text'] });
+    expect(entry(timedOut, '1.4.10').status).toBe('not-tested');
+  });
+
+  it('maps keyboard audit issues to their criteria and partially verifies the rest', () => {
+    const report = page(PAGE_URL, [], {
+      keyboardNavigation: {
+        totalSteps: 12,
+        issues: [
+          keyboardIssue('focus-lost'),
+          keyboardIssue('no-visible-focus'),
+          keyboardIssue('focus-obscured', { fullyObscured: false }),
+          keyboardIssue('reverse-focus-order'),
+        ],
+      },
+    });
+
+    const aa = ConformanceMatrixBuilder.build(report);
+    expect(entry(aa, '2.1.2')).toMatchObject({ status: 'failed', failedRules: ['keyboard-focus-lost'] });
+    expect(entry(aa, '2.4.7')).toMatchObject({ status: 'failed', failedRules: ['keyboard-no-visible-focus'] });
+    expect(entry(aa, '2.4.3')).toMatchObject({ status: 'failed', failedRules: ['keyboard-reverse-focus-order'] });
+    expect(entry(aa, '2.1.1')).toMatchObject({ status: 'needs-review', passedRules: ['keyboard-navigation'] });
+    // Částečné zakrytí je AAA 2.4.12, 2.4.11 ověřil jen automat
+    expect(entry(aa, '2.4.11')).toMatchObject({ status: 'needs-review', failedRules: [] });
+
+    const aaa = ConformanceMatrixBuilder.build(report, { level: 'AAA' });
+    expect(entry(aaa, '2.4.12')).toMatchObject({ status: 'failed', failedRules: ['keyboard-focus-obscured'] });
+  });
+
+  it('merges crawl pages with the worst status and counts failed pages', () => {
+    const summary = crawl([
+      page(PAGE_URL, [], { passes: outcomes('image-alt') }),
+      page('https://example.com/about', [violation('image-alt', 'critical')]),
+    ]);
+
+    const matrix = ConformanceMatrixBuilder.build(summary);
+
+    expect(entry(matrix, '1.1.1')).toMatchObject({
+      status: 'failed',
+      failedPages: 1,
+      failedRules: ['image-alt'],
+      passedRules: ['image-alt'],
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import axe from 'axe-core';
+import {
+  AuditReport,
+  CrawlSummary,
+  ConformanceEntry,
+  ConformanceMatrix,
+  CriterionStatus,
+  KeyboardNavigationIssue,
+  WcagLevel,
+  WcagVersion,
+} from './types';
+import { getWcagCriteria, parseWcagCriteria, wcagCriterionFromAxeTag } from './WcagCatalogue';
+import { RemediationService } from './RemediationService';
+import { ActRuleRegistry } from './acts/ActRuleRegistry';
+import { listCustomActTests } from './acts/CustomActSuite';
+
+export interface ConformanceOptions {
+  version?: WcagVersion;
+  level?: WcagLevel;
+}
+
+type RuleBucket = 'failedRules' | 'reviewRules' | 'passedRules';
+
+/**
+ * Mapuje výsledky skenu na jednotlivá kritéria WCAG.
+ *
+ * Pravidlo -> kritéria bereme ze všech zdrojů, které máme:
+ * axe tagy (wcag143), wcag text z RemediationService, ActRuleRegistry.wcag
+ * (axe pravidla, custom testy i ruleIds služeb) a wcagReference z action itemů custom ACT testů.
+ * Kritérium, na které nemíří žádné pravidlo, je "not-tested".
+ *
+ * Automat kritérium nikdy nesplní sám: prošlé nebo nepoužitelné pravidlo dává jen
+ * "needs-review" (pravidlo zůstane v passedRules). "passed" vzniká až z verdiktu ručního auditu.
+ */
+export class ConformanceMatrixBuilder {
+  private static axeTagCache: Record<string, string[]> | null = null;
+
+  // Pořadí stavu – vyšší přebíjí nižší. "automated" (jen prošlá pravidla) se vypíše jako
+  // needs-review, ale ruční "passed" ho přebije; nerozhodnutý výsledek axe nebo čekající položku ne.
+  private static readonly STATUS_RANK: Record<CriterionStatus | 'automated', number> = {
+    'not-tested': 0,
+    automated: 1,
+    passed: 2,
+    'needs-review': 3,
+    failed: 4,
+  };
+
+  // Problémy klávesnicového auditu -> kritéria (částečné zakrytí fokusu je AAA 2.4.12)
+  private static readonly KEYBOARD_ISSUE_CRITERIA: Record<KeyboardNavigationIssue['type'], string[]> = {
+    'no-focusable-elements': ['2.1.1'],
+    'focus-lost': ['2.1.2'],
+    'focus-loop': ['2.1.2'],
+    'no-visible-focus': ['2.4.7'],
+    'offscreen-focus': ['2.4.7'],
+    'focus-obscured': ['2.4.11'],
+    'focus-appearance': ['2.4.13'],
+    'reverse-focus-order': ['2.4.3'],
+  };
+
+  public static build(report: AuditReport | CrawlSummary, options: ConformanceOptions = {}): ConformanceMatrix {
+    if (Array.isArray((report as CrawlSummary).pages)) {
+      return this.buildForPages((report as CrawlSummary).pages, options);
+    }
+    return this.buildForPage(report as AuditReport, options);
+  }
+
+  /**
+   * Matice pro crawl – matici stránky převezmeme, jen pokud odpovídá cílové verzi a úrovni.
+   */
+  public static buildForPages(pages: AuditReport[], options: ConformanceOptions = {}): ConformanceMatrix {
+    const version = options.version || '2.2';
+    const level = options.level || 'AA';
+
+    return this.merge(
+      pages.map((p) =>
+        p.conformance && p.conformance.version === version && p.conformance.level === level
+          ? p.conformance
+          : this.buildForPage(p, { version, level }),
+      ),
+      { version, level },
+    );
+  }
+
+  private static buildForPage(report: AuditReport, options: ConformanceOptions): ConformanceMatrix {
+    const version = options.version || '2.2';
+    const level = options.level || 'AA';
+
+    const entries = new Map<string, ConformanceEntry>(
+      getWcagCriteria(version, level).map((c) => [
+        c.id,
+        { ...c, status: 'not-tested', failedRules: [], reviewRules: [], passedRules: [] },
+      ]),
+    );
+
+    const wcagReferences = new Map<string, string>();
+    for (const item of report.humanReadable?.actionItems || []) {
+      if (item.wcagReference && !wcagReferences.has(item.id)) {
+        wcagReferences.set(item.id, item.wcagReference);
+      }
+    }
+
+    // Custom testy, které na této stránce doběhly – jen ty pokrývají kritéria svých pravidel
+    const ranTests = new Set(
+      (report.customActRuns || []).filter((r) => r.status === 'passed' || r.status === 'failed').map((r) => r.testId),
+    );
+
+    const ranks = new Map<string, number>();
+    const mark = (ruleId: string, bucket: RuleBucket, status: CriterionStatus | 'automated', criteria?: string[]) => {
+      for (const id of criteria || this.criteriaForRule(ruleId, wcagReferences.get(ruleId), ranTests)) {
+        const entry = entries.get(id);
+        if (!entry) continue; // kritérium mimo cílovou úroveň (např. AAA)
+        if (!entry[bucket].includes(ruleId)) entry[bucket].push(ruleId);
+        const rank = this.STATUS_RANK[status];
+        if (rank > (ranks.get(id) || 0)) {
+          ranks.set(id, rank);
+          entry.status = status === 'automated' ? 'needs-review' : status;
+        }
+      }
+    };
+
+    const violations = [
+      ...report.violations.critical,
+      ...report.violations.serious,
+      ...report.violations.moderate,
+      ...report.violations.minor,
+    ];
+
+    for (const v of violations) mark(v.id, 'failedRules', 'failed');
+    for (const r of report.needsReview || []) mark(r.id, 'reviewRules', 'needs-review');
+    // Prošlé i nepoužitelné pravidlo pokrývá jen část kritéria – splnění potvrdí až ruční audit
+    for (const r of report.passes || []) mark(r.id, 'passedRules', 'automated');
+    for (const r of report.inapplicable || []) mark(r.id, 'passedRules', 'automated');
+
+    const keyboard = report.keyboardNavigation;
+    if (keyboard && keyboard.totalSteps > 0) {
+      // Průchod Tabem bez nálezu je částečné ověření všech kritérií, která audit sleduje
+      const audited = new Set(Object.values(this.KEYBOARD_ISSUE_CRITERIA).flat());
+      mark('keyboard-navigation', 'passedRules', 'automated', Array.from(audited));
+    }
+    for (const issue of keyboard?.issues || []) {
+      const criteria =
+        issue.type === 'focus-obscured' && issue.fullyObscured === false ? ['2.4.12'] : this.KEYBOARD_ISSUE_CRITERIA[issue.type];
+      mark(`keyboard-${issue.type}`, 'failedRules', 'failed', criteria);
+    }
+
+    for (const item of report.manualChecklist?.items || []) {
+      if (item.status === 'fail') mark(item.ruleId, 'failedRules', 'failed', item.wcag);
+      else if (item.status === 'pending') mark(item.ruleId, 'reviewRules', 'needs-review', item.wcag);
+      else mark(item.ruleId, 'passedRules', 'passed', item.wcag);
+    }
+
+    return this.toMatrix(Array.from(entries.values()), version, level);
+  }
+
+  /**
+   * Sloučení matic stránek – kritérium má nejhorší stav ze všech stránek.
+   */
+  private static merge(matrices: ConformanceMatrix[], options: ConformanceOptions): ConformanceMatrix {
+    const version = options.version || '2.2';
+    const level = options.level || 'AA';
+    const merged = new Map<string, ConformanceEntry>(
+      getWcagCriteria(version, level).map((c) => [
+        c.id,
+        { ...c, status: 'not-tested', failedRules: [], reviewRules: [], passedRules: [], failedPages: 0 },
+      ]),
+    );
+
+    for (const matrix of matrices) {
+      for (const entry of matrix.entries) {
+        const target = merged.get(entry.id);
+        if (!target) continue;
+
+        if (this.STATUS_RANK[entry.status] > this.STATUS_RANK[target.status]) target.status = entry.status;
+        if (entry.status === 'failed') target.failedPages = (target.failedPages || 0) + 1;
+
+        for (const bucket of ['failedRules', 'reviewRules', 'passedRules'] as RuleBucket[]) {
+          for (const ruleId of entry[bucket]) {
+            if (!target[bucket].includes(ruleId)) target[bucket].push(ruleId);
+          }
+        }
+      }
+    }
+
+    return this.toMatrix(Array.from(merged.values()), version, level);
+  }
+
+  private static toMatrix(entries: ConformanceEntry[], version: WcagVersion, level: WcagLevel): ConformanceMatrix {
+    const summary: Record<CriterionStatus, number> = {
+      failed: 0,
+      'needs-review': 0,
+      passed: 0,
+      'not-tested': 0,
+    };
+    for (const entry of entries) summary[entry.status]++;
+
+    return { version, level, entries, summary };
+  }
+
+  private static criteriaForRule(ruleId: string, wcagReference: string | undefined, ranTests: Set<string>): string[] {
+    const criteria = new Set<string>(this.getAxeTagCriteria()[ruleId] || []);
+
+    for (const id of parseWcagCriteria(RemediationService.getRuleMeta(ruleId).wcag)) criteria.add(id);
+    for (const id of parseWcagCriteria(wcagReference)) criteria.add(id);
+
+    // Custom test hlásí pod svými ruleIds (focus-order -> a11yflow-focus-trap, …)
+    const customTestIds = listCustomActTests()
+      .filter((t) => ranTests.has(t.id) && t.ruleIds.includes(ruleId))
+      .map((t) => t.id);
+    for (const descriptor of ActRuleRegistry) {
+      const matches =
+        descriptor.id === ruleId ||
+        (descriptor.axeRuleIds || []).includes(ruleId) ||
+        (descriptor.ruleIds || []).includes(ruleId) ||
+        (descriptor.customTests || []).some((id) => customTestIds.includes(id));
+      if (matches) descriptor.wcag.forEach((id) => criteria.add(id));
+    }
+
+    return Array.from(criteria);
+  }
+
+  /**
+   * Mapa "axeRuleId -> kritéria" z tagů pravidel (wcag143 -> 1.4.3), cachovaná na úrovni procesu.
+   */
+  private static getAxeTagCriteria(): Record<string, string[]> {
+    if (this.axeTagCache) return this.axeTagCache;
+
+    const map: Record<string, string[]> = {};
+
+    for (const rule of axe.getRules()) {
+      const criteria = rule.tags.map(wcagCriterionFromAxeTag).filter((id): id is string => !!id);
+      if (criteria.length > 0) map[rule.ruleId] = criteria;
+    }
+
+    this.axeTagCache = map;
+    return map;
+  }
+}
@@ -0,0 +1,146 @@
+import { Jimp } from 'jimp';
+import { ContrastAnalyzer } from './ContrastAnalyzer';
+import { AuditReport, BackgroundContrastReport, ContrastMeasurement } from './types';
+import { PAGE_URL, page } from './testFixtures';
+
+const WHITE_TEXT: [number, number, number, number] = [255, 255, 255, 1];
+
+// Pozadí 100 × 20 px: prvních `whiteColumns` sloupců bílých, zbytek černý
+async function background(whiteColumns: number): Promise<Buffer> {
+  const image = new Jimp({ width: 100, height: 20, color: 0x000000ff });
+  image.scan((x, y) => {
+    if (x < whiteColumns) image.setPixelColor(0xffffffff, x, y);
+  });
+  return image.getBuffer('image/png');
+}
+
+function report(): AuditReport {
+  return page(PAGE_URL, [], {
+    needsReview: [
+      {
+        id: 'color-contrast',
+        title: 'Elements must meet minimum color contrast ratio thresholds',
+        nodeCount: 2,
+        nodes: [
+          { html: '<h1 class="hero">Summer sale</h1>', target: ['.hero > h1'], failureSummary: '', elementLabel: 'Hero heading' },
+          { html: '<p class="caption">Photo</p>', target: ['.caption'], failureSummary: '' },
+        ],
+      },
+    ],
+  });
+}
+
+function measurement(overrides: Partial<ContrastMeasurement>): ContrastMeasurement {
+  return {
+    selector: '.hero > h1',
+    text: 'Summer sale',
+    foreground: '#777777',
+    worstBackground: '#ffffff',
+    medianBackground: '#ffffff',
+    worstRatio: 4.48,
+    medianRatio: 4.48,
+    requiredRatio: 4.5,
+    largeText: false,
+    passed: false,
+    ...overrides,
+  };
+}
+
+function result(measurements: ContrastMeasurement[]): BackgroundContrastReport {
+  return {
+    candidates: measurements.length,
+    measured: measurements.length,
+    failed: measurements.filter((m) => !m.passed).length,
+    skipped: [],
+    measurements,
+  };
+}
+
+describe('ContrastAnalyzer', () => {
+  describe('measure', () => {
+    it('takes the worst and median pixel of a half-light, half-dark background', async () => {
+      // 30 % bílého pozadí – nejhorší pixel je bílý, medián leží v černé části
+      const measured = await ContrastAnalyzer.measure(await background(30), WHITE_TEXT, false);
+
+      expect(measured).toEqual({
+        foreground: '#ffffff',
+        worstBackground: '#ffffff',
+        medianBackground: '#000000',
+        worstRatio: 1,
+        medianRatio: 21,
+        requiredRatio: 4.5,
+        largeText: false,
+        passed: false,
+      });
+    });
+
+    it('ignores the worst 2 % of pixels as noise', async () => {
+      const measured = await ContrastAnalyzer.measure(await background(1), WHITE_TEXT, false);
+
+      expect(measured).toMatchObject({ worstBackground: '#000000', worstRatio: 21, passed: true });
+    });
+
+    it('blends semi-transparent text with each background pixel', async () => {
+      const measured = await ContrastAnalyzer.measure(await background(0), [255, 255, 255, 0.5], true);
+
+      expect(measured.foreground).toBe('#ffffff');
+      expect(measured.worstRatio).toBeCloseTo(5.28, 1);
+      expect(measured).toMatchObject({ requiredRatio: 3, largeText: true, passed: true });
+    });
+  });
+
+  describe('buildFindings', () => {
+    it('returns nothing when every measurement passed', () => {
+      const findings = ContrastAnalyzer.buildFindings(result([measurement({ passed: true })]), report(), 'https://example.com/');
+
+      expect(findings).toEqual({ violations: [], actionItems: [] });
+    });
+
+    it('reports failures with the axe node details and a filled color-contrast snippet for the worst one', () => {
+      const findings = ContrastAnalyzer.buildFindings(
+        result([
+          measurement({}),
+          measurement({
+            selector: '.caption',
+            text: 'Photo',
+            foreground: '#444444',
+            worstBackground: '#222222',
+            medianBackground: '#333333',
+            worstRatio: 1.46,
+            medianRatio: 1.24,
+            requiredRatio: 3,
+            largeText: true,
+          }),
+        ]),
+        report(),
+        'https://example.com/',
+      );
+
+      const [violation] = findings.violations;
+      expect(violation).toMatchObject({ id: 'a11yflow-background-contrast', impact: 'serious', count: 2 });
+      expect(violation.nodes[0]).toMatchObject({ html: '<h1 class="hero">Summer sale</h1>', elementLabel: 'Hero heading', target: ['.hero > h1'] });
+      expect(violation.nodes[1].failureSummary).toBe(
+        'Text #444444 na pozadí: nejhorší kontrast 1.46:1 (pixel #222222), medián 1.24:1 (pixel #333333), požadováno 3:1 (velký text).',
+      );
+
+      const [actionItem] = findings.actionItems;
+      expect(actionItem).toMatchObject({ exampleTarget: '.caption', exampleUrl: 'https://example.com/' });
+      expect(actionItem.what).toBe('Text "Photo" má nad pozadím kontrast jen 1.46:1 (požadováno 3:1).');
+      // Tmavé pozadí – text se zesvětlí směrem k bílé, dokud nedosáhne 3:1
+      expect(actionItem.codeSnippet).toMatchObject({
+        before: 'color: #444444;\nbackground: #222222; /* Contrast ratio: 1.46:1 */',
+        after: 'color: #737373;\nbackground: #222222; /* Contrast ratio: 3.36:1 */',
+        language: 'css',
+      });
+    });
+
+    it('darkens the text towards black on a light background', () => {
+      const findings = ContrastAnalyzer.buildFindings(result([measurement({})]), report(), 'https://example.com/');
+
+      expect(findings.actionItems[0].codeSnippet).toMatchObject({
+        before: 'color: #777777;\nbackground: #ffffff; /* Contrast ratio: 4.48:1 */',
+        after: 'color: #717171;\nbackground: #ffffff; /* Contrast ratio: 4.88:1 */',
+      });
+    });
+  });
+});
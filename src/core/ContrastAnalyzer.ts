@@ -0,0 +1,396 @@
+import { Page } from 'puppeteer-core';
+import { Jimp } from 'jimp';
+import {
+  AccessibilityViolation,
+  AuditReport,
+  BackgroundContrastReport,
+  ContrastMeasurement,
+  ContrastSkipReason,
+  HumanReadableActionItem,
+  ImpactLevel,
+  ViolationNode,
+} from './types';
+import { RemediationService } from './RemediationService';
+
+type Rgb = [number, number, number];
+
+interface ContrastTarget {
+  clip: { x: number; y: number; width: number; height: number };
+  // Barva textu včetně alfy (0–1) – průhledný text se míchá s každým pixelem pozadí
+  color: [number, number, number, number];
+  largeText: boolean;
+  text: string;
+}
+
+// Každý prvek = scroll + screenshot; víc prvků by sken neúměrně prodloužilo
+const MAX_ELEMENTS = 40;
+// Nejhorší 2 % pixelů bereme jako šum (antialiasing hran, drobné odlesky v fotce)
+const NOISE_PERCENTILE = 0.02;
+const NORMAL_TEXT_RATIO = 4.5;
+const LARGE_TEXT_RATIO = 3;
+const MAX_TEXT_LENGTH = 80;
+const MARKER_ATTRIBUTE = 'data-a11yflow-contrast';
+const SETTLE_MS = 50;
+// Histogram kontrastů 1:1 až 21:1 po 0,01 – percentily bez řazení všech pixelů
+const HISTOGRAM_BINS = 2000;
+const MAX_RATIO = 21;
+
+// Text měřeného prvku zprůhledníme; pozadí, obrázky a pseudo-elementy zůstanou
+const HIDE_TEXT_CSS = `
+  [${MARKER_ATTRIBUTE}], [${MARKER_ATTRIBUTE}] * {
+    color: transparent !important;
+    -webkit-text-fill-color: transparent !important;
+    text-shadow: none !important;
+    caret-color: transparent !important;
+  }
+  *, *::before, *::after {
+    transition: none !important;
+    animation-play-state: paused !important;
+  }
+`;
+
+/**
+ * ContrastAnalyzer
+ *
+ * Dořeší kontrast textu, u kterého axe color-contrast skončí jako "incomplete" –
+ * text nad obrázkem, gradientem nebo pseudo-elementem. Text prvku skryje, vyfotí
+ * oblast za ním a z pixelů pozadí spočítá nejhorší a mediánový kontrast vůči
+ * barvě textu (WCAG 1.4.3).
+ */
+export class ContrastAnalyzer {
+  public static async analyze(page: Page, report: AuditReport): Promise<BackgroundContrastReport | undefined> {
+    const incomplete = (report.needsReview || []).find((r) => r.id === 'color-contrast');
+    const candidates = (incomplete?.nodes || []).filter((n) => typeof n.target[0] === 'string');
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    const result: BackgroundContrastReport = {
+      candidates: candidates.length,
+      measured: 0,
+      failed: 0,
+      skipped: [],
+      measurements: [],
+    };
+
+    // prepareTarget posouvá stránku k prvkům – původní pozici po měření vrátíme
+    const scroll = await page.evaluate(() => ({ x: (globalThis as any).scrollX, y: (globalThis as any).scrollY }));
+    const styleHandle = await page.addStyleTag({ content: HIDE_TEXT_CSS });
+    try {
+      for (const [index, node] of candidates.entries()) {
+        const selector = String(node.target[0]);
+        if (index >= MAX_ELEMENTS) {
+          result.skipped.push({ selector, reason: 'limit' });
+          continue;
+        }
+
+        const target = await this.prepareTarget(page, selector);
+        if ('reason' in target) {
+          result.skipped.push({ selector, reason: target.reason });
+          continue;
+        }
+
+        let png: Uint8Array;
+        try {
+          await new Promise((r) => setTimeout(r, SETTLE_MS));
+          // Bez captureBeyondViewport – zvětšený viewport by posunul fixed/sticky pozadí mimo výřez
+          png = await page.screenshot({ type: 'png', captureBeyondViewport: false, clip: target.clip });
+        } finally {
+          await page
+            .evaluate((marker: string) => {
+              const d = (globalThis as any).document as any;
+              for (const el of Array.from(d.querySelectorAll(`[${marker}]`)) as any[]) el.removeAttribute(marker);
+            }, MARKER_ATTRIBUTE)
+            .catch(() => {});
+        }
+
+        const measurement = await this.measure(Buffer.from(png), target.color, target.largeText);
+        result.measurements.push({ selector, text: target.text || undefined, ...measurement });
+        result.measured++;
+        if (!measurement.passed) result.failed++;
+      }
+    } finally {
+      await styleHandle.evaluate((el) => el.remove()).catch(() => {});
+      await page
+        .evaluate((x: number, y: number) => (globalThis as any).scrollTo({ left: x, top: y, behavior: 'instant' }), scroll.x, scroll.y)
+        .catch(() => {});
+    }
+
+    return result;
+  }
+
+  /**
+   * Změřené prvky už nejsou "k ručnímu ověření" – odebere je z axe incomplete color-contrast.
+   * Volat až po buildFindings, které z těchto uzlů přebírá html a popisek prvku.
+   */
+  public static resolveNeedsReview(report: AuditReport, result: BackgroundContrastReport): void {
+    const incomplete = (report.needsReview || []).find((r) => r.id === 'color-contrast');
+    const measured = new Set(result.measurements.map((m) => m.selector));
+    if (!incomplete || measured.size === 0) {
+      return;
+    }
+
+    incomplete.nodes = (incomplete.nodes || []).filter((n) => !measured.has(String(n.target[0])));
+    incomplete.nodeCount = Math.max(0, incomplete.nodeCount - measured.size);
+    if (incomplete.nodeCount === 0) {
+      report.needsReview = (report.needsReview || []).filter((r) => r !== incomplete);
+    }
+  }
+
+  /**
+   * Porovná pixely pozadí (PNG bez textu) s barvou textu.
+   */
+  public static async measure(
+    png: Buffer,
+    color: [number, number, number, number],
+    largeText: boolean,
+  ): Promise<Omit<ContrastMeasurement, 'selector' | 'text'>> {
+    const image = await Jimp.read(png);
+    const data = image.bitmap.data;
+    const [fr, fg, fb, alpha] = color;
+
+    // U velkých hero obrázků jde o stovky tisíc pixelů – místo řazení plníme histogram
+    // (jeden průchod, pevná paměť); každý koš si pamatuje první pixel jako vzorek barvy
+    const count = data.length / 4;
+    const counts = new Uint32Array(HISTOGRAM_BINS);
+    const sampleOffsets = new Int32Array(HISTOGRAM_BINS).fill(-1);
+    const sampleRatios = new Float32Array(HISTOGRAM_BINS);
+    for (let p = 0; p < count; p++) {
+      const i = p * 4;
+      const bg: Rgb = [data[i], data[i + 1], data[i + 2]];
+      // Poloprůhledný text = mix barvy textu a konkrétního pixelu pozadí
+      const fgPixel: Rgb =
+        alpha >= 1 ? [fr, fg, fb] : [fr * alpha + bg[0] * (1 - alpha), fg * alpha + bg[1] * (1 - alpha), fb * alpha + bg[2] * (1 - alpha)];
+      const ratio = this.contrastRatio(fgPixel, bg);
+      const bin = Math.min(HISTOGRAM_BINS - 1, Math.floor(((ratio - 1) / (MAX_RATIO - 1)) * HISTOGRAM_BINS));
+      counts[bin]++;
+      if (sampleOffsets[bin] === -1) {
+        sampleOffsets[bin] = i;
+        sampleRatios[bin] = ratio;
+      }
+    }
+
+    const sample = (rank: number) => {
+      let seen = 0;
+      for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+        seen += counts[bin];
+        if (seen > rank) return { ratio: sampleRatios[bin], offset: sampleOffsets[bin] };
+      }
+      return { ratio: MAX_RATIO, offset: 0 };
+    };
+    const worst = sample(Math.floor(count * NOISE_PERCENTILE));
+    const median = sample(Math.floor(count / 2));
+    const pixel = (offset: number): Rgb => [data[offset], data[offset + 1], data[offset + 2]];
+    const requiredRatio = largeText ? LARGE_TEXT_RATIO : NORMAL_TEXT_RATIO;
+
+    return {
+      foreground: this.toHex([fr, fg, fb]),
+      worstBackground: this.toHex(pixel(worst.offset)),
+      medianBackground: this.toHex(pixel(median.offset)),
+      worstRatio: this.round(worst.ratio),
+      medianRatio: this.round(median.ratio),
+      requiredRatio,
+      largeText,
+      passed: worst.ratio >= requiredRatio,
+    };
+  }
+
+  public static buildFindings(
+    result: BackgroundContrastReport,
+    report: AuditReport,
+    pageUrl: string,
+  ): { violations: AccessibilityViolation[]; actionItems: HumanReadableActionItem[] } {
+    const failures = result.measurements.filter((m) => !m.passed);
+    if (failures.length === 0) {
+      return { violations: [], actionItems: [] };
+    }
+
+    // Uzly z axe incomplete nesou html, popisek prvku a komponentu – převezmeme je
+    const axeNodes = new Map<string, ViolationNode>();
+    const incomplete = (report.needsReview || []).find((r) => r.id === 'color-contrast');
+    for (const node of incomplete?.nodes || []) axeNodes.set(String(node.target[0]), node);
+
+    const impact: ImpactLevel = 'serious';
+    const violation: AccessibilityViolation = {
+      id: 'a11yflow-background-contrast',
+      title: 'Nedostatečný kontrast textu nad obrázkem nebo gradientem',
+      description:
+        'Text leží na obrázku, gradientu nebo pseudo-elementu a axe jeho kontrast nerozhodl. Změřili jsme skutečné pixely pozadí ' +
+        'za textem – v nejhorší části pozadí je kontrast pod požadovanou hranicí.',
+      impact,
+      helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/contrast-minimum.html',
+      count: failures.length,
+      suggestedFix: RemediationService.getFix('a11yflow-background-contrast'),
+      nodes: failures.map((m) => ({
+        ...(axeNodes.get(m.selector) || { html: '' }),
+        target: [m.selector],
+        failureSummary:
+          `Text ${m.foreground} na pozadí: nejhorší kontrast ${m.worstRatio}:1 (pixel ${m.worstBackground}), ` +
+          `medián ${m.medianRatio}:1 (pixel ${m.medianBackground}), požadováno ${m.requiredRatio}:1` +
+          `${m.largeText ? ' (velký text)' : ''}.`,
+      })),
+    };
+
+    const worst = [...failures].sort((a, b) => a.worstRatio - b.worstRatio)[0];
+    const meta = RemediationService.getRuleMeta(violation.id);
+    const actionItem: HumanReadableActionItem = {
+      id: violation.id,
+      impact,
+      priority: '🟠 Serious',
+      category: meta.category,
+      what: `Text${worst.text ? ` "${worst.text}"` : ''} má nad pozadím kontrast jen ${worst.worstRatio}:1 (požadováno ${worst.requiredRatio}:1).`,
+      fix: 'Pod text dejte plné nebo poloprůhledné pozadí, ztmavte/zesvětlete obrázek v místě textu, nebo změňte barvu textu.',
+      exampleUrl: pageUrl,
+      exampleTarget: worst.selector,
+      wcagReference: meta.wcag,
+      codeSnippet: RemediationService.getFilledSnippet(
+        'color-contrast',
+        { foreground: worst.foreground, background: worst.worstBackground, ratio: String(worst.worstRatio) },
+        this.suggestFix(worst),
+      ),
+    };
+
+    return { violations: [violation], actionItems: [actionItem] };
+  }
+
+  /**
+   * Najde barvu textu, která proti nejhoršímu pixelu pozadí projde. Když nestačí ani
+   * černá/bílá (světlá i tmavá místa ve fotce), navrhne pod text plné pozadí.
+   */
+  private static suggestFix(m: ContrastMeasurement): Record<string, string> {
+    const foreground = this.fromHex(m.foreground);
+    const background = this.fromHex(m.worstBackground);
+    const darker = this.luminance(background) > 0.18;
+    const extreme: Rgb = darker ? [0, 0, 0] : [255, 255, 255];
+
+    for (let step = 1; step <= 20; step++) {
+      const t = step / 20;
+      const candidate: Rgb = [0, 1, 2].map((c) => Math.round(foreground[c] + (extreme[c] - foreground[c]) * t)) as Rgb;
+      const ratio = this.contrastRatio(candidate, background);
+      if (ratio >= m.requiredRatio) {
+        return { foreground: this.toHex(candidate), background: m.worstBackground, ratio: String(this.round(ratio)) };
+      }
+    }
+
+    const backing: Rgb = this.luminance(foreground) > 0.18 ? [0, 0, 0] : [255, 255, 255];
+    return {
+      foreground: m.foreground,
+      background: this.toHex(backing),
+      ratio: String(this.round(this.contrastRatio(foreground, backing))),
+    };
+  }
+
+  /**
+   * Označí prvek, posune ho do viewportu a vrátí výřez za jeho vlastním textem.
+   */
+  private static async prepareTarget(page: Page, selector: string): Promise<ContrastTarget | { reason: ContrastSkipReason }> {
+    return page.evaluate(
+      (sel: string, marker: string, maxText: number) => {
+        const w = globalThis as any;
+        const d = w.document as any;
+        let el: any = null;
+        try {
+          el = d.querySelector(sel);
+        } catch {
+          el = null;
+        }
+        if (!el) return { reason: 'not-found' as const };
+
+        const style = w.getComputedStyle(el);
+        if (style.backgroundClip === 'text' || style.webkitBackgroundClip === 'text') {
+          return { reason: 'gradient-text' as const };
+        }
+
+        // Barvu textu určuje -webkit-text-fill-color (výchozí = color)
+        const match = String(style.webkitTextFillColor || style.color).match(/^rgba?\(([^)]+)\)$/);
+        if (!match) return { reason: 'unsupported-color' as const };
+        const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+        if (parts.length < 3 || parts.some((p: number) => Number.isNaN(p))) return { reason: 'unsupported-color' as const };
+        const color: [number, number, number, number] = [parts[0], parts[1], parts[2], parts.length > 3 ? parts[3] : 1];
+
+        el.scrollIntoView({ block: 'center', inline: 'nearest', behavior: 'instant' });
+
+        // Jen vlastní textové uzly – text potomků má vlastní uzel v axe výsledcích
+        const range = d.createRange();
+        let left = Infinity;
+        let top = Infinity;
+        let right = -Infinity;
+        let bottom = -Infinity;
+        let text = '';
+        for (const child of Array.from(el.childNodes) as any[]) {
+          if (child.nodeType !== 3 || !String(child.nodeValue || '').trim()) continue;
+          text += child.nodeValue;
+          range.selectNodeContents(child);
+          for (const rect of Array.from(range.getClientRects()) as any[]) {
+            if (rect.width <= 0 || rect.height <= 0) continue;
+            left = Math.min(left, rect.left);
+            top = Math.min(top, rect.top);
+            right = Math.max(right, rect.right);
+            bottom = Math.max(bottom, rect.bottom);
+          }
+        }
+        if (!text.trim()) {
+          text = String(el.textContent || '');
+          const rect = el.getBoundingClientRect();
+          left = rect.left;
+          top = rect.top;
+          right = rect.right;
+          bottom = rect.bottom;
+        }
+        text = text.replace(/\s+/g, ' ').trim();
+        if (!text) return { reason: 'no-text' as const };
+
+        left = Math.max(0, Math.floor(left));
+        top = Math.max(0, Math.floor(top));
+        right = Math.min(w.innerWidth, Math.ceil(right));
+        bottom = Math.min(w.innerHeight, Math.ceil(bottom));
+        if (right - left < 1 || bottom - top < 1) return { reason: 'offscreen' as const };
+
+        // Velký text podle WCAG: 18pt (24px), nebo 14pt (18.66px) tučně
+        const fontSize = parseFloat(style.fontSize) || 16;
+        const fontWeight = parseInt(style.fontWeight, 10) || 400;
+        const largeText = fontSize >= 24 || (fontSize >= 18.66 && fontWeight >= 700);
+
+        el.setAttribute(marker, '');
+
+        return {
+          // Clip screenshotu je v souřadnicích dokumentu
+          clip: { x: left + w.scrollX, y: top + w.scrollY, width: right - left, height: bottom - top },
+          color,
+          largeText,
+          text: text.length > maxText ? text.slice(0, maxText) + '…' : text,
+        };
+      },
+      selector,
+      MARKER_ATTRIBUTE,
+      MAX_TEXT_LENGTH,
+    ) as Promise<ContrastTarget | { reason: ContrastSkipReason }>;
+  }
+
+  private static luminance([r, g, b]: Rgb): number {
+    const channel = (value: number) => {
+      const srgb = value / 255;
+      return srgb <= 0.04045 ? srgb / 12.92 : Math.pow((srgb + 0.055) / 1.055, 2.4);
+    };
+    return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+  }
+
+  private static contrastRatio(a: Rgb, b: Rgb): number {
+    const l1 = this.luminance(a);
+    const l2 = this.luminance(b);
+    return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+  }
+
+  private static toHex(rgb: Rgb): string {
+    return '#' + rgb.map((c) => Math.round(Math.max(0, Math.min(255, c))).toString(16).padStart(2, '0')).join('');
+  }
+
+  private static fromHex(hex: string): Rgb {
+    const value = parseInt(hex.slice(1), 16);
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
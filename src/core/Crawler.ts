@@ -4,6 +4,8 @@ import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
 import { DynamoDBDocumentClient, PutCommand } from '@aws-sdk/lib-dynamodb';
 import { randomUUID } from 'crypto';
 import { SitemapFetcher } from './SitemapFetcher';
+import { ConformanceMatrixBuilder } from './ConformanceMatrixBuilder';
+import { HeadingOutlineService } from './HeadingOutlineService';
 import { URL } from 'url';
 
 export class Crawler {
@@ -83,6 +85,8 @@ export class Crawler {
             console.log(`🧭 From ${currentUrl} found ${links.length} candidate links.`);
             links.forEach(link => {
               const normLink = link.replace(/\/$/, "");
+              // Při přihlášeném crawlu nesmíme kliknout na odhlášení – zrušilo by sdílenou session
+              if (this.scanOptions.auth && WebScanner.isLogoutUrl(link)) return;
               if (!this.visitedUrls.has(normLink)) {
                 queue.push(link);
               }
@@ -155,6 +159,8 @@ export class Crawler {
       totalCriticalViolations: totalCritical,
       totalViolations, // Přidáno do výstupu
       pages: reports,
+      conformance: ConformanceMatrixBuilder.buildForPages(reports),
+      headingTemplates: HeadingOutlineService.compareTemplates(reports),
       performanceSummary,
     };
   }
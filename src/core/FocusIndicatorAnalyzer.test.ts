@@ -0,0 +1,72 @@
+import { Jimp } from 'jimp';
+import { FocusIndicatorAnalyzer } from './FocusIndicatorAnalyzer';
+
+// Výřez 60 × 40 CSS px s tlačítkem 44 × 24 px uprostřed (okraj 8 px jako při měření)
+const CLIP = { x: 100, y: 200, width: 60, height: 40 };
+const BUTTON = { x: 8, y: 8, width: 44, height: 24 };
+const WHITE = 0xffffffff;
+const GREY = 0xddddddff;
+
+async function png(outline?: { color: number; width: number }, scale = 1): Promise<Buffer> {
+  const image = new Jimp({ width: CLIP.width * scale, height: CLIP.height * scale, color: WHITE });
+  const inside = (x: number, y: number, grow: number) =>
+    x >= BUTTON.x - grow && x < BUTTON.x + BUTTON.width + grow && y >= BUTTON.y - grow && y < BUTTON.y + BUTTON.height + grow;
+
+  image.scan((px, py) => {
+    const x = px / scale;
+    const y = py / scale;
+    if (inside(x, y, 0)) image.setPixelColor(GREY, px, py);
+    else if (outline && inside(x, y, outline.width)) image.setPixelColor(outline.color, px, py);
+  });
+  return image.getBuffer('image/png');
+}
+
+describe('FocusIndicatorAnalyzer.compare', () => {
+  it('reports no indicator when focus changes nothing', async () => {
+    const unfocused = await png();
+
+    const result = await FocusIndicatorAnalyzer.compare(unfocused, unfocused, CLIP, BUTTON);
+
+    expect(result).toEqual({
+      area: 0,
+      contrastingArea: 0,
+      minimumArea: 256, // 2px obvod tlačítka 44 × 24
+      changeContrast: 1,
+      adjacentContrast: undefined,
+      visible: false,
+      meetsFocusAppearance: false,
+    });
+  });
+
+  it('accepts a 2px outline with enough contrast as visible and meeting Focus Appearance', async () => {
+    const result = await FocusIndicatorAnalyzer.compare(await png({ color: 0x000000ff, width: 2 }), await png(), CLIP, BUTTON);
+
+    expect(result.area).toBe(288);
+    expect(result.contrastingArea).toBe(288);
+    expect(result.changeContrast).toBe(21);
+    expect(result.adjacentContrast).toBeGreaterThanOrEqual(3);
+    expect(result.visible).toBe(true);
+    expect(result.meetsFocusAppearance).toBe(true);
+  });
+
+  it('flags a faint 1.2:1 change as not visible', async () => {
+    const result = await FocusIndicatorAnalyzer.compare(await png({ color: 0xeaeaeaff, width: 2 }), await png(), CLIP, BUTTON);
+
+    expect(result.area).toBe(288);
+    expect(result.changeContrast).toBeCloseTo(1.2, 1);
+    expect(result.contrastingArea).toBe(0);
+    expect(result.visible).toBe(false);
+    expect(result.meetsFocusAppearance).toBe(false);
+  });
+
+  it('measures areas in CSS px on high-density screenshots', async () => {
+    const result = await FocusIndicatorAnalyzer.compare(
+      await png({ color: 0x000000ff, width: 2 }, 2),
+      await png(undefined, 2),
+      CLIP,
+      BUTTON,
+    );
+
+    expect(result).toMatchObject({ area: 288, minimumArea: 256, meetsFocusAppearance: true });
+  });
+});
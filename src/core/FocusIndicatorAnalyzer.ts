@@ -0,0 +1,261 @@
+import { Page } from 'puppeteer-core';
+import { Jimp } from 'jimp';
+import { FocusIndicatorMeasurement } from './types';
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Okraj kolem prvku – outline a box-shadow bývají vykreslené mimo jeho box
+const CLIP_PADDING = 8;
+// Rozdíl v kanálu (0–255), od kterého pixel považujeme za změněný (PNG je bezeztrátové)
+const CHANGE_THRESHOLD = 8;
+// Změna s kontrastem pod 1.5:1 okem téměř nepostřehnete
+const VISIBLE_CONTRAST = 1.5;
+const MIN_VISIBLE_AREA = 8;
+// WCAG 2.4.13 Focus Appearance
+const FOCUS_APPEARANCE_CONTRAST = 3;
+const SETTLE_MS = 60;
+
+const FREEZE_CSS = `
+  *, *::before, *::after {
+    transition: none !important;
+    caret-color: transparent !important;
+  }
+`;
+
+// Události, které blur()/focus() při měření vyvolají – stránce je nepustíme
+const FOCUS_EVENTS = ['focus', 'blur', 'focusin', 'focusout'];
+
+/**
+ * FocusIndicatorAnalyzer
+ *
+ * Změří skutečný indikátor fokusu: vyfotí okolí fokusovaného prvku s fokusem a bez něj
+ * (blur) a porovná pixely. Výsledkem je plocha indikátoru, kontrast změny vůči stavu
+ * bez fokusu a kontrast vůči sousedním barvám – podklad pro WCAG 2.4.7 a 2.4.13.
+ *
+ * Měření stránku nemění: focus/blur události zachytí capture listener na window dřív,
+ * než dojdou k handlerům stránky, a scroll, fokus i výběr textu se po měření vrátí.
+ */
+export class FocusIndicatorAnalyzer {
+  /**
+   * Změří indikátor aktuálně fokusovaného prvku. Fokus na prvek po měření vrátí.
+   * Vrací null, pokud není co měřit (body, nulová velikost, prvek nejde posunout do viewportu).
+   */
+  public static async measure(page: Page): Promise<FocusIndicatorMeasurement | null> {
+    const target = await page.evaluate((padding: number) => {
+      const w = globalThis as any;
+      const d = w.document as any;
+      const active = d && d.activeElement;
+      if (!active || active === d.body || active === d.documentElement) return null;
+
+      w.__a11yflowFocusState = {
+        element: active,
+        scrollX: w.scrollX,
+        scrollY: w.scrollY,
+        selection:
+          typeof active.selectionStart === 'number'
+            ? [active.selectionStart, active.selectionEnd, active.selectionDirection]
+            : null,
+      };
+
+      // Prvek mimo viewport nejdřív posuneme do něj (scroll se po měření vrátí)
+      let rect = active.getBoundingClientRect();
+      if (rect.top < 0 || rect.left < 0 || rect.bottom > w.innerHeight || rect.right > w.innerWidth) {
+        active.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+        rect = active.getBoundingClientRect();
+      }
+      if (rect.width <= 0 || rect.height <= 0) return null;
+
+      // Souřadnice viewportu – fotíme jen to, co je skutečně vidět
+      const left = Math.max(0, Math.floor(rect.left - padding));
+      const top = Math.max(0, Math.floor(rect.top - padding));
+      const right = Math.min(w.innerWidth, Math.ceil(rect.right + padding));
+      const bottom = Math.min(w.innerHeight, Math.ceil(rect.bottom + padding));
+      if (right - left < 1 || bottom - top < 1) return null;
+
+      const viewport = w.visualViewport;
+      return {
+        clip: { x: left, y: top, width: right - left, height: bottom - top },
+        // Puppeteer chce clip posunutý o pozici vizuálního viewportu (stejně jako ElementHandle.screenshot)
+        pageOffset: { x: viewport ? viewport.pageLeft : w.scrollX, y: viewport ? viewport.pageTop : w.scrollY },
+        element: { x: rect.left - left, y: rect.top - top, width: rect.width, height: rect.height },
+      };
+    }, CLIP_PADDING);
+
+    if (!target) {
+      await this.restoreState(page);
+      return null;
+    }
+
+    // Přechody skočí rovnou do koncového stavu, blikající kurzor v poli by dělal šum
+    const styleHandle = await page.addStyleTag({ content: FREEZE_CSS });
+    // captureBeyondViewport by dočasně zvětšil viewport a fixed prvky by se posunuly
+    const screenshotOptions = {
+      type: 'png' as const,
+      captureBeyondViewport: false,
+      clip: { ...target.clip, x: target.clip.x + target.pageOffset.x, y: target.clip.y + target.pageOffset.y },
+    };
+
+    let focused: Uint8Array;
+    let unfocused: Uint8Array;
+    try {
+      focused = await page.screenshot(screenshotOptions);
+
+      await page.evaluate((events: string[]) => {
+        const w = globalThis as any;
+        const state = w.__a11yflowFocusState;
+        state.swallow = (event: any) => event.stopImmediatePropagation();
+        for (const type of events) w.addEventListener(type, state.swallow, true);
+        if (typeof state.element.blur === 'function') state.element.blur();
+      }, FOCUS_EVENTS);
+      await new Promise((r) => setTimeout(r, SETTLE_MS));
+      unfocused = await page.screenshot(screenshotOptions);
+    } finally {
+      await this.restoreState(page);
+      await styleHandle.evaluate((el) => el.remove()).catch(() => {});
+    }
+
+    return this.compare(Buffer.from(focused), Buffer.from(unfocused), target.clip, target.element);
+  }
+
+  /**
+   * Vrátí fokus (aby Tab pokračoval ze stejného místa), výběr textu a scroll;
+   * focus událost při tom stránce také nepustí.
+   */
+  private static async restoreState(page: Page): Promise<void> {
+    await page
+      .evaluate((events: string[]) => {
+        const w = globalThis as any;
+        const state = w.__a11yflowFocusState;
+        delete w.__a11yflowFocusState;
+        if (!state) return;
+
+        const swallow = state.swallow || ((event: any) => event.stopImmediatePropagation());
+        for (const type of events) w.addEventListener(type, swallow, true);
+        try {
+          if (w.document.activeElement !== state.element && typeof state.element.focus === 'function') {
+            state.element.focus({ preventScroll: true });
+          }
+          if (state.selection) {
+            try {
+              state.element.setSelectionRange(state.selection[0], state.selection[1], state.selection[2]);
+            } catch {
+              // type="email" apod. výběr nepodporují
+            }
+          }
+        } finally {
+          for (const type of events) w.removeEventListener(type, swallow, true);
+        }
+        w.scrollTo(state.scrollX, state.scrollY);
+      }, FOCUS_EVENTS)
+      .catch(() => {});
+  }
+
+  /**
+   * Porovná dva PNG výřezy stejné oblasti (s fokusem / bez fokusu).
+   *
+   * @param clip Oblast výřezu v CSS px (kvůli přepočtu devicePixelRatio)
+   * @param element Box fokusovaného prvku v CSS px relativně k výřezu
+   */
+  public static async compare(
+    focusedPng: Buffer,
+    unfocusedPng: Buffer,
+    clip: Box,
+    element: Box,
+  ): Promise<FocusIndicatorMeasurement> {
+    const focused = await Jimp.read(focusedPng);
+    const unfocused = await Jimp.read(unfocusedPng);
+
+    const width = Math.min(focused.bitmap.width, unfocused.bitmap.width);
+    const height = Math.min(focused.bitmap.height, unfocused.bitmap.height);
+    const scale = focused.bitmap.width / clip.width || 1;
+    const a = focused.bitmap.data;
+    const b = unfocused.bitmap.data;
+    const offset = (x: number, y: number) => (y * focused.bitmap.width + x) * 4;
+    const offsetB = (x: number, y: number) => (y * unfocused.bitmap.width + x) * 4;
+
+    const changed = new Uint8Array(width * height);
+    const changeContrasts: number[] = [];
+    let visiblePixels = 0;
+    let contrastingPixels = 0;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = offset(x, y);
+        const j = offsetB(x, y);
+        const diff = Math.max(Math.abs(a[i] - b[j]), Math.abs(a[i + 1] - b[j + 1]), Math.abs(a[i + 2] - b[j + 2]));
+        if (diff < CHANGE_THRESHOLD) continue;
+
+        changed[y * width + x] = 1;
+        const contrast = this.contrastRatio(
+          this.luminance(a[i], a[i + 1], a[i + 2]),
+          this.luminance(b[j], b[j + 1], b[j + 2]),
+        );
+        changeContrasts.push(contrast);
+        if (contrast >= VISIBLE_CONTRAST) visiblePixels++;
+        if (contrast >= FOCUS_APPEARANCE_CONTRAST) contrastingPixels++;
+      }
+    }
+
+    // Kontrast indikátoru vůči sousedním nezměněným pixelům ve stavu s fokusem
+    const adjacentContrasts: number[] = [];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (!changed[y * width + x]) continue;
+        const i = offset(x, y);
+        const own = this.luminance(a[i], a[i + 1], a[i + 2]);
+        for (const [nx, ny] of [[x - 1, y], [x + 1, y], [x, y - 1], [x, y + 1]]) {
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height || changed[ny * width + nx]) continue;
+          const n = offset(nx, ny);
+          adjacentContrasts.push(this.contrastRatio(own, this.luminance(a[n], a[n + 1], a[n + 2])));
+        }
+      }
+    }
+
+    const pixelArea = scale * scale;
+    const area = Math.round(changeContrasts.length / pixelArea);
+    const visibleArea = visiblePixels / pixelArea;
+    const contrastingArea = Math.round(contrastingPixels / pixelArea);
+
+    // Plocha 2px silného obvodu nefokusovaného prvku
+    const w = element.width;
+    const h = element.height;
+    const minimumArea = Math.round(w <= 4 || h <= 4 ? w * h : 4 * w + 4 * h - 16);
+
+    return {
+      area,
+      contrastingArea,
+      minimumArea,
+      changeContrast: this.round(this.median(changeContrasts)),
+      adjacentContrast: adjacentContrasts.length > 0 ? this.round(this.median(adjacentContrasts)) : undefined,
+      visible: visibleArea >= Math.max(MIN_VISIBLE_AREA, minimumArea * 0.1),
+      meetsFocusAppearance: contrastingArea >= minimumArea,
+    };
+  }
+
+  private static luminance(r: number, g: number, b: number): number {
+    const channel = (value: number) => {
+      const srgb = value / 255;
+      return srgb <= 0.04045 ? srgb / 12.92 : Math.pow((srgb + 0.055) / 1.055, 2.4);
+    };
+    return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+  }
+
+  private static contrastRatio(l1: number, l2: number): number {
+    return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+  }
+
+  private static median(values: number[]): number {
+    if (values.length === 0) return 1;
+    const sorted = [...values].sort((x, y) => x - y);
+    return sorted[Math.floor(sorted.length / 2)];
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,184 @@
+import { HeadingOutlineService, RawHeadingOutline } from './HeadingOutlineService';
+import { AuditReport, HeadingInfo, HeadingOutlineNode } from './types';
+import { page as pageReport } from './testFixtures';
+
+type RawHeading = RawHeadingOutline['headings'][number];
+type RawLandmark = RawHeadingOutline['landmarks'][number];
+
+function heading(order: number, level: number, text: string, landmarkIndex: number, extra: Partial<RawHeading> = {}): RawHeading {
+  return { order, level, text, selector: `h${level}:nth-of-type(${order})`, landmarkIndex, hasContent: true, ...extra };
+}
+
+function landmark(order: number, role: string, selector: string, parentIndex = -1, label?: string): RawLandmark {
+  return { order, role, selector, parentIndex, label };
+}
+
+// Osnova jako vnořené pole "role" / "hN text" – čitelnější než celé uzly
+type Shape = string | [string, Shape[]];
+function shape(nodes: HeadingOutlineNode[]): Shape[] {
+  return nodes.map((node) => {
+    const name = node.kind === 'landmark' ? `${node.role}${node.label ? ` "${node.label}"` : ''}` : `h${node.level} ${node.text}`;
+    return node.children.length > 0 ? [name, shape(node.children)] : name;
+  });
+}
+
+// Hlavička s navigací, main s recenzemi v <section> a aside bez nadpisu
+const productPage: RawHeadingOutline = {
+  landmarks: [
+    landmark(0, 'banner', 'header'),
+    landmark(2, 'navigation', 'nav', 0, 'Main'),
+    landmark(4, 'main', 'main'),
+    landmark(7, 'region', 'section#reviews', 2, 'Reviews'),
+    landmark(12, 'complementary', 'aside'),
+  ],
+  headings: [
+    heading(1, 2, 'Menu', 0),
+    heading(5, 1, 'Trail running shoes', 2),
+    heading(6, 2, 'Details', 2),
+    heading(8, 3, 'Reviews', 3, { source: 'aria' }),
+    heading(9, 3, 'Section 1', 2, { hasContent: false }),
+    heading(10, 2, 'Summer sale', 2, { hiddenReason: 'aria-hidden' }),
+    heading(11, 2, 'Related products', 2, { visuallyHidden: true }),
+  ],
+};
+
+function report(url: string, headings: HeadingInfo[]): AuditReport {
+  return pageReport(url, [], { score: 100, headingStructure: { headings, issues: [] } });
+}
+
+describe('HeadingOutlineService', () => {
+  describe('buildOutline', () => {
+    it('nests headings by level inside their landmark and landmarks under the open heading', () => {
+      expect(shape(HeadingOutlineService.buildOutline(productPage))).toEqual([
+        ['banner', [['h2 Menu', ['navigation "Main"']]]],
+        [
+          'main',
+          [
+            [
+              'h1 Trail running shoes',
+              [
+                ['h2 Details', [['region "Reviews"', ['h3 Reviews']], 'h3 Section 1']],
+                'h2 Related products',
+              ],
+            ],
+          ],
+        ],
+        'complementary',
+      ]);
+    });
+
+    it('keeps the heading source and sr-only flag and leaves out headings hidden from screen readers', () => {
+      const outline = HeadingOutlineService.buildOutline(productPage);
+      const main = outline[1].children[0];
+
+      expect(main.children[0].children[0].children[0]).toMatchObject({ kind: 'heading', text: 'Reviews', source: 'aria' });
+      expect(main.children[1]).toMatchObject({ text: 'Related products', visuallyHidden: true });
+      expect(JSON.stringify(outline)).not.toContain('Summer sale');
+    });
+
+    it('puts headings outside landmarks at the root', () => {
+      const outline = HeadingOutlineService.buildOutline({
+        landmarks: [],
+        headings: [heading(0, 1, 'Welcome', -1), heading(1, 3, 'News', -1), heading(2, 2, 'Contact', -1)],
+      });
+
+      expect(shape(outline)).toEqual([['h1 Welcome', ['h3 News', 'h2 Contact']]]);
+    });
+  });
+
+  describe('findIssues', () => {
+    it('reports landmarks without a heading, empty sections, placeholders and aria-hidden headings', () => {
+      const issues = HeadingOutlineService.findIssues(productPage);
+      const byType = new Map(issues.map((i) => [i.type, i]));
+
+      expect(issues.map((i) => i.type)).toEqual([
+        'landmark-without-heading',
+        'heading-without-content',
+        'non-descriptive-heading',
+        'aria-hidden-heading',
+      ]);
+      // Banner a navigace nadpis mít nemusí, region ho má ve vnořeném landmarku
+      expect(byType.get('landmark-without-heading')!.description).toContain('Nalezeno 1 oblastí stránky (landmarků) bez nadpisu: complementary.');
+      expect(byType.get('heading-without-content')!.affectedHeadings!.map((h) => h.text)).toEqual(['Section 1']);
+      expect(byType.get('non-descriptive-heading')!.affectedHeadings!.map((h) => h.text)).toEqual(['Section 1']);
+      expect(byType.get('aria-hidden-heading')!.affectedHeadings).toEqual([
+        { level: 2, text: 'Summer sale', selector: 'h2:nth-of-type(10)', hiddenReason: 'aria-hidden' },
+      ]);
+    });
+
+    it('names labelled landmarks without a heading', () => {
+      const issues = HeadingOutlineService.findIssues({
+        landmarks: [landmark(0, 'main', 'main'), landmark(1, 'region', 'section', 0, 'Filters')],
+        headings: [heading(2, 1, 'Catalogue', 0)],
+      });
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].description).toContain('bez nadpisu: region "Filters".');
+    });
+
+    it.each(['Nadpis', 'Title 2', 'Section 1', 'H3', 'untitled', 'Lorem ipsum dolor sit amet', 'Sekce 12'])(
+      'treats "%s" as a placeholder heading',
+      (text) => {
+        const issues = HeadingOutlineService.findIssues({ landmarks: [], headings: [heading(0, 2, text, -1)] });
+        expect(issues.map((i) => i.type)).toEqual(['non-descriptive-heading']);
+      },
+    );
+
+    it.each(['Titles of 2024', 'Section reviews', 'Sekce pro firmy', 'Heading into summer'])(
+      'accepts "%s" as a descriptive heading',
+      (text) => {
+        expect(HeadingOutlineService.findIssues({ landmarks: [], headings: [heading(0, 2, text, -1)] })).toEqual([]);
+      },
+    );
+  });
+
+  describe('compareTemplates', () => {
+    const page = (url: string, h1Landmark: string, options: { menu?: boolean; newsletterLevel?: number } = {}) =>
+      report(url, [
+        ...(options.menu === false ? [] : [{ level: 2, text: 'Menu', landmark: 'navigation' }]),
+        { level: 1, text: `Product ${url.length}`, landmark: h1Landmark },
+        { level: 2, text: `Order ${url.length} summary`, landmark: 'main' },
+        { level: options.newsletterLevel || 2, text: 'Newsletter', landmark: 'contentinfo' },
+      ]);
+
+    it('needs at least two pages with headings', () => {
+      expect(HeadingOutlineService.compareTemplates([page('https://example.com/', 'main'), report('https://example.com/empty', [])])).toBeUndefined();
+    });
+
+    it('reports level differences against the majority, missing template headings and H1 placement', () => {
+      const odd = 'https://example.com/landing';
+      const comparison = HeadingOutlineService.compareTemplates([
+        page('https://example.com/', 'main'),
+        page('https://example.com/shoes', 'main'),
+        page('https://example.com/shirts', 'main'),
+        page(odd, 'banner', { menu: false, newsletterLevel: 4 }),
+      ])!;
+
+      expect(comparison.pagesCompared).toBe(4);
+      expect(comparison.sharedHeadings).toEqual(
+        expect.arrayContaining([
+          { text: 'Newsletter', landmark: 'contentinfo', levels: [2, 4], pageCount: 4 },
+          // Čísla v textu se při párování ignorují
+          { text: 'Order 20 summary', landmark: 'main', levels: [2], pageCount: 4 },
+          { text: 'Menu', landmark: 'navigation', levels: [2], pageCount: 3 },
+        ]),
+      );
+      expect(comparison.issues).toEqual([
+        expect.objectContaining({ type: 'inconsistent-level', text: 'Newsletter', landmark: 'contentinfo', pages: [odd] }),
+        expect.objectContaining({ type: 'missing-template-heading', text: 'Menu', landmark: 'navigation', pages: [odd] }),
+        expect.objectContaining({ type: 'h1-placement', landmark: 'main', pages: [odd] }),
+      ]);
+      expect(comparison.issues[0].description).toContain('úroveň H2, ale na 1 stránkách H4');
+    });
+
+    it('does not expect headings of the main content on every page', () => {
+      const comparison = HeadingOutlineService.compareTemplates([
+        report('https://example.com/a', [{ level: 1, text: 'Shop', landmark: 'main' }, { level: 2, text: 'Bestsellers', landmark: 'main' }]),
+        report('https://example.com/b', [{ level: 1, text: 'Shop', landmark: 'main' }, { level: 2, text: 'Bestsellers', landmark: 'main' }]),
+        report('https://example.com/c', [{ level: 1, text: 'Shop', landmark: 'main' }]),
+      ])!;
+
+      expect(comparison.issues).toEqual([]);
+    });
+  });
+});
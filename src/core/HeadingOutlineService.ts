@@ -0,0 +1,519 @@
+import { Page } from 'puppeteer-core';
+import {
+  AuditReport,
+  HeadingHiddenReason,
+  HeadingInfo,
+  HeadingLandmark,
+  HeadingOutlineNode,
+  HeadingStructure,
+  HeadingTemplateComparison,
+  HeadingTemplateIssue,
+} from './types';
+
+// Limity kvůli velikosti reportu (katalogy a archivy mívají stovky nadpisů)
+const MAX_HEADINGS = 500;
+const MAX_LANDMARKS = 100;
+const MAX_TEXT_LENGTH = 200;
+const MAX_SHARED_HEADINGS = 50;
+
+// Landmarky, od kterých čekáme vlastní nadpis – navigace, hlavička a patička ho mít nemusí
+const LANDMARKS_REQUIRING_HEADING = new Set(['main', 'complementary', 'region']);
+
+// Landmarky sdílené šablonou webu – chybějící nadpis v nich znamená nekonzistentní šablonu
+const TEMPLATE_LANDMARKS = new Set(['banner', 'navigation', 'contentinfo', 'complementary']);
+
+// Zástupné texty ze šablon a CMS, které nic o obsahu sekce neříkají
+const PLACEHOLDER_HEADING =
+  /^(heading|headline|title|untitled|subtitle|subheading|section|text|nadpis|podnadpis|titulek|sekce|oddíl|h[1-6]|lorem ipsum.*)(\s*\d+)?$/i;
+
+type HeadingIssue = HeadingStructure['issues'][number];
+
+interface RawHeading extends HeadingInfo {
+  order: number;
+  landmarkIndex: number;
+  // Mezi nadpisem a dalším nadpisem stejné/vyšší úrovně je text, obrázek nebo ovládací prvek
+  hasContent: boolean;
+}
+
+interface RawLandmark {
+  order: number;
+  role: string;
+  label?: string;
+  selector: string;
+  parentIndex: number;
+}
+
+export interface RawHeadingOutline {
+  headings: RawHeading[];
+  landmarks: RawLandmark[];
+}
+
+/**
+ * HeadingOutlineService
+ *
+ * Sestaví osnovu dokumentu tak, jak ji vidí čtečka obrazovky: nadpisy h1–h6
+ * i role="heading" s aria-level, bez nadpisů skrytých přes display:none nebo
+ * aria-hidden, vnořené do landmarků a podle úrovní. Nad osnovou kontroluje
+ * landmarky bez nadpisu a nadpisy, které nepopisují obsah (WCAG 2.4.6);
+ * v režimu crawl porovnává šablonu nadpisů mezi stránkami.
+ */
+export class HeadingOutlineService {
+  public static async collect(page: Page): Promise<RawHeadingOutline> {
+    return page.evaluate(
+      (maxHeadings: number, maxLandmarks: number, maxText: number) => {
+        const d = (globalThis as any).document as any;
+        const win = (globalThis as any).window as any;
+
+        const makeSelector = (el: any): string => {
+          if (!el) return '';
+          const tag = (el.tagName || 'div').toLowerCase();
+          if (el.id) return `${tag}#${el.id}`;
+          const className = el.className;
+          if (className && typeof className === 'string') {
+            const cls = className
+              .split(/\s+/)
+              .filter(Boolean)
+              .slice(0, 2)
+              .map((c: string) => `.${c}`)
+              .join('');
+            if (cls) return `${tag}${cls}`;
+          }
+          return tag;
+        };
+
+        const explicitRole = (el: any): string => (el.getAttribute('role') || '').trim().split(/\s+/)[0].toLowerCase();
+
+        const textOf = (el: any): string => {
+          let out = '';
+          const walk = (node: any) => {
+            if (node.nodeType === 3) {
+              out += node.nodeValue || '';
+              return;
+            }
+            // aria-hidden na samotném nadpisu neřešíme – text potřebujeme i pro hiddenHeadings
+            if (node.nodeType !== 1 || (node !== el && node.getAttribute('aria-hidden') === 'true')) return;
+            const tag = node.tagName.toLowerCase();
+            if (tag === 'script' || tag === 'style' || tag === 'template') return;
+            if (tag === 'img' || (tag === 'input' && node.type === 'image')) {
+              out += ` ${node.getAttribute('alt') || ''} `;
+              return;
+            }
+            for (const child of Array.from(node.childNodes)) walk(child);
+          };
+          walk(el);
+          return out;
+        };
+
+        const accessibleName = (el: any, fromContent: boolean): string => {
+          const labelledBy = (el.getAttribute('aria-labelledby') || '').trim();
+          let name = '';
+          if (labelledBy) {
+            name = labelledBy
+              .split(/\s+/)
+              .map((id: string) => d.getElementById(id))
+              .filter(Boolean)
+              .map((ref: any) => textOf(ref))
+              .join(' ');
+          }
+          if (!name.trim()) name = el.getAttribute('aria-label') || '';
+          if (!name.trim() && fromContent) name = textOf(el);
+          name = name.replace(/\s+/g, ' ').trim();
+          return name.length > maxText ? name.slice(0, maxText) + '…' : name;
+        };
+
+        const headingLevel = (el: any): { level: number; source: 'native' | 'aria' } | null => {
+          const role = explicitRole(el);
+          const ariaLevel = parseInt(el.getAttribute('aria-level') || '', 10);
+          const native = /^h[1-6]$/i.test(el.tagName);
+          if (role === 'heading') {
+            return {
+              level: ariaLevel >= 1 ? ariaLevel : native ? parseInt(el.tagName.substring(1), 10) : 2,
+              source: native ? 'native' : 'aria',
+            };
+          }
+          // <h2 role="tab"> apod. už nadpisem není
+          if (!native || role) return null;
+          return { level: ariaLevel >= 1 ? ariaLevel : parseInt(el.tagName.substring(1), 10), source: 'native' };
+        };
+
+        const landmarkRole = (el: any): string | null => {
+          const role = explicitRole(el);
+          const named = !!accessibleName(el, false);
+          if (role) {
+            if (['banner', 'navigation', 'main', 'contentinfo', 'complementary', 'search'].includes(role)) return role;
+            if (role === 'region' || role === 'form') return named ? role : null;
+            return null;
+          }
+          const tag = el.tagName.toLowerCase();
+          // header/footer jsou banner/contentinfo jen mimo sekční obsah
+          const scoped = !!el.parentElement?.closest('article, aside, main, nav, section');
+          switch (tag) {
+            case 'main':
+              return 'main';
+            case 'nav':
+              return 'navigation';
+            case 'aside':
+              return 'complementary';
+            case 'search':
+              return 'search';
+            case 'header':
+              return scoped ? null : 'banner';
+            case 'footer':
+              return scoped ? null : 'contentinfo';
+            case 'section':
+              return named ? 'region' : null;
+            case 'form':
+              return named ? 'form' : null;
+            default:
+              return null;
+          }
+        };
+
+        const hiddenReason = (el: any): HeadingHiddenReason | undefined => {
+          const rendered = typeof el.checkVisibility === 'function' ? el.checkVisibility() : el.getClientRects().length > 0;
+          if (!rendered) return 'display-none';
+          if (win.getComputedStyle(el).visibility !== 'visible') return 'visibility-hidden';
+          if (el.closest('[aria-hidden="true"]')) return 'aria-hidden';
+          return undefined;
+        };
+
+        const isVisuallyHidden = (el: any): boolean => {
+          const rect = el.getBoundingClientRect();
+          if (rect.width <= 1 || rect.height <= 1) return true;
+          return rect.right + win.scrollX <= 0 || rect.bottom + win.scrollY <= 0;
+        };
+
+        const landmarkIndexByEl = new Map<any, number>();
+        const nearestLandmark = (el: any): number => {
+          let parent = el.parentElement;
+          while (parent) {
+            const index = landmarkIndexByEl.get(parent);
+            if (index !== undefined) return index;
+            parent = parent.parentElement;
+          }
+          return -1;
+        };
+
+        const landmarks: any[] = [];
+        const landmarkEls: any[] = [];
+        const headings: any[] = [];
+        const headingEls: any[] = [];
+
+        const candidates = Array.from(
+          d.querySelectorAll('h1, h2, h3, h4, h5, h6, [role], main, nav, aside, header, footer, section, form, search'),
+        ) as any[];
+
+        candidates.forEach((el, order) => {
+          const heading = headingLevel(el);
+          if (heading) {
+            if (headings.length >= maxHeadings) return;
+            const reason = hiddenReason(el);
+            const landmarkIndex = nearestLandmark(el);
+            headings.push({
+              order,
+              level: heading.level,
+              text: accessibleName(el, true),
+              selector: makeSelector(el),
+              source: heading.source,
+              landmark: landmarkIndex >= 0 ? landmarks[landmarkIndex].role : undefined,
+              visuallyHidden: !reason && isVisuallyHidden(el) ? true : undefined,
+              hiddenReason: reason,
+              landmarkIndex,
+              hasContent: true,
+            });
+            headingEls.push(el);
+            return;
+          }
+
+          const role = landmarkRole(el);
+          if (!role || landmarks.length >= maxLandmarks) return;
+          if (hiddenReason(el)) return;
+          const label = accessibleName(el, false);
+          landmarks.push({
+            order,
+            role,
+            label: label || undefined,
+            selector: makeSelector(el),
+            parentIndex: nearestLandmark(el),
+          });
+          landmarkEls.push(el);
+          landmarkIndexByEl.set(el, landmarks.length - 1);
+        });
+
+        // Obsah sekce = vše mezi nadpisem a dalším oznámeným nadpisem (nebo koncem landmarku)
+        const exposed = headings.map((h, i) => ({ h, el: headingEls[i] })).filter((x) => !x.h.hiddenReason);
+        const contentSelector = 'img, svg, picture, video, audio, iframe, canvas, object, embed, table, input, select, textarea, button';
+        exposed.forEach(({ h, el }, i) => {
+          const next = exposed[i + 1];
+          const container = h.landmarkIndex >= 0 ? landmarkEls[h.landmarkIndex] : d.body;
+          if (!container) return;
+          const nextInside = !!next && container.contains(next.el);
+          // Podsekce (h2 → h3) jsou obsahem nadřazené sekce
+          if (nextInside && next.h.level > h.level) return;
+
+          const range = d.createRange();
+          range.setStartAfter(el);
+          if (nextInside) range.setEndBefore(next.el);
+          else range.setEnd(container, container.childNodes.length);
+          if (range.toString().trim()) return;
+          h.hasContent = !!range.cloneContents().querySelector(contentSelector);
+        });
+
+        return { headings, landmarks };
+      },
+      MAX_HEADINGS,
+      MAX_LANDMARKS,
+      MAX_TEXT_LENGTH,
+    ) as Promise<RawHeadingOutline>;
+  }
+
+  public static toHeadingInfo(raw: RawHeading): HeadingInfo {
+    const info: HeadingInfo = { level: raw.level, text: raw.text, selector: raw.selector };
+    if (raw.source === 'aria') info.source = 'aria';
+    if (raw.landmark) info.landmark = raw.landmark;
+    if (raw.visuallyHidden) info.visuallyHidden = true;
+    if (raw.hiddenReason) info.hiddenReason = raw.hiddenReason;
+    return info;
+  }
+
+  /**
+   * Osnova: landmarky podle vnoření v DOM, nadpisy podle úrovní uvnitř svého landmarku.
+   * Landmark, který následuje po nadpisu (např. <section> pod h2), se zanoří pod ten nadpis.
+   */
+  public static buildOutline(raw: RawHeadingOutline): HeadingOutlineNode[] {
+    const roots: HeadingOutlineNode[] = [];
+    const landmarkNodes: HeadingOutlineNode[] = raw.landmarks.map((l) => ({
+      kind: 'landmark',
+      role: l.role,
+      label: l.label,
+      selector: l.selector,
+      children: [],
+    }));
+    // Otevřené nadpisy pro každý landmark (-1 = mimo landmarky)
+    const stacks = new Map<number, HeadingOutlineNode[]>();
+
+    const attachPoint = (landmarkIndex: number, level: number): HeadingOutlineNode[] => {
+      const stack = stacks.get(landmarkIndex) || [];
+      stacks.set(landmarkIndex, stack);
+      while (stack.length > 0 && (stack[stack.length - 1].level || 0) >= level) {
+        stack.pop();
+      }
+      if (stack.length > 0) return stack[stack.length - 1].children;
+      return landmarkIndex >= 0 ? landmarkNodes[landmarkIndex].children : roots;
+    };
+
+    const items = [
+      ...raw.landmarks.map((l, index) => ({ order: l.order, landmark: index, heading: undefined as RawHeading | undefined })),
+      ...raw.headings.filter((h) => !h.hiddenReason).map((h) => ({ order: h.order, landmark: -1, heading: h as RawHeading | undefined })),
+    ].sort((a, b) => a.order - b.order);
+
+    for (const item of items) {
+      if (item.heading) {
+        const node: HeadingOutlineNode = {
+          kind: 'heading',
+          level: item.heading.level,
+          text: item.heading.text,
+          selector: item.heading.selector,
+          children: [],
+        };
+        if (item.heading.source === 'aria') node.source = 'aria';
+        if (item.heading.visuallyHidden) node.visuallyHidden = true;
+        attachPoint(item.heading.landmarkIndex, item.heading.level).push(node);
+        stacks.get(item.heading.landmarkIndex)!.push(node);
+      } else {
+        const parentIndex = raw.landmarks[item.landmark].parentIndex;
+        // Landmark pod otevřeným nadpisem rodiče patří do jeho sekce
+        const stack = stacks.get(parentIndex) || [];
+        const target =
+          stack.length > 0 ? stack[stack.length - 1].children : parentIndex >= 0 ? landmarkNodes[parentIndex].children : roots;
+        target.push(landmarkNodes[item.landmark]);
+      }
+    }
+
+    return roots;
+  }
+
+  /**
+   * Počet oznámených nadpisů v každém landmarku včetně vnořených landmarků.
+   */
+  public static summarizeLandmarks(raw: RawHeadingOutline): HeadingLandmark[] {
+    const counts = raw.landmarks.map(() => 0);
+    for (const heading of raw.headings) {
+      if (heading.hiddenReason) continue;
+      let index = heading.landmarkIndex;
+      while (index >= 0) {
+        counts[index]++;
+        index = raw.landmarks[index].parentIndex;
+      }
+    }
+    return raw.landmarks.map((l, i) => ({
+      role: l.role,
+      label: l.label,
+      selector: l.selector,
+      headingCount: counts[i],
+    }));
+  }
+
+  public static findIssues(raw: RawHeadingOutline): HeadingIssue[] {
+    const issues: HeadingIssue[] = [];
+    const exposed = raw.headings.filter((h) => !h.hiddenReason);
+
+    const withoutHeading = this.summarizeLandmarks(raw).filter(
+      (l) => LANDMARKS_REQUIRING_HEADING.has(l.role) && l.headingCount === 0,
+    );
+    if (withoutHeading.length > 0) {
+      const names = withoutHeading.map((l) => (l.label ? `${l.role} "${l.label}"` : l.role)).join(', ');
+      issues.push({
+        type: 'landmark-without-heading',
+        description: `Nalezeno ${withoutHeading.length} oblastí stránky (landmarků) bez nadpisu: ${names}. Uživatel čtečky, který přeskakuje po nadpisech, tuto část obsahu mine.`,
+        wcagReference: '1.3.1 Info and Relationships',
+        affectedHeadings: [],
+      });
+    }
+
+    const withoutContent = exposed.filter((h) => h.text && !h.hasContent);
+    if (withoutContent.length > 0) {
+      issues.push({
+        type: 'heading-without-content',
+        description: `Nalezeno ${withoutContent.length} nadpisů, pod kterými není žádný obsah (hned následuje další nadpis nebo konec oblasti). Nadpis by měl popisovat obsah své sekce.`,
+        wcagReference: '2.4.6 Headings and Labels',
+        affectedHeadings: withoutContent.map((h) => this.toHeadingInfo(h)),
+      });
+    }
+
+    const placeholders = exposed.filter((h) => PLACEHOLDER_HEADING.test(h.text.trim()));
+    if (placeholders.length > 0) {
+      issues.push({
+        type: 'non-descriptive-heading',
+        description: `Nalezeno ${placeholders.length} nadpisů se zástupným textem ze šablony (např. "Nadpis", "Title", "Section 1"). Nadpis musí popisovat téma sekce.`,
+        wcagReference: '2.4.6 Headings and Labels',
+        affectedHeadings: placeholders.map((h) => this.toHeadingInfo(h)),
+      });
+    }
+
+    const ariaHidden = raw.headings.filter((h) => h.hiddenReason === 'aria-hidden');
+    if (ariaHidden.length > 0) {
+      issues.push({
+        type: 'aria-hidden-heading',
+        description: `Nalezeno ${ariaHidden.length} viditelných nadpisů skrytých před čtečkou přes aria-hidden="true". Vidící uživatel strukturu vidí, uživatel čtečky ne.`,
+        wcagReference: '1.3.1 Info and Relationships',
+        affectedHeadings: ariaHidden.map((h) => this.toHeadingInfo(h)),
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Porovná nadpisy napříč stránkami crawlu. Stránky stejného webu sdílí šablonu
+   * (hlavička, navigace, patička) – stejný nadpis by na nich měl mít stejnou úroveň,
+   * nadpisy šablony by neměly na části stránek chybět a H1 by mělo být vždy ve stejné oblasti.
+   */
+  public static compareTemplates(reports: AuditReport[]): HeadingTemplateComparison | undefined {
+    const pages = reports.filter((r) => (r.headingStructure?.headings || []).length > 0);
+    if (pages.length < 2) {
+      return undefined;
+    }
+
+    const normalize = (text: string) => text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+    const occurrences = new Map<string, { text: string; landmark?: string; levels: Map<string, number> }>();
+
+    for (const page of pages) {
+      for (const heading of page.headingStructure!.headings) {
+        if (!heading.text) continue;
+        const key = `${heading.landmark || ''}|${normalize(heading.text)}`;
+        let entry = occurrences.get(key);
+        if (!entry) {
+          entry = { text: heading.text, landmark: heading.landmark, levels: new Map() };
+          occurrences.set(key, entry);
+        }
+        // Na jedné stránce bereme první výskyt
+        if (!entry.levels.has(page.url)) entry.levels.set(page.url, heading.level);
+      }
+    }
+
+    const minShared = Math.max(2, Math.ceil(pages.length / 2));
+    const shared = Array.from(occurrences.values())
+      .filter((e) => e.levels.size >= minShared)
+      .sort((a, b) => b.levels.size - a.levels.size);
+
+    const issues: HeadingTemplateIssue[] = [];
+    const where = (landmark?: string) => (landmark ? ` v oblasti ${landmark}` : '');
+
+    for (const entry of shared) {
+      const majority = this.mode(Array.from(entry.levels.values()));
+      const differing = Array.from(entry.levels.entries()).filter(([, level]) => level !== majority);
+      if (differing.length > 0) {
+        const others = Array.from(new Set(differing.map(([, level]) => `H${level}`))).join(', ');
+        issues.push({
+          type: 'inconsistent-level',
+          description: `Nadpis "${entry.text}"${where(entry.landmark)} má na většině stránek úroveň H${majority}, ale na ${differing.length} stránkách ${others}. Stejná část šablony by měla mít všude stejnou úroveň.`,
+          wcagReference: '1.3.1 Info and Relationships',
+          text: entry.text,
+          landmark: entry.landmark,
+          pages: differing.map(([url]) => url),
+        });
+      }
+
+      if (entry.landmark && TEMPLATE_LANDMARKS.has(entry.landmark) && entry.levels.size >= Math.ceil(pages.length * 0.75)) {
+        const missing = pages.filter((p) => !entry.levels.has(p.url)).map((p) => p.url);
+        if (missing.length > 0) {
+          issues.push({
+            type: 'missing-template-heading',
+            description: `Nadpis "${entry.text}"${where(entry.landmark)} je na ${entry.levels.size} z ${pages.length} stránek, na ${missing.length} stránkách chybí. Opakující se části webu by měly mít stejnou strukturu.`,
+            wcagReference: '3.2.3 Consistent Navigation',
+            text: entry.text,
+            landmark: entry.landmark,
+            pages: missing,
+          });
+        }
+      }
+    }
+
+    // Kde je H1 – typicky main; logo jako H1 v banneru jen na části stránek je chyba šablony
+    const h1Placement = new Map<string, string>();
+    for (const page of pages) {
+      const h1 = page.headingStructure!.headings.find((h) => h.level === 1);
+      if (h1) h1Placement.set(page.url, h1.landmark || 'none');
+    }
+    if (h1Placement.size >= 2) {
+      const majority = this.mode(Array.from(h1Placement.values()));
+      const differing = Array.from(h1Placement.entries()).filter(([, landmark]) => landmark !== majority);
+      if (differing.length > 0) {
+        const label = (landmark: string) => (landmark === 'none' ? 'mimo landmarky' : landmark);
+        issues.push({
+          type: 'h1-placement',
+          description: `Hlavní nadpis H1 je na většině stránek v oblasti ${label(majority)}, ale na ${differing.length} stránkách jinde (${Array.from(new Set(differing.map(([, l]) => label(l)))).join(', ')}).`,
+          wcagReference: '1.3.1 Info and Relationships',
+          landmark: majority === 'none' ? undefined : majority,
+          pages: differing.map(([url]) => url),
+        });
+      }
+    }
+
+    return {
+      pagesCompared: pages.length,
+      sharedHeadings: shared.slice(0, MAX_SHARED_HEADINGS).map((e) => ({
+        text: e.text,
+        landmark: e.landmark,
+        levels: Array.from(new Set(e.levels.values())).sort((a, b) => a - b),
+        pageCount: e.levels.size,
+      })),
+      issues,
+    };
+  }
+
+  private static mode<T>(values: T[]): T {
+    const counts = new Map<T, number>();
+    for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+    let best = values[0];
+    let bestCount = 0;
+    counts.forEach((count, value) => {
+      if (count > bestCount) {
+        best = value;
+        bestCount = count;
+      }
+    });
+    return best;
+  }
+}
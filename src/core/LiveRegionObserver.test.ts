@@ -0,0 +1,166 @@
+import { Page } from 'puppeteer-core';
+import { LiveRegionObserver } from './LiveRegionObserver';
+import { LiveAnnouncement, LiveRegionReport } from './types';
+
+type Recorder = (record: Record<string, unknown>) => void;
+
+async function attachToFakePage(): Promise<{ observer: LiveRegionObserver; record: Recorder }> {
+  let record: Recorder = () => {};
+  const page = {
+    exposeFunction: async (_name: string, fn: Recorder) => {
+      record = fn;
+    },
+    evaluateOnNewDocument: async () => undefined,
+    evaluate: async () => 2,
+  } as unknown as Page;
+
+  const observer = await LiveRegionObserver.attach(page);
+  return { observer, record: (r) => record(r) };
+}
+
+function announcement(overrides: Partial<LiveAnnouncement>): LiveAnnouncement {
+  return {
+    status: 'missed',
+    reason: 'outside-live-region',
+    text: 'Added to cart',
+    selector: 'div.toast',
+    htmlSnippet: '<div class="toast">Added to cart</div>',
+    action: 'flow #2 click',
+    timestamp: '2026-01-04T10:30:04.480Z',
+    offsetMs: 4480,
+    ...overrides,
+  };
+}
+
+function liveReport(announcements: LiveAnnouncement[]): LiveRegionReport {
+  return {
+    regionCount: 1,
+    announcedCount: announcements.filter((a) => a.status === 'announced').length,
+    missedCount: announcements.filter((a) => a.status === 'missed').length,
+    truncated: false,
+    announcements,
+  };
+}
+
+describe('LiveRegionObserver', () => {
+  let now: jest.SpyInstance<number, []>;
+  let clock: number;
+
+  beforeEach(() => {
+    clock = 1_000_000;
+    now = jest.spyOn(Date, 'now').mockImplementation(() => clock);
+  });
+
+  afterEach(() => {
+    now.mockRestore();
+  });
+
+  describe('buildFindings', () => {
+    it('returns nothing when every message was announced', () => {
+      const findings = LiveRegionObserver.buildFindings(
+        liveReport([announcement({ status: 'announced', reason: undefined })]),
+        'https://example.com/',
+      );
+
+      expect(findings).toEqual({ violations: [], actionItems: [] });
+    });
+
+    it('reports missed messages as one moderate 4.1.3 violation with a node per message', () => {
+      const findings = LiveRegionObserver.buildFindings(
+        liveReport([
+          announcement({ status: 'announced', reason: undefined, text: 'Saved', selector: 'div#status' }),
+          announcement({}),
+          announcement({ reason: 'region-inserted-with-content', text: '3 results', selector: '', htmlSnippet: undefined }),
+          announcement({ reason: 'hidden-region', text: 'Error', selector: 'div#errors', pageUrl: 'https://example.com/cart' }),
+        ]),
+        'https://example.com/',
+      );
+
+      expect(findings.violations).toHaveLength(1);
+      const [violation] = findings.violations;
+      expect(violation.id).toBe('a11yflow-status-messages');
+      expect(violation.impact).toBe('moderate');
+      expect(violation.count).toBe(3);
+      expect(violation.nodes.map((n) => n.target)).toEqual([['div.toast'], [], ['div#errors']]);
+      expect(violation.nodes[1].html).toBe('');
+      expect(violation.nodes[0].failureSummary).toContain('mimo live region');
+      expect(violation.nodes[0].failureSummary).toContain('akce: flow #2 click, +4.5 s');
+      expect(violation.nodes[1].failureSummary).toContain('vložen až společně s textem');
+      expect(violation.nodes[2].failureSummary).toContain('skrytý');
+
+      expect(findings.actionItems).toEqual([
+        expect.objectContaining({
+          id: 'a11yflow-status-messages',
+          exampleUrl: 'https://example.com/',
+          exampleTarget: 'div.toast',
+          wcagReference: '4.1.3 Status Messages',
+        }),
+      ]);
+    });
+  });
+
+  describe('action timeline', () => {
+    it('assigns a record to the action that was active when the change happened', async () => {
+      const { observer, record } = await attachToFakePage();
+
+      clock += 100;
+      observer.setAction('cookie-consent');
+      clock += 100;
+      observer.setAction('act:form-errors');
+      clock += 500;
+      // Kontrola mimo live region dorazí se zpožděním, ale nese čas změny
+      record({ status: 'missed', reason: 'outside-live-region', text: 'Cookies saved', selector: 'div.notice', observedAt: 1_000_150 });
+      record({ status: 'announced', text: '  Form   sent ', selector: 'div#status' });
+
+      const report = await observer.collect();
+
+      expect(report.announcements.map((a) => [a.action, a.text, a.offsetMs])).toEqual([
+        ['cookie-consent', 'Cookies saved', 150],
+        ['act:form-errors', 'Form sent', 700],
+      ]);
+      expect(report.announcements[0].timestamp).toBe(new Date(1_000_150).toISOString());
+      expect(report).toMatchObject({ regionCount: 2, announcedCount: 1, missedCount: 1, truncated: false });
+    });
+
+    it('drops changes recorded during muted phases, including late deliveries', async () => {
+      const { observer, record } = await attachToFakePage();
+
+      clock += 100;
+      observer.mute('act:reflow');
+      clock += 100;
+      record({ status: 'missed', reason: 'outside-live-region', text: 'Error', selector: 'div.alert' });
+      observer.setAction('act:form-errors');
+      clock += 500;
+      record({ status: 'missed', reason: 'outside-live-region', text: 'Saved', selector: 'p.notice', observedAt: 1_000_150 });
+      record({ status: 'missed', reason: 'outside-live-region', text: 'Please fill in e-mail', selector: 'span.error' });
+
+      const report = await observer.collect();
+
+      expect(report.announcements.map((a) => `${a.action}:${a.text}`)).toEqual(['act:form-errors:Please fill in e-mail']);
+      expect(report.truncated).toBe(false);
+    });
+
+    it('deduplicates repeated messages, ignores empty text and caps the buffer', async () => {
+      const { observer, record } = await attachToFakePage();
+
+      record({ status: 'announced', text: 'Saved', selector: 'div#status' });
+      record({ status: 'announced', text: 'Saved ', selector: 'div#status' });
+      record({ status: 'announced', text: '   ', selector: 'div#status' });
+      for (let i = 0; i < 120; i++) {
+        record({ status: 'announced', text: `Item ${i}`, selector: 'ul#log' });
+      }
+
+      const report = await observer.collect();
+
+      expect(report.announcements).toHaveLength(100);
+      expect(report.announcements[0].text).toBe('Saved');
+      expect(report.announcements[0].action).toBe('page-load');
+      expect(report.truncated).toBe(true);
+
+      // collect vyprázdní buffer – další checkpoint začíná znovu
+      const next = await observer.collect();
+      expect(next.announcements).toEqual([]);
+      expect(next.truncated).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,423 @@
+import { Page } from 'puppeteer-core';
+import {
+  AccessibilityViolation,
+  HumanReadableActionItem,
+  ImpactLevel,
+  LiveAnnouncement,
+  LiveRegionReport,
+} from './types';
+
+// Binding přes page.exposeFunction – přežije navigaci i reload stránky
+const BINDING_NAME = '__a11yflowLiveRegionRecord';
+// Limit záznamů na jedno vyhodnocení (odpočty, logy a chaty umí generovat stovky změn)
+const MAX_ANNOUNCEMENTS = 100;
+const MAX_TEXT_LENGTH = 200;
+// Zpráva mimo live region se posuzuje se zpožděním – stránka na ni mezitím může přesunout fokus
+const OUTSIDE_CHECK_DELAY_MS = 500;
+// Před vyhodnocením necháme doběhnout odložené kontroly
+const SETTLE_MS = 600;
+
+// Třídy / id typické pro toasty a stavové zprávy
+const STATUS_HINT_PATTERN = /toast|snackbar|notif|flash|alert|message|status|feedback|callout|notice/i;
+// Texty typické pro stavové zprávy (EN, CZ, SK, DE)
+const STATUS_TEXT_PATTERN =
+  /added to (cart|basket|bag)|saved|updated|deleted|removed|success|thank you|sent|submitted|copied|no results|\d+ results?|items? found|error|failed|přidán|uložen|odeslán|smazán|odebrán|zkopírován|děkujeme|výsled|nalezen|chyba|nepodařilo|pridan|hinzugefügt|gespeichert|gesendet|fehler/i;
+
+interface RawLiveRecord {
+  status: 'announced' | 'missed';
+  reason?: LiveAnnouncement['reason'];
+  text: string;
+  selector: string;
+  htmlSnippet?: string;
+  politeness?: 'polite' | 'assertive';
+  regionRole?: string;
+  pageUrl?: string;
+  // Čas změny v prohlížeči (kontrola mimo live region se posílá se zpožděním)
+  observedAt: number;
+}
+
+/**
+ * LiveRegionObserver
+ *
+ * Během skenu nebo user flow zaznamenává každou změnu uvnitř live regionů
+ * (aria-live, role=status/alert/log, <output>) a zároveň hledá stavové zprávy,
+ * které se objevily mimo ně (toasty, "Přidáno do košíku", počet výsledků).
+ * Ke každému záznamu si pamatuje čas a akci, která ho vyvolala – WebScanner
+ * průběžně nastavuje aktuální fázi skenu nebo krok user flow.
+ */
+export class LiveRegionObserver {
+  private records: LiveAnnouncement[] = [];
+  private dropped = 0;
+  private readonly startedAt = Date.now();
+  // Časová osa akcí – záznam dostane akci platnou v okamžiku změny, ne v okamžiku doručení
+  private actions: { at: number; action: string; muted?: boolean }[] = [{ at: 0, action: 'page-load' }];
+
+  private constructor(private readonly page: Page) {}
+
+  /**
+   * Připojí observer ke stránce – do aktuálního dokumentu i do všech dalších po navigaci.
+   */
+  public static async attach(page: Page): Promise<LiveRegionObserver> {
+    const observer = new LiveRegionObserver(page);
+
+    await page.exposeFunction(BINDING_NAME, (record: RawLiveRecord) => observer.push(record));
+    await page.evaluateOnNewDocument(installLiveRegionProbe, BINDING_NAME, STATUS_HINT_PATTERN.source, STATUS_TEXT_PATTERN.source, OUTSIDE_CHECK_DELAY_MS);
+    await page.evaluate(installLiveRegionProbe, BINDING_NAME, STATUS_HINT_PATTERN.source, STATUS_TEXT_PATTERN.source, OUTSIDE_CHECK_DELAY_MS);
+
+    return observer;
+  }
+
+  /**
+   * Nastaví akci, ke které se přiřadí další záznamy (např. "act:form-errors", "flow #2 click").
+   */
+  public setAction(action: string): void {
+    this.actions.push({ at: Date.now(), action });
+  }
+
+  /**
+   * Zahájí fázi, ve které stránku přestyluje sám skener (zvětšení písma, text spacing,
+   * klávesnicový audit). Změny z ní se zahodí – statické prvky s třídou "alert" nebo
+   * textem "error" by jinak vypadaly jako nově zobrazené stavové zprávy.
+   */
+  public mute(phase: string): void {
+    this.actions.push({ at: Date.now(), action: phase, muted: true });
+  }
+
+  /**
+   * Vrátí záznamy od posledního volání a vyprázdní buffer – u user flow
+   * tak každý checkpoint dostane oznámení vyvolaná kroky před ním.
+   */
+  public async collect(): Promise<LiveRegionReport> {
+    await new Promise((r) => setTimeout(r, SETTLE_MS));
+
+    const regionCount = await this.page
+      .evaluate(() => {
+        const d = (globalThis as any).document as any;
+        if (!d) return 0;
+        return d.querySelectorAll(
+          '[aria-live]:not([aria-live="off"]), [role="status"], [role="alert"], [role="log"], output',
+        ).length;
+      })
+      .catch(() => 0);
+
+    const announcements = this.records;
+    const truncated = this.dropped > 0;
+    this.records = [];
+    this.dropped = 0;
+    this.actions = this.actions.slice(-1);
+
+    return {
+      regionCount,
+      announcedCount: announcements.filter((a) => a.status === 'announced').length,
+      missedCount: announcements.filter((a) => a.status === 'missed').length,
+      truncated,
+      announcements,
+    };
+  }
+
+  /**
+   * Nálezy WCAG 4.1.3 z vyhodnocených záznamů (prázdné pole, pokud nic neuniklo).
+   */
+  public static buildFindings(
+    report: LiveRegionReport,
+    pageUrl: string,
+  ): { violations: AccessibilityViolation[]; actionItems: HumanReadableActionItem[] } {
+    const missed = report.announcements.filter((a) => a.status === 'missed');
+    if (missed.length === 0) {
+      return { violations: [], actionItems: [] };
+    }
+
+    const impact: ImpactLevel = 'moderate';
+
+    const violation: AccessibilityViolation = {
+      id: 'a11yflow-status-messages',
+      title: 'Stavová zpráva se čtečce obrazovky neoznámí',
+      description:
+        'Během skenu se na stránce objevily zprávy (toast, potvrzení akce, počet výsledků, chyba), ' +
+        'které čtečka obrazovky nepřečte – nejsou v live regionu, live region vznikl až se zprávou, nebo je skrytý.',
+      impact,
+      helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/status-messages.html',
+      count: missed.length,
+      suggestedFix:
+        'Vložte do stránky prázdný kontejner s role="status" (nebo role="alert" u chyb) už při načtení ' +
+        'a zprávy do něj pouze zapisujte. Kontejner nesmí být skrytý přes display:none ani aria-hidden.',
+      nodes: missed.map((a) => ({
+        html: a.htmlSnippet || '',
+        target: a.selector ? [a.selector] : [],
+        failureSummary: `${this.describeReason(a)} Zpráva: "${a.text}" (akce: ${a.action}, +${(a.offsetMs / 1000).toFixed(1)} s, ${a.timestamp}).`,
+      })),
+    };
+
+    const first = missed[0];
+    const actionItem: HumanReadableActionItem = {
+      id: violation.id,
+      impact,
+      priority: '🟡 Moderate',
+      category: 'Technical',
+      what: `Zpráva "${first.text}" se zobrazila, ale čtečka obrazovky ji neoznámí (akce: ${first.action}).`,
+      fix: 'Zapisujte stavové zprávy do live regionu (role="status" / role="alert"), který existuje v DOM už před zobrazením zprávy.',
+      exampleUrl: first.pageUrl || pageUrl,
+      exampleTarget: first.selector || undefined,
+      wcagReference: '4.1.3 Status Messages',
+    };
+
+    return { violations: [violation], actionItems: [actionItem] };
+  }
+
+  private static describeReason(a: LiveAnnouncement): string {
+    switch (a.reason) {
+      case 'region-inserted-with-content':
+        return 'Live region byl do stránky vložen až společně s textem – čtečky takovou změnu často přeskočí.';
+      case 'hidden-region':
+        return 'Text se změnil v live regionu, který je skrytý (display:none nebo aria-hidden).';
+      default:
+        return 'Zpráva se objevila mimo live region a fokus se na ni nepřesunul.';
+    }
+  }
+
+  private push(record: RawLiveRecord): void {
+    const normalized = String(record.text || '').replace(/\s+/g, ' ').trim();
+    if (!normalized) return;
+    const text = normalized.length > MAX_TEXT_LENGTH ? normalized.slice(0, MAX_TEXT_LENGTH) + '…' : normalized;
+
+    const observedAt = Number(record.observedAt) || Date.now();
+    const action = [...this.actions].reverse().find((a) => a.at <= observedAt) || this.actions[0];
+    if (action.muted) return;
+
+    // Stejná zpráva ve stejném prvku během jednoho vyhodnocení je jeden záznam
+    const duplicate = this.records.some(
+      (r) => r.status === record.status && r.selector === record.selector && r.text === text,
+    );
+    if (duplicate) return;
+
+    if (this.records.length >= MAX_ANNOUNCEMENTS) {
+      this.dropped++;
+      return;
+    }
+
+    this.records.push({
+      status: record.status,
+      reason: record.reason,
+      text,
+      selector: record.selector,
+      htmlSnippet: record.htmlSnippet,
+      politeness: record.politeness,
+      regionRole: record.regionRole,
+      action: action.action,
+      timestamp: new Date(observedAt).toISOString(),
+      offsetMs: Math.max(0, observedAt - this.startedAt),
+      pageUrl: record.pageUrl,
+    });
+  }
+}
+
+/**
+ * Běží v prohlížeči (evaluateOnNewDocument i evaluate) – proto nesmí sahat na nic mimo sebe.
+ */
+function installLiveRegionProbe(bindingName: string, hintSource: string, textSource: string, outsideDelayMs: number): void {
+  const w = globalThis as any;
+  if (w.__a11yflowLiveRegionObserver) return;
+  w.__a11yflowLiveRegionObserver = true;
+
+  const hintPattern = new RegExp(hintSource, 'i');
+  const textPattern = new RegExp(textSource, 'i');
+  const LIVE_SELECTOR = '[aria-live]:not([aria-live="off"]), [role="status"], [role="alert"], [role="log"], output';
+  // Prvky, které stavovou zprávou nejsou (nadpisy, ovládací prvky, navigace, tooltipy, dialogy)
+  const EXCLUDED_SELECTOR =
+    'h1, h2, h3, h4, h5, h6, a, button, label, option, li, td, th, summary, nav, header, footer, ' +
+    '[role="dialog"], [role="alertdialog"], [role="tooltip"], [role="menu"], [role="listbox"], [aria-live="off"]';
+
+  const makeSelector = (el: any): string => {
+    if (!el) return '';
+    const tag = (el.tagName || 'div').toLowerCase();
+    if (el.id) return `${tag}#${el.id}`;
+    const className = el.className;
+    if (className && typeof className === 'string') {
+      const cls = className
+        .split(/\s+/)
+        .filter(Boolean)
+        .slice(0, 2)
+        .map((c: string) => `.${c}`)
+        .join('');
+      if (cls) return `${tag}${cls}`;
+    }
+    return tag;
+  };
+
+  const send = (record: any) => {
+    const fn = w[bindingName];
+    if (typeof fn !== 'function') return;
+    try {
+      Promise.resolve(fn({ observedAt: Date.now(), ...record, pageUrl: String(w.location.href) })).catch(() => {});
+    } catch {
+      // Binding může zmizet při zavírání stránky
+    }
+  };
+
+  const snippet = (el: any): string => {
+    const outer = String(el.outerHTML || '');
+    return outer.length > 300 ? outer.slice(0, 300) + '…' : outer;
+  };
+
+  const textOf = (el: any): string => String(el.innerText || el.textContent || '').replace(/\s+/g, ' ').trim();
+
+  const isRendered = (el: any): boolean => {
+    if (el.closest('[aria-hidden="true"], [hidden], [inert]')) return false;
+    // sr-only texty mají obdélník 1×1 px – čtečka je přečte, display:none ne
+    return el.getClientRects().length > 0;
+  };
+
+  const regionInfo = (region: any) => {
+    const role = region.getAttribute('role') || (region.tagName === 'OUTPUT' ? 'status' : '');
+    const live = region.getAttribute('aria-live');
+    const politeness = live === 'assertive' || (!live && role === 'alert') ? 'assertive' : 'polite';
+    return { role: role || undefined, politeness };
+  };
+
+  const reportedOutside = new WeakSet<any>();
+
+  const checkLiveChange = (el: any) => {
+    const region = el.closest(LIVE_SELECTOR);
+    if (!region) return false;
+    const text = textOf(el);
+    if (!text) return true;
+    const info = regionInfo(region);
+    send({
+      status: isRendered(region) ? 'announced' : 'missed',
+      reason: isRendered(region) ? undefined : 'hidden-region',
+      text,
+      selector: makeSelector(region),
+      htmlSnippet: snippet(region),
+      politeness: info.politeness,
+      regionRole: info.role,
+    });
+    return true;
+  };
+
+  const checkInsertedRegion = (node: any): boolean => {
+    // Vložený prvek je sám live regionem (nebo ho obsahuje) a už nese text
+    const regions = [
+      ...(node.matches(LIVE_SELECTOR) ? [node] : []),
+      ...Array.from(node.querySelectorAll(LIVE_SELECTOR)),
+    ] as any[];
+    if (regions.length === 0) return false;
+
+    for (const region of regions) {
+      const text = textOf(region);
+      if (!text) continue;
+      const info = regionInfo(region);
+      // role="alert" čtečky oznámí i při vložení, ostatní regiony musí existovat předem
+      const missed = info.role !== 'alert';
+      send({
+        status: missed ? 'missed' : 'announced',
+        reason: missed ? 'region-inserted-with-content' : undefined,
+        text,
+        selector: makeSelector(region),
+        htmlSnippet: snippet(region),
+        politeness: info.politeness,
+        regionRole: info.role,
+      });
+    }
+    return true;
+  };
+
+  const looksLikeStatus = (el: any, text: string): boolean => {
+    if (text.length < 2 || text.length > 200) return false;
+    if (el.closest(EXCLUDED_SELECTOR)) return false;
+    // Víc ovládacích prvků = obsahová sekce nebo menu, ne zpráva (toast mívá nanejvýš "Zpět" a "Zavřít")
+    if (el.querySelectorAll('a[href], button, input, select, textarea').length > 2) return false;
+
+    let hinted = false;
+    let node = el;
+    for (let depth = 0; node && depth < 3; depth++, node = node.parentElement) {
+      const marker = [node.id, typeof node.className === 'string' ? node.className : '', node.getAttribute('data-testid')]
+        .filter(Boolean)
+        .join(' ');
+      if (hintPattern.test(marker)) {
+        hinted = true;
+        break;
+      }
+    }
+
+    return hinted || textPattern.test(text);
+  };
+
+  const checkOutside = (el: any) => {
+    // Levné předfiltrování – změny tříd na velkých kontejnerech (body, layout) přeskočíme bez měření layoutu
+    if (reportedOutside.has(el) || String(el.textContent || '').length > 1000) return;
+    if (!isRendered(el)) return;
+    const text = textOf(el);
+    if (!looksLikeStatus(el, text)) return;
+    reportedOutside.add(el);
+    const observedAt = Date.now();
+
+    const hasFocus = () => {
+      const active = w.document.activeElement;
+      return !!active && active !== w.document.body && (el.contains(active) || active.contains(el));
+    };
+    // Fokus přesunutý na zprávu hned v obsluze události – čtečka ji přečte
+    if (hasFocus()) return;
+
+    setTimeout(() => {
+      const d = w.document;
+      if (el.isConnected) {
+        // Mezitím mohla stránka zprávu přesunout do live regionu, fokusovat ji nebo skrýt
+        if (el.closest(LIVE_SELECTOR) || !isRendered(el) || hasFocus()) return;
+        // Chybová hláška navázaná na pole přes aria-describedby / aria-errormessage se přečte s fokusem pole
+        if (el.id && d.querySelector(`[aria-describedby~="${el.id}"], [aria-errormessage="${el.id}"]`)) return;
+      }
+      send({
+        status: 'missed',
+        reason: 'outside-live-region',
+        text,
+        selector: makeSelector(el),
+        htmlSnippet: snippet(el),
+        observedAt,
+      });
+    }, outsideDelayMs);
+  };
+
+  const handle = (mutations: any[]) => {
+    for (const m of mutations) {
+      if (m.type === 'childList') {
+        for (const node of Array.from(m.addedNodes) as any[]) {
+          if (node.nodeType === 1) {
+            if (checkInsertedRegion(node)) continue;
+            if (checkLiveChange(node)) continue;
+            checkOutside(node);
+          } else if (node.nodeType === 3 && m.target && m.target.nodeType === 1) {
+            if (!checkLiveChange(m.target)) checkOutside(m.target);
+          }
+        }
+      } else if (m.type === 'characterData') {
+        const parent = m.target && m.target.parentElement;
+        if (parent && !checkLiveChange(parent)) checkOutside(parent);
+      } else if (m.type === 'attributes') {
+        // Zpráva zobrazená přepnutím třídy / hidden / style
+        const target = m.target;
+        if (!target || target.nodeType !== 1 || target.closest(LIVE_SELECTOR)) continue;
+        checkOutside(target);
+      }
+    }
+  };
+
+  const start = () => {
+    const d = w.document;
+    if (!d || !d.documentElement) return;
+    const observer = new w.MutationObserver(handle);
+    observer.observe(d.documentElement, {
+      childList: true,
+      subtree: true,
+      characterData: true,
+      attributes: true,
+      attributeFilter: ['class', 'style', 'hidden', 'aria-hidden'],
+    });
+  };
+
+  // Prvotní vykreslení stránky nás nezajímá – sledujeme až změny po načtení
+  if (w.document.readyState === 'complete') {
+    start();
+  } else {
+    w.addEventListener('load', start, { once: true });
+  }
+}
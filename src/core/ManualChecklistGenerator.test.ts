@@ -0,0 +1,115 @@
+import { ManualChecklistGenerator } from './ManualChecklistGenerator';
+import { ActRuleRegistry } from './acts/ActRuleRegistry';
+import { AuditReport } from './types';
+import { crawl, outcomes, page } from './testFixtures';
+
+function item(report: AuditReport, ruleId: string) {
+  return report.manualChecklist!.items.find((i) => i.ruleId === ruleId)!;
+}
+
+describe('ManualChecklistGenerator.build', () => {
+  it('lists every manual rule of the registry with its guidance', () => {
+    const checklist = ManualChecklistGenerator.build(page());
+    const manualRules = ActRuleRegistry.filter((r) => r.status === 'manual');
+
+    expect(checklist.automatedScore).toBe(90);
+    expect(checklist.items.map((i) => i.ruleId)).toEqual(manualRules.map((r) => r.id));
+    expect(checklist.items.every((i) => i.status === 'pending' && i.guidance.length > 0)).toBe(true);
+  });
+
+  it('resolves media items as not applicable only when there is neither video nor audio', () => {
+    const withoutMedia = ManualChecklistGenerator.build(page('https://example.com/', [], {
+      inapplicable: outcomes('video-caption', 'audio-caption'),
+    }));
+    const withAudio = ManualChecklistGenerator.build(page('https://example.com/', [], {
+      inapplicable: outcomes('video-caption'),
+    }));
+
+    expect(withoutMedia.items.find((i) => i.ruleId === 'media-alternative-manual')).toMatchObject({
+      status: 'not-applicable',
+      autoResolved: true,
+    });
+    expect(withAudio.items.find((i) => i.ruleId === 'media-alternative-manual')?.status).toBe('pending');
+    // Titulky a audiopopis se týkají jen videa
+    expect(withAudio.items.find((i) => i.ruleId === 'captions-manual')?.status).toBe('not-applicable');
+  });
+});
+
+describe('ManualChecklistGenerator.parseAudit', () => {
+  it('accepts known rules and verdicts', () => {
+    const audit = ManualChecklistGenerator.parseAudit({
+      auditor: 'QA team',
+      auditedAt: '2026-01-05',
+      verdicts: [{ ruleId: 'captions-manual', verdict: 'pass', pageUrl: 'https://example.com/video', note: 'OK' }],
+    });
+
+    expect(audit).toEqual({
+      auditor: 'QA team',
+      auditedAt: '2026-01-05',
+      verdicts: [{ ruleId: 'captions-manual', verdict: 'pass', pageUrl: 'https://example.com/video', note: 'OK' }],
+    });
+  });
+
+  it.each([
+    [[], 'expected an object with "verdicts"'],
+    [{}, '"verdicts" must be an array'],
+    [{ verdicts: [null] }, 'verdict #0: expected an object'],
+    [{ verdicts: [{ ruleId: 'image-alt', verdict: 'pass' }] }, 'unknown manual rule "image-alt"'],
+    [{ verdicts: [{ ruleId: 'captions-manual', verdict: 'ok' }] }, '"verdict" must be one of pass, fail, not-applicable'],
+    [{ verdicts: [{ ruleId: 'captions-manual', verdict: 'pass', note: 1 }] }, '"note" must be a string'],
+  ])('rejects %j', (input, message) => {
+    expect(() => ManualChecklistGenerator.parseAudit(input)).toThrow(message);
+  });
+});
+
+describe('ManualChecklistGenerator.applyAudit', () => {
+  it('prefers a page-specific verdict and lowers the score for each failed item', () => {
+    const home = page();
+    const contact = page('https://example.com/contact/', [], { score: 80 });
+    const summary = crawl([home, contact]);
+
+    ManualChecklistGenerator.applyAudit(summary, ManualChecklistGenerator.parseAudit({
+      auditor: 'QA team',
+      verdicts: [
+        { ruleId: 'consistent-navigation-manual', verdict: 'pass' },
+        { ruleId: 'consistent-navigation-manual', verdict: 'fail', pageUrl: 'https://EXAMPLE.com/contact#form', note: 'Footer order differs' },
+        { ruleId: 'multiple-ways-manual', verdict: 'fail' },
+      ],
+    }), 'en');
+
+    expect(item(home, 'consistent-navigation-manual').status).toBe('pass');
+    expect(item(contact, 'consistent-navigation-manual')).toMatchObject({ status: 'fail', note: 'Footer order differs' });
+    expect(home.manualChecklist!.auditor).toBe('QA team');
+
+    // Jeden fail = srážka jako za jeden "serious" výskyt (3 body)
+    expect(home.score).toBe(87);
+    expect(contact.score).toBe(74);
+    expect(summary.averageScore).toBe(81);
+    expect(home.accessibilityStatement).toBeTruthy();
+    expect(summary.conformance).toBeDefined();
+  });
+
+  it('matches the verdict page by URL with a case-sensitive path', () => {
+    const lower = page('https://example.com/contact');
+    const upper = page('https://example.com/Contact');
+
+    ManualChecklistGenerator.applyAudit(crawl([lower, upper]), ManualChecklistGenerator.parseAudit({
+      verdicts: [{ ruleId: 'multiple-ways-manual', verdict: 'fail', pageUrl: 'HTTPS://Example.COM/Contact/' }],
+    }));
+
+    expect(item(upper, 'multiple-ways-manual').status).toBe('fail');
+    expect(item(lower, 'multiple-ways-manual').status).toBe('pending');
+  });
+
+  it('recomputes the score from the automated score when the audit is applied again', () => {
+    const report = page();
+    const fail = ManualChecklistGenerator.parseAudit({ verdicts: [{ ruleId: 'multiple-ways-manual', verdict: 'fail' }] });
+    const pass = ManualChecklistGenerator.parseAudit({ verdicts: [{ ruleId: 'multiple-ways-manual', verdict: 'pass' }] });
+
+    ManualChecklistGenerator.applyAudit(report, fail);
+    expect(report.score).toBe(87);
+
+    ManualChecklistGenerator.applyAudit(report, pass);
+    expect(report.score).toBe(90);
+  });
+});
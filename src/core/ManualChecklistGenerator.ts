@@ -0,0 +1,169 @@
+import {
+  AuditReport,
+  CrawlSummary,
+  ManualAuditInput,
+  ManualAuditVerdict,
+  ManualChecklist,
+  ManualChecklistItem,
+  ManualVerdict,
+} from './types';
+import { ActRuleRegistry } from './acts/ActRuleRegistry';
+import { ViolationMapper } from './ViolationMapper';
+import { AccessibilityStatementGenerator, Language } from './AccessibilityStatementGenerator';
+import { ConformanceMatrixBuilder } from './ConformanceMatrixBuilder';
+
+/**
+ * Checklist pro ruční audit – kritéria WCAG 2.2 AA, která automat nerozhodne
+ * (pravidla se statusem 'manual' v ActRuleRegistry).
+ *
+ * Postup: sken vygeneruje checklist ke každé stránce, auditor vyplní verdikty
+ * jako JSON a `applyAudit` je vrátí do reportu – přepočítá skóre a prohlášení
+ * o přístupnosti.
+ */
+export class ManualChecklistGenerator {
+  private static readonly VERDICTS: ManualVerdict[] = ['pass', 'fail', 'not-applicable'];
+
+  public static build(report: AuditReport): ManualChecklist {
+    const inapplicable = new Set((report.inapplicable || []).map((r) => r.id));
+
+    const items: ManualChecklistItem[] = ActRuleRegistry
+      .filter((rule) => rule.status === 'manual')
+      .map((rule) => {
+        // Kritérium se stránky netýká, pokud všechna navázaná axe pravidla nenašla žádný prvek (např. žádné <video>)
+        const notApplicable =
+          !!rule.applicabilityAxeRuleIds &&
+          rule.applicabilityAxeRuleIds.length > 0 &&
+          rule.applicabilityAxeRuleIds.every((id) => inapplicable.has(id));
+
+        return {
+          ruleId: rule.id,
+          name: rule.name,
+          wcag: rule.wcag,
+          guidance: rule.guidance || '',
+          status: notApplicable ? 'not-applicable' : 'pending',
+          autoResolved: notApplicable || undefined,
+        };
+      });
+
+    return {
+      items,
+      automatedScore: report.score,
+    };
+  }
+
+  public static parseAudit(input: unknown): ManualAuditInput {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      throw new Error('Invalid manual audit: expected an object with "verdicts"');
+    }
+
+    const raw = input as Record<string, unknown>;
+
+    if (!Array.isArray(raw.verdicts)) {
+      throw new Error('Invalid manual audit: "verdicts" must be an array');
+    }
+
+    const knownRules = new Set(ActRuleRegistry.filter((r) => r.status === 'manual').map((r) => r.id));
+
+    const verdicts = raw.verdicts.map((entry, index): ManualAuditVerdict => {
+      if (!entry || typeof entry !== 'object') {
+        throw new Error(`Invalid manual audit verdict #${index}: expected an object`);
+      }
+
+      const v = entry as Record<string, unknown>;
+
+      if (typeof v.ruleId !== 'string' || !knownRules.has(v.ruleId)) {
+        throw new Error(`Invalid manual audit verdict #${index}: unknown manual rule "${String(v.ruleId)}"`);
+      }
+
+      if (!this.VERDICTS.includes(v.verdict as ManualVerdict)) {
+        throw new Error(`Invalid manual audit verdict #${index}: "verdict" must be one of ${this.VERDICTS.join(', ')}`);
+      }
+
+      for (const field of ['pageUrl', 'note'] as const) {
+        if (v[field] !== undefined && typeof v[field] !== 'string') {
+          throw new Error(`Invalid manual audit verdict #${index}: "${field}" must be a string`);
+        }
+      }
+
+      return {
+        ruleId: v.ruleId,
+        verdict: v.verdict as ManualVerdict,
+        pageUrl: v.pageUrl as string | undefined,
+        note: v.note as string | undefined,
+      };
+    });
+
+    return {
+      auditor: typeof raw.auditor === 'string' ? raw.auditor : undefined,
+      auditedAt: typeof raw.auditedAt === 'string' ? raw.auditedAt : new Date().toISOString(),
+      verdicts,
+    };
+  }
+
+  /**
+   * Zapracuje verdikty auditora do reportu (mutuje ho a vrací).
+   * Každé nesplněné kritérium strhne ze skóre stránky stejně jako jeden "serious" výskyt.
+   */
+  public static applyAudit<T extends AuditReport | CrawlSummary>(
+    report: T,
+    audit: ManualAuditInput,
+    language: Language = 'cs',
+  ): T {
+    const isCrawl = Array.isArray((report as CrawlSummary).pages);
+    const pages = isCrawl ? (report as CrawlSummary).pages : [report as AuditReport];
+    const statementGenerator = new AccessibilityStatementGenerator();
+
+    for (const page of pages) {
+      const checklist = page.manualChecklist || this.build(page);
+
+      for (const item of checklist.items) {
+        const verdict = this.findVerdict(audit.verdicts, item.ruleId, page.url);
+        if (!verdict) continue;
+
+        item.status = verdict.verdict;
+        item.note = verdict.note;
+        item.autoResolved = undefined;
+      }
+
+      checklist.auditor = audit.auditor;
+      checklist.auditedAt = audit.auditedAt;
+      page.manualChecklist = checklist;
+
+      const failed = checklist.items.filter((item) => item.status === 'fail').length;
+      const penalty = failed * ViolationMapper.getScorePenalty('serious');
+      page.score = Math.max(0, Math.round(checklist.automatedScore - penalty));
+      page.conformance = ConformanceMatrixBuilder.build(page, page.conformance);
+
+      const statement = statementGenerator.generate(page, language);
+      page.accessibilityStatement = statement.markdown;
+      page.accessibilityStatementHtml = statement.html;
+    }
+
+    if (isCrawl) {
+      const crawl = report as CrawlSummary;
+      crawl.averageScore = pages.length > 0
+        ? Math.round(pages.reduce((acc, p) => acc + p.score, 0) / pages.length)
+        : 0;
+      crawl.conformance = ConformanceMatrixBuilder.build(crawl, crawl.conformance);
+    }
+
+    return report;
+  }
+
+  /**
+   * Verdikt pro konkrétní stránku má přednost před globálním (bez pageUrl).
+   */
+  private static findVerdict(
+    verdicts: ManualAuditVerdict[],
+    ruleId: string,
+    pageUrl: string,
+  ): ManualAuditVerdict | undefined {
+    const normalizedUrl = ViolationMapper.normalizePageUrl(pageUrl);
+    const forRule = verdicts.filter((v) => v.ruleId === ruleId);
+
+    return (
+      forRule.find((v) => v.pageUrl && ViolationMapper.normalizePageUrl(v.pageUrl) === normalizedUrl) ||
+      forRule.find((v) => !v.pageUrl)
+    );
+  }
+}
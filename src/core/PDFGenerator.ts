@@ -1,6 +1,7 @@
 import puppeteer, { Browser } from 'puppeteer-core';
 import chromium from '@sparticuz/chromium';
-import { AuditReport } from './types.js';
+import { AuditReport, AcrReport } from './types.js';
+import { AcrGenerator } from './AcrGenerator.js';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -24,9 +25,42 @@ export class PDFGenerator {
     reportData: AuditReport,
     options: PDFGenerationOptions = {}
   ): Promise<Buffer> {
-    try {
-      console.log('[PDFGenerator] Generating PDF report...');
+    console.log('[PDFGenerator] Generating PDF report...');
+
+    return this.renderPDF(
+      this.generateHTMLReport(reportData, options),
+      this.getHeaderTemplate(reportData, options),
+      this.getFooterTemplate(reportData, options)
+    );
+  }
+
+  /**
+   * Vygeneruje PDF s Accessibility Conformance Reportem (VPAT)
+   *
+   * @param acr ACR sestavený přes AcrGenerator.build
+   * @param options PDF generation options (použije se jen white-label název)
+   * @returns PDF as Buffer
+   */
+  async generateAcrPDF(
+    acr: AcrReport,
+    options: PDFGenerationOptions = {}
+  ): Promise<Buffer> {
+    console.log('[PDFGenerator] Generating ACR PDF...');
+
+    const headerTemplate = `
+      <div style="font-size: 10px; text-align: center; width: 100%; color: #666; margin-top: 10px;">
+        ${this.escapeHtml(options.whiteLabelbranding?.companyName || acr.vendor || 'A11y-Flow')} - Accessibility Conformance Report
+      </div>
+    `;
 
+    return this.renderPDF(AcrGenerator.toHtml(acr), headerTemplate, this.getFooterTemplate(undefined, options));
+  }
+
+  /**
+   * Vykreslí HTML do PDF (A4, s hlavičkou a patičkou)
+   */
+  private async renderPDF(html: string, headerTemplate: string, footerTemplate: string): Promise<Buffer> {
+    try {
       // Launch browser if not already running
       if (!this.browser) {
         await this.launchBrowser();
@@ -38,9 +72,6 @@ export class PDFGenerator {
 
       const page = await this.browser.newPage();
 
-      // Generate HTML content
-      const html = this.generateHTMLReport(reportData, options);
-
       // Set content and wait for rendering
       await page.setContent(html, {
         waitUntil: 'networkidle0',
@@ -59,8 +90,8 @@ export class PDFGenerator {
         },
         preferCSSPageSize: false,
         displayHeaderFooter: true,
-        headerTemplate: this.getHeaderTemplate(reportData, options),
-        footerTemplate: this.getFooterTemplate(reportData, options),
+        headerTemplate,
+        footerTemplate,
       });
 
       await page.close();
@@ -96,6 +127,18 @@ export class PDFGenerator {
 
     const totalViolations = reportData.stats.totalViolations;
 
+    const needsReview = reportData.needsReview || [];
+    const passedCount = (reportData.passes || []).length;
+    const inapplicableCount = (reportData.inapplicable || []).length;
+
+    const conformance = reportData.conformance;
+    const conformanceLabels: Record<string, string> = {
+      failed: '❌ Nesplněno',
+      'needs-review': '🔵 K ruční kontrole',
+      passed: '✅ Splněno',
+      'not-tested': '⚪ Netestováno',
+    };
+
     // White-label branding
     const branding = options.whiteLabelbranding || {
       companyName: 'A11y-Flow',
@@ -202,6 +245,38 @@ export class PDFGenerator {
         }
         .violation-card.critical { border-left: 4px solid #ef4444; }
         .violation-card.serious { border-left: 4px solid #f59e0b; }
+        .violation-card.review { border-left: 4px solid #3b82f6; }
+        .review-nodes {
+            list-style: none;
+            margin-top: 10px;
+            font-size: 13px;
+        }
+        .review-nodes li {
+            padding: 4px 0;
+            border-top: 1px dashed #e5e7eb;
+        }
+        .review-nodes li::before {
+            content: '☐ ';
+            color: #3b82f6;
+        }
+        .review-nodes code {
+            color: #666;
+            font-size: 12px;
+        }
+        .conformance-table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 12px;
+        }
+        .conformance-table th, .conformance-table td {
+            padding: 6px 8px;
+            border-bottom: 1px solid #e5e7eb;
+            text-align: left;
+            vertical-align: top;
+        }
+        .conformance-table th { background: #f9fafb; }
+        .conformance-table tr.failed td { background: #fef2f2; }
+        .conformance-table tr.needs-review td { background: #eff6ff; }
         .violation-card h3 {
             font-size: 18px;
             margin-bottom: 10px;
@@ -335,6 +410,69 @@ export class PDFGenerator {
         </div>
         ` : ''}
         
+        <!-- Needs Review (axe incomplete) -->
+        ${needsReview.length > 0 ? `
+        <div class="violations-section page-break">
+            <h2>🔵 K ruční kontrole (${needsReview.length})</h2>
+            <p style="color: #666; margin-bottom: 15px; font-size: 14px;">
+                Automatický test tyto prvky nedokázal vyhodnotit. Auditor je musí ověřit ručně.
+            </p>
+            ${needsReview.map(r => `
+                <div class="violation-card review">
+                    <h3>${this.escapeHtml(r.title)}</h3>
+                    <div class="description">${this.escapeHtml(r.description || '')}</div>
+                    <div><strong>Počet prvků:</strong> ${r.nodeCount}</div>
+                    ${r.nodes && r.nodes.length > 0 ? `
+                        <ul class="review-nodes">
+                            ${r.nodes.slice(0, 10).map(n => `
+                                <li>${this.escapeHtml(n.elementLabel || n.cssSelector || n.target.join(' '))}
+                                    ${n.cssSelector ? `<code>${this.escapeHtml(n.cssSelector)}</code>` : ''}</li>
+                            `).join('')}
+                        </ul>
+                        ${r.nodes.length > 10 ? `<p style="color: #666; font-style: italic;">... a dalších ${r.nodes.length - 10} prvků</p>` : ''}
+                    ` : ''}
+                </div>
+            `).join('')}
+        </div>
+        ` : ''}
+
+        ${passedCount + inapplicableCount > 0 ? `
+        <div class="violations-section">
+            <h2>✅ Prošlá pravidla</h2>
+            <p style="font-size: 14px;">
+                <strong>Prošlo:</strong> ${passedCount} pravidel &nbsp;·&nbsp;
+                <strong>Nepoužitelná (bez odpovídajících prvků):</strong> ${inapplicableCount} pravidel
+            </p>
+        </div>
+        ` : ''}
+
+        ${conformance ? `
+        <div class="violations-section page-break">
+            <h2>📋 Soulad s WCAG ${conformance.version} ${conformance.level}</h2>
+            <p style="font-size: 14px; margin-bottom: 15px;">
+                <strong>Nesplněno:</strong> ${conformance.summary.failed} &nbsp;·&nbsp;
+                <strong>K ruční kontrole:</strong> ${conformance.summary['needs-review']} &nbsp;·&nbsp;
+                <strong>Splněno:</strong> ${conformance.summary.passed} &nbsp;·&nbsp;
+                <strong>Netestováno:</strong> ${conformance.summary['not-tested']}
+            </p>
+            <table class="conformance-table">
+                <thead>
+                    <tr><th>Kritérium</th><th>Úroveň</th><th>Stav</th><th>Pravidla</th></tr>
+                </thead>
+                <tbody>
+                    ${conformance.entries.map(e => `
+                        <tr class="${e.status}">
+                            <td>${e.id} ${this.escapeHtml(e.title)}</td>
+                            <td>${e.level}</td>
+                            <td>${conformanceLabels[e.status]}</td>
+                            <td>${this.escapeHtml([...e.failedRules, ...e.reviewRules].join(', '))}</td>
+                        </tr>
+                    `).join('')}
+                </tbody>
+            </table>
+        </div>
+        ` : ''}
+
         <!-- Footer -->
         <div class="report-footer">
             <p>Tento report byl automaticky vygenerován pomocí A11y-Flow</p>
@@ -360,7 +498,7 @@ export class PDFGenerator {
   /**
    * Footer template pro PDF
    */
-  private getFooterTemplate(reportData: AuditReport, options: PDFGenerationOptions): string {
+  private getFooterTemplate(reportData: AuditReport | undefined, options: PDFGenerationOptions): string {
     return `
       <div style="font-size: 9px; text-align: center; width: 100%; color: #999; margin-bottom: 10px;">
         <span class="pageNumber"></span> / <span class="totalPages"></span>
@@ -0,0 +1,69 @@
+import { PolicyEvaluator } from './PolicyEvaluator';
+import { ImpactLevel } from './types';
+import { crawl, page, violation } from './testFixtures';
+
+// Policy počítá výskyty (count), na nodech nezáleží
+const occurrences = (id: string, impact: ImpactLevel, count: number) => violation(id, impact, [], { count });
+
+describe('PolicyEvaluator.parse', () => {
+  it('accepts known thresholds and rule ids', () => {
+    expect(PolicyEvaluator.parse({ minScore: 90, maxCritical: 0, failOnRules: ['image-alt'] })).toEqual({
+      minScore: 90,
+      maxCritical: 0,
+      failOnRules: ['image-alt'],
+    });
+  });
+
+  it.each([
+    [null, 'expected a JSON object'],
+    [[], 'expected a JSON object'],
+    [{ minScore: '90' }, '"minScore" must be a number'],
+    [{ maxSerious: NaN }, '"maxSerious" must be a number'],
+    [{ failOnRules: 'image-alt' }, '"failOnRules" must be an array'],
+    [{ failOnRules: [1] }, '"failOnRules" must be an array'],
+  ])('rejects %p', (input, message) => {
+    expect(() => PolicyEvaluator.parse(input)).toThrow(message);
+  });
+});
+
+describe('PolicyEvaluator.evaluate', () => {
+  it('passes an empty policy', () => {
+    expect(PolicyEvaluator.evaluate(page('https://example.com/', [], { score: 10 }), {})).toEqual({ passed: true, failures: [] });
+  });
+
+  it('fails on score and occurrence thresholds of a single report', () => {
+    const report = page('https://example.com/', [
+      occurrences('image-alt', 'critical', 2),
+      occurrences('label', 'serious', 3),
+    ], { score: 70 });
+
+    const result = PolicyEvaluator.evaluate(report, { minScore: 80, maxCritical: 1, maxSerious: 3 });
+
+    expect(result.passed).toBe(false);
+    expect(result.failures.map((f) => f.check)).toEqual(['min-score', 'max-critical']);
+  });
+
+  it('uses the average score and sums occurrences across crawl pages', () => {
+    const summary = crawl([
+      page('https://example.com/', [occurrences('label', 'serious', 1)], { score: 95 }),
+      page('https://example.com/about', [occurrences('label', 'serious', 1)], { score: 60 }),
+    ]);
+
+    const result = PolicyEvaluator.evaluate(summary, { minScore: 75, minPageScore: 70, maxSerious: 1 });
+
+    expect(result.failures).toEqual([
+      expect.objectContaining({ check: 'min-page-score', pageUrl: 'https://example.com/about' }),
+      expect.objectContaining({ check: 'max-serious', message: expect.stringContaining('Found 2 serious') }),
+    ]);
+  });
+
+  it('fails on any occurrence of a forbidden rule regardless of impact', () => {
+    const report = page('https://example.com/', [occurrences('a11yflow-focus-trap', 'minor', 1)], { score: 99 });
+
+    const result = PolicyEvaluator.evaluate(report, { failOnRules: ['a11yflow-focus-trap'] });
+
+    expect(result.failures).toEqual([
+      expect.objectContaining({ check: 'forbidden-rule', pageUrl: 'https://example.com/' }),
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { AuditReport, CrawlSummary, AccessibilityViolation } from './types';
+
+/**
+ * Politika pro CI gate – kdy má build selhat.
+ * Všechny prahy jsou volitelné; prázdná politika vždy projde.
+ */
+export interface A11yPolicy {
+  // Minimální skóre (u crawlu se porovnává průměrné skóre)
+  minScore?: number;
+  // Minimální skóre každé jednotlivé stránky (jen crawl)
+  minPageScore?: number;
+  // Maximální počet výskytů (nodů) dané závažnosti napříč všemi stránkami
+  maxCritical?: number;
+  maxSerious?: number;
+  // ID pravidel (axe i a11yflow-*), jejichž jakýkoli výskyt shodí build
+  failOnRules?: string[];
+}
+
+export type PolicyCheck = 'min-score' | 'min-page-score' | 'max-critical' | 'max-serious' | 'forbidden-rule';
+
+export interface PolicyFailure {
+  check: PolicyCheck;
+  message: string;
+  pageUrl?: string;
+}
+
+export interface PolicyResult {
+  passed: boolean;
+  failures: PolicyFailure[];
+}
+
+export class PolicyEvaluator {
+
+  public static parse(input: unknown): A11yPolicy {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+      throw new Error('Invalid policy: expected a JSON object');
+    }
+
+    const raw = input as Record<string, unknown>;
+    const policy: A11yPolicy = {};
+
+    for (const key of ['minScore', 'minPageScore', 'maxCritical', 'maxSerious'] as const) {
+      if (raw[key] === undefined) continue;
+      if (typeof raw[key] !== 'number' || Number.isNaN(raw[key])) {
+        throw new Error(`Invalid policy: "${key}" must be a number`);
+      }
+      policy[key] = raw[key] as number;
+    }
+
+    if (raw.failOnRules !== undefined) {
+      if (!Array.isArray(raw.failOnRules) || raw.failOnRules.some((r) => typeof r !== 'string')) {
+        throw new Error('Invalid policy: "failOnRules" must be an array of rule ids');
+      }
+      policy.failOnRules = raw.failOnRules as string[];
+    }
+
+    return policy;
+  }
+
+  public static evaluate(report: AuditReport | CrawlSummary, policy: A11yPolicy): PolicyResult {
+    const isCrawl = Array.isArray((report as CrawlSummary).pages);
+    const pages = isCrawl ? (report as CrawlSummary).pages : [report as AuditReport];
+    const score = isCrawl ? (report as CrawlSummary).averageScore : (report as AuditReport).score;
+    const failures: PolicyFailure[] = [];
+
+    if (policy.minScore !== undefined && score < policy.minScore) {
+      failures.push({
+        check: 'min-score',
+        message: `Score ${score} is below the required minimum of ${policy.minScore}.`,
+      });
+    }
+
+    if (policy.minPageScore !== undefined) {
+      for (const page of pages) {
+        if (page.score < policy.minPageScore) {
+          failures.push({
+            check: 'min-page-score',
+            message: `Page score ${page.score} is below the required minimum of ${policy.minPageScore}.`,
+            pageUrl: page.url,
+          });
+        }
+      }
+    }
+
+    const criticalCount = this.countOccurrences(pages, (p) => p.violations.critical);
+    if (policy.maxCritical !== undefined && criticalCount > policy.maxCritical) {
+      failures.push({
+        check: 'max-critical',
+        message: `Found ${criticalCount} critical issue(s), maximum allowed is ${policy.maxCritical}.`,
+      });
+    }
+
+    const seriousCount = this.countOccurrences(pages, (p) => p.violations.serious);
+    if (policy.maxSerious !== undefined && seriousCount > policy.maxSerious) {
+      failures.push({
+        check: 'max-serious',
+        message: `Found ${seriousCount} serious issue(s), maximum allowed is ${policy.maxSerious}.`,
+      });
+    }
+
+    if (policy.failOnRules && policy.failOnRules.length > 0) {
+      const forbidden = new Set(policy.failOnRules);
+      for (const page of pages) {
+        for (const violation of this.allViolations(page)) {
+          if (forbidden.has(violation.id)) {
+            failures.push({
+              check: 'forbidden-rule',
+              message: `Rule "${violation.id}" failed ${violation.count}x (${violation.title}).`,
+              pageUrl: page.url,
+            });
+          }
+        }
+      }
+    }
+
+    return {
+      passed: failures.length === 0,
+      failures,
+    };
+  }
+
+  private static allViolations(page: AuditReport): AccessibilityViolation[] {
+    return [
+      ...page.violations.critical,
+      ...page.violations.serious,
+      ...page.violations.moderate,
+      ...page.violations.minor,
+    ];
+  }
+
+  private static countOccurrences(
+    pages: AuditReport[],
+    pick: (page: AuditReport) => AccessibilityViolation[],
+  ): number {
+    return pages.reduce((acc, page) => acc + pick(page).reduce((sum, v) => sum + v.count, 0), 0);
+  }
+}
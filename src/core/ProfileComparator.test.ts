@@ -0,0 +1,89 @@
+import { ProfileComparator } from './ProfileComparator';
+import { AccessibilityViolation, ProfileScanResult } from './types';
+import { PAGE_URL, page, violation } from './testFixtures';
+
+function profile(device: string, score: number, violations: AccessibilityViolation[]): ProfileScanResult {
+  return { device, status: 'completed', durationMs: 1000, score, report: page(PAGE_URL, violations, { score }) };
+}
+
+const failed: ProfileScanResult = {
+  device: 'tablet',
+  status: 'failed',
+  durationMs: 30000,
+  error: 'Navigation timeout of 30000 ms exceeded',
+};
+
+describe('ProfileComparator', () => {
+  const desktop = profile('desktop', 90, [
+    violation('color-contrast', 'serious', ['footer-link', 'nav-link']),
+    violation('image-alt', 'critical', ['logo']),
+  ]);
+  const mobile = profile('mobile', 70, [
+    violation('color-contrast', 'serious', ['footer-link', 'nav-link']),
+    violation('image-alt', 'critical', ['logo']),
+    violation('button-name', 'critical', ['hamburger']),
+  ]);
+
+  it('pairs occurrences across profiles by rule and fingerprint', () => {
+    const matrix = ProfileComparator.compare(PAGE_URL, [desktop, mobile]);
+
+    const byKey = new Map(matrix.violations.map((v) => [`${v.ruleId}::${v.fingerprint}`, v]));
+    expect(matrix.violations).toHaveLength(4);
+    expect(byKey.get('color-contrast::nav-link')).toMatchObject({ devices: ['desktop', 'mobile'], profileSpecific: false });
+    expect(byKey.get('image-alt::logo')).toMatchObject({ devices: ['desktop', 'mobile'], profileSpecific: false });
+    expect(matrix.counts).toEqual({ common: 3, profileSpecific: 1 });
+  });
+
+  it('lists profile-specific occurrences and rules first', () => {
+    const matrix = ProfileComparator.compare(PAGE_URL, [desktop, mobile]);
+
+    expect(matrix.violations[0]).toMatchObject({
+      ruleId: 'button-name',
+      fingerprint: 'hamburger',
+      cssSelector: '#hamburger',
+      devices: ['mobile'],
+      profileSpecific: true,
+    });
+    expect(matrix.rules[0]).toMatchObject({
+      ruleId: 'button-name',
+      countsByDevice: { desktop: 0, mobile: 1 },
+      profileSpecific: true,
+    });
+    expect(matrix.rules.find((r) => r.ruleId === 'color-contrast')).toMatchObject({
+      countsByDevice: { desktop: 2, mobile: 2 },
+      profileSpecific: false,
+    });
+  });
+
+  it('ignores failed profiles when pairing and scoring, but keeps them in the matrix', () => {
+    const matrix = ProfileComparator.compare(PAGE_URL, [desktop, failed, mobile]);
+
+    expect(matrix.devices).toEqual(['desktop', 'tablet', 'mobile']);
+    expect(matrix.profiles[1]).toBe(failed);
+    // Chybějící tablet z výskytu nedělá "profileSpecific"
+    expect(matrix.counts).toEqual({ common: 3, profileSpecific: 1 });
+    expect(matrix.rules[0].countsByDevice).toEqual({ desktop: 0, mobile: 1 });
+    expect(matrix.averageScore).toBe(80);
+    expect(matrix.worstDevice).toBe('mobile');
+  });
+
+  it('pairs findings without elements as one occurrence per page', () => {
+    const matrix = ProfileComparator.compare(PAGE_URL, [
+      profile('desktop', 90, [violation('region', 'moderate')]),
+      profile('mobile', 90, [violation('region', 'moderate'), violation('html-has-lang', 'serious')]),
+    ]);
+
+    expect(matrix.violations).toEqual([
+      expect.objectContaining({ ruleId: 'html-has-lang', fingerprint: '/::::', devices: ['mobile'], profileSpecific: true }),
+      expect.objectContaining({ ruleId: 'region', fingerprint: '/::::', devices: ['desktop', 'mobile'], profileSpecific: false }),
+    ]);
+    expect(matrix.rules[0]).toMatchObject({ ruleId: 'html-has-lang', countsByDevice: { desktop: 0, mobile: 1 } });
+  });
+
+  it('has no score or worst device when every profile failed', () => {
+    const matrix = ProfileComparator.compare(PAGE_URL, [failed]);
+
+    expect(matrix).toMatchObject({ averageScore: 0, worstDevice: undefined, violations: [], rules: [] });
+    expect(matrix.counts).toEqual({ common: 0, profileSpecific: 0 });
+  });
+});
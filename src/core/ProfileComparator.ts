@@ -0,0 +1,102 @@
+import {
+  AuditReport,
+  ProfileMatrixReport,
+  ProfileRuleComparison,
+  ProfileScanResult,
+  ProfileViolationEntry,
+} from './types';
+import { ViolationMapper } from './ViolationMapper';
+
+/**
+ * Porovná sken jedné URL na více profilech (desktop, mobile, low-vision …).
+ *
+ * Výskyty párujeme stejně jako ReportDiffer – přes ViolationMapper.occurrencesOf.
+ * Výskyt, který chybí aspoň na jednom úspěšném profilu, je "profileSpecific"
+ * (typicky hamburger menu bez názvu, které existuje jen na mobilu).
+ */
+export class ProfileComparator {
+
+  public static compare(url: string, profiles: ProfileScanResult[]): ProfileMatrixReport {
+    const completed = profiles.filter((p): p is ProfileScanResult & { report: AuditReport } =>
+      p.status === 'completed' && !!p.report,
+    );
+    const completedDevices = completed.map((p) => p.device);
+
+    const violations = new Map<string, ProfileViolationEntry>();
+    const rules = new Map<string, ProfileRuleComparison>();
+
+    for (const profile of completed) {
+      for (const { key, violation, fingerprint, node } of ViolationMapper.occurrencesOf(profile.report)) {
+        let rule = rules.get(violation.id);
+        if (!rule) {
+          rule = {
+            ruleId: violation.id,
+            title: violation.title,
+            impact: violation.impact,
+            countsByDevice: Object.fromEntries(completedDevices.map((d) => [d, 0])),
+            profileSpecific: false,
+          };
+          rules.set(violation.id, rule);
+        }
+        rule.countsByDevice[profile.device] += 1;
+
+        const entry = violations.get(key);
+        if (entry) {
+          if (!entry.devices.includes(profile.device)) entry.devices.push(profile.device);
+          continue;
+        }
+
+        violations.set(key, {
+          ruleId: violation.id,
+          title: violation.title,
+          impact: node?.impact || violation.impact,
+          fingerprint,
+          cssSelector: node?.cssSelector,
+          elementLabel: node?.elementLabel,
+          html: node?.html,
+          devices: [profile.device],
+          profileSpecific: false,
+        });
+      }
+    }
+
+    const entries = Array.from(violations.values());
+    for (const entry of entries) {
+      entry.profileSpecific = entry.devices.length < completedDevices.length;
+    }
+
+    for (const rule of rules.values()) {
+      const counts = Object.values(rule.countsByDevice);
+      rule.profileSpecific = counts.some((c) => c !== counts[0]);
+    }
+
+    // Nejdřív výskyty specifické pro profil – to je hlavní informace porovnání
+    entries.sort(
+      (a, b) =>
+        Number(b.profileSpecific) - Number(a.profileSpecific) ||
+        ViolationMapper.getScorePenalty(b.impact) - ViolationMapper.getScorePenalty(a.impact),
+    );
+
+    const scores = completed.map((p) => p.report.score);
+    const worst = completed.reduce<(typeof completed)[number] | undefined>(
+      (acc, p) => (!acc || p.report.score < acc.report.score ? p : acc),
+      undefined,
+    );
+    const profileSpecificCount = entries.filter((e) => e.profileSpecific).length;
+
+    return {
+      url,
+      timestamp: new Date().toISOString(),
+      devices: profiles.map((p) => p.device),
+      averageScore: scores.length > 0 ? Math.round(scores.reduce((acc, s) => acc + s, 0) / scores.length) : 0,
+      worstDevice: worst?.device,
+      profiles,
+      violations: entries,
+      rules: Array.from(rules.values()).sort((a, b) => Number(b.profileSpecific) - Number(a.profileSpecific)),
+      counts: {
+        common: entries.length - profileSpecificCount,
+        profileSpecific: profileSpecificCount,
+      },
+    };
+  }
+}
@@ -91,6 +91,36 @@ export class RemediationService {
       what: 'Click target (button, link, icon) is too small or has insufficient "hit area" for comfortable control.',
       fix: 'Increase the size of clickable elements to at least the recommended 24x24 CSS pixels or expand the clickable area so it can be easily activated even on touch screens.',
       wcag: '2.5.8 Target Size (Minimum)'
+    },
+    'a11yflow-text-spacing': {
+      category: 'Content',
+      what: 'Text is clipped or overlaps other content when users increase line height, letter, word or paragraph spacing.',
+      fix: 'Let text containers grow with their content: avoid fixed heights (use min-height), do not combine fixed sizes with overflow: hidden, and size boxes in em/rem so they adapt to line-height 1.5, letter-spacing 0.12em, word-spacing 0.16em and 2em paragraph spacing.',
+      wcag: '1.4.12 Text Spacing'
+    },
+    'a11yflow-background-contrast': {
+      category: 'Graphics',
+      what: 'Text placed over an image, gradient or decorative pseudo-element does not have enough contrast with the pixels behind it.',
+      fix: 'Put a solid or semi-transparent backing behind the text (e.g. background: rgba(0, 0, 0, 0.6)), darken or lighten the image under the text, or change the text colour so that every part of the background meets 4.5:1 (3:1 for large text).',
+      wcag: '1.4.3 Contrast (Minimum)'
+    },
+    'a11yflow-label-in-name': {
+      category: 'Forms',
+      what: 'The accessible name of a control does not contain its visible text, so speech-input users cannot activate it by saying what they see.',
+      fix: 'Make the aria-label or aria-labelledby text start with the visible label (e.g. visible "Search", aria-label "Search articles"), or remove the aria-label if it adds nothing.',
+      wcag: '2.5.3 Label in Name'
+    },
+    'a11yflow-duplicate-icon-names': {
+      category: 'Navigation',
+      what: 'Several icon-only buttons or links share the same accessible name although they do different things.',
+      fix: 'Include the target of the action in the name, e.g. aria-label="Delete invoice 2024-01" instead of "Delete".',
+      wcag: '2.4.6 Headings and Labels'
+    },
+    'a11yflow-status-messages': {
+      category: 'Technical',
+      what: 'A status message (toast, confirmation, result count or error) appears on screen but is not announced by screen readers.',
+      fix: 'Render an empty live region (role="status", or role="alert" for errors) when the page loads and write messages into it. Do not insert the region together with its text and do not hide it with display: none or aria-hidden.',
+      wcag: '4.1.3 Status Messages'
     }
   };
 
@@ -178,6 +208,36 @@ export class RemediationService {
     };
   }
 
+  /**
+   * Fill the rule's snippet "template" with measured values
+   * (e.g. colours and ratio for color-contrast). Unknown placeholders are kept as they are.
+   *
+   * @param before Values describing the current (failing) state
+   * @param after Values for the suggested fix; without them the template's static "after" is used
+   */
+  public static getFilledSnippet(
+    ruleId: string,
+    before: Record<string, string>,
+    after?: Record<string, string>
+  ): CodeSnippet | undefined {
+    const snippetTemplate = (snippetsData as Record<string, any>)[ruleId];
+    if (!snippetTemplate || typeof snippetTemplate.template !== 'string') {
+      return undefined;
+    }
+
+    const fill = (values: Record<string, string>): string =>
+      snippetTemplate.template.replace(/\{(\w+)\}/g, (placeholder: string, key: string) =>
+        values[key] !== undefined ? values[key] : placeholder
+      );
+
+    return {
+      before: fill(before),
+      after: after ? fill(after) : snippetTemplate.after,
+      language: 'css',
+      explanation: snippetTemplate.explanation,
+    };
+  }
+
   /**
    * Extract relevant HTML from violation node
    * Cleans up and formats HTML for display
@@ -0,0 +1,161 @@
+import { ReportDiffer } from './ReportDiffer';
+import { AccessibilityViolation } from './types';
+import { crawl, page, violation } from './testFixtures';
+
+describe('ReportDiffer', () => {
+  it('classifies occurrences as new, fixed and persisting by rule and fingerprint', () => {
+    const baseline = page('https://example.com/', [
+      violation('image-alt', 'critical', ['logo', 'hero']),
+      violation('label', 'serious', ['email']),
+    ], { score: 80 });
+    const current = page('https://example.com/', [
+      violation('image-alt', 'critical', ['logo']),
+      violation('color-contrast', 'serious', ['footer']),
+    ], { score: 87 });
+
+    const diff = ReportDiffer.diff(baseline, current);
+
+    expect(diff.counts).toEqual({ new: 1, fixed: 2, persisting: 1 });
+    expect(diff.scoreDelta).toBe(7);
+
+    const statuses = diff.pages[0].nodes.map((n) => `${n.status}:${n.ruleId}:${n.fingerprint}`).sort();
+    expect(statuses).toEqual([
+      'fixed:image-alt:hero',
+      'fixed:label:email',
+      'new:color-contrast:footer',
+      'persisting:image-alt:logo',
+    ]);
+  });
+
+  it('counts persisting occurrences once per rule and sorts rules by score impact', () => {
+    const baseline = page('https://example.com/', [violation('image-alt', 'critical', ['logo'])]);
+    const current = page('https://example.com/', [
+      violation('image-alt', 'critical', ['logo']),
+      violation('color-contrast', 'serious', ['footer']),
+    ], { score: 87 });
+
+    const diff = ReportDiffer.diff(baseline, current);
+    const imageAlt = diff.rules.find((r) => r.ruleId === 'image-alt')!;
+
+    expect(imageAlt.counts).toEqual({ new: 0, fixed: 0, persisting: 1 });
+    expect(imageAlt.baselineCount).toBe(1);
+    expect(imageAlt.currentCount).toBe(1);
+    expect(imageAlt.scoreDelta).toBe(0);
+    // Regrese (záporný scoreDelta) jdou první
+    expect(diff.rules[0]).toMatchObject({ ruleId: 'color-contrast', scoreDelta: -3 });
+  });
+
+  it('keeps repeated nodes with the same fingerprint apart', () => {
+    const baseline = page('https://example.com/', [violation('svg-img-alt', 'serious', ['icon', 'icon'])]);
+    const current = page('https://example.com/', [violation('svg-img-alt', 'serious', ['icon'])], { score: 93 });
+
+    const diff = ReportDiffer.diff(baseline, current);
+
+    expect(diff.counts).toEqual({ new: 0, fixed: 1, persisting: 1 });
+  });
+
+  it('computes a fingerprint for custom test nodes that have none', () => {
+    const custom = (): AccessibilityViolation =>
+      violation('a11yflow-focus-trap', 'serious', [
+        { html: '<div></div>', target: ['div.modal'], failureSummary: 'Focus trap', elementLabel: 'Modal' },
+      ]);
+
+    const diff = ReportDiffer.diff(
+      page('https://example.com/', [custom()]),
+      page('https://example.com/', [custom()]),
+    );
+
+    expect(diff.counts).toEqual({ new: 0, fixed: 0, persisting: 1 });
+    expect(diff.pages[0].nodes[0].fingerprint).toBeTruthy();
+  });
+
+  it('matches crawl pages by normalized URL and reports added and removed pages', () => {
+    const baseline = crawl([
+      page('https://example.com/', [violation('label', 'serious', ['email'])], { timestamp: '2026-01-02T00:00:00.000Z' }),
+      page('https://example.com/old', [violation('image-alt', 'critical', ['banner'])], { score: 70 }),
+    ]);
+    const current = crawl([
+      page('https://EXAMPLE.com/#top', [violation('label', 'serious', ['email'])]),
+      page('https://example.com/new', [], { score: 100 }),
+    ]);
+
+    const diff = ReportDiffer.diff(baseline, current);
+    const byUrl = new Map(diff.pages.map((p) => [p.url, p]));
+
+    expect(diff.baselineTimestamp).toBe('2026-01-01T00:00:00.000Z');
+    expect(diff.scoreDelta).toBe(15);
+    expect(byUrl.get('https://EXAMPLE.com/#top')).toMatchObject({ presence: 'both', scoreDelta: 0 });
+    expect(byUrl.get('https://example.com/old')).toMatchObject({
+      presence: 'removed',
+      currentScore: null,
+      scoreDelta: null,
+      counts: { new: 0, fixed: 1, persisting: 0 },
+    });
+    expect(byUrl.get('https://example.com/new')).toMatchObject({ presence: 'added', baselineScore: null });
+  });
+
+  it('treats URL paths as case-sensitive while ignoring the case of scheme and host', () => {
+    const baseline = crawl([page('HTTPS://Example.com/Docs/'), page('https://example.com/docs')]);
+    const current = crawl([page('https://example.com/Docs'), page('https://example.com/docs#intro')]);
+
+    const diff = ReportDiffer.diff(baseline, current);
+
+    expect(diff.pages.map((p) => [p.url, p.presence])).toEqual([
+      ['https://example.com/Docs', 'both'],
+      ['https://example.com/docs#intro', 'both'],
+    ]);
+  });
+
+  it('pairs violations without nodes by rule and page', () => {
+    const landmarks = violation('a11yflow-landmarks', 'moderate');
+    const lang = violation('html-has-lang', 'serious');
+
+    const diff = ReportDiffer.diff(
+      crawl([page('https://example.com/', [landmarks, lang]), page('https://example.com/about', [landmarks])]),
+      crawl([page('https://example.com/', [landmarks]), page('https://example.com/about', [lang])]),
+    );
+
+    expect(diff.counts).toEqual({ new: 1, fixed: 2, persisting: 1 });
+    expect(diff.pages.map((p) => p.nodes.map((n) => `${n.status}:${n.ruleId}:${n.fingerprint}`))).toEqual([
+      ['persisting:a11yflow-landmarks:/::::', 'fixed:html-has-lang:/::::'],
+      ['new:html-has-lang:/about::::', 'fixed:a11yflow-landmarks:/about::::'],
+    ]);
+    expect(diff.pages[0].nodes[0]).toEqual({
+      status: 'persisting',
+      ruleId: 'a11yflow-landmarks',
+      impact: 'moderate',
+      fingerprint: '/::::',
+      cssSelector: undefined,
+      elementLabel: undefined,
+      html: undefined,
+    });
+  });
+
+  describe('parseReport', () => {
+    it('accepts a page report and a crawl summary', () => {
+      const report = page();
+      const summary = crawl([report]);
+
+      expect(ReportDiffer.parseReport(report, 'baseline')).toBe(report);
+      expect(ReportDiffer.parseReport(summary, 'current')).toBe(summary);
+    });
+
+    it.each([
+      [undefined, 'Missing "baseline" report for diff mode'],
+      [[], 'Missing "baseline" report for diff mode'],
+      [{}, 'Invalid "baseline": report is missing "url"'],
+      [{ url: 'https://example.com/' }, 'Invalid "baseline": report is missing "violations"'],
+      [{ url: 'https://example.com/', violations: { critical: [], serious: [] } }, 'Invalid "baseline": report "violations.moderate" must be an array'],
+      [{ pages: [] }, 'Invalid "baseline": "pages" must be a non-empty array of page reports'],
+      [{ pages: [{ url: 'https://example.com/' }] }, 'Invalid "baseline": pages[0] is missing "violations"'],
+    ])('rejects %j', (raw, message) => {
+      expect(() => ReportDiffer.parseReport(raw, 'baseline')).toThrow(message);
+    });
+
+    it('names the field in the error', () => {
+      expect(() => ReportDiffer.parseReport({ url: 'https://example.com/' }, 'current')).toThrow(
+        'Invalid "current": report is missing "violations"',
+      );
+    });
+  });
+});
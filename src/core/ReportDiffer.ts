@@ -0,0 +1,230 @@
+import {
+  AuditReport,
+  CrawlSummary,
+  DiffCounts,
+  DiffNodeEntry,
+  ImpactLevel,
+  PageDiff,
+  ReportDiff,
+  RuleDiff,
+  ViolationNode,
+} from './types';
+import { ViolationMapper } from './ViolationMapper';
+
+interface IndexedNode {
+  ruleId: string;
+  title: string;
+  impact: ImpactLevel | null;
+  fingerprint: string;
+  // Chybí u nálezu bez prvků (chybějící landmark, jazyk stránky)
+  node?: ViolationNode;
+}
+
+/**
+ * Porovná dva běhy (AuditReport nebo CrawlSummary) a každý výskyt chyby
+ * zařadí jako new / fixed / persisting.
+ *
+ * Výskyty párujeme přes `ruleId + fingerprint` z ViolationMapper.occurrencesOf.
+ */
+export class ReportDiffer {
+
+  /**
+   * Ověří tvar reportu z requestu (baseline, případně dodaný current) dřív, než se kvůli diffu spustí sken.
+   * Stačí AuditReport s `url` a `violations`, nebo CrawlSummary s polem takových stránek.
+   */
+  public static parseReport(raw: unknown, field: 'baseline' | 'current'): AuditReport | CrawlSummary {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new Error(`Missing "${field}" report for diff mode`);
+    }
+
+    const report = raw as Partial<CrawlSummary> & Partial<AuditReport>;
+    if (report.pages !== undefined) {
+      if (!Array.isArray(report.pages) || report.pages.length === 0) {
+        throw new Error(`Invalid "${field}": "pages" must be a non-empty array of page reports`);
+      }
+      report.pages.forEach((p, index) => this.assertPage(p, field, `pages[${index}]`));
+      return raw as CrawlSummary;
+    }
+
+    this.assertPage(raw, field, 'report');
+    return raw as AuditReport;
+  }
+
+  public static diff(
+    baseline: AuditReport | CrawlSummary,
+    current: AuditReport | CrawlSummary,
+  ): ReportDiff {
+    const baselinePages = this.toPages(baseline);
+    const currentPages = this.toPages(current);
+
+    const baselineByUrl = new Map(baselinePages.map((p) => [ViolationMapper.normalizePageUrl(p.url), p]));
+    const currentByUrl = new Map(currentPages.map((p) => [ViolationMapper.normalizePageUrl(p.url), p]));
+    const allUrls = Array.from(new Set([...baselineByUrl.keys(), ...currentByUrl.keys()]));
+
+    const pages: PageDiff[] = [];
+    const rules = new Map<string, RuleDiff>();
+
+    for (const url of allUrls) {
+      const before = baselineByUrl.get(url);
+      const after = currentByUrl.get(url);
+
+      const beforeNodes = before ? this.indexNodes(before) : new Map<string, IndexedNode>();
+      const afterNodes = after ? this.indexNodes(after) : new Map<string, IndexedNode>();
+
+      const entries: DiffNodeEntry[] = [];
+
+      for (const [key, item] of afterNodes) {
+        const status = beforeNodes.has(key) ? 'persisting' : 'new';
+        entries.push(this.toEntry(item, status));
+        this.trackRule(rules, item, status, 'current');
+      }
+
+      for (const [key, item] of beforeNodes) {
+        if (afterNodes.has(key)) {
+          this.trackRule(rules, item, 'persisting', 'baseline');
+          continue;
+        }
+        entries.push(this.toEntry(item, 'fixed'));
+        this.trackRule(rules, item, 'fixed', 'baseline');
+      }
+
+      const baselineScore = before ? before.score : null;
+      const currentScore = after ? after.score : null;
+
+      pages.push({
+        url: (after || before)!.url,
+        presence: before && after ? 'both' : after ? 'added' : 'removed',
+        baselineScore,
+        currentScore,
+        scoreDelta: baselineScore !== null && currentScore !== null ? currentScore - baselineScore : null,
+        counts: this.countEntries(entries),
+        nodes: entries,
+      });
+    }
+
+    const baselineScore = this.overallScore(baseline);
+    const currentScore = this.overallScore(current);
+
+    return {
+      baselineTimestamp: this.timestampOf(baseline),
+      currentTimestamp: this.timestampOf(current),
+      baselineScore,
+      currentScore,
+      scoreDelta: currentScore - baselineScore,
+      counts: pages.reduce<DiffCounts>(
+        (acc, p) => ({
+          new: acc.new + p.counts.new,
+          fixed: acc.fixed + p.counts.fixed,
+          persisting: acc.persisting + p.counts.persisting,
+        }),
+        { new: 0, fixed: 0, persisting: 0 },
+      ),
+      pages,
+      rules: Array.from(rules.values()).sort((a, b) => a.scoreDelta - b.scoreDelta),
+    };
+  }
+
+  private static isCrawlSummary(report: AuditReport | CrawlSummary): report is CrawlSummary {
+    return Array.isArray((report as CrawlSummary).pages);
+  }
+
+  private static toPages(report: AuditReport | CrawlSummary): AuditReport[] {
+    return this.isCrawlSummary(report) ? report.pages : [report];
+  }
+
+  private static overallScore(report: AuditReport | CrawlSummary): number {
+    return this.isCrawlSummary(report) ? report.averageScore : report.score;
+  }
+
+  private static timestampOf(report: AuditReport | CrawlSummary): string {
+    if (!this.isCrawlSummary(report)) return report.timestamp;
+    // CrawlSummary nemá vlastní timestamp – vezmeme nejstarší stránku
+    const stamps = report.pages.map((p) => p.timestamp).filter(Boolean).sort();
+    return stamps[0] || '';
+  }
+
+  private static assertPage(raw: unknown, field: string, path: string): void {
+    const page = raw as Partial<AuditReport> | null;
+    if (!page || typeof page !== 'object' || typeof page.url !== 'string' || !page.url) {
+      throw new Error(`Invalid "${field}": ${path} is missing "url"`);
+    }
+    const violations = page.violations as Partial<AuditReport['violations']> | undefined;
+    if (!violations || typeof violations !== 'object') {
+      throw new Error(`Invalid "${field}": ${path} is missing "violations"`);
+    }
+    const impact = (['critical', 'serious', 'moderate', 'minor'] as const).find((i) => !Array.isArray(violations[i]));
+    if (impact) {
+      throw new Error(`Invalid "${field}": ${path} "violations.${impact}" must be an array`);
+    }
+  }
+
+  private static indexNodes(report: AuditReport): Map<string, IndexedNode> {
+    const index = new Map<string, IndexedNode>();
+    for (const { key, violation, fingerprint, node } of ViolationMapper.occurrencesOf(report)) {
+      index.set(key, {
+        ruleId: violation.id,
+        title: violation.title,
+        impact: node?.impact || violation.impact,
+        fingerprint,
+        node,
+      });
+    }
+    return index;
+  }
+
+  private static toEntry(item: IndexedNode, status: DiffNodeEntry['status']): DiffNodeEntry {
+    return {
+      status,
+      ruleId: item.ruleId,
+      impact: item.impact,
+      fingerprint: item.fingerprint,
+      cssSelector: item.node?.cssSelector,
+      elementLabel: item.node?.elementLabel,
+      html: item.node?.html,
+    };
+  }
+
+  private static trackRule(
+    rules: Map<string, RuleDiff>,
+    item: IndexedNode,
+    status: DiffNodeEntry['status'],
+    side: 'baseline' | 'current',
+  ): void {
+    let rule = rules.get(item.ruleId);
+    if (!rule) {
+      rule = {
+        ruleId: item.ruleId,
+        title: item.title,
+        impact: item.impact,
+        baselineCount: 0,
+        currentCount: 0,
+        counts: { new: 0, fixed: 0, persisting: 0 },
+        scoreDelta: 0,
+      };
+      rules.set(item.ruleId, rule);
+    }
+
+    const penalty = ViolationMapper.getScorePenalty(item.impact);
+
+    if (side === 'baseline') {
+      rule.baselineCount++;
+      rule.scoreDelta += penalty;
+    } else {
+      rule.currentCount++;
+      rule.scoreDelta -= penalty;
+    }
+
+    // Persisting nody procházíme z obou stran, počítáme je jen jednou
+    if (status !== 'persisting' || side === 'current') {
+      rule.counts[status]++;
+    }
+  }
+
+  private static countEntries(entries: DiffNodeEntry[]): DiffCounts {
+    return {
+      new: entries.filter((e) => e.status === 'new').length,
+      fixed: entries.filter((e) => e.status === 'fixed').length,
+      persisting: entries.filter((e) => e.status === 'persisting').length,
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { SarifExporter } from './SarifExporter';
+import { crawl, node, page, violation } from './testFixtures';
+
+describe('SarifExporter', () => {
+  it('emits one reporting descriptor per rule and one result per node', () => {
+    const log = SarifExporter.export(page('https://example.com/', [
+      violation('image-alt', 'critical', ['logo', 'hero'], { helpUrl: 'https://dequeuniversity.com/rules/axe/4.11/image-alt' }),
+      violation('region', 'moderate', ['banner']),
+    ]));
+
+    expect(log.version).toBe('2.1.0');
+    const run = log.runs[0];
+    expect(run.tool.driver.rules.map((r) => r.id)).toEqual(['image-alt', 'region']);
+    expect(run.tool.driver.rules[0]).toMatchObject({
+      defaultConfiguration: { level: 'error' },
+      helpUri: 'https://dequeuniversity.com/rules/axe/4.11/image-alt',
+      properties: { tags: ['accessibility', 'wcag1.1.1'], wcag: '1.1.1 Non-text Content' },
+    });
+    expect(run.results.map((r) => [r.ruleId, r.ruleIndex, r.level])).toEqual([
+      ['image-alt', 0, 'error'],
+      ['image-alt', 0, 'error'],
+      ['region', 1, 'warning'],
+    ]);
+  });
+
+  it('locates a result by page URL and selector without a line-based region', () => {
+    const [result] = SarifExporter.export(page('https://example.com/', [
+      violation('image-alt', 'critical', [node('logo', { elementLabel: 'Logo' })]),
+    ])).runs[0].results;
+
+    expect(result.locations).toEqual([
+      {
+        physicalLocation: { artifactLocation: { uri: 'https://example.com/' } },
+        logicalLocations: [{ fullyQualifiedName: '#logo', kind: 'element' }],
+      },
+    ]);
+    expect(result.properties).toMatchObject({
+      selector: '#logo',
+      elementLabel: 'Logo',
+      html: '<div data-fp="logo"></div>',
+    });
+    expect(result.message.text).toBe('Fix it');
+    expect(result.partialFingerprints).toEqual({ 'a11yFlowElement/v1': 'logo' });
+  });
+
+  it('builds a fingerprint for custom test nodes and takes WCAG from their action item', () => {
+    const report = page('https://example.com/', [
+      violation('a11yflow-focus-trap', 'serious', [{ html: '<div class="modal"></div>', target: ['div.modal'], failureSummary: '' }], {
+        description: 'Focus cannot leave the dialog',
+      }),
+    ]);
+    report.humanReadable.actionItems.push({
+      id: 'a11yflow-focus-trap',
+      impact: 'serious',
+      priority: '🟠 Serious',
+      category: 'Navigation',
+      what: 'Focus trap',
+      fix: 'Let Escape close the dialog',
+      exampleUrl: 'https://example.com/',
+      wcagReference: '2.1.2 No Keyboard Trap',
+    });
+
+    const log = SarifExporter.export(report);
+
+    expect(log.runs[0].tool.driver.rules[0].properties.tags).toContain('wcag2.1.2');
+    expect(log.runs[0].results[0].partialFingerprints?.['a11yFlowElement/v1']).toBeTruthy();
+    expect(log.runs[0].results[0].message.text).toBe('Focus cannot leave the dialog');
+  });
+
+  it('emits one page-level result for a violation without nodes', () => {
+    const log = SarifExporter.export(page('https://example.com/checkout', [
+      violation('a11yflow-landmarks', 'moderate', [], { description: 'Page has no main landmark' }),
+    ]));
+
+    expect(log.runs[0].tool.driver.rules.map((r) => r.id)).toEqual(['a11yflow-landmarks']);
+    expect(log.runs[0].results).toEqual([
+      {
+        ruleId: 'a11yflow-landmarks',
+        ruleIndex: 0,
+        level: 'warning',
+        message: { text: 'Page has no main landmark' },
+        locations: [{ physicalLocation: { artifactLocation: { uri: 'https://example.com/checkout' } } }],
+        partialFingerprints: { 'a11yFlowElement/v1': '/checkout::::' },
+        properties: { impact: 'moderate' },
+      },
+    ]);
+  });
+
+  it('shares rule descriptors across crawl pages', () => {
+    const summary = crawl([
+      page('https://example.com/', [violation('image-alt', 'critical', ['a'])]),
+      page('https://example.com/about', [violation('image-alt', 'critical', ['b'])]),
+    ]);
+
+    const run = SarifExporter.export(summary).runs[0];
+
+    expect(run.tool.driver.rules).toHaveLength(1);
+    expect(run.results.map((r) => r.locations[0].physicalLocation.artifactLocation.uri)).toEqual([
+      'https://example.com/',
+      'https://example.com/about',
+    ]);
+  });
+});
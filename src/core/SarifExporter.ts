@@ -0,0 +1,228 @@
+import { AuditReport, CrawlSummary, AccessibilityViolation, ImpactLevel, ViolationNode } from './types';
+import { RemediationService } from './RemediationService';
+import { ActMapper } from './ActMapper';
+import { ViolationMapper } from './ViolationMapper';
+
+/**
+ * Minimální podmnožina SARIF 2.1.0, kterou reálně plníme.
+ * Plné schéma: https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+export interface SarifReportingDescriptor {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription?: { text: string };
+  help?: { text: string };
+  helpUri?: string;
+  defaultConfiguration: { level: SarifLevel };
+  properties: {
+    tags: string[];
+    category: string;
+    wcag?: string;
+    actRuleIds?: string[];
+    actRuleUrls?: string[];
+  };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    // Bez region – pro HTML stránku nemáme startLine/startColumn, prvek určuje selector
+    physicalLocation: {
+      artifactLocation: { uri: string };
+    };
+    logicalLocations?: Array<{ fullyQualifiedName: string; kind: 'element' }>;
+  }>;
+  partialFingerprints?: Record<string, string>;
+  properties?: {
+    impact: ImpactLevel | null;
+    selector?: string;
+    elementLabel?: string;
+    html?: string;
+  };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        rules: SarifReportingDescriptor[];
+      };
+    };
+    results: SarifResult[];
+  }>;
+}
+
+/**
+ * Export AuditReport / CrawlSummary do SARIF 2.1.0 pro code-scanning dashboardy.
+ *
+ * Každé pravidlo (axe i custom `a11yflow-*`) je jeden reportingDescriptor,
+ * každý ViolationNode jeden result s lokací "URL stránky + CSS selector".
+ * Nález bez prvků (chybějící landmark, jazyk stránky) je jeden result s lokací jen na stránku.
+ * Fingerprint z ViolationMapperu plní partialFingerprints, aby dashboard
+ * pároval stejné nálezy napříč běhy.
+ */
+export class SarifExporter {
+  private static readonly SCHEMA_URL = 'https://json.schemastore.org/sarif-2.1.0.json';
+  private static readonly FINGERPRINT_KEY = 'a11yFlowElement/v1';
+
+  public static export(report: AuditReport | CrawlSummary): SarifLog {
+    const pages = Array.isArray((report as CrawlSummary).pages)
+      ? (report as CrawlSummary).pages
+      : [report as AuditReport];
+
+    const rules: SarifReportingDescriptor[] = [];
+    const ruleIndex = new Map<string, number>();
+    const results: SarifResult[] = [];
+
+    for (const page of pages) {
+      for (const violation of this.allViolations(page)) {
+        let index = ruleIndex.get(violation.id);
+        if (index === undefined) {
+          index = rules.length;
+          rules.push(this.toReportingDescriptor(violation, page));
+          ruleIndex.set(violation.id, index);
+        }
+
+        for (const node of violation.nodes) {
+          results.push(this.toResult(violation, node, page.url, index));
+        }
+
+        if (violation.nodes.length === 0) {
+          results.push(this.toPageResult(violation, page.url, index));
+        }
+      }
+    }
+
+    return {
+      $schema: this.SCHEMA_URL,
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'a11y-flow',
+              rules,
+            },
+          },
+          results,
+        },
+      ],
+    };
+  }
+
+  private static allViolations(page: AuditReport): AccessibilityViolation[] {
+    return [
+      ...page.violations.critical,
+      ...page.violations.serious,
+      ...page.violations.moderate,
+      ...page.violations.minor,
+    ];
+  }
+
+  private static toReportingDescriptor(violation: AccessibilityViolation, page: AuditReport): SarifReportingDescriptor {
+    const meta = RemediationService.getRuleMeta(violation.id);
+    // Custom ACT testy nemají záznam v RemediationService – WCAG i opravu vezmeme z jejich action itemu
+    const actionItem = (page.humanReadable?.actionItems || []).find((item) => item.id === violation.id);
+    const wcag = meta.wcag || actionItem?.wcagReference;
+
+    const actInfo = ActMapper.getActInfoForAxeRule(violation.id);
+    const actRuleIds = actInfo?.actRuleIds || violation.actRuleIds;
+    const actRuleUrls = actInfo?.actRuleUrls || violation.actRuleUrls;
+
+    const tags = ['accessibility'];
+    const criterion = wcag ? wcag.match(/^\d+\.\d+\.\d+/) : null;
+    if (criterion) tags.push(`wcag${criterion[0]}`);
+
+    return {
+      id: violation.id,
+      name: violation.title,
+      shortDescription: { text: violation.title },
+      fullDescription: violation.description ? { text: violation.description } : undefined,
+      help: { text: violation.suggestedFix || actionItem?.fix || meta.fix },
+      helpUri: violation.helpUrl || actRuleUrls?.[0],
+      defaultConfiguration: { level: this.toLevel(violation.impact) },
+      properties: {
+        tags,
+        category: meta.category,
+        wcag,
+        actRuleIds,
+        actRuleUrls,
+      },
+    };
+  }
+
+  private static toResult(
+    violation: AccessibilityViolation,
+    node: ViolationNode,
+    pageUrl: string,
+    ruleIndex: number,
+  ): SarifResult {
+    const selector = node.cssSelector || (Array.isArray(node.target) ? String(node.target[0] || '') : '');
+    // Stejný fallback jako v ReportDiffer – custom testy fingerprint nevyplňují
+    const fingerprint = node.fingerprint || ViolationMapper.buildElementFingerprint(pageUrl, selector, node.elementLabel);
+    const impact = node.impact || violation.impact;
+
+    return {
+      ruleId: violation.id,
+      ruleIndex,
+      level: this.toLevel(impact),
+      message: { text: node.failureSummary || violation.description || violation.title },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: pageUrl },
+          },
+          logicalLocations: selector ? [{ fullyQualifiedName: selector, kind: 'element' }] : undefined,
+        },
+      ],
+      partialFingerprints: fingerprint ? { [this.FINGERPRINT_KEY]: fingerprint } : undefined,
+      properties: {
+        impact,
+        selector: selector || undefined,
+        elementLabel: node.elementLabel,
+        html: node.html || undefined,
+      },
+    };
+  }
+
+  private static toPageResult(violation: AccessibilityViolation, pageUrl: string, ruleIndex: number): SarifResult {
+    const fingerprint = ViolationMapper.buildElementFingerprint(pageUrl);
+
+    return {
+      ruleId: violation.id,
+      ruleIndex,
+      level: this.toLevel(violation.impact),
+      message: { text: violation.description || violation.title },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: pageUrl },
+          },
+        },
+      ],
+      partialFingerprints: fingerprint ? { [this.FINGERPRINT_KEY]: fingerprint } : undefined,
+      properties: { impact: violation.impact },
+    };
+  }
+
+  private static toLevel(impact: ImpactLevel | null | undefined): SarifLevel {
+    switch (impact) {
+      case 'critical':
+      case 'serious':
+        return 'error';
+      case 'moderate':
+        return 'warning';
+      default:
+        return 'note';
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { TestRunnerExporter } from './TestRunnerExporter';
+import { CustomActRun } from './types';
+import { crawl, page, violation } from './testFixtures';
+
+function run(testId: string, status: CustomActRun['status'], ruleIds: string[], extra: Partial<CustomActRun> = {}): CustomActRun {
+  return { testId, label: `${testId} label`, status, durationMs: 10, violationCount: 0, ruleIds, ...extra };
+}
+
+function testcaseNames(xml: string): string[] {
+  return Array.from(xml.matchAll(/<testcase classname="[^"]*" name="([^"]*)"/g)).map((m) => m[1]);
+}
+
+describe('TestRunnerExporter', () => {
+  it('names testcases by rule id so a rule keeps its identity whether it fails or passes', () => {
+    const failing = page('https://example.com/', [violation('image-alt', 'critical', ['logo'], { title: 'Images must have alternative text' })]);
+    const passing = page('https://example.com/', [], {
+      passes: [{ id: 'image-alt', title: 'Images have alternative text', nodeCount: 3 }],
+    });
+
+    expect(testcaseNames(TestRunnerExporter.toJUnitXml(failing))).toEqual(['image-alt']);
+    expect(testcaseNames(TestRunnerExporter.toJUnitXml(passing))).toEqual(['image-alt']);
+    expect(TestRunnerExporter.toTap(failing)).toContain('not ok 1 - https://example.com/ image-alt\n');
+    expect(TestRunnerExporter.toTap(passing)).toContain('ok 1 - https://example.com/ image-alt\n');
+  });
+
+  it('writes failures, passes and inapplicable rules in a stable order with counts', () => {
+    const report = page('https://example.com/', [violation('label', 'serious', ['email'], { title: 'Form <elements> need labels' })], {
+      passes: [{ id: 'document-title', title: 'Document has a title', nodeCount: 1 }],
+      inapplicable: [{ id: 'video-caption', title: 'Videos have captions', nodeCount: 0 }],
+    });
+
+    const xml = TestRunnerExporter.toJUnitXml(report);
+
+    expect(testcaseNames(xml)).toEqual(['document-title', 'label', 'video-caption']);
+    expect(xml).toContain('<testsuites name="a11y-flow" tests="3" failures="1" errors="0" skipped="1">');
+    expect(xml).toContain('classname="example_com/"');
+    expect(xml).toContain('message="Form &lt;elements&gt; need labels: 1 violation(s) (serious)">#email: Fix it</failure>');
+    expect(xml).toContain('<skipped message="Rule is not applicable on this page"/>');
+  });
+
+  it('merges a custom rule reported under several impacts into one testcase', () => {
+    const report = page('https://example.com/', [
+      violation('a11yflow-target-size', 'serious', ['one'], { title: 'Target too small' }),
+      violation('a11yflow-target-size', 'minor', ['two', 'three'], { title: 'Target too small' }),
+    ]);
+
+    const tap = TestRunnerExporter.toTap(report);
+
+    expect(tap).toContain('1..1\n');
+    expect(tap).toContain('  count: 3\n');
+  });
+
+  it('keeps testcases of errored, timed-out, unreliable and skipped custom tests', () => {
+    const report = page('https://example.com/', [], {
+      customActRuns: [
+        run('focus-order', 'errored', ['a11yflow-focus-trap'], { error: 'Execution context was destroyed' }),
+        run('reflow', 'timed-out', ['a11yflow-reflow'], { error: 'Test exceeded 30000 ms', unreliable: true }),
+        run('target-size', 'passed', ['a11yflow-target-size'], { unreliable: true }),
+        run('display-profile', 'skipped', ['a11yflow-display-profile']),
+        run('skip-link', 'passed', ['a11yflow-skip-link']),
+      ],
+    });
+
+    const xml = TestRunnerExporter.toJUnitXml(report);
+
+    expect(testcaseNames(xml)).toEqual([
+      'a11yflow-display-profile',
+      'a11yflow-focus-trap',
+      'a11yflow-reflow',
+      'a11yflow-target-size',
+    ]);
+    expect(xml).toContain('tests="4" failures="0" errors="3" skipped="1"');
+    expect(xml).toContain('<error message="errored: Execution context was destroyed"/>');
+    expect(xml).toContain('<error message="timed-out: Test exceeded 30000 ms"/>');
+    expect(xml).toContain('<error message="unreliable: ran while a timed-out test was still running or on a page that could not be restored"/>');
+    expect(xml).toContain('<skipped message="test not run on this page"/>');
+
+    const tap = TestRunnerExporter.toTap(report);
+    expect(tap).toContain('ok 1 - https://example.com/ a11yflow-display-profile # SKIP test not run on this page\n');
+    expect(tap).toContain('not ok 2 - https://example.com/ a11yflow-focus-trap\n  ---\n  error: "errored: Execution context was destroyed"\n');
+  });
+
+  it('numbers TAP tests across crawl pages and escapes # in descriptions', () => {
+    const summary = crawl([
+      page('https://example.com/#home', [], { passes: [{ id: 'document-title', title: 'Title', nodeCount: 1 }] }),
+      page('https://example.com/about', [], { passes: [{ id: 'document-title', title: 'Title', nodeCount: 1 }] }),
+    ]);
+
+    const tap = TestRunnerExporter.toTap(summary);
+
+    expect(tap.startsWith('TAP version 13\n1..2\n')).toBe(true);
+    expect(tap).toContain('ok 1 - https://example.com/\\#home document-title\n');
+    expect(tap).toContain('ok 2 - https://example.com/about document-title\n');
+  });
+});
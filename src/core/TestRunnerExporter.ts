@@ -0,0 +1,242 @@
+import { URL } from 'url';
+import { AuditReport, CrawlSummary, AccessibilityViolation, ImpactLevel } from './types';
+
+type TestCaseStatus = 'failed' | 'passed' | 'skipped' | 'errored';
+
+interface RuleTestCase {
+  ruleId: string;
+  title: string;
+  status: TestCaseStatus;
+  impact?: ImpactLevel | null;
+  count: number;
+  // Řádky "selector – popis" pro detail selhání
+  details: string[];
+  // Důvod přeskočení / chyby testu
+  message?: string;
+}
+
+/**
+ * Převod výsledků skenu do formátů, které umí zobrazit CI test runnery
+ * (Jenkins / GitLab čtou JUnit XML, ostatní nástroje TAP).
+ *
+ * Každá stránka je jedna testsuite, každé pravidlo (axe i custom `a11yflow-*`)
+ * jeden testcase: s nálezy = failure, passes = prošlo, inapplicable = skipped.
+ * Prošlá a nepoužitelná pravidla uvádíme vždy, aby počty testů mezi běhy
+ * nekolísaly a trendy v CI dávaly smysl. Testcase se jmenuje jen podle ID
+ * pravidla – titulek nálezu a passu se liší a CI by je bralo jako různé testy.
+ * Custom testy, které spadly nebo nebyly zapnuté, doplní své ruleIds jako
+ * error / skipped, takže jejich testcase nezmizí.
+ */
+export class TestRunnerExporter {
+  private static readonly MAX_DETAIL_NODES = 20;
+
+  public static toJUnitXml(report: AuditReport | CrawlSummary): string {
+    const suites = this.toPages(report).map((page) => ({ page, cases: this.buildTestCases(page) }));
+    const totals = this.countCases(suites.flatMap((s) => s.cases));
+
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="a11y-flow" tests="${totals.tests}" failures="${totals.failures}" errors="${totals.errors}" ` +
+        `skipped="${totals.skipped}">`,
+    ];
+
+    for (const { page, cases } of suites) {
+      const counts = this.countCases(cases);
+      const classname = this.escapeXml(this.toClassName(page.url));
+
+      lines.push(
+        `  <testsuite name="${this.escapeXml(page.url)}" tests="${counts.tests}" failures="${counts.failures}" ` +
+          `skipped="${counts.skipped}" errors="${counts.errors}" timestamp="${this.escapeXml(page.timestamp || '')}">`,
+      );
+      lines.push('    <properties>');
+      lines.push(`      <property name="score" value="${page.score}"/>`);
+      lines.push('    </properties>');
+
+      for (const testCase of cases) {
+        const open = `    <testcase classname="${classname}" name="${this.escapeXml(testCase.ruleId)}"`;
+
+        if (testCase.status === 'passed') {
+          lines.push(`${open}/>`);
+        } else if (testCase.status === 'skipped') {
+          lines.push(`${open}>`);
+          lines.push(`      <skipped message="${this.escapeXml(testCase.message || 'Rule is not applicable on this page')}"/>`);
+          lines.push('    </testcase>');
+        } else if (testCase.status === 'errored') {
+          lines.push(`${open}>`);
+          lines.push(`      <error message="${this.escapeXml(testCase.message || 'Test did not finish')}"/>`);
+          lines.push('    </testcase>');
+        } else {
+          lines.push(`${open}>`);
+          lines.push(
+            `      <failure type="${testCase.impact || 'unknown'}" ` +
+              `message="${this.escapeXml(`${testCase.title}: ${testCase.count} violation(s) (${testCase.impact || 'unknown'})`)}">` +
+              `${this.escapeXml(testCase.details.join('\n'))}</failure>`,
+          );
+          lines.push('    </testcase>');
+        }
+      }
+
+      lines.push('  </testsuite>');
+    }
+
+    lines.push('</testsuites>');
+    return lines.join('\n') + '\n';
+  }
+
+  public static toTap(report: AuditReport | CrawlSummary): string {
+    const pages = this.toPages(report);
+    const body: string[] = [];
+    let index = 0;
+
+    for (const page of pages) {
+      body.push(`# ${page.url} (score ${page.score})`);
+
+      for (const testCase of this.buildTestCases(page)) {
+        index++;
+        const description = `${page.url} ${testCase.ruleId}`.replace(/#/g, '\\#');
+
+        if (testCase.status === 'passed') {
+          body.push(`ok ${index} - ${description}`);
+        } else if (testCase.status === 'skipped') {
+          body.push(`ok ${index} - ${description} # SKIP ${testCase.message || 'inapplicable'}`);
+        } else if (testCase.status === 'errored') {
+          body.push(`not ok ${index} - ${description}`);
+          body.push('  ---');
+          body.push(`  error: ${JSON.stringify(testCase.message || 'Test did not finish')}`);
+          body.push('  ...');
+        } else {
+          body.push(`not ok ${index} - ${description}`);
+          // YAML blok s detailem (TAP 13)
+          body.push('  ---');
+          body.push(`  title: ${JSON.stringify(testCase.title)}`);
+          body.push(`  impact: ${testCase.impact || 'unknown'}`);
+          body.push(`  count: ${testCase.count}`);
+          if (testCase.details.length > 0) {
+            body.push('  nodes:');
+            for (const detail of testCase.details) {
+              body.push(`    - ${JSON.stringify(detail)}`);
+            }
+          }
+          body.push('  ...');
+        }
+      }
+    }
+
+    return ['TAP version 13', `1..${index}`, ...body].join('\n') + '\n';
+  }
+
+  private static toPages(report: AuditReport | CrawlSummary): AuditReport[] {
+    return Array.isArray((report as CrawlSummary).pages)
+      ? (report as CrawlSummary).pages
+      : [report as AuditReport];
+  }
+
+  private static buildTestCases(page: AuditReport): RuleTestCase[] {
+    const cases = new Map<string, RuleTestCase>();
+
+    const violations: AccessibilityViolation[] = [
+      ...page.violations.critical,
+      ...page.violations.serious,
+      ...page.violations.moderate,
+      ...page.violations.minor,
+    ];
+
+    for (const violation of violations) {
+      const existing = cases.get(violation.id);
+      const details = violation.nodes.map((node) => {
+        const where = node.cssSelector || (Array.isArray(node.target) ? String(node.target[0] || '') : '');
+        const label = node.elementLabel ? ` – ${node.elementLabel}` : '';
+        return `${where}${label}${node.failureSummary ? `: ${node.failureSummary}` : ''}`;
+      });
+
+      if (existing) {
+        // Stejné ID ve více skupinách závažnosti (custom testy) – sloučíme do jednoho testcase
+        existing.count += violation.count;
+        existing.details.push(...details);
+        continue;
+      }
+
+      cases.set(violation.id, {
+        ruleId: violation.id,
+        title: violation.title,
+        status: 'failed',
+        impact: violation.impact,
+        count: violation.count,
+        details,
+      });
+    }
+
+    for (const testCase of cases.values()) {
+      if (testCase.details.length > this.MAX_DETAIL_NODES) {
+        const hidden = testCase.details.length - this.MAX_DETAIL_NODES;
+        testCase.details = [...testCase.details.slice(0, this.MAX_DETAIL_NODES), `… and ${hidden} more`];
+      }
+    }
+
+    for (const pass of page.passes || []) {
+      if (cases.has(pass.id)) continue;
+      cases.set(pass.id, { ruleId: pass.id, title: pass.title, status: 'passed', count: 0, details: [] });
+    }
+
+    for (const rule of page.inapplicable || []) {
+      if (cases.has(rule.id)) continue;
+      cases.set(rule.id, { ruleId: rule.id, title: rule.title, status: 'skipped', count: 0, details: [] });
+    }
+
+    // Custom testy bez výsledku – jejich pravidla uvedeme, aby testcase mezi běhy nemizely
+    for (const run of page.customActRuns || []) {
+      if (run.status !== 'errored' && run.status !== 'timed-out' && run.status !== 'skipped' && !run.unreliable) continue;
+      for (const ruleId of run.ruleIds || []) {
+        if (cases.has(ruleId)) continue;
+        cases.set(ruleId, {
+          ruleId,
+          title: run.label,
+          status: run.status === 'skipped' ? 'skipped' : 'errored',
+          count: 0,
+          details: [],
+          message:
+            run.status === 'skipped'
+              ? 'test not run on this page'
+              : run.error
+                ? `${run.status}: ${run.error}`
+                : 'unreliable: ran while a timed-out test was still running or on a page that could not be restored',
+        });
+      }
+    }
+
+    // Stabilní pořadí podle ID, aby se testcase mezi běhy nepřeskupovaly
+    return Array.from(cases.values()).sort((a, b) => a.ruleId.localeCompare(b.ruleId));
+  }
+
+  private static countCases(cases: RuleTestCase[]): { tests: number; failures: number; errors: number; skipped: number } {
+    return {
+      tests: cases.length,
+      failures: cases.filter((c) => c.status === 'failed').length,
+      errors: cases.filter((c) => c.status === 'errored').length,
+      skipped: cases.filter((c) => c.status === 'skipped').length,
+    };
+  }
+
+  /**
+   * Jenkins dělí classname podle teček na balíčky – tečky v doméně proto nahradíme.
+   */
+  private static toClassName(pageUrl: string): string {
+    try {
+      const u = new URL(pageUrl);
+      return `${u.hostname.replace(/\./g, '_')}${u.pathname.replace(/\./g, '_')}`;
+    } catch {
+      return String(pageUrl || 'page').replace(/\./g, '_');
+    }
+  }
+
+  private static escapeXml(value: string): string {
+    return String(value)
+      // Řídicí znaky nejsou v XML 1.0 povolené ani escapované
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
@@ -0,0 +1,46 @@
+import { UserFlowParser } from './UserFlowParser';
+
+const validFlow = () => ({
+  name: 'Checkout',
+  startUrl: 'https://shop.example.com/',
+  steps: [
+    { action: 'click', selector: '#add-to-cart', label: 'Add to cart' },
+    { action: 'goto', url: 'https://shop.example.com/cart' },
+    { action: 'type', selector: '#email', text: 'user@example.com' },
+    { action: 'select', selector: '#country', value: 'CZ' },
+    { action: 'press', key: 'Enter' },
+    { action: 'waitForSelector', selector: '.summary', timeoutMs: 5000 },
+    { action: 'scan', label: 'Order summary' },
+  ],
+});
+
+describe('UserFlowParser', () => {
+  it('returns a valid flow unchanged', () => {
+    const flow = validFlow();
+
+    expect(UserFlowParser.parse(flow)).toEqual(flow);
+  });
+
+  it('names an unnamed flow', () => {
+    const { name, ...flow } = validFlow();
+
+    expect(UserFlowParser.parse(flow).name).toBe('Unnamed flow');
+  });
+
+  it.each([
+    ['a non-object', 'flow', 'expected an object'],
+    ['a missing startUrl', { steps: [{ action: 'scan' }] }, 'missing "startUrl"'],
+    ['an invalid startUrl', { startUrl: 'shop', steps: [{ action: 'scan' }] }, '"startUrl" is not a valid URL'],
+    ['empty steps', { startUrl: 'https://example.com', steps: [] }, '"steps" must be a non-empty array'],
+    ['too many steps', { startUrl: 'https://example.com', steps: Array(51).fill({ action: 'scan' }) }, 'too many steps (51, max 50)'],
+    ['a flow without a scan checkpoint', { startUrl: 'https://example.com', steps: [{ action: 'press', key: 'Tab' }] }, 'at least one "scan" checkpoint'],
+    ['a non-object step', { startUrl: 'https://example.com', steps: ['scan'] }, 'step #0: expected an object'],
+    ['an unknown action', { startUrl: 'https://example.com', steps: [{ action: 'hover' }] }, 'step #0: unknown action "hover"'],
+    ['an inherited action name', { startUrl: 'https://example.com', steps: [{ action: 'toString' }] }, 'unknown action "toString"'],
+    ['a missing required field', { startUrl: 'https://example.com', steps: [{ action: 'scan' }, { action: 'type', selector: '#q' }] }, 'step #1 (type): missing "text"'],
+    ['a non-string label', { startUrl: 'https://example.com', steps: [{ action: 'scan', label: 1 }] }, '"label" must be a string'],
+    ['a non-numeric timeout', { startUrl: 'https://example.com', steps: [{ action: 'scan' }, { action: 'waitForSelector', selector: '.x', timeoutMs: '5s' }] }, '"timeoutMs" must be a number'],
+  ])('rejects %s', (_case, input, message) => {
+    expect(() => UserFlowParser.parse(input)).toThrow(message);
+  });
+});
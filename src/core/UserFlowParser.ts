@@ -0,0 +1,88 @@
+import { URL } from 'url';
+import { FlowStep, FlowStepAction, UserFlow } from './types';
+
+/**
+ * Validace JSON definice uživatelského průchodu (user flow).
+ * Definice přichází z HTTP API nebo ze souboru, takže jí nevěříme
+ * a před spuštěním prohlížeče ověříme každý krok.
+ */
+export class UserFlowParser {
+  private static readonly MAX_STEPS = 50;
+
+  private static readonly REQUIRED_FIELDS: Record<FlowStepAction, string[]> = {
+    goto: ['url'],
+    click: ['selector'],
+    type: ['selector', 'text'],
+    select: ['selector', 'value'],
+    press: ['key'],
+    waitForSelector: ['selector'],
+    scan: [],
+  };
+
+  public static parse(input: unknown): UserFlow {
+    if (!input || typeof input !== 'object') {
+      throw new Error('Invalid flow: expected an object with "startUrl" and "steps"');
+    }
+
+    const raw = input as Record<string, unknown>;
+
+    if (typeof raw.startUrl !== 'string' || !raw.startUrl) {
+      throw new Error('Invalid flow: missing "startUrl"');
+    }
+
+    try {
+      new URL(raw.startUrl);
+    } catch {
+      throw new Error(`Invalid flow: "startUrl" is not a valid URL (${raw.startUrl})`);
+    }
+
+    if (!Array.isArray(raw.steps) || raw.steps.length === 0) {
+      throw new Error('Invalid flow: "steps" must be a non-empty array');
+    }
+
+    if (raw.steps.length > this.MAX_STEPS) {
+      throw new Error(`Invalid flow: too many steps (${raw.steps.length}, max ${this.MAX_STEPS})`);
+    }
+
+    const steps = raw.steps.map((step, index) => this.parseStep(step, index));
+
+    if (!steps.some((s) => s.action === 'scan')) {
+      throw new Error('Invalid flow: at least one "scan" checkpoint is required');
+    }
+
+    return {
+      name: typeof raw.name === 'string' && raw.name ? raw.name : 'Unnamed flow',
+      startUrl: raw.startUrl,
+      steps,
+    };
+  }
+
+  private static parseStep(input: unknown, index: number): FlowStep {
+    if (!input || typeof input !== 'object') {
+      throw new Error(`Invalid flow step #${index}: expected an object`);
+    }
+
+    const step = input as Record<string, unknown>;
+    const action = step.action as FlowStepAction;
+
+    if (!Object.prototype.hasOwnProperty.call(this.REQUIRED_FIELDS, action)) {
+      throw new Error(`Invalid flow step #${index}: unknown action "${String(step.action)}"`);
+    }
+
+    for (const field of this.REQUIRED_FIELDS[action]) {
+      if (typeof step[field] !== 'string' || !step[field]) {
+        throw new Error(`Invalid flow step #${index} (${action}): missing "${field}"`);
+      }
+    }
+
+    if (step.label !== undefined && typeof step.label !== 'string') {
+      throw new Error(`Invalid flow step #${index} (${action}): "label" must be a string`);
+    }
+
+    if (action === 'waitForSelector' && step.timeoutMs !== undefined && typeof step.timeoutMs !== 'number') {
+      throw new Error(`Invalid flow step #${index} (${action}): "timeoutMs" must be a number`);
+    }
+
+    return step as unknown as FlowStep;
+  }
+}
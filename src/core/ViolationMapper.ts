@@ -1,10 +1,20 @@
 import { AxeResults, Result, NodeResult } from 'axe-core';
-import { AuditReport, AccessibilityViolation, ViolationNode, ImpactLevel, HumanReadableActionItem } from './types';
+import {
+  AuditReport,
+  AccessibilityViolation,
+  ViolationNode,
+  ViolationOccurrence,
+  ImpactLevel,
+  HumanReadableActionItem,
+  RuleOutcome,
+} from './types';
 import { RemediationService } from './RemediationService';
 import { ActMapper } from './ActMapper';
 
 export class ViolationMapper {
-  
+  // U passes stačí vzorek prvků – jinak report (a Lambda response) zbytečně naroste
+  private static readonly MAX_PASS_NODES = 20;
+
   public static mapToReport(url: string, rawResults: AxeResults): AuditReport {
     const violations = rawResults.violations;
     
@@ -93,10 +103,29 @@ export class ViolationMapper {
       humanReadable: {
         actionItems,
         topIssues
-      }
+      },
+      needsReview: this.mapRuleOutcomes(rawResults.incomplete || [], url),
+      passes: this.mapRuleOutcomes(rawResults.passes || [], url, this.MAX_PASS_NODES),
+      inapplicable: this.mapRuleOutcomes(rawResults.inapplicable || [], url),
     };
   }
 
+  private static mapRuleOutcomes(results: Result[], pageUrl: string, maxNodes?: number): RuleOutcome[] {
+    return results.map((r) => {
+      const nodes = maxNodes !== undefined ? r.nodes.slice(0, maxNodes) : r.nodes;
+
+      return {
+        id: r.id,
+        title: r.help,
+        description: r.description,
+        helpUrl: r.helpUrl,
+        impact: (r.impact as ImpactLevel) || null,
+        nodeCount: r.nodes.length,
+        nodes: nodes.length > 0 ? this.mapNodes(nodes, pageUrl, '') : undefined,
+      };
+    });
+  }
+
   private static mapViolations(results: Result[], pageUrl: string): AccessibilityViolation[] {
     return results.map(v => {
       const actInfo = ActMapper.getActInfoForAxeRule(v.id);
@@ -111,29 +140,37 @@ export class ViolationMapper {
         suggestedFix: RemediationService.getFix(v.id),
         actRuleIds: actInfo?.actRuleIds,
         actRuleUrls: actInfo?.actRuleUrls,
-        nodes: v.nodes.map((n) => {
-          const node = n as unknown as NodeResult;
-          const cssSelector =
-            this.getFriendlySelector(node) ||
-            (Array.isArray(node.target) ? String(node.target[0]) : undefined);
-          const elementLabel = this.buildElementLabel(node);
-          const componentName = this.inferComponentName(node);
-          const fingerprint = this.buildElementFingerprint(pageUrl, cssSelector, elementLabel);
-
-          return {
-            html: n.html,
-            target: n.target,
-            failureSummary: n.failureSummary || 'No summary available',
-            cssSelector,
-            elementLabel,
-            componentName,
-            fingerprint,
-          } as ViolationNode;
-        }),
+        nodes: this.mapNodes(v.nodes, pageUrl),
       } as AccessibilityViolation;
     });
   }
 
+  private static mapNodes(
+    nodes: NodeResult[],
+    pageUrl: string,
+    emptySummary = 'No summary available',
+  ): ViolationNode[] {
+    return nodes.map((n) => {
+      const node = n as unknown as NodeResult;
+      const cssSelector =
+        this.getFriendlySelector(node) ||
+        (Array.isArray(node.target) ? String(node.target[0]) : undefined);
+      const elementLabel = this.buildElementLabel(node);
+      const componentName = this.inferComponentName(node);
+      const fingerprint = this.buildElementFingerprint(pageUrl, cssSelector, elementLabel);
+
+      return {
+        html: n.html,
+        target: n.target,
+        failureSummary: n.failureSummary || emptySummary,
+        cssSelector,
+        elementLabel,
+        componentName,
+        fingerprint,
+      } as ViolationNode;
+    });
+  }
+
   private static getPriorityMeta(impact: ImpactLevel | null): { label: HumanReadableActionItem['priority']; weight: number } {
     switch (impact) {
       case 'critical':
@@ -167,27 +204,93 @@ export class ViolationMapper {
 
   private static calculateScore(violations: Result[]): number {
     let score = 100;
-    
-    const penalties = {
+
+    violations.forEach(v => {
+      score -= (v.nodes.length * this.getScorePenalty(v.impact as ImpactLevel | null));
+    });
+
+    return Math.max(0, Math.round(score));
+  }
+
+  /**
+   * Srážka ze skóre za jeden výskyt (node) podle závažnosti.
+   * Sdílí ji výpočet skóre i porovnání reportů (ReportDiffer).
+   */
+  public static getScorePenalty(impact: ImpactLevel | null | undefined): number {
+    const penalties: Record<ImpactLevel, number> = {
       critical: 5,
       serious: 3,
       moderate: 1,
       minor: 0.5
     };
 
-    violations.forEach(v => {
-      const weight = penalties[v.impact as keyof typeof penalties] || 0;
-      score -= (v.nodes.length * weight);
-    });
+    return impact ? penalties[impact] || 0 : 0;
+  }
 
-    return Math.max(0, Math.round(score));
+  /**
+   * URL stránky pro párování mezi běhy a s verdikty auditu – bez fragmentu a koncového lomítka.
+   * Velikost písmen řešíme jen u schématu a hostu (to dělá URL parser), cesta a query jsou case-sensitive.
+   */
+  public static normalizePageUrl(url: string): string {
+    const raw = String(url || '');
+    try {
+      const parsed = new URL(raw);
+      parsed.hash = '';
+      return parsed.href.replace(/\/$/, '');
+    } catch {
+      return raw.replace(/#.*$/, '').replace(/\/$/, '');
+    }
+  }
+
+  /**
+   * Rozloží report na výskyty chyb s klíčem `ruleId + fingerprint`, podle kterého
+   * ReportDiffer páruje běhy a ProfileComparator profily.
+   * Custom ACT testy fingerprint nevyplňují, proto ho pro ně dopočítáme ze selectoru a labelu.
+   * Nález bez prvků (chybějící landmark, jazyk stránky) je jeden výskyt na stránku.
+   */
+  public static occurrencesOf(report: AuditReport): ViolationOccurrence[] {
+    const occurrences: ViolationOccurrence[] = [];
+    const seen = new Set<string>();
+
+    const add = (violation: AccessibilityViolation, fingerprint: string, node?: ViolationNode) => {
+      let key = `${violation.id}::${fingerprint}`;
+      // Stejný fingerprint u více nodů (např. opakované ikony) – rozlišíme pořadím
+      let dup = 1;
+      while (seen.has(key)) {
+        key = `${violation.id}::${fingerprint}::${dup++}`;
+      }
+      seen.add(key);
+      occurrences.push({ key, violation, fingerprint, node });
+    };
+
+    const all = [
+      ...report.violations.critical,
+      ...report.violations.serious,
+      ...report.violations.moderate,
+      ...report.violations.minor,
+    ];
+    for (const violation of all) {
+      if (violation.nodes.length === 0) {
+        add(violation, this.buildElementFingerprint(report.url) || '#page');
+        continue;
+      }
+
+      violation.nodes.forEach((node, i) => {
+        const selector = node.cssSelector || (Array.isArray(node.target) ? String(node.target[0] || '') : '');
+        const fingerprint =
+          node.fingerprint || this.buildElementFingerprint(report.url, selector, node.elementLabel) || `#${i}`;
+        add(violation, fingerprint, node);
+      });
+    }
+
+    return occurrences;
   }
 
   /**
    * Sestaví relativně stabilní fingerprint prvku z URL, selectoru a elementLabelu.
    * Není to kryptografický hash, ale deterministický identifikátor použitelný pro historii.
    */
-  private static buildElementFingerprint(
+  public static buildElementFingerprint(
     pageUrl: string,
     selector?: string,
     elementLabel?: string,
@@ -0,0 +1,135 @@
+import { WcagCriterion, WcagLevel, WcagVersion } from './types';
+
+/**
+ * Kompletní katalog úspěšnostních kritérií WCAG 2.0, 2.1 a 2.2 (A / AA / AAA).
+ * Zdroj: https://www.w3.org/TR/WCAG22/ (názvy v angličtině dle normy).
+ */
+export const WCAG_CRITERIA: WcagCriterion[] = [
+  { id: '1.1.1', title: 'Non-text Content', level: 'A', version: '2.0' },
+  { id: '1.2.1', title: 'Audio-only and Video-only (Prerecorded)', level: 'A', version: '2.0' },
+  { id: '1.2.2', title: 'Captions (Prerecorded)', level: 'A', version: '2.0' },
+  { id: '1.2.3', title: 'Audio Description or Media Alternative (Prerecorded)', level: 'A', version: '2.0' },
+  { id: '1.2.4', title: 'Captions (Live)', level: 'AA', version: '2.0' },
+  { id: '1.2.5', title: 'Audio Description (Prerecorded)', level: 'AA', version: '2.0' },
+  { id: '1.2.6', title: 'Sign Language (Prerecorded)', level: 'AAA', version: '2.0' },
+  { id: '1.2.7', title: 'Extended Audio Description (Prerecorded)', level: 'AAA', version: '2.0' },
+  { id: '1.2.8', title: 'Media Alternative (Prerecorded)', level: 'AAA', version: '2.0' },
+  { id: '1.2.9', title: 'Audio-only (Live)', level: 'AAA', version: '2.0' },
+  { id: '1.3.1', title: 'Info and Relationships', level: 'A', version: '2.0' },
+  { id: '1.3.2', title: 'Meaningful Sequence', level: 'A', version: '2.0' },
+  { id: '1.3.3', title: 'Sensory Characteristics', level: 'A', version: '2.0' },
+  { id: '1.3.4', title: 'Orientation', level: 'AA', version: '2.1' },
+  { id: '1.3.5', title: 'Identify Input Purpose', level: 'AA', version: '2.1' },
+  { id: '1.3.6', title: 'Identify Purpose', level: 'AAA', version: '2.1' },
+  { id: '1.4.1', title: 'Use of Color', level: 'A', version: '2.0' },
+  { id: '1.4.2', title: 'Audio Control', level: 'A', version: '2.0' },
+  { id: '1.4.3', title: 'Contrast (Minimum)', level: 'AA', version: '2.0' },
+  { id: '1.4.4', title: 'Resize Text', level: 'AA', version: '2.0' },
+  { id: '1.4.5', title: 'Images of Text', level: 'AA', version: '2.0' },
+  { id: '1.4.6', title: 'Contrast (Enhanced)', level: 'AAA', version: '2.0' },
+  { id: '1.4.7', title: 'Low or No Background Audio', level: 'AAA', version: '2.0' },
+  { id: '1.4.8', title: 'Visual Presentation', level: 'AAA', version: '2.0' },
+  { id: '1.4.9', title: 'Images of Text (No Exception)', level: 'AAA', version: '2.0' },
+  { id: '1.4.10', title: 'Reflow', level: 'AA', version: '2.1' },
+  { id: '1.4.11', title: 'Non-text Contrast', level: 'AA', version: '2.1' },
+  { id: '1.4.12', title: 'Text Spacing', level: 'AA', version: '2.1' },
+  { id: '1.4.13', title: 'Content on Hover or Focus', level: 'AA', version: '2.1' },
+  { id: '2.1.1', title: 'Keyboard', level: 'A', version: '2.0' },
+  { id: '2.1.2', title: 'No Keyboard Trap', level: 'A', version: '2.0' },
+  { id: '2.1.3', title: 'Keyboard (No Exception)', level: 'AAA', version: '2.0' },
+  { id: '2.1.4', title: 'Character Key Shortcuts', level: 'A', version: '2.1' },
+  { id: '2.2.1', title: 'Timing Adjustable', level: 'A', version: '2.0' },
+  { id: '2.2.2', title: 'Pause, Stop, Hide', level: 'A', version: '2.0' },
+  { id: '2.2.3', title: 'No Timing', level: 'AAA', version: '2.0' },
+  { id: '2.2.4', title: 'Interruptions', level: 'AAA', version: '2.0' },
+  { id: '2.2.5', title: 'Re-authenticating', level: 'AAA', version: '2.0' },
+  { id: '2.2.6', title: 'Timeouts', level: 'AAA', version: '2.1' },
+  { id: '2.3.1', title: 'Three Flashes or Below Threshold', level: 'A', version: '2.0' },
+  { id: '2.3.2', title: 'Three Flashes', level: 'AAA', version: '2.0' },
+  { id: '2.3.3', title: 'Animation from Interactions', level: 'AAA', version: '2.1' },
+  { id: '2.4.1', title: 'Bypass Blocks', level: 'A', version: '2.0' },
+  { id: '2.4.2', title: 'Page Titled', level: 'A', version: '2.0' },
+  { id: '2.4.3', title: 'Focus Order', level: 'A', version: '2.0' },
+  { id: '2.4.4', title: 'Link Purpose (In Context)', level: 'A', version: '2.0' },
+  { id: '2.4.5', title: 'Multiple Ways', level: 'AA', version: '2.0' },
+  { id: '2.4.6', title: 'Headings and Labels', level: 'AA', version: '2.0' },
+  { id: '2.4.7', title: 'Focus Visible', level: 'AA', version: '2.0' },
+  { id: '2.4.8', title: 'Location', level: 'AAA', version: '2.0' },
+  { id: '2.4.9', title: 'Link Purpose (Link Only)', level: 'AAA', version: '2.0' },
+  { id: '2.4.10', title: 'Section Headings', level: 'AAA', version: '2.0' },
+  { id: '2.4.11', title: 'Focus Not Obscured (Minimum)', level: 'AA', version: '2.2' },
+  { id: '2.4.12', title: 'Focus Not Obscured (Enhanced)', level: 'AAA', version: '2.2' },
+  { id: '2.4.13', title: 'Focus Appearance', level: 'AAA', version: '2.2' },
+  { id: '2.5.1', title: 'Pointer Gestures', level: 'A', version: '2.1' },
+  { id: '2.5.2', title: 'Pointer Cancellation', level: 'A', version: '2.1' },
+  { id: '2.5.3', title: 'Label in Name', level: 'A', version: '2.1' },
+  { id: '2.5.4', title: 'Motion Actuation', level: 'A', version: '2.1' },
+  { id: '2.5.5', title: 'Target Size (Enhanced)', level: 'AAA', version: '2.1' },
+  { id: '2.5.6', title: 'Concurrent Input Mechanisms', level: 'AAA', version: '2.1' },
+  { id: '2.5.7', title: 'Dragging Movements', level: 'AA', version: '2.2' },
+  { id: '2.5.8', title: 'Target Size (Minimum)', level: 'AA', version: '2.2' },
+  { id: '3.1.1', title: 'Language of Page', level: 'A', version: '2.0' },
+  { id: '3.1.2', title: 'Language of Parts', level: 'AA', version: '2.0' },
+  { id: '3.1.3', title: 'Unusual Words', level: 'AAA', version: '2.0' },
+  { id: '3.1.4', title: 'Abbreviations', level: 'AAA', version: '2.0' },
+  { id: '3.1.5', title: 'Reading Level', level: 'AAA', version: '2.0' },
+  { id: '3.1.6', title: 'Pronunciation', level: 'AAA', version: '2.0' },
+  { id: '3.2.1', title: 'On Focus', level: 'A', version: '2.0' },
+  { id: '3.2.2', title: 'On Input', level: 'A', version: '2.0' },
+  { id: '3.2.3', title: 'Consistent Navigation', level: 'AA', version: '2.0' },
+  { id: '3.2.4', title: 'Consistent Identification', level: 'AA', version: '2.0' },
+  { id: '3.2.5', title: 'Change on Request', level: 'AAA', version: '2.0' },
+  { id: '3.2.6', title: 'Consistent Help', level: 'A', version: '2.2' },
+  { id: '3.3.1', title: 'Error Identification', level: 'A', version: '2.0' },
+  { id: '3.3.2', title: 'Labels or Instructions', level: 'A', version: '2.0' },
+  { id: '3.3.3', title: 'Error Suggestion', level: 'AA', version: '2.0' },
+  { id: '3.3.4', title: 'Error Prevention (Legal, Financial, Data)', level: 'AA', version: '2.0' },
+  { id: '3.3.5', title: 'Help', level: 'AAA', version: '2.0' },
+  { id: '3.3.6', title: 'Error Prevention (All)', level: 'AAA', version: '2.0' },
+  { id: '3.3.7', title: 'Redundant Entry', level: 'A', version: '2.2' },
+  { id: '3.3.8', title: 'Accessible Authentication (Minimum)', level: 'AA', version: '2.2' },
+  { id: '3.3.9', title: 'Accessible Authentication (Enhanced)', level: 'AAA', version: '2.2' },
+  { id: '4.1.1', title: 'Parsing', level: 'A', version: '2.0', obsoleteIn: '2.2' },
+  { id: '4.1.2', title: 'Name, Role, Value', level: 'A', version: '2.0' },
+  { id: '4.1.3', title: 'Status Messages', level: 'AA', version: '2.1' },
+];
+
+const LEVEL_ORDER: Record<WcagLevel, number> = { A: 1, AA: 2, AAA: 3 };
+const VERSION_ORDER: Record<WcagVersion, number> = { '2.0': 1, '2.1': 2, '2.2': 3 };
+
+/**
+ * Kritéria, která patří do cílové úrovně souladu (např. WCAG 2.1 AA = A + AA z verzí 2.0 a 2.1).
+ */
+export function getWcagCriteria(version: WcagVersion = '2.2', level: WcagLevel = 'AA'): WcagCriterion[] {
+  return WCAG_CRITERIA.filter(
+    (c) =>
+      VERSION_ORDER[c.version] <= VERSION_ORDER[version] &&
+      LEVEL_ORDER[c.level] <= LEVEL_ORDER[level] &&
+      !(c.obsoleteIn && VERSION_ORDER[c.obsoleteIn] <= VERSION_ORDER[version]),
+  );
+}
+
+export function findWcagCriterion(id: string): WcagCriterion | undefined {
+  return WCAG_CRITERIA.find((c) => c.id === id);
+}
+
+/**
+ * Vytáhne čísla kritérií z libovolného textu ("1.4.3 Contrast (Minimum)", "WCAG 2.1.2, 2.4.3").
+ * Vrací jen ID, která v katalogu existují.
+ */
+export function parseWcagCriteria(text: string | undefined): string[] {
+  if (!text) return [];
+  const matches = text.match(/\b[1-4]\.\d{1,2}\.\d{1,2}\b/g) || [];
+  return Array.from(new Set(matches)).filter((id) => !!findWcagCriterion(id));
+}
+
+/**
+ * Převede axe tag na ID kritéria ("wcag143" -> "1.4.3", "wcag1410" -> "1.4.10").
+ * Tagy úrovní ("wcag2aa", "wcag21a") vrací undefined.
+ */
+export function wcagCriterionFromAxeTag(tag: string): string | undefined {
+  const match = /^wcag(\d)(\d)(\d{1,2})$/.exec(tag);
+  if (!match) return undefined;
+  const id = `${match[1]}.${match[2]}.${match[3]}`;
+  return findWcagCriterion(id) ? id : undefined;
+}
@@ -0,0 +1,330 @@
+import puppeteer, { Page } from 'puppeteer-core';
+import { WebScanner, ScanOptions } from './WebScanner';
+import { registerCustomActTest } from './acts/CustomActSuite';
+import { AccessibilityViolation, UserFlow } from './types';
+
+// Skutečný prohlížeč ani axe-core ve specu nespouštíme
+jest.mock('puppeteer-core', () => ({ __esModule: true, default: { launch: jest.fn() } }));
+jest.mock('@axe-core/puppeteer', () => ({
+  AxePuppeteer: jest.fn().mockImplementation(() => {
+    const builder = {
+      options: () => builder,
+      withTags: () => builder,
+      analyze: async () => ({
+        timestamp: '2026-01-01T00:00:00.000Z',
+        testEngine: { name: 'axe-core', version: '4.11.0' },
+        violations: [],
+        passes: [],
+        incomplete: [],
+        inapplicable: [],
+      }),
+    };
+    return builder;
+  }),
+}));
+
+const START_URL = 'https://shop.example.com/';
+
+// Stránka si pamatuje vyplněná pole jako DOM – navigace nebo reload je zahodí
+function fakePage(name: string, log: string[], extra: Record<string, unknown> = {}) {
+  let url = 'about:blank';
+  const fields: Record<string, string> = {};
+  const target: Record<PropertyKey, unknown> = {
+    url: () => url,
+    viewport: () => ({ width: 1280, height: 800 }),
+    goto: jest.fn(async (next: string) => {
+      log.push(`${name} goto:${next}`);
+      url = next;
+      for (const key of Object.keys(fields)) delete fields[key];
+      return null;
+    }),
+    reload: jest.fn(async () => {
+      log.push(`${name} reload`);
+      for (const key of Object.keys(fields)) delete fields[key];
+      return null;
+    }),
+    type: jest.fn(async (selector: string, text: string) => {
+      fields[selector] = text;
+    }),
+    click: jest.fn(async (selector: string) => {
+      log.push(`${name} click:${selector} coupon=${fields['#coupon'] ?? ''}`);
+    }),
+    // Jen snapshot storage na checkpointu vrací data, ostatní evaluate nic
+    evaluate: jest.fn(async (fn: unknown) => (String(fn).includes('sessionStorage') ? { local: { cart: '1' }, session: {} } : undefined)),
+    ...extra,
+  };
+
+  // Ostatní metody Page (waitForSelector, evaluateOnNewDocument …) jen vrátí undefined
+  return new Proxy(target, {
+    get: (t, property) => {
+      if (property === 'then' || property in t) return t[property];
+      t[property] = jest.fn(async () => undefined);
+      return t[property];
+    },
+  }) as unknown as Page & typeof target;
+}
+
+const formViolation: AccessibilityViolation = {
+  id: 'a11yflow-flow-form-submit',
+  title: 'Form error is not announced',
+  description: 'D',
+  impact: 'serious',
+  count: 1,
+  nodes: [],
+};
+
+describe('WebScanner.scanFlow checkpoints', () => {
+  const log: string[] = [];
+  let journeyPage: ReturnType<typeof fakePage>;
+  let checkpointPage: ReturnType<typeof fakePage>;
+  let context: { setCookie: jest.Mock; newPage: jest.Mock; close: jest.Mock };
+  let browser: { newPage: jest.Mock; cookies: jest.Mock; createBrowserContext: jest.Mock; close: jest.Mock };
+  const testedPages: Page[] = [];
+  const nameOf = (p: Page) => (p === journeyPage ? 'journey' : p === checkpointPage ? 'checkpoint' : 'other');
+
+  beforeAll(() => {
+    registerCustomActTest({
+      id: 'flow-static-check',
+      label: 'Static check',
+      defaultEnabled: false,
+      run: async (p) => {
+        testedPages.push(p);
+        return null;
+      },
+    });
+    registerCustomActTest({
+      id: 'flow-form-submit',
+      label: 'Submits forms',
+      defaultEnabled: false,
+      mutatesPage: true,
+      run: async (p) => {
+        testedPages.push(p);
+        await p.goto(`${START_URL}thank-you`);
+        return { violations: [formViolation], actionItems: [] };
+      },
+    });
+  });
+
+  beforeEach(() => {
+    log.length = 0;
+    testedPages.length = 0;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    context = {
+      setCookie: jest.fn(async () => undefined),
+      newPage: jest.fn(async () => checkpointPage),
+      close: jest.fn(async () => undefined),
+    };
+    journeyPage = fakePage('journey', log);
+    checkpointPage = fakePage('checkpoint', log, { browserContext: () => context });
+    browser = {
+      newPage: jest.fn(async () => journeyPage),
+      cookies: jest.fn(async () => [{ name: 'sid', value: 'abc', domain: 'shop.example.com', path: '/' }]),
+      createBrowserContext: jest.fn(async () => context),
+      close: jest.fn(async () => undefined),
+    };
+    (puppeteer.launch as jest.Mock).mockResolvedValue(browser);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const flow: UserFlow = {
+    name: 'Checkout',
+    startUrl: START_URL,
+    steps: [
+      { action: 'type', selector: '#coupon', text: 'SAVE10' },
+      { action: 'scan', label: 'Cart' },
+      { action: 'click', selector: '#apply' },
+    ],
+  };
+
+  it('runs page-changing checks on a separate page and keeps the typed value for the next step', async () => {
+    const result = await new WebScanner().scanFlow(flow, { enabledTests: ['flow-form-submit', 'flow-static-check'] });
+
+    expect(result.completed).toBe(true);
+    expect(result.steps.map((s) => s.status)).toEqual(['passed', 'passed', 'passed']);
+    expect(log).toContain('journey click:#apply coupon=SAVE10');
+    // Stránka průchodu se po startu už nenačítá znovu
+    expect(log.filter((entry) => entry.startsWith('journey ') && !entry.includes('click'))).toEqual([`journey goto:${START_URL}`]);
+
+    const report = result.steps[1].report!;
+    expect(report.keyboardNavigation).toBeDefined();
+    expect(report.customActRuns!.filter((r) => r.status !== 'skipped').map((r) => [r.testId, r.status])).toEqual([
+      ['flow-static-check', 'passed'],
+      ['flow-form-submit', 'failed'],
+    ]);
+    expect(report.violations.serious.map((v) => v.id)).toContain('a11yflow-flow-form-submit');
+    expect(testedPages.map(nameOf)).toEqual(['journey', 'checkpoint']);
+
+    // Oddělená stránka má session průchodu a storage z checkpointu, po testech se zavře
+    expect(context.setCookie).toHaveBeenCalledWith(expect.objectContaining({ name: 'sid', value: 'abc' }));
+    expect(checkpointPage.evaluateOnNewDocument).toHaveBeenCalledWith(expect.any(Function), 'https://shop.example.com', {
+      local: { cart: '1' },
+      session: {},
+    });
+    expect(log).toContain(`checkpoint goto:${START_URL}`);
+    expect(context.close).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips page-changing checks and continues the flow when the separate page cannot be opened', async () => {
+    browser.createBrowserContext.mockRejectedValue(new Error('Target closed'));
+
+    const result = await new WebScanner().scanFlow(flow, { enabledTests: ['flow-form-submit', 'flow-static-check'] });
+
+    expect(result.completed).toBe(true);
+    expect(result.steps.map((s) => s.status)).toEqual(['passed', 'passed', 'passed']);
+    const report = result.steps[1].report!;
+    expect(report.keyboardNavigation).toBeUndefined();
+    expect(report.warnings).toContain(
+      'Keyboard audit and page-changing custom ACT tests were skipped: cannot open a separate page (Target closed)',
+    );
+    expect(report.customActRuns!.find((r) => r.testId === 'flow-form-submit')).toMatchObject({
+      status: 'errored',
+      error: 'Cannot open a separate page: Target closed',
+    });
+    expect(testedPages.map(nameOf)).toEqual(['journey']);
+    expect(log).toContain('journey click:#apply coupon=SAVE10');
+  });
+});
+
+describe('WebScanner broken link check on authenticated scans', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    fetchMock = jest.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(null, { status: 200 }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function scanLinks(hrefs: string[], options: ScanOptions = {}) {
+    const send = jest.fn(async (method: string, params: { urls: string[] }) =>
+      method === 'Network.getCookies'
+        ? { cookies: params.urls[0].includes('/account') ? [{ name: 'sid', value: 'abc' }, { name: 'lang', value: 'cs' }] : [] }
+        : {},
+    );
+    const page = fakePage('page', [], {
+      $$eval: async () => hrefs,
+      createCDPSession: async () => ({ send, detach: async () => undefined }),
+    });
+    (puppeteer.launch as jest.Mock).mockResolvedValue({ newPage: async () => page, close: async () => undefined });
+    return new WebScanner().scan(`${START_URL}dashboard`, options);
+  }
+
+  const requestOf = (url: string) => fetchMock.mock.calls.find(([target]) => target === url)![1] as RequestInit;
+  const auth = { headers: { Authorization: 'Bearer token' } };
+
+  it('sends the browser cookies and the auth headers of allowed origins without following redirects', async () => {
+    const report = await scanLinks(
+      [`${START_URL}account`, `${START_URL}help`, 'http://shop.example.com/legacy', 'https://other.example.com/'],
+      { auth },
+    );
+
+    expect(report.brokenLinks!.totalChecked).toBe(3);
+    expect(requestOf(`${START_URL}account`)).toMatchObject({
+      headers: { authorization: 'Bearer token', cookie: 'sid=abc; lang=cs' },
+      redirect: 'manual',
+    });
+    expect(requestOf(`${START_URL}help`).headers).toEqual({ authorization: 'Bearer token' });
+    // Jiný origin (http) na stejném hostu auth hlavičku nedostane
+    expect(requestOf('http://shop.example.com/legacy').headers).toEqual({});
+  });
+
+  it('does not request logout links on authenticated scans', async () => {
+    const report = await scanLinks([`${START_URL}account`, `${START_URL}user/logout`, `${START_URL}odhlasit`], { auth });
+
+    expect(report.brokenLinks!.totalChecked).toBe(1);
+    expect(fetchMock.mock.calls.map(([target]) => target)).toEqual([`${START_URL}account`]);
+  });
+
+  it('checks links without credentials on anonymous scans', async () => {
+    await scanLinks([`${START_URL}account`, `${START_URL}logout`]);
+
+    expect(requestOf(`${START_URL}account`)).toMatchObject({ headers: undefined, redirect: 'follow' });
+    expect(requestOf(`${START_URL}logout`)).toMatchObject({ headers: undefined, redirect: 'follow' });
+  });
+});
+
+describe('WebScanner bounding boxes for annotations', () => {
+  const measured = { x: 40, y: 120, width: 900, height: 48 };
+
+  beforeAll(() => {
+    registerCustomActTest({
+      id: 'bbox-reflow',
+      label: 'Reflow with a box from the 320 px layout',
+      defaultEnabled: false,
+      ruleIds: ['a11yflow-bbox-reflow'],
+      run: async () => ({
+        violations: [{
+          id: 'a11yflow-bbox-reflow',
+          title: 'Reflow',
+          description: 'D',
+          impact: 'serious',
+          count: 1,
+          nodes: [{
+            html: '<table class="prices"></table>',
+            target: ['table.prices'],
+            failureSummary: 'Při šířce 320 CSS px přesahuje prvek šířku stránky',
+            conditionBox: { x: 0, y: 300, width: 640, height: 96, condition: 'šířce 320 CSS px' },
+          }],
+        }],
+        actionItems: [],
+      }),
+    });
+    registerCustomActTest({
+      id: 'bbox-target-size',
+      label: 'Target size with a box from the scanned viewport',
+      defaultEnabled: false,
+      ruleIds: ['a11yflow-bbox-target-size'],
+      run: async () => ({
+        violations: [{
+          id: 'a11yflow-bbox-target-size',
+          title: 'Target size',
+          description: 'D',
+          impact: 'moderate',
+          count: 1,
+          nodes: [{
+            html: '<a class="close"></a>',
+            target: ['a.close'],
+            failureSummary: 'Cíl má 16 × 16 px',
+            boundingBox: { x: 1200, y: 10, width: 16, height: 16 },
+          }],
+        }],
+        actionItems: [],
+      }),
+    });
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('re-measures nodes whose box was taken under test conditions in the scanned viewport', async () => {
+    const evaluate = jest.fn(async (_fn: unknown, selector?: unknown) => (selector === 'table.prices' ? measured : undefined));
+    const page = fakePage('page', [], { evaluate, $$eval: async () => [] });
+    (puppeteer.launch as jest.Mock).mockResolvedValue({ newPage: async () => page, close: async () => undefined });
+
+    const report = await new WebScanner().scan(START_URL, { enabledTests: ['bbox-reflow', 'bbox-target-size'] });
+
+    const [reflowNode] = report.violations.serious.find((v) => v.id === 'a11yflow-bbox-reflow')!.nodes;
+    const [targetSizeNode] = report.violations.moderate.find((v) => v.id === 'a11yflow-bbox-target-size')!.nodes;
+    expect(reflowNode).toMatchObject({ boundingBox: measured, conditionBox: { width: 640, condition: 'šířce 320 CSS px' } });
+    expect(targetSizeNode.boundingBox).toEqual({ x: 1200, y: 10, width: 16, height: 16 });
+    // Box z viewportu skenu se znovu neměří
+    expect(evaluate.mock.calls.filter(([, selector]) => selector === 'a.close')).toHaveLength(0);
+  });
+});
@@ -7,7 +7,14 @@ export interface ActRuleDescriptor {
   status: ActCoverageStatus; // jakým způsobem je v A11yFlow pokryto
   axeRuleIds?: string[]; // případné odpovídající axe-core rule IDs
   customTests?: string[]; // IDs testů z CustomActSuite (např. "focus-order")
+  // ID pravidel v reportu, které hlásí služby mimo CustomActSuite (AccessibleNameService,
+  // LiveRegionObserver, ContrastAnalyzer) – např. "a11yflow-status-messages"
+  ruleIds?: string[];
   notes?: string;
+  // Jen pro status 'manual': návod pro auditora (zobrazuje se v checklistu)
+  guidance?: string;
+  // Jen pro status 'manual': axe pravidla, jejichž "inapplicable" znamená, že se kritérium stránky netýká
+  applicabilityAxeRuleIds?: string[];
 }
 
 /**
@@ -46,7 +53,7 @@ export const ActRuleRegistry: ActRuleDescriptor[] = [
     wcag: ['2.1.2'],
     status: 'custom',
     customTests: ['focus-order'],
-    notes: 'Pokrytí zajišťuje custom Puppeteer test runFocusOrderActTest.',
+    notes: 'Pokrytí zajišťuje custom Puppeteer test runFocusOrderActTest (průchod Tab i zpětný Shift+Tab).',
   },
   {
     id: 'landmarks-placeholder',
@@ -72,6 +79,38 @@ export const ActRuleRegistry: ActRuleDescriptor[] = [
     customTests: ['form-errors'],
     notes: 'Chování chyb formuláře testuje runFormErrorsActTest s dynamickým submit testem.',
   },
+  {
+    id: 'background-contrast-placeholder',
+    name: 'Text over images and gradients has sufficient contrast',
+    wcag: ['1.4.3'],
+    status: 'partial',
+    ruleIds: ['a11yflow-background-contrast'],
+    notes: 'ContrastAnalyzer měří jen prvky, u kterých axe color-contrast skončil jako incomplete: skryje text, vyfotí pozadí a spočítá nejhorší (bez 2 % šumu) a mediánový kontrast z pixelů.',
+  },
+  {
+    id: 'label-in-name-placeholder',
+    name: 'Visible label is part of the accessible name',
+    wcag: ['2.5.3'],
+    status: 'custom',
+    ruleIds: ['a11yflow-label-in-name'],
+    notes: 'AccessibleNameService porovnává viditelný text prvku s přístupným názvem z Chromia (CDP, accname 1.2); axe pravidlo label-content-name-mismatch je experimentální a ve skenu neběží.',
+  },
+  {
+    id: 'duplicate-icon-names-placeholder',
+    name: 'Icon-only controls have distinct accessible names',
+    wcag: ['2.4.4', '2.4.6'],
+    status: 'partial',
+    ruleIds: ['a11yflow-duplicate-icon-names'],
+    notes: 'AccessibleNameService hledá ikonová tlačítka a odkazy (bez viditelného textu) se stejným názvem; odkazy na stejnou adresu toleruje.',
+  },
+  {
+    id: 'status-messages-placeholder',
+    name: 'Status messages are announced without receiving focus',
+    wcag: ['4.1.3'],
+    status: 'partial',
+    ruleIds: ['a11yflow-status-messages'],
+    notes: 'LiveRegionObserver sleduje změny v live regionech během skenu a user flow; stavové zprávy mimo live region hledá heuristikou (třídy toast/notification, typické texty).',
+  },
   {
     id: 'suspicious-alt-placeholder',
     name: 'Image alt text is meaningful',
@@ -80,6 +119,210 @@ export const ActRuleRegistry: ActRuleDescriptor[] = [
     customTests: ['suspicious-alt'],
     notes: 'Heuristická detekce nesmyslných alt textů (názvy souborů, placeholdery, redundantní fráze).',
   },
+  {
+    id: 'reflow-placeholder',
+    name: 'Content reflows at 320 CSS px and text can be resized to 200%',
+    wcag: ['1.4.10', '1.4.4'],
+    status: 'custom',
+    customTests: ['reflow'],
+    notes: 'runReflowActTest hledá vodorovný scroll, oříznutý a překrývající se text při 320 px a při 200% písmu.',
+  },
+  {
+    id: 'text-spacing-placeholder',
+    name: 'Text is not clipped or overlapped when text spacing is increased',
+    wcag: ['1.4.12'],
+    status: 'custom',
+    customTests: ['text-spacing'],
+    notes: 'runTextSpacingActTest vloží styl z WCAG 1.4.12 a porovná rozměry textu před a po. ACT pravidla 24afc2, 78fd32 a 9e45ec (!important ve style atributu) pokrývá jen nepřímo.',
+  },
+  {
+    id: 'target-size-placeholder',
+    name: 'Pointer targets are at least 24 by 24 CSS pixels or sufficiently spaced',
+    wcag: ['2.5.8'],
+    status: 'custom',
+    customTests: ['target-size'],
+    notes: 'runTargetSizeActTest měří vykreslené boxy včetně výjimek (rozestup, inline, UA control); na mobile/tablet profilu navíc 44 × 44 px (2.5.5).',
+  },
+  {
+    id: 'dragging-movements-placeholder',
+    name: 'Dragging functionality has a single-pointer alternative',
+    wcag: ['2.5.7'],
+    status: 'partial',
+    customTests: ['dragging-movements'],
+    notes: 'Heuristika runDraggingMovementsActTest – hledá drag & drop widgety bez tlačítek posunu; ostatní tažení (slidery, mapy) je nutné ověřit ručně.',
+  },
+  {
+    id: 'composite-widget-keys-placeholder',
+    name: 'ARIA composite widgets support the expected keyboard interaction',
+    wcag: ['2.1.1'],
+    status: 'partial',
+    customTests: ['composite-widget-keys'],
+    notes: 'runCompositeWidgetKeysActTest ověřuje povinné klávesy vzorů APG (tablist, menu, menubar, listbox, grid, radiogroup, combobox); volitelné klávesy a typeahead netestuje.',
+  },
+  {
+    id: 'display-profile-placeholder',
+    name: 'Content keeps its meaning under colour-vision, forced-colors and dark-mode profiles',
+    wcag: ['1.4.1', '1.4.11'],
+    status: 'custom',
+    customTests: ['display-profile'],
+    notes: 'Kontroluje runDisplayProfileActTest při skenu s profilem protanopia, deuteranopia, tritanopia, achromatopsia, forced-colors nebo dark-mode.',
+  },
+
+  // --- WCAG 2.2 AA kritéria, která automat nerozhodne (ruční checklist, viz ManualChecklistGenerator) ---
+  {
+    id: 'media-alternative-manual',
+    name: 'Audio-only and video-only content has an alternative',
+    wcag: ['1.2.1'],
+    status: 'manual',
+    guidance: 'U každé čistě zvukové nahrávky a každého videa bez zvuku ověřte, že je k dispozici přepis nebo rovnocenná zvuková stopa se stejnými informacemi.',
+    applicabilityAxeRuleIds: ['video-caption', 'audio-caption'],
+  },
+  {
+    id: 'captions-manual',
+    name: 'Prerecorded and live video has accurate captions',
+    wcag: ['1.2.2', '1.2.4'],
+    status: 'manual',
+    guidance: 'Přehrajte každé video se zvukem. Titulky musí být k dispozici, synchronizované a obsahovat všechny dialogy i podstatné zvuky (střídání mluvčích, hudbu, ruchy). Automaticky generované titulky je nutné zkontrolovat.',
+    applicabilityAxeRuleIds: ['video-caption'],
+  },
+  {
+    id: 'audio-description-manual',
+    name: 'Prerecorded video has audio description',
+    wcag: ['1.2.3', '1.2.5'],
+    status: 'manual',
+    guidance: 'Pusťte si každé video bez pohledu na obrazovku. Důležité vizuální informace (text v obraze, děj, změny scény) musí být popsány ve zvukové stopě nebo ve verzi s audiopopisem.',
+    applicabilityAxeRuleIds: ['video-caption'],
+  },
+  {
+    id: 'meaningful-sequence-manual',
+    name: 'Reading order matches the visual order',
+    wcag: ['1.3.2'],
+    status: 'manual',
+    guidance: 'Vypněte CSS nebo projděte stránku lineárně čtečkou obrazovky. Obsah musí dávat smysl; sloupce, karty a bloky přeskládané přes CSS (flex/grid order) se nesmí číst v jiném pořadí.',
+  },
+  {
+    id: 'sensory-characteristics-manual',
+    name: 'Instructions do not rely only on shape, position or sound',
+    wcag: ['1.3.3'],
+    status: 'manual',
+    guidance: 'Hledejte pokyny typu „klikněte na kulaté tlačítko“ nebo „viz rámeček vpravo“. Každý musí ovládací prvek pojmenovat i jeho viditelným textem nebo popiskem.',
+  },
+  {
+    id: 'use-of-color-manual',
+    name: 'Color is not the only means of conveying information',
+    wcag: ['1.4.1'],
+    status: 'manual',
+    guidance: 'Zobrazte stránku v odstínech šedi. Povinná pole, chyby, řady v grafech, odkazy v textu a stavové indikátory musí zůstat rozlišitelné textem, ikonou nebo vzorem.',
+  },
+  {
+    id: 'images-of-text-manual',
+    name: 'Text is not presented as an image',
+    wcag: ['1.4.5'],
+    status: 'manual',
+    guidance: 'Najděte bannery, tlačítka a nadpisy vykreslené jako obrázek. Pokud přesná podoba není nezbytná (např. logo), má jít o skutečný text stylovaný přes CSS.',
+  },
+  {
+    id: 'content-on-hover-manual',
+    name: 'Content on hover or focus is dismissible, hoverable and persistent',
+    wcag: ['1.4.13'],
+    status: 'manual',
+    guidance: 'Vyvolejte každý tooltip, podmenu a popover myší i klávesnicí. Musí jít zavřít klávesou Escape bez přesunu fokusu, zůstat otevřený po najetí ukazatelem na něj a nezmizet sám od sebe.',
+  },
+  {
+    id: 'timing-adjustable-manual',
+    name: 'Time limits can be turned off, adjusted or extended',
+    wcag: ['2.2.1'],
+    status: 'manual',
+    guidance: 'Zkontrolujte vypršení relace, odpočty a automaticky postupující kroky. Uživatel musí být před vypršením upozorněn a musí mít možnost jednoduchou akcí prodloužit čas alespoň desetkrát.',
+  },
+  {
+    id: 'three-flashes-manual',
+    name: 'No content flashes more than three times per second',
+    wcag: ['2.3.1'],
+    status: 'manual',
+    guidance: 'Projděte animace, videa a GIFy kvůli blikání a stroboskopickým efektům. Cokoli, co blikne více než třikrát za sekundu, musí být odstraněno nebo zůstat pod obecným i červeným prahem záblesků.',
+  },
+  {
+    id: 'multiple-ways-manual',
+    name: 'More than one way to locate a page',
+    wcag: ['2.4.5'],
+    status: 'manual',
+    guidance: 'Ověřte, že se na stránky dá dostat alespoň dvěma způsoby, např. hlavní navigací a vyhledáváním nebo mapou webu. Výjimkou jsou stránky, které jsou krokem procesu.',
+  },
+  {
+    id: 'headings-labels-descriptive-manual',
+    name: 'Headings and labels describe topic or purpose',
+    wcag: ['2.4.6'],
+    status: 'manual',
+    guidance: 'Přečtěte osnovu nadpisů a popisky formulářů samostatně. Každý musí popisovat sekci nebo očekávaný vstup; obecné texty jako „Info“ nebo „Pole 1“ nevyhovují.',
+  },
+  {
+    id: 'pointer-gestures-manual',
+    name: 'Multipoint and path-based gestures have a single-pointer alternative',
+    wcag: ['2.5.1', '2.5.2'],
+    status: 'manual',
+    guidance: 'Zkontrolujte mapy, posuvníky, karusely a plochy ovládané tažením. Gesta sevření, více prstů a tažení potřebují alternativu v podobě tlačítek nebo klepnutí a akce se musí spouštět až při uvolnění ukazatele (nebo jít zrušit).',
+  },
+  {
+    id: 'motion-actuation-manual',
+    name: 'Functions triggered by device motion can be operated otherwise',
+    wcag: ['2.5.4'],
+    status: 'manual',
+    guidance: 'Hledejte funkce ovládané zatřesením, naklopením nebo jiným pohybem zařízení. Každá potřebuje ovládací prvek na obrazovce a reakci na pohyb musí jít vypnout.',
+  },
+  {
+    id: 'consistent-navigation-manual',
+    name: 'Navigation is consistent across pages',
+    wcag: ['3.2.3'],
+    status: 'manual',
+    guidance: 'Porovnejte několik stránek. Opakované navigační bloky (menu v hlavičce, odkazy v patičce, drobečková navigace) musí být na každé stránce ve stejném relativním pořadí.',
+  },
+  {
+    id: 'consistent-identification-manual',
+    name: 'Components with the same function are identified consistently',
+    wcag: ['3.2.4'],
+    status: 'manual',
+    guidance: 'Porovnejte ikony, tlačítka a odkazy, které mají na různých stránkách stejnou funkci (hledat, tisk, stáhnout). Jejich popisky a textové alternativy musí být jednotné.',
+  },
+  {
+    id: 'consistent-help-manual',
+    name: 'Help mechanisms appear in a consistent location',
+    wcag: ['3.2.6'],
+    status: 'manual',
+    guidance: 'Pokud stránky nabízejí kontakt, chat nebo odkaz na nápovědu, ověřte, že je na každé stránce, kde se objevuje, ve stejném relativním pořadí.',
+  },
+  {
+    id: 'error-suggestion-manual',
+    name: 'Form errors suggest a correction',
+    wcag: ['3.3.3'],
+    status: 'manual',
+    guidance: 'Odešlete formuláře s neplatnými hodnotami (špatný e-mail, formát data, příliš krátké heslo). Chybová hláška musí vysvětlit, jak vstup opravit, nejen že je chybný.',
+    applicabilityAxeRuleIds: ['label', 'select-name'],
+  },
+  {
+    id: 'error-prevention-manual',
+    name: 'Legal, financial and data submissions can be reviewed or reversed',
+    wcag: ['3.3.4'],
+    status: 'manual',
+    guidance: 'U objednávek, plateb, smluv a mazání dat ověřte, že existuje krok s kontrolou a potvrzením, možnost opravit údaje před odesláním nebo možnost odeslání vrátit.',
+    applicabilityAxeRuleIds: ['label', 'select-name'],
+  },
+  {
+    id: 'redundant-entry-manual',
+    name: 'Previously entered information is not requested again',
+    wcag: ['3.3.7'],
+    status: 'manual',
+    guidance: 'Projděte vícekrokové procesy. Dříve zadané údaje (např. doručovací adresa) musí být předvyplněné nebo k výběru, ne zadávané znovu, pokud opakované zadání není nezbytné kvůli bezpečnosti.',
+    applicabilityAxeRuleIds: ['label', 'select-name'],
+  },
+  {
+    id: 'accessible-authentication-manual',
+    name: 'Login does not require a cognitive function test',
+    wcag: ['3.3.8'],
+    status: 'manual',
+    guidance: 'Zkontrolujte přihlášení a ověřovací kroky. Uživatel musí mít možnost heslo vložit ze schránky, použít správce hesel nebo alternativní metodu; hádanky a CAPTCHA s přepisem znaků potřebují přístupnou alternativu.',
+    applicabilityAxeRuleIds: ['label'],
+  },
 ];
 
 export function getActCoverageSummary(): {
@@ -0,0 +1,457 @@
+import { KeyInput, Page } from 'puppeteer-core';
+import { AccessibilityViolation, HumanReadableActionItem, ImpactLevel } from '../types';
+
+export interface CompositeWidgetKeysActResult {
+  violations: AccessibilityViolation[];
+  actionItems: HumanReadableActionItem[];
+}
+
+type CompositeRole = 'tablist' | 'menu' | 'menubar' | 'listbox' | 'grid' | 'radiogroup' | 'combobox';
+
+interface CompositeWidget {
+  index: number;
+  role: CompositeRole;
+  selector: string;
+  htmlSnippet: string;
+  label: string;
+  orientation: 'horizontal' | 'vertical';
+  // Menu otevřené spouštěcím tlačítkem (Escape ho má zavřít)
+  hasTrigger: boolean;
+  // Combobox s našeptávačem, jehož nabídka je zatím prázdná – šipku dolů netestujeme
+  skipOpen: boolean;
+}
+
+interface WidgetState {
+  // Index položky s fokusem (nebo aria-activedescendant), -1 pokud fokus není na položce
+  current: number;
+  row: number;
+  lastRow: number;
+  column: number;
+  lastColumn: number;
+  focusInside: boolean;
+  visible: boolean;
+  checked: number;
+  expanded: string | null;
+  activeDescendant: string | null;
+}
+
+interface WidgetFailure extends CompositeWidget {
+  failures: string[];
+}
+
+const ROLES: CompositeRole[] = ['tablist', 'menubar', 'menu', 'listbox', 'grid', 'radiogroup', 'combobox'];
+// Nálezy se hlásí po rolích – jedno ID pravidla na každou roli
+export const COMPOSITE_WIDGET_KEYS_RULE_IDS = ROLES.map((role) => `a11yflow-widget-keys-${role}`);
+const MAX_WIDGETS = 12;
+const MAX_PER_ROLE = 3;
+const KEY_DELAY_MS = 60;
+
+const ROLE_LABELS: Record<CompositeRole, string> = {
+  tablist: 'záložky (tablist)',
+  menu: 'menu',
+  menubar: 'lišta menu (menubar)',
+  listbox: 'seznam možností (listbox)',
+  grid: 'mřížka (grid)',
+  radiogroup: 'skupina přepínačů (radiogroup)',
+  combobox: 'combobox',
+};
+
+const APG_URLS: Record<CompositeRole, string> = {
+  tablist: 'https://www.w3.org/WAI/ARIA/apg/patterns/tabs/',
+  menu: 'https://www.w3.org/WAI/ARIA/apg/patterns/menubar/',
+  menubar: 'https://www.w3.org/WAI/ARIA/apg/patterns/menubar/',
+  listbox: 'https://www.w3.org/WAI/ARIA/apg/patterns/listbox/',
+  grid: 'https://www.w3.org/WAI/ARIA/apg/patterns/grid/',
+  radiogroup: 'https://www.w3.org/WAI/ARIA/apg/patterns/radio/',
+  combobox: 'https://www.w3.org/WAI/ARIA/apg/patterns/combobox/',
+};
+
+/**
+ * Custom test pro klávesové ovládání ARIA composite widgetů (WCAG 2.1.1 Keyboard).
+ *
+ * Logika:
+ * 1. Najde viditelné widgety s rolí tablist, menu, menubar, listbox, grid, radiogroup a combobox.
+ * 2. Fokusuje výchozí položku (vybraná záložka, položka s tabindex="0", zaškrtnutý přepínač …).
+ * 3. Stiskne klávesy, které podle ARIA Authoring Practices widget musí podporovat:
+ *    - šipky ve směru aria-orientation (další / předchozí položka),
+ *    - u radiogroup musí šipka přepínač i zaškrtnout,
+ *    - u grid šipky ve čtyřech směrech a Home / End v rámci řádku,
+ *    - Escape u menu se spouštěcím tlačítkem a u otevřeného comboboxu,
+ *    - šipku dolů u comboboxu (otevře nabídku nebo posune aria-activedescendant).
+ * 4. Hlásí widgety, které na klávesu nezareagovaly – jedno porušení za roli.
+ *
+ * Volitelné klávesy (Home / End mimo grid, typeahead) netestujeme.
+ */
+export async function runCompositeWidgetKeysActTest(
+  page: Page,
+  pageUrl: string,
+): Promise<CompositeWidgetKeysActResult | null> {
+  const widgets = await installWidgetProbe(page);
+  const failed: WidgetFailure[] = [];
+
+  try {
+    for (const widget of widgets) {
+      const failures = await testWidget(page, widget);
+      if (failures.length > 0) {
+        failed.push({ ...widget, failures });
+      }
+    }
+  } finally {
+    await page.evaluate(() => {
+      delete (globalThis as any).__a11yflowWidgetKeys;
+    }).catch(() => {});
+  }
+
+  if (failed.length === 0) {
+    return null;
+  }
+
+  const violations: AccessibilityViolation[] = [];
+  const actionItems: HumanReadableActionItem[] = [];
+  const impact: ImpactLevel = 'serious';
+
+  for (const role of ROLES) {
+    const roleFailures = failed.filter((w) => w.role === role);
+    if (roleFailures.length === 0) continue;
+
+    const violation: AccessibilityViolation = {
+      id: `a11yflow-widget-keys-${role}`,
+      title: `Widget role="${role}" nereaguje na klávesy podle ARIA APG`,
+      description:
+        `Komponenta ${ROLE_LABELS[role]} nepodporuje klávesy, které podle ARIA Authoring Practices očekávají uživatelé ` +
+        'klávesnice a čteček obrazovky. Bez nich se mezi položkami widgetu nedostanou.',
+      impact,
+      helpUrl: APG_URLS[role],
+      count: roleFailures.length,
+      suggestedFix:
+        'Doplňte obsluhu kláves podle vzoru APG (roving tabindex nebo aria-activedescendant), ' +
+        'případně použijte nativní prvek nebo ověřenou knihovnu komponent.',
+      nodes: roleFailures.map((w) => ({
+        html: w.htmlSnippet,
+        target: w.selector ? [w.selector] : [],
+        failureSummary: `role="${role}": ${w.failures.join('; ')}.`,
+        elementLabel: w.label || undefined,
+      })),
+    };
+    violations.push(violation);
+
+    actionItems.push({
+      id: violation.id,
+      impact,
+      priority: '🟠 Serious',
+      category: 'Navigation',
+      what: `Komponentu ${ROLE_LABELS[role]} nejde ovládat šipkami a dalšími klávesami, jak je u ní zvykem.`,
+      fix: `Implementujte klávesové ovládání podle ARIA APG (${APG_URLS[role]}).`,
+      exampleUrl: pageUrl,
+      exampleTarget: roleFailures[0].selector || undefined,
+      elementLabel: roleFailures[0].label || undefined,
+      wcagReference: '2.1.1 Keyboard',
+    });
+  }
+
+  return { violations, actionItems };
+}
+
+async function testWidget(page: Page, widget: CompositeWidget): Promise<string[]> {
+  const failures: string[] = [];
+
+  if (!(await focusStart(page, widget.index))) {
+    // Widget nejde fokusovat vůbec – dosažitelnost Tabem řeší jiné testy
+    return failures;
+  }
+
+  const [nextKey, prevKey]: KeyInput[] =
+    widget.orientation === 'horizontal' ? ['ArrowRight', 'ArrowLeft'] : ['ArrowDown', 'ArrowUp'];
+
+  if (widget.role === 'combobox') {
+    if (widget.skipOpen) return failures;
+
+    const start = await probe(page, widget.index);
+    const opened = await press(page, widget.index, 'ArrowDown');
+    const reacted =
+      opened.expanded === 'true' ||
+      (!!opened.activeDescendant && opened.activeDescendant !== start.activeDescendant) ||
+      (!opened.focusInside && opened.current >= 0);
+
+    if (!reacted) {
+      failures.push('ArrowDown neotevře nabídku ani nepřesune výběr');
+    } else if (opened.expanded === 'true') {
+      const closed = await press(page, widget.index, 'Escape');
+      if (closed.expanded === 'true') {
+        failures.push('Escape nezavře nabídku (aria-expanded zůstává "true")');
+      }
+    }
+    return failures;
+  }
+
+  if (widget.role === 'grid') {
+    const start = await probe(page, widget.index);
+    if (start.current < 0) return failures;
+
+    const right = await press(page, widget.index, 'ArrowRight');
+    if (start.lastColumn > 0 && (right.row !== start.row || right.column === start.column)) {
+      failures.push('ArrowRight nepřesune fokus na další buňku v řádku');
+    }
+    await press(page, widget.index, 'ArrowLeft');
+
+    if (start.row < start.lastRow) {
+      const down = await press(page, widget.index, 'ArrowDown');
+      if (down.row === start.row) {
+        failures.push('ArrowDown nepřesune fokus do dalšího řádku');
+      } else {
+        const up = await press(page, widget.index, 'ArrowUp');
+        if (up.row !== start.row) failures.push('ArrowUp nevrátí fokus do předchozího řádku');
+      }
+    }
+
+    if (start.lastColumn > 0) {
+      const end = await press(page, widget.index, 'End');
+      if (end.column !== end.lastColumn) failures.push('End nepřesune fokus na poslední buňku řádku');
+      const home = await press(page, widget.index, 'Home');
+      if (home.column !== 0) failures.push('Home nepřesune fokus na první buňku řádku');
+    }
+    return failures;
+  }
+
+  const start = await probe(page, widget.index);
+  const next = await press(page, widget.index, nextKey);
+
+  if (next.current < 0 || next.current === start.current) {
+    failures.push(`${nextKey} nepřesune fokus na další položku`);
+  } else {
+    if (widget.role === 'radiogroup' && next.checked !== next.current) {
+      failures.push(`${nextKey} přesune fokus, ale přepínač nezaškrtne`);
+    }
+    const prev = await press(page, widget.index, prevKey);
+    if (prev.current !== start.current) {
+      failures.push(`${prevKey} nevrátí fokus na předchozí položku`);
+    }
+  }
+
+  if (widget.role === 'menu' && widget.hasTrigger && (await focusStart(page, widget.index))) {
+    const escaped = await press(page, widget.index, 'Escape');
+    if (escaped.visible && escaped.focusInside) {
+      failures.push('Escape menu nezavře ani nevrátí fokus na spouštěcí tlačítko');
+    }
+  }
+
+  return failures;
+}
+
+async function press(page: Page, index: number, key: KeyInput): Promise<WidgetState> {
+  await page.keyboard.press(key);
+  await new Promise((r) => setTimeout(r, KEY_DELAY_MS));
+  return probe(page, index);
+}
+
+async function probe(page: Page, index: number): Promise<WidgetState> {
+  return page.evaluate((i: number) => (globalThis as any).__a11yflowWidgetKeys.state(i), index) as Promise<WidgetState>;
+}
+
+async function focusStart(page: Page, index: number): Promise<boolean> {
+  return page.evaluate((i: number) => (globalThis as any).__a11yflowWidgetKeys.focusStart(i), index) as Promise<boolean>;
+}
+
+/**
+ * Najde widgety a uloží do window pomocné funkce (položky, stav, výchozí fokus),
+ * aby je další page.evaluate volání nemusela duplikovat.
+ */
+async function installWidgetProbe(page: Page): Promise<CompositeWidget[]> {
+  return page.evaluate(
+    (roles: string[], maxWidgets: number, maxPerRole: number) => {
+      const d = (globalThis as any).document as any;
+      const w = globalThis as any;
+      if (!d || !d.body) return [] as any[];
+
+      const makeSelector = (el: any): string => {
+        if (!el) return '';
+        const tag = (el.tagName || 'div').toLowerCase();
+        if (el.id) return `${tag}#${el.id}`;
+        const className = el.className;
+        if (className && typeof className === 'string') {
+          const cls = className
+            .split(/\s+/)
+            .filter(Boolean)
+            .slice(0, 2)
+            .map((c: string) => `.${c}`)
+            .join('');
+          if (cls) return `${tag}${cls}`;
+        }
+        return tag;
+      };
+
+      const isVisible = (el: any): boolean => {
+        const rect = el.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) return false;
+        const style = w.getComputedStyle(el);
+        return style.visibility !== 'hidden' && style.display !== 'none';
+      };
+
+      const ITEM_SELECTORS: Record<string, string> = {
+        tablist: '[role="tab"]',
+        menu: '[role="menuitem"], [role="menuitemcheckbox"], [role="menuitemradio"]',
+        menubar: '[role="menuitem"], [role="menuitemcheckbox"], [role="menuitemradio"]',
+        listbox: '[role="option"]',
+        radiogroup: '[role="radio"], input[type="radio"]',
+        grid: '[role="gridcell"], [role="columnheader"], [role="rowheader"]',
+        combobox: '[role="option"]',
+      };
+      const OWNER_SELECTOR = '[role="tablist"], [role="menu"], [role="menubar"], [role="listbox"], [role="grid"], [role="radiogroup"]';
+
+      const widgets: any[] = [];
+      const records: any[] = [];
+
+      // Položky patřící přímo widgetu (ne vnořenému podmenu)
+      const itemsOf = (record: any): any[] => {
+        if (record.role === 'combobox') {
+          const popup = record.popup();
+          return popup ? (Array.from(popup.querySelectorAll('[role="option"]')) as any[]).filter(isVisible) : [];
+        }
+        return (Array.from(record.el.querySelectorAll(ITEM_SELECTORS[record.role])) as any[]).filter(
+          (item) => item.closest(OWNER_SELECTOR) === record.el && isVisible(item),
+        );
+      };
+
+      const currentTarget = (): any => {
+        const active = d.activeElement;
+        if (!active) return null;
+        const descendantId = active.getAttribute && active.getAttribute('aria-activedescendant');
+        return (descendantId && d.getElementById(descendantId)) || active;
+      };
+
+      const isChecked = (item: any) => item.getAttribute('aria-checked') === 'true' || item.checked === true;
+
+      const state = (index: number) => {
+        const record = records[index];
+        const el = record.el;
+        const items = itemsOf(record);
+        const target = currentTarget();
+        const active = d.activeElement;
+        const result: any = {
+          current: items.findIndex((item) => item === target || (target && item.contains(target))),
+          row: -1,
+          lastRow: -1,
+          column: -1,
+          lastColumn: -1,
+          focusInside: !!active && (el === active || el.contains(active)),
+          visible: isVisible(el),
+          checked: items.findIndex(isChecked),
+          expanded: record.role === 'combobox' ? record.focusable().getAttribute('aria-expanded') : null,
+          activeDescendant: active && active.getAttribute ? active.getAttribute('aria-activedescendant') : null,
+        };
+
+        if (record.role === 'grid' && result.current >= 0) {
+          const cell = items[result.current];
+          const rows = (Array.from(el.querySelectorAll('[role="row"]')) as any[]).filter(
+            (row) => row.closest('[role="grid"]') === el && isVisible(row),
+          );
+          const row = cell.closest('[role="row"]');
+          const rowCells = items.filter((item) => item.closest('[role="row"]') === row);
+          result.row = rows.indexOf(row);
+          result.lastRow = rows.length - 1;
+          result.column = rowCells.indexOf(cell);
+          result.lastColumn = rowCells.length - 1;
+        }
+
+        return result;
+      };
+
+      const focusStart = (index: number): boolean => {
+        const record = records[index];
+        const el = record.el;
+        let target: any = null;
+
+        if (record.role === 'combobox') {
+          target = record.focusable();
+        } else {
+          const items = itemsOf(record);
+          const roving = items.find((item) => item.getAttribute('tabindex') === '0');
+          const selected = items.find((item) => item.getAttribute('aria-selected') === 'true' || isChecked(item));
+          if (record.role === 'grid') {
+            target = el.querySelector('[tabindex="0"]') || (el.hasAttribute('tabindex') ? el : items[0]);
+          } else if (record.role === 'listbox' && !items.some((item) => item.hasAttribute('tabindex'))) {
+            // Vzor aria-activedescendant – fokus zůstává na listboxu
+            target = el;
+          } else {
+            target = selected || roving || items[0];
+          }
+        }
+
+        if (!target || typeof target.focus !== 'function') return false;
+        target.focus();
+        const active = d.activeElement;
+        return !!active && active !== d.body && (el === active || el.contains(active));
+      };
+
+      for (const role of roles) {
+        let perRole = 0;
+        for (const el of Array.from(d.querySelectorAll(`[role="${role}"]`)) as any[]) {
+          if (widgets.length >= maxWidgets || perRole >= maxPerRole) break;
+          if (el.tagName === 'SELECT' || el.closest('[aria-hidden="true"], [inert], [hidden]')) continue;
+          if (!isVisible(el)) continue;
+
+          const record: any = { el, role };
+          record.focusable = () =>
+            ['INPUT', 'TEXTAREA'].includes(el.tagName) ? el : el.querySelector('input, textarea') || el;
+          record.popup = () => {
+            const input = record.focusable();
+            const ids = `${input.getAttribute('aria-controls') || ''} ${el.getAttribute('aria-owns') || ''}`
+              .split(/\s+/)
+              .filter(Boolean);
+            return ids.map((id) => d.getElementById(id)).find(Boolean) || null;
+          };
+
+          let skipOpen = false;
+          if (role === 'combobox') {
+            const autocomplete = record.focusable().getAttribute('aria-autocomplete');
+            const popup = record.popup();
+            skipOpen =
+              (autocomplete === 'list' || autocomplete === 'both') &&
+              (!popup || popup.querySelectorAll('[role="option"]').length === 0);
+          } else if (itemsOf(record).length < 2) {
+            continue;
+          }
+
+          let hasTrigger = false;
+          if (role === 'menu') {
+            const prev = el.previousElementSibling;
+            hasTrigger =
+              (!!el.id && !!d.querySelector(`[aria-controls="${el.id}"]`)) ||
+              !!(prev && prev.matches('[aria-haspopup]'));
+          }
+
+          const orientationAttr = el.getAttribute('aria-orientation');
+          const defaultOrientation = role === 'tablist' || role === 'menubar' ? 'horizontal' : 'vertical';
+          const label = String(
+            el.getAttribute('aria-label') ||
+              (el.getAttribute('aria-labelledby') &&
+                (d.getElementById(el.getAttribute('aria-labelledby').split(/\s+/)[0]) || {}).textContent) ||
+              '',
+          )
+            .replace(/\s+/g, ' ')
+            .trim()
+            .slice(0, 80);
+
+          records.push(record);
+          widgets.push({
+            index: records.length - 1,
+            role,
+            selector: makeSelector(el),
+            htmlSnippet: String(el.outerHTML || '').slice(0, 300),
+            label,
+            orientation: orientationAttr === 'horizontal' || orientationAttr === 'vertical' ? orientationAttr : defaultOrientation,
+            hasTrigger,
+            skipOpen,
+          });
+          perRole++;
+        }
+      }
+
+      w.__a11yflowWidgetKeys = { state, focusStart };
+      return widgets;
+    },
+    ROLES,
+    MAX_WIDGETS,
+    MAX_PER_ROLE,
+  ) as Promise<CompositeWidget[]>;
+}
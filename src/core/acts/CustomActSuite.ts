@@ -1,6 +1,9 @@
 import { Page } from 'puppeteer-core';
-import { AccessibilityViolation, HumanReadableActionItem } from '../types';
-import { runFocusOrderActTest } from './FocusOrder';
+import { createRequire } from 'module';
+import * as path from 'path';
+import { AccessibilityViolation, CustomActRun, HumanReadableActionItem, RuleOutcome } from '../types';
+import { ActRuleDescriptor, ActRuleRegistry } from './ActRuleRegistry';
+import { FOCUS_ORDER_RULE_IDS, runFocusOrderActTest } from './FocusOrder';
 import { runLandmarksActTest } from './Landmarks';
 import { runSkipLinkActTest } from './SkipLink';
 import { runModalFocusActTest } from './ModalFocus';
@@ -10,31 +13,114 @@ import { runOrientationLockActTest } from './OrientationLock';
 import { runAutoplayMediaActTest } from './AutoplayMedia';
 import { runFormErrorsActTest } from './FormErrors';
 import { runSuspiciousAltTextTest } from './SuspiciousAltText';
+import { DISPLAY_PROFILE_RULE_IDS, runDisplayProfileActTest } from './DisplayProfile';
+import { REFLOW_RULE_IDS, runReflowActTest } from './Reflow';
+import { runTextSpacingActTest } from './TextSpacing';
+import { TARGET_SIZE_RULE_IDS, runTargetSizeActTest } from './TargetSize';
+import { runDraggingMovementsActTest } from './DraggingMovements';
+import { COMPOSITE_WIDGET_KEYS_RULE_IDS, runCompositeWidgetKeysActTest } from './CompositeWidgetKeys';
 
 export interface CustomActSuiteResult {
   violations: AccessibilityViolation[];
   actionItems: HumanReadableActionItem[];
   pageDimensions?: { width: number; height: number };
+  // Testy, které doběhly bez nálezu (plní jen runCustomActSuite, ne jednotlivé testy)
+  passes?: RuleOutcome[];
+  // Telemetrie běhu všech registrovaných testů (plní jen runCustomActSuite)
+  runs?: CustomActRun[];
 }
 
+/**
+ * Izolace testů, které mění stránku (viewport, focus, odeslaný formulář):
+ * - 'restore' – po testu s mutatesPage i po spadlém testu vrátí jen viewport, URL, scroll a focus;
+ *               testy s mutatesPage běží až po ostatních a stránka se znovu načte jednou,
+ *               po posledním z nich (změny DOM jinak přežijí) (výchozí)
+ * - 'reload'  – stránku znovu načte po každém takovém testu
+ * - 'none'    – nic neobnovuje (rychlejší, testy se mohou ovlivňovat)
+ */
+export type CustomActIsolation = 'none' | 'restore' | 'reload';
+
 export interface CustomActSuiteOptions {
   enabledTests?: string[]; // IDs testů, které se mají spustit (pokud není, použije se default sada)
+  // Přepis výchozích options jednotlivých testů: { "ds-button-size": { minSize: 48 } }
+  testOptions?: Record<string, Record<string, unknown>>;
+  // Výchozí limit na jeden test; test ho může přepsat vlastním timeoutMs
+  timeoutMs?: number;
+  isolation?: CustomActIsolation;
+  // Volá se před spuštěním každého testu (např. pro přiřazení změn na stránce k testu)
+  onTestStart?: (testId: string, restylesPage: boolean) => void;
+  // Volá se po každém znovunačtení stránky (např. znovu zavřít cookie lištu)
+  onPageReload?: (page: Page) => Promise<void>;
+  // Stránka pro testy s mutatesPage (checkpoint user flow – stránka průchodu se nesmí změnit).
+  // Volá se až před prvním takovým testem; když selže, tyto testy skončí jako 'errored'.
+  mutatingPage?: () => Promise<Page>;
 }
 
-interface RegisteredActTest {
+export interface RegisteredActTest {
   id: string;
   label: string;
   // Funkce, která provede test a vrátí buď nálezy, nebo null, pokud je vše v pořádku
-  run: (page: Page, url: string) => Promise<CustomActSuiteResult | null>;
+  run: (page: Page, url: string, options: Record<string, unknown>) => Promise<CustomActSuiteResult | null>;
   defaultEnabled: boolean;
+  // Výchozí options testu (CustomActSuiteOptions.testOptions je přepisuje)
+  options?: Record<string, unknown>;
+  // Rule pack, ze kterého test pochází (u vestavěných testů chybí)
+  packId?: string;
+  timeoutMs?: number;
+  // Test mění stav stránky – po něm se uplatní izolace
+  mutatesPage?: boolean;
+  // Test přestyluje celou stránku (viewport, velikost písma, rozestupy) – změny DOM
+  // během něj nejsou reakcí stránky na uživatele
+  restylesPage?: boolean;
+  // Pevná sada ID pravidel, pod kterými test hlásí nálezy (výchozí [`a11yflow-<id>`]).
+  // Pravidlo bez nálezu dostane pass, takže testcase v JUnit/TAP mezi běhy nemizí.
+  ruleIds?: string[];
+}
+
+/**
+ * Externí balík pravidel – modul exportuje objekt tohoto tvaru
+ * (jako `default`, `pack` nebo přímo module.exports).
+ */
+export interface ActRulePack {
+  id: string;
+  name?: string;
+  version?: string;
+  description?: string;
+  // Výchozí stav pro testy, které defaultEnabled neuvádí (default true)
+  defaultEnabled?: boolean;
+  tests: Array<Omit<RegisteredActTest, 'defaultEnabled' | 'packId'> & { defaultEnabled?: boolean }>;
+  // Popis pravidel pro ActRuleRegistry (WCAG mapování, coverage)
+  rules?: ActRuleDescriptor[];
 }
 
+export interface ActRulePackInfo {
+  id: string;
+  name?: string;
+  version?: string;
+  description?: string;
+  testIds: string[];
+  ruleIds: string[];
+}
+
+const TEST_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+const RULE_ID_PATTERN = /^a11yflow-[a-z0-9][a-z0-9-]*$/;
+
+const DEFAULT_TEST_TIMEOUT_MS = 15000;
+// Jak dlouho po odstřižení stránky čekáme, než přerušený test doběhne
+const TIMEOUT_GRACE_MS = 5000;
+
+const REGISTERED_PACKS: ActRulePackInfo[] = [];
+
 const REGISTERED_TESTS: RegisteredActTest[] = [
   {
     id: 'focus-order',
     label: 'Keyboard focus order / traps',
     run: runFocusOrderActTest,
     defaultEnabled: true,
+    // Kliká do stránky a posouvá focus
+    mutatesPage: true,
+    timeoutMs: 30000,
+    ruleIds: FOCUS_ORDER_RULE_IDS,
   },
   {
     id: 'landmarks',
@@ -65,6 +151,9 @@ const REGISTERED_TESTS: RegisteredActTest[] = [
     label: 'Form error handling and announcements',
     run: runFormErrorsActTest,
     defaultEnabled: true,
+    // Odesílá formuláře – může přesměrovat nebo změnit DOM
+    mutatesPage: true,
+    timeoutMs: 30000,
   },
   {
     id: 'suspicious-alt',
@@ -83,6 +172,9 @@ const REGISTERED_TESTS: RegisteredActTest[] = [
     label: 'Orientation lock (CSS transform)',
     run: runOrientationLockActTest,
     defaultEnabled: true,
+    // Přepíná viewport
+    mutatesPage: true,
+    restylesPage: true,
   },
   {
     id: 'autoplay-media',
@@ -90,6 +182,55 @@ const REGISTERED_TESTS: RegisteredActTest[] = [
     run: runAutoplayMediaActTest,
     defaultEnabled: true,
   },
+  {
+    id: 'reflow',
+    label: 'Reflow at 320 CSS px and 200% text size',
+    run: runReflowActTest,
+    defaultEnabled: true,
+    // Přepíná viewport a velikost písma
+    mutatesPage: true,
+    restylesPage: true,
+    timeoutMs: 30000,
+    ruleIds: REFLOW_RULE_IDS,
+  },
+  {
+    id: 'text-spacing',
+    label: 'Text spacing override (line height, letter, word and paragraph spacing)',
+    run: runTextSpacingActTest,
+    defaultEnabled: true,
+    restylesPage: true,
+  },
+  {
+    id: 'target-size',
+    label: 'Target size (24 × 24 px, 44 × 44 px on touch profiles) with spacing exception',
+    run: runTargetSizeActTest,
+    defaultEnabled: true,
+    ruleIds: TARGET_SIZE_RULE_IDS,
+  },
+  {
+    id: 'dragging-movements',
+    label: 'Drag-only widgets without a single-pointer alternative',
+    run: runDraggingMovementsActTest,
+    defaultEnabled: true,
+  },
+  {
+    id: 'composite-widget-keys',
+    label: 'Arrow / Home / End / Escape keys in ARIA composite widgets (APG patterns)',
+    run: runCompositeWidgetKeysActTest,
+    defaultEnabled: true,
+    // Šipky přepínají záložky, zaškrtávají přepínače a otevírají nabídky
+    mutatesPage: true,
+    timeoutMs: 30000,
+    ruleIds: COMPOSITE_WIDGET_KEYS_RULE_IDS,
+  },
+  {
+    id: 'display-profile',
+    label: 'Content lost under colour-vision, forced-colors or dark-mode profiles',
+    run: runDisplayProfileActTest,
+    // Zapíná ho WebScanner u profilů zobrazení (options.profile), jinak nemá co kontrolovat
+    defaultEnabled: false,
+    ruleIds: DISPLAY_PROFILE_RULE_IDS,
+  },
 ];
 
 export async function runCustomActSuite(
@@ -98,17 +239,191 @@ export async function runCustomActSuite(
   options: CustomActSuiteOptions = {},
 ): Promise<CustomActSuiteResult> {
   const enabledTestIds = resolveEnabledTestIds(options);
-  const { violations, actionItems, pageDimensions } = await runRegisteredTests(page, url, enabledTestIds);
+  const { violations, actionItems, pageDimensions, passes, runs } = await runRegisteredTests(
+    page,
+    url,
+    enabledTestIds,
+    options,
+  );
 
   return {
     violations,
     actionItems,
-    pageDimensions
+    pageDimensions,
+    passes,
+    runs
+  };
+}
+
+export function listCustomActTests(): { id: string; label: string; defaultEnabled: boolean; packId?: string; ruleIds: string[] }[] {
+  return REGISTERED_TESTS.map((t) => ({
+    id: t.id,
+    label: t.label,
+    defaultEnabled: t.defaultEnabled,
+    packId: t.packId,
+    ruleIds: ruleIdsOf(t),
+  }));
+}
+
+export function listActRulePacks(): ActRulePackInfo[] {
+  return REGISTERED_PACKS.map((p) => ({ ...p, testIds: [...p.testIds], ruleIds: [...p.ruleIds] }));
+}
+
+/**
+ * Zaregistruje jeden custom ACT test. ID musí být unikátní – přepsání
+ * vestavěného testu by tiše změnilo výsledky existujících reportů.
+ */
+export function registerCustomActTest(test: RegisteredActTest): void {
+  if (!test || typeof test !== 'object') {
+    throw new Error('Invalid custom ACT test: expected an object');
+  }
+  if (typeof test.id !== 'string' || !TEST_ID_PATTERN.test(test.id)) {
+    throw new Error(`Invalid custom ACT test: id "${String(test.id)}" must be lowercase kebab-case`);
+  }
+  if (REGISTERED_TESTS.some((t) => t.id === test.id)) {
+    throw new Error(`Invalid custom ACT test: duplicate id "${test.id}"`);
+  }
+  if (typeof test.label !== 'string' || test.label.length === 0) {
+    throw new Error(`Invalid custom ACT test "${test.id}": "label" must be a non-empty string`);
+  }
+  if (typeof test.run !== 'function') {
+    throw new Error(`Invalid custom ACT test "${test.id}": "run" must be a function`);
+  }
+  if (test.options !== undefined && (typeof test.options !== 'object' || test.options === null || Array.isArray(test.options))) {
+    throw new Error(`Invalid custom ACT test "${test.id}": "options" must be an object`);
+  }
+  if (test.timeoutMs !== undefined && !(Number.isFinite(test.timeoutMs) && test.timeoutMs > 0)) {
+    throw new Error(`Invalid custom ACT test "${test.id}": "timeoutMs" must be a positive number`);
+  }
+  if (
+    test.ruleIds !== undefined &&
+    (!Array.isArray(test.ruleIds) || test.ruleIds.length === 0 || !test.ruleIds.every((id) => typeof id === 'string' && RULE_ID_PATTERN.test(id)))
+  ) {
+    throw new Error(`Invalid custom ACT test "${test.id}": "ruleIds" must be a non-empty array of "a11yflow-*" ids`);
+  }
+
+  REGISTERED_TESTS.push({
+    id: test.id,
+    label: test.label,
+    run: test.run,
+    defaultEnabled: test.defaultEnabled !== false,
+    options: test.options,
+    packId: test.packId,
+    timeoutMs: test.timeoutMs,
+    mutatesPage: test.mutatesPage,
+    restylesPage: test.restylesPage,
+    ruleIds: test.ruleIds ? [...new Set(test.ruleIds)] : undefined,
+  });
+}
+
+/**
+ * Zaregistruje celý rule pack: testy do suite, popisy pravidel do ActRuleRegistry.
+ * Validuje vše předem, takže chybný pack nezanechá nic napůl zaregistrovaného.
+ */
+export function registerActRulePack(pack: ActRulePack): ActRulePackInfo {
+  if (!pack || typeof pack !== 'object') {
+    throw new Error('Invalid ACT rule pack: expected an object');
+  }
+  if (typeof pack.id !== 'string' || !TEST_ID_PATTERN.test(pack.id)) {
+    throw new Error(`Invalid ACT rule pack: id "${String(pack.id)}" must be lowercase kebab-case`);
+  }
+  if (REGISTERED_PACKS.some((p) => p.id === pack.id)) {
+    throw new Error(`Invalid ACT rule pack: pack "${pack.id}" is already registered`);
+  }
+  if (!Array.isArray(pack.tests)) {
+    throw new Error(`Invalid ACT rule pack "${pack.id}": "tests" must be an array`);
+  }
+
+  const rules = pack.rules || [];
+  if (!Array.isArray(rules)) {
+    throw new Error(`Invalid ACT rule pack "${pack.id}": "rules" must be an array`);
+  }
+
+  const testIds = pack.tests.map((t) => t && t.id);
+  const duplicateTest = testIds.find(
+    (id, index) => testIds.indexOf(id) !== index || REGISTERED_TESTS.some((t) => t.id === id),
+  );
+  if (duplicateTest) {
+    throw new Error(`Invalid ACT rule pack "${pack.id}": duplicate test id "${duplicateTest}"`);
+  }
+
+  for (const rule of rules) {
+    if (!rule || typeof rule.id !== 'string' || typeof rule.name !== 'string' || !Array.isArray(rule.wcag)) {
+      throw new Error(`Invalid ACT rule pack "${pack.id}": rules need "id", "name" and "wcag"`);
+    }
+    if (ActRuleRegistry.some((r) => r.id === rule.id)) {
+      throw new Error(`Invalid ACT rule pack "${pack.id}": duplicate rule id "${rule.id}"`);
+    }
+    if (rule.ruleIds !== undefined && (!Array.isArray(rule.ruleIds) || !rule.ruleIds.every((id) => RULE_ID_PATTERN.test(id)))) {
+      throw new Error(`Invalid ACT rule pack "${pack.id}": rule "${rule.id}" has invalid "ruleIds" (expected "a11yflow-*" ids)`);
+    }
+    const unknownTest = (rule.customTests || []).find((id) => !testIds.includes(id) && !REGISTERED_TESTS.some((t) => t.id === id));
+    if (unknownTest) {
+      throw new Error(`Invalid ACT rule pack "${pack.id}": rule "${rule.id}" references unknown test "${unknownTest}"`);
+    }
+  }
+
+  // Chybný test uprostřed packu vrátí registraci do původního stavu
+  const prepared = pack.tests.map((test): RegisteredActTest => ({
+    ...test,
+    defaultEnabled: test.defaultEnabled ?? pack.defaultEnabled ?? true,
+    packId: pack.id,
+  }));
+  const registeredBefore = REGISTERED_TESTS.length;
+  try {
+    prepared.forEach(registerCustomActTest);
+  } catch (error) {
+    REGISTERED_TESTS.splice(registeredBefore);
+    throw error;
+  }
+
+  ActRuleRegistry.push(...rules);
+
+  const info: ActRulePackInfo = {
+    id: pack.id,
+    name: pack.name,
+    version: pack.version,
+    description: pack.description,
+    testIds: prepared.map((t) => t.id),
+    ruleIds: rules.map((r) => r.id),
   };
+  REGISTERED_PACKS.push(info);
+
+  console.log(`[CustomACT] Registered rule pack "${pack.id}" (${info.testIds.length} tests, ${info.ruleIds.length} rules)`);
+  return info;
 }
 
-export function listCustomActTests(): { id: string; label: string }[] {
-  return REGISTERED_TESTS.map((t) => ({ id: t.id, label: t.label }));
+/**
+ * Načte rule pack z modulu (cesta k souboru nebo název npm balíčku).
+ * Cesty i balíčky se resolvují vůči aktuálnímu pracovnímu adresáři, ne vůči instalaci A11y-Flow.
+ */
+export function loadActRulePack(modulePath: string): ActRulePackInfo {
+  let loaded: unknown;
+  try {
+    loaded = createRequire(path.join(process.cwd(), 'noop.js'))(modulePath);
+  } catch (error) {
+    throw new Error(`Invalid ACT rule pack "${modulePath}": cannot load module (${error instanceof Error ? error.message : error})`);
+  }
+
+  const exports = isObject(loaded) ? [loaded.default, loaded.pack, loaded] : [];
+  const pack = exports.find(isActRulePack);
+  if (!pack) {
+    throw new Error(`Invalid ACT rule pack "${modulePath}": module does not export a pack with "id" and "tests"`);
+  }
+  return registerActRulePack(pack);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object';
+}
+
+// Jen tvar exportu – obsah packu validuje registerActRulePack
+function isActRulePack(value: unknown): value is ActRulePack {
+  return isObject(value) && typeof value.id === 'string' && Array.isArray(value.tests);
+}
+
+function ruleIdsOf(test: RegisteredActTest): string[] {
+  return test.ruleIds && test.ruleIds.length > 0 ? [...test.ruleIds] : [`a11yflow-${test.id}`];
 }
 
 function resolveEnabledTestIds(options: CustomActSuiteOptions): Set<string> {
@@ -129,41 +444,226 @@ async function runRegisteredTests(
   page: Page,
   url: string,
   enabledTestIds: Set<string>,
+  options: CustomActSuiteOptions,
 ): Promise<CustomActSuiteResult> {
   const allViolations: AccessibilityViolation[] = [];
   const allActionItems: HumanReadableActionItem[] = [];
+  const passes: RuleOutcome[] = [];
+  const runs: CustomActRun[] = [];
   let pageDimensions: { width: number; height: number } | undefined;
 
+  const isolation = options.isolation || 'restore';
+  const testOptions = options.testOptions || {};
+  // Snapshot bereme i bez izolace – po timeoutu stránku resetujeme vždy
+  const snapshot = await capturePageState(page);
+  // Přerušené testy, které po resetu stránky ještě neskončily
+  let stragglers = 0;
+  // Stránky, které se po změně nepodařilo vrátit do výchozího stavu
+  const tainted = new Set<Page>();
+
+  let separate: Promise<{ page: Page; snapshot: PageStateSnapshot | null }> | undefined;
+  const { mutatingPage } = options;
+  const targetOf = async (test: RegisteredActTest) => {
+    if (!test.mutatesPage || !mutatingPage) return { page, snapshot };
+    separate ??= mutatingPage().then(async (opened) => ({ page: opened, snapshot: await capturePageState(opened) }));
+    return separate;
+  };
+
   for (const test of REGISTERED_TESTS) {
-    if (!enabledTestIds.has(test.id)) {
+    runs.push({
+      testId: test.id,
+      label: test.label,
+      packId: test.packId,
+      status: 'skipped',
+      durationMs: 0,
+      violationCount: 0,
+      ruleIds: ruleIdsOf(test),
+    });
+  }
+
+  // Testy, které stránku mění, až po ostatních – ty tak vidí stránku i se stavy
+  // z exploreDynamicStates a výchozí izolace ji znovu načte jen po posledním z nich
+  const enabled = REGISTERED_TESTS.filter((test) => enabledTestIds.has(test.id));
+  const ordered = [...enabled.filter((test) => !test.mutatesPage), ...enabled.filter((test) => test.mutatesPage)];
+  const lastMutating = ordered.filter((test) => test.mutatesPage).pop();
+
+  for (const test of ordered) {
+    const run = runs[REGISTERED_TESTS.indexOf(test)];
+
+    let target: { page: Page; snapshot: PageStateSnapshot | null };
+    try {
+      target = await targetOf(test);
+    } catch (error) {
+      run.status = 'errored';
+      run.error = `Cannot open a separate page: ${error instanceof Error ? error.message : String(error)}`;
+      console.warn('[CustomACT] Test errored:', test.id, run.error);
       continue;
     }
 
+    const timeoutMs = test.timeoutMs || options.timeoutMs || DEFAULT_TEST_TIMEOUT_MS;
+    const startedAt = Date.now();
+    options.onTestStart?.(test.id, !!test.restylesPage);
+
+    // Přerušený test může stále mačkat klávesy nebo měnit DOM, neobnovená stránka nese změny
+    // předchozího testu – výsledek by nebyl čistý
+    if (stragglers > 0 || tainted.has(target.page)) run.unreliable = true;
+
+    // Synchronní výjimka nebo neasynchronní run z rule packu nesmí shodit celou sadu
+    const execution = Promise.resolve().then(() => test.run(target.page, url, { ...test.options, ...testOptions[test.id] }));
     try {
-      const result = await test.run(page, url);
-      if (!result) {
-        continue;
+      const result = await withTimeout(execution, timeoutMs);
+      run.durationMs = Date.now() - startedAt;
+      run.violationCount = result?.violations?.length || 0;
+      run.status = run.violationCount > 0 ? 'failed' : 'passed';
+
+      // Pass pro každé deklarované pravidlo bez nálezu – i když test selhal na jiném.
+      // Nespolehlivému běhu pass nevěříme.
+      const failedIds = new Set((result?.violations || []).map((v) => v.id));
+      for (const ruleId of run.ruleIds) {
+        if (!failedIds.has(ruleId) && !run.unreliable) passes.push({ id: ruleId, title: test.label, nodeCount: 0 });
+      }
+      const undeclared = [...failedIds].filter((id) => !run.ruleIds.includes(id));
+      if (undeclared.length > 0) {
+        console.warn(`[CustomACT] Test ${test.id} reported undeclared rule ids:`, undeclared.join(', '));
       }
 
-      if (Array.isArray(result.violations)) {
-        allViolations.push(...result.violations);
+      if (result) {
+        if (Array.isArray(result.violations)) {
+          allViolations.push(...result.violations);
+        }
+
+        if (Array.isArray(result.actionItems)) {
+          allActionItems.push(...result.actionItems);
+        }
+
+        if ('pageDimensions' in result && result.pageDimensions) {
+          pageDimensions = result.pageDimensions;
+        }
       }
+    } catch (error) {
+      run.durationMs = Date.now() - startedAt;
+      run.error = error instanceof Error ? error.message : String(error);
+      run.status = error instanceof ActTestTimeoutError ? 'timed-out' : 'errored';
+      console.warn(`[CustomACT] Test ${run.status}:`, test.id, run.error);
+    }
 
-      if (Array.isArray(result.actionItems)) {
-        allActionItems.push(...result.actionItems);
+    if (run.status === 'timed-out') {
+      // Promise.race test nezastaví – odstřihneme ho od stránky a počkáme, až doběhne
+      run.unreliable = true;
+      const settled = await stopTimedOutTest(target.page, execution);
+      if (!settled) {
+        stragglers++;
+        execution.then(() => stragglers--, () => stragglers--);
+        console.warn(`[CustomACT] Test ${test.id} is still running after reset, following results are unreliable`);
       }
-      
-      if ('pageDimensions' in result && result.pageDimensions) {
-        pageDimensions = result.pageDimensions;
+      if (target.snapshot) {
+        run.restored = await restorePageState(target.page, target.snapshot, true, options.onPageReload);
       }
-    } catch (error) {
-      console.warn('[CustomACT] Test failed:', test.id, error);
+      if (!run.restored) tainted.add(target.page);
+      continue;
+    }
+
+    // Po testu, který stránku mění, nebo po spadlém testu vrátíme stránku do výchozího stavu.
+    // Odeslaný formulář nebo přepnutá záložka URL nezmění – vrátí je jen nové načtení,
+    // které stačí po posledním testu s mutatesPage (oddělenou stránku checkpointu pak zavíráme).
+    if (isolation !== 'none' && (test.mutatesPage || run.status === 'errored')) {
+      const reload = isolation === 'reload' || (test === lastMutating && target.page === page);
+      if (target.snapshot) {
+        run.restored = await restorePageState(target.page, target.snapshot, reload, options.onPageReload);
+      }
+      if (!run.restored) tainted.add(target.page);
     }
   }
 
   return {
     violations: allViolations,
     actionItems: allActionItems,
-    pageDimensions
+    pageDimensions,
+    passes,
+    runs
   };
 }
+
+class ActTestTimeoutError extends Error {}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ActTestTimeoutError(`Timed out after ${timeoutMs} ms`)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Přerušený test běží dál na stránce. Navigace na about:blank zruší jeho
+ * rozpracované evaluate/waitFor a test obvykle brzy skončí chybou; pak teprve
+ * stránku obnovíme. Vrací false, pokud test ani po grace periodě neskončil.
+ */
+async function stopTimedOutTest(page: Page, execution: Promise<unknown>): Promise<boolean> {
+  try {
+    await page.goto('about:blank', { timeout: TIMEOUT_GRACE_MS });
+  } catch (error) {
+    console.warn('[CustomACT] Cannot detach timed-out test from the page:', error);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const grace = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), TIMEOUT_GRACE_MS);
+  });
+  const settled = execution.then(() => true, () => true);
+
+  return Promise.race([settled, grace]).finally(() => clearTimeout(timer));
+}
+
+interface PageStateSnapshot {
+  url: string;
+  viewport: ReturnType<Page['viewport']>;
+  scrollX: number;
+  scrollY: number;
+}
+
+async function capturePageState(page: Page): Promise<PageStateSnapshot | null> {
+  try {
+    const scroll = await page.evaluate(() => ({ x: window.scrollX, y: window.scrollY }));
+    return { url: page.url(), viewport: page.viewport(), scrollX: scroll.x, scrollY: scroll.y };
+  } catch (error) {
+    console.warn('[CustomACT] Cannot capture page state, results after a page-changing test are unreliable:', error);
+    return null;
+  }
+}
+
+/**
+ * Vrátí stránku do stavu ze snapshotu. Vrací, co se skutečně provedlo
+ * ('reload' i při návratu z jiné URL), nebo undefined, pokud obnova selhala.
+ */
+async function restorePageState(
+  page: Page,
+  snapshot: PageStateSnapshot,
+  reload: boolean,
+  onPageReload?: (page: Page) => Promise<void>,
+): Promise<'restore' | 'reload' | undefined> {
+  try {
+    const current = page.viewport();
+    if (snapshot.viewport && JSON.stringify(current) !== JSON.stringify(snapshot.viewport)) {
+      await page.setViewport(snapshot.viewport);
+    }
+
+    const navigate = reload || page.url() !== snapshot.url;
+    if (navigate) {
+      // Test mohl odeslat formulář a přejít jinam – vracíme se na původní URL
+      await page.goto(snapshot.url, { waitUntil: 'networkidle2', timeout: 30000 });
+      await onPageReload?.(page);
+    }
+
+    await page.evaluate((x: number, y: number) => {
+      (document.activeElement as HTMLElement | null)?.blur?.();
+      window.scrollTo(x, y);
+    }, snapshot.scrollX, snapshot.scrollY);
+
+    return navigate ? 'reload' : 'restore';
+  } catch (error) {
+    console.warn('[CustomACT] Failed to restore page state:', error);
+    return undefined;
+  }
+}
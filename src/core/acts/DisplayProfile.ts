@@ -0,0 +1,464 @@
+import { Page } from 'puppeteer-core';
+import { AccessibilityViolation, HumanReadableActionItem, ImpactLevel } from '../types';
+
+export interface DisplayProfileActResult {
+  violations: AccessibilityViolation[];
+  actionItems: HumanReadableActionItem[];
+}
+
+export type VisionDeficiencyProfile = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+export type DisplayProfile = VisionDeficiencyProfile | 'forced-colors' | 'dark-mode';
+
+export const VISION_DEFICIENCY_PROFILES: VisionDeficiencyProfile[] = [
+  'protanopia',
+  'deuteranopia',
+  'tritanopia',
+  'achromatopsia',
+];
+
+export const DISPLAY_PROFILES: DisplayProfile[] = [...VISION_DEFICIENCY_PROFILES, 'forced-colors', 'dark-mode'];
+
+export function isDisplayProfile(value: unknown): value is DisplayProfile {
+  return DISPLAY_PROFILES.includes(value as DisplayProfile);
+}
+
+const PROFILE_LABELS: Record<DisplayProfile, string> = {
+  protanopia: 'protanopie (necitlivost na červenou)',
+  deuteranopia: 'deuteranopie (necitlivost na zelenou)',
+  tritanopia: 'tritanopie (necitlivost na modrou)',
+  achromatopsia: 'achromatopsie (vidění bez barev)',
+  'forced-colors': 'režim vynucených barev (Windows High Contrast)',
+  'dark-mode': 'tmavý režim (prefers-color-scheme: dark)',
+};
+
+// Machado et al. (2009), severity 1.0 – stejné matice používá Chromium pro emulateVisionDeficiency
+const CVD_MATRICES: Record<Exclude<VisionDeficiencyProfile, 'achromatopsia'>, number[][]> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+};
+
+export const DISPLAY_PROFILE_RULE_IDS = ['a11yflow-color-only-state', 'a11yflow-forced-colors-icon'];
+
+// Rozdíl barev (ΔE v CIELAB), pod kterým stav od okolí vizuálně nerozeznáme
+const MIN_STATE_DELTA_E = 10;
+const MAX_CHECKED_STATES = 30;
+
+type Rgb = [number, number, number];
+
+interface StateColours {
+  color: string;
+  background: string;
+  border: string;
+}
+
+interface ColourOnlyState {
+  selector: string;
+  htmlSnippet: string;
+  label: string;
+  on: StateColours;
+  off: StateColours;
+}
+
+interface VanishingIcon {
+  selector: string;
+  htmlSnippet: string;
+  label: string;
+}
+
+interface DisplayProfileScan {
+  colourOnlyStates: ColourOnlyState[];
+  vanishingIcons: VanishingIcon[];
+}
+
+/**
+ * Custom test pro profily zobrazení (barvoslepost, vynucené barvy, tmavý režim).
+ *
+ * Běží na stránce, na kterou už WebScanner emulaci profilu aplikoval.
+ * Profil dostane v options.profile; bez něj test nic nehlásí.
+ *
+ * Logika:
+ * 1. Stavy (aria-selected/current/pressed/checked, .active …) porovná se sousedním
+ *    prvkem bez stavu. Liší-li se jen barvou, simuluje barvy profilu a zkontroluje,
+ *    zda rozdíl zůstal viditelný (WCAG 1.4.1).
+ * 2. V režimu forced-colors hledá ikonová tlačítka a odkazy bez textu, jejichž
+ *    jedinou vizuální značkou je barva pozadí / maska – ty v High Contrast zmizí (WCAG 1.4.11).
+ */
+export async function runDisplayProfileActTest(
+  page: Page,
+  pageUrl: string,
+  options: Record<string, unknown> = {},
+): Promise<DisplayProfileActResult | null> {
+  const profile = options.profile;
+  if (!isDisplayProfile(profile)) {
+    return null;
+  }
+
+  const scan = await scanDisplayProfile(page, profile === 'forced-colors');
+
+  const lostStates = scan.colourOnlyStates.filter((state) => !isStateDistinguishable(state, profile));
+
+  const violations: AccessibilityViolation[] = [];
+  const actionItems: HumanReadableActionItem[] = [];
+
+  if (lostStates.length > 0) {
+    const violation = buildColourOnlyStateViolation(lostStates, profile);
+    violations.push(violation);
+    actionItems.push({
+      id: violation.id,
+      impact: violation.impact as ImpactLevel,
+      priority: '🟠 Serious',
+      category: 'Navigation',
+      what: `Aktivní stav (vybraná záložka, aktuální stránka, zapnutý přepínač) je odlišen jen barvou a v profilu ${PROFILE_LABELS[profile]} splývá s ostatními položkami.`,
+      fix: 'Kromě barvy odlište stav i jinak – podtržením, tučným písmem, rámečkem nebo ikonou – a nastavte odpovídající aria-current / aria-selected / aria-pressed.',
+      exampleUrl: pageUrl,
+      exampleTarget: lostStates[0].selector || undefined,
+      elementLabel: lostStates[0].label || undefined,
+      wcagReference: '1.4.1 Použití barvy',
+    });
+  }
+
+  if (scan.vanishingIcons.length > 0) {
+    const violation = buildVanishingIconViolation(scan.vanishingIcons);
+    violations.push(violation);
+    actionItems.push({
+      id: violation.id,
+      impact: violation.impact as ImpactLevel,
+      priority: '🟠 Serious',
+      category: 'Graphics',
+      what: 'Ikonová tlačítka nebo odkazy v režimu vysokého kontrastu (Windows High Contrast) zmizí – ikona je vykreslená jen barvou pozadí nebo maskou.',
+      fix: 'Kreslete ikony jako inline SVG s fill="currentColor" (nebo ikonovým fontem), případně pro @media (forced-colors: active) nastavte forced-color-adjust / systémové barvy (ButtonText).',
+      exampleUrl: pageUrl,
+      exampleTarget: scan.vanishingIcons[0].selector || undefined,
+      elementLabel: scan.vanishingIcons[0].label || undefined,
+      wcagReference: '1.4.11 Kontrast netextových prvků',
+    });
+  }
+
+  if (violations.length === 0) {
+    return null;
+  }
+
+  return { violations, actionItems };
+}
+
+async function scanDisplayProfile(page: Page, forcedColors: boolean): Promise<DisplayProfileScan> {
+  return page.evaluate(
+    (checkIcons: boolean, maxStates: number) => {
+      const d = (globalThis as any).document as any;
+      const w = globalThis as any;
+      if (!d || !d.body) {
+        return { colourOnlyStates: [] as any[], vanishingIcons: [] as any[] };
+      }
+
+      const makeSelector = (el: any): string => {
+        if (!el) return '';
+        const tag = (el.tagName || 'div').toLowerCase();
+        if (el.id) return `${tag}#${el.id}`;
+        const className = el.className;
+        if (className && typeof className === 'string') {
+          const cls = className
+            .split(/\s+/)
+            .filter(Boolean)
+            .slice(0, 2)
+            .map((c: string) => `.${c}`)
+            .join('');
+          if (cls) return `${tag}${cls}`;
+        }
+        return tag;
+      };
+
+      const snippet = (el: any): string => String(el.outerHTML || '').slice(0, 300);
+      const textOf = (el: any): string => String(el.textContent || '').replace(/\s+/g, ' ').trim();
+
+      const isVisible = (el: any): boolean => {
+        const rect = el.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) return false;
+        const style = w.getComputedStyle(el);
+        return style.visibility !== 'hidden' && style.display !== 'none' && style.opacity !== '0';
+      };
+
+      // --- 1. Stavy odlišené jen barvou ---
+      const STATE_SELECTOR = [
+        '[aria-selected="true"]',
+        '[aria-current]:not([aria-current="false"])',
+        '[aria-pressed="true"]',
+        '[aria-checked="true"]:not(input)',
+        '.active',
+        '.is-active',
+        '.selected',
+        '.current',
+      ].join(', ');
+
+      const hasState = (el: any): boolean => el.matches(STATE_SELECTOR);
+
+      // Vlastnosti, které nesou informaci i bez barev
+      const signature = (el: any): string => {
+        const style = w.getComputedStyle(el);
+        const before = w.getComputedStyle(el, '::before');
+        const after = w.getComputedStyle(el, '::after');
+        const stripColours = (value: string) => String(value || '').replace(/rgba?\([^)]*\)/g, '');
+        return [
+          style.fontWeight,
+          style.fontStyle,
+          style.fontSize,
+          style.textDecorationLine,
+          style.textTransform,
+          style.borderTopWidth,
+          style.borderRightWidth,
+          style.borderBottomWidth,
+          style.borderLeftWidth,
+          style.borderTopStyle,
+          style.borderBottomStyle,
+          style.outlineStyle,
+          style.outlineWidth,
+          style.backgroundImage,
+          stripColours(style.boxShadow),
+          before.content,
+          after.content,
+          el.querySelectorAll('*').length,
+        ].join('|');
+      };
+
+      const colours = (el: any) => {
+        const style = w.getComputedStyle(el);
+        return {
+          color: style.color,
+          background: style.backgroundColor,
+          border: style.borderBottomColor,
+        };
+      };
+
+      const findPeer = (el: any): any => {
+        // Položky bývají sourozenci (li.active) nebo obalené (li > a.active) – zkusíme obě úrovně
+        const containers = [el.parentElement, el.parentElement && el.parentElement.parentElement].filter(Boolean);
+        for (const container of containers) {
+          const candidates = Array.from(container.querySelectorAll(el.tagName.toLowerCase())) as any[];
+          const peer = candidates.find(
+            (c) =>
+              c !== el &&
+              !hasState(c) &&
+              !c.contains(el) &&
+              !el.contains(c) &&
+              c.getAttribute('role') === el.getAttribute('role') &&
+              isVisible(c),
+          );
+          if (peer) return peer;
+        }
+        return null;
+      };
+
+      const colourOnlyStates: any[] = [];
+      const stateElements = (Array.from(d.querySelectorAll(STATE_SELECTOR)) as any[])
+        .filter(isVisible)
+        .slice(0, maxStates);
+
+      for (const el of stateElements) {
+        const peer = findPeer(el);
+        if (!peer) continue;
+        if (signature(el) !== signature(peer)) continue;
+
+        const on = colours(el);
+        const off = colours(peer);
+        if (on.color === off.color && on.background === off.background && on.border === off.border) {
+          // Neliší se vůbec (stav nese např. obal) – to není problém barvy
+          continue;
+        }
+
+        colourOnlyStates.push({
+          selector: makeSelector(el),
+          htmlSnippet: snippet(el),
+          label: textOf(el).slice(0, 80),
+          on,
+          off,
+        });
+      }
+
+      // --- 2. Ikony, které ve forced-colors zmizí ---
+      const vanishingIcons: any[] = [];
+
+      if (checkIcons) {
+        const interactive = Array.from(
+          d.querySelectorAll('a[href], button, [role="button"], [role="link"], input[type="button"], input[type="submit"]'),
+        ) as any[];
+
+        const hasVisibleMark = (el: any): boolean => {
+          if (textOf(el).length > 0) return true;
+          if (el.tagName === 'INPUT') return true;
+          if (el.querySelector('img, picture, canvas, video')) return true;
+
+          const svgs = Array.from(el.querySelectorAll('svg')) as any[];
+          for (const svg of svgs) {
+            const shapes = Array.from(svg.querySelectorAll('path, circle, rect, polygon, polyline, line, ellipse, use, text')) as any[];
+            if (shapes.some((s) => {
+              const st = w.getComputedStyle(s);
+              return (st.fill !== 'none' && st.fillOpacity !== '0') || (st.stroke !== 'none' && st.strokeWidth !== '0px');
+            })) {
+              return true;
+            }
+          }
+
+          const nodes = [el, ...(Array.from(el.querySelectorAll('*')) as any[])];
+          for (const node of nodes) {
+            const style = w.getComputedStyle(node);
+            if (/url\(/.test(style.backgroundImage) && style.maskImage === 'none' && style.webkitMaskImage === 'none') return true;
+            const borderWidth = parseFloat(style.borderTopWidth) + parseFloat(style.borderBottomWidth);
+            if (borderWidth > 0 && style.borderTopStyle !== 'none') return true;
+
+            for (const pseudo of ['::before', '::after']) {
+              const ps = w.getComputedStyle(node, pseudo);
+              const content = String(ps.content || '');
+              // Glyf ikonového fontu se vykreslí barvou textu, která zůstává viditelná
+              if (content && content !== 'none' && content !== 'normal' && content !== '""' && content !== "''") return true;
+              if (/url\(/.test(ps.backgroundImage) && ps.maskImage === 'none' && ps.webkitMaskImage === 'none') return true;
+            }
+          }
+
+          return false;
+        };
+
+        for (const el of interactive) {
+          if (!isVisible(el)) continue;
+          if (hasVisibleMark(el)) continue;
+
+          vanishingIcons.push({
+            selector: makeSelector(el),
+            htmlSnippet: snippet(el),
+            label: String(el.getAttribute('aria-label') || el.getAttribute('title') || '').slice(0, 80),
+          });
+
+          if (vanishingIcons.length >= 20) break;
+        }
+      }
+
+      return { colourOnlyStates, vanishingIcons };
+    },
+    forcedColors,
+    MAX_CHECKED_STATES,
+  ) as Promise<DisplayProfileScan>;
+}
+
+/**
+ * Zůstane stav po simulaci profilu odlišitelný? Porovnáváme barvu textu, pozadí i rámečku.
+ */
+function isStateDistinguishable(state: ColourOnlyState, profile: DisplayProfile): boolean {
+  // Ve forced-colors (a tmavém režimu) už computed style obsahuje skutečně vykreslené barvy
+  const simulate = (value: string): Rgb => {
+    const rgb = parseColour(value);
+    if (profile === 'achromatopsia') {
+      const y = relativeLuminance(rgb);
+      return [y, y, y];
+    }
+    if (profile === 'protanopia' || profile === 'deuteranopia' || profile === 'tritanopia') {
+      return applyMatrix(CVD_MATRICES[profile], rgb);
+    }
+    return rgb;
+  };
+
+  return (['color', 'background', 'border'] as (keyof StateColours)[]).some(
+    (key) => deltaE(simulate(state.on[key]), simulate(state.off[key])) >= MIN_STATE_DELTA_E,
+  );
+}
+
+/**
+ * "rgb(r, g, b)" / "rgba(r, g, b, a)" -> lineární RGB 0..1; průhlednost skládáme na bílé pozadí.
+ */
+function parseColour(value: string): Rgb {
+  const match = /rgba?\(([^)]+)\)/.exec(value || '');
+  if (!match) return [1, 1, 1];
+
+  const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+  const alpha = parts.length > 3 && !isNaN(parts[3]) ? parts[3] : 1;
+
+  return [parts[0], parts[1], parts[2]].map((channel) => {
+    const srgb = ((isNaN(channel) ? 255 : channel) * alpha + 255 * (1 - alpha)) / 255;
+    return srgb <= 0.04045 ? srgb / 12.92 : Math.pow((srgb + 0.055) / 1.055, 2.4);
+  }) as Rgb;
+}
+
+function applyMatrix(matrix: number[][], rgb: Rgb): Rgb {
+  return matrix.map((row) =>
+    Math.min(1, Math.max(0, row[0] * rgb[0] + row[1] * rgb[1] + row[2] * rgb[2])),
+  ) as Rgb;
+}
+
+function relativeLuminance(rgb: Rgb): number {
+  return 0.2126 * rgb[0] + 0.7152 * rgb[1] + 0.0722 * rgb[2];
+}
+
+/**
+ * ΔE (CIE76) mezi dvěma barvami v lineárním RGB (D65).
+ */
+function deltaE(a: Rgb, b: Rgb): number {
+  const labA = toLab(a);
+  const labB = toLab(b);
+  return Math.sqrt((labA[0] - labB[0]) ** 2 + (labA[1] - labB[1]) ** 2 + (labA[2] - labB[2]) ** 2);
+}
+
+function toLab(rgb: Rgb): [number, number, number] {
+  const x = (0.4124 * rgb[0] + 0.3576 * rgb[1] + 0.1805 * rgb[2]) / 0.95047;
+  const y = 0.2126 * rgb[0] + 0.7152 * rgb[1] + 0.0722 * rgb[2];
+  const z = (0.0193 * rgb[0] + 0.1192 * rgb[1] + 0.9505 * rgb[2]) / 1.08883;
+
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+function buildColourOnlyStateViolation(states: ColourOnlyState[], profile: DisplayProfile): AccessibilityViolation {
+  return {
+    id: 'a11yflow-color-only-state',
+    title: 'Stav prvku je odlišen pouze barvou',
+    description:
+      `Aktivní stav (vybraná položka, aktuální stránka, zapnutý přepínač) se od ostatních liší jen barvou. ` +
+      `V profilu ${PROFILE_LABELS[profile]} rozdíl zmizí a uživatel nepozná, která položka je aktivní.`,
+    impact: 'serious',
+    helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/use-of-color.html',
+    count: states.length,
+    suggestedFix:
+      'Doplňte nebarevné odlišení stavu (podtržení, tučné písmo, rámeček, ikonu) a stav oznamte i přes ARIA (aria-current, aria-selected, aria-pressed).',
+    nodes: states.map((state) => ({
+      html: state.htmlSnippet,
+      target: state.selector ? [state.selector] : [],
+      failureSummary:
+        `Stav se od sousední položky liší jen barvou (text ${state.on.color} vs. ${state.off.color}, ` +
+        `pozadí ${state.on.background} vs. ${state.off.background}); v profilu ${profile} nejsou barvy rozlišitelné.`,
+    })),
+  };
+}
+
+function buildVanishingIconViolation(icons: VanishingIcon[]): AccessibilityViolation {
+  return {
+    id: 'a11yflow-forced-colors-icon',
+    title: 'Ikona v režimu vynucených barev zmizí',
+    description:
+      'Ovládací prvek bez textu má ikonu vykreslenou jen barvou pozadí nebo CSS maskou. ' +
+      'V režimu vynucených barev (Windows High Contrast) prohlížeč pozadí přebarví a ikona přestane být vidět.',
+    impact: 'serious',
+    helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/non-text-contrast.html',
+    count: icons.length,
+    suggestedFix:
+      'Použijte inline SVG s fill="currentColor", ikonový font nebo <img> s alt textem; případně v @media (forced-colors: active) nastavte ikoně barvu ButtonText.',
+    nodes: icons.map((icon) => ({
+      html: icon.htmlSnippet,
+      target: icon.selector ? [icon.selector] : [],
+      failureSummary: 'V režimu forced-colors nemá prvek žádný viditelný text, obrázek, SVG tvar ani rámeček.',
+    })),
+  };
+}
@@ -0,0 +1,196 @@
+import { Page } from 'puppeteer-core';
+import { AccessibilityViolation, HumanReadableActionItem, ImpactLevel } from '../types';
+
+export interface DraggingMovementsActResult {
+  violations: AccessibilityViolation[];
+  actionItems: HumanReadableActionItem[];
+}
+
+interface DragOnlyWidget {
+  selector: string;
+  htmlSnippet: string;
+  itemCount: number;
+  library: string;
+}
+
+// Značky drag & drop knihoven a nativního HTML5 DnD
+const DRAGGABLE_SELECTOR = [
+  '[draggable="true"]',
+  '[aria-grabbed]',
+  '[data-rbd-draggable-id]', // react-beautiful-dnd / hello-pangea
+  '[data-rfd-draggable-id]',
+  '[data-sortable-id]',
+  '[data-swapy-item]',
+  '.ui-sortable-handle',
+  '.ui-draggable',
+  '.sortable-item',
+  '.draggable',
+  '.drag-handle',
+  '.dnd-item',
+  '.cdk-drag', // Angular CDK
+].join(', ');
+
+// Ovládací prvek, který umožní stejnou akci jedním kliknutím (posun nahoru/dolů, výběr pozice, přesun do …)
+const ALTERNATIVE_PATTERN = /\b(move|up|down|left|right|reorder|earlier|later|first|last|top|bottom)\b|nahoru|dolů|dolu|posun|přesun|výš|níž|nach oben|nach unten|verschieb|[↑↓←→▲▼]/i;
+
+/**
+ * Heuristika pro WCAG 2.5.7 Dragging Movements.
+ *
+ * Logika:
+ * 1. Najde přetahovatelné prvky (draggable, aria-grabbed, značky knihoven jako
+ *    react-beautiful-dnd, jQuery UI sortable, Angular CDK, SortableJS).
+ * 2. Seskupí je podle společného kontejneru (seznam / board).
+ * 3. Kontejner bez alternativy jedním ukazatelem – tlačítko posunu (nahoru/dolů, přesunout),
+ *    <select> s pozicí nebo číselné pole pořadí – nahlásí jako widget ovládaný jen tažením.
+ *
+ * Jde o heuristiku – výsledek je "moderate" a v reportu ho doporučujeme ověřit ručně.
+ */
+export async function runDraggingMovementsActTest(
+  page: Page,
+  pageUrl: string,
+): Promise<DraggingMovementsActResult | null> {
+  const widgets = await findDragOnlyWidgets(page);
+  if (widgets.length === 0) {
+    return null;
+  }
+
+  const impact: ImpactLevel = 'moderate';
+
+  const violation: AccessibilityViolation = {
+    id: 'a11yflow-dragging-movements',
+    title: 'Přetahování bez alternativy jedním kliknutím',
+    description:
+      'Seznam nebo plocha umožňuje měnit pořadí či umístění prvků jen tažením myší. ' +
+      'Uživatelé, kteří nezvládnou držet tlačítko a táhnout (třes, ovládání hlavou, dotyk jedním prstem), akci neprovedou.',
+    impact,
+    helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/dragging-movements.html',
+    count: widgets.length,
+    suggestedFix:
+      'Ke každé přetahovatelné položce přidejte alternativu jedním kliknutím – tlačítka "Posunout nahoru / dolů", ' +
+      'menu "Přesunout do…" nebo výběr pozice.',
+    nodes: widgets.map((widget) => ({
+      html: widget.htmlSnippet,
+      target: widget.selector ? [widget.selector] : [],
+      failureSummary:
+        `Kontejner obsahuje ${widget.itemCount} přetahovatelných položek (${widget.library}), ` +
+        'ale žádné tlačítko ani výběr, kterým by šlo pořadí změnit bez tažení.',
+    })),
+  };
+
+  const actionItem: HumanReadableActionItem = {
+    id: violation.id,
+    impact,
+    priority: '🟡 Moderate',
+    category: 'Navigation',
+    what: 'Pořadí nebo umístění položek lze změnit jen přetažením myší.',
+    fix: 'Doplňte tlačítka pro posun položky (nahoru / dolů, přesunout do…) jako alternativu k tažení.',
+    exampleUrl: pageUrl,
+    exampleTarget: widgets[0].selector || undefined,
+    wcagReference: '2.5.7 Dragging Movements',
+  };
+
+  return {
+    violations: [violation],
+    actionItems: [actionItem],
+  };
+}
+
+async function findDragOnlyWidgets(page: Page): Promise<DragOnlyWidget[]> {
+  return page.evaluate(
+    (draggableSelector: string, alternativeSource: string) => {
+      const d = (globalThis as any).document as any;
+      if (!d || !d.body) return [] as any[];
+
+      const alternativePattern = new RegExp(alternativeSource, 'i');
+
+      const makeSelector = (el: any): string => {
+        if (!el) return '';
+        const tag = (el.tagName || 'div').toLowerCase();
+        if (el.id) return `${tag}#${el.id}`;
+        const className = el.className;
+        if (className && typeof className === 'string') {
+          const cls = className
+            .split(/\s+/)
+            .filter(Boolean)
+            .slice(0, 2)
+            .map((c: string) => `.${c}`)
+            .join('');
+          if (cls) return `${tag}${cls}`;
+        }
+        return tag;
+      };
+
+      const detectLibrary = (el: any): string => {
+        if (el.hasAttribute('data-rbd-draggable-id') || el.hasAttribute('data-rfd-draggable-id')) return 'react-beautiful-dnd';
+        if (el.classList.contains('cdk-drag')) return 'Angular CDK drag-drop';
+        if (el.classList.contains('ui-sortable-handle') || el.classList.contains('ui-draggable')) return 'jQuery UI';
+        if (el.hasAttribute('data-sortable-id')) return 'SortableJS';
+        if (el.hasAttribute('data-swapy-item')) return 'Swapy';
+        if (el.hasAttribute('aria-grabbed')) return 'aria-grabbed';
+        if (el.getAttribute('draggable') === 'true') return 'HTML5 draggable';
+        return 'drag & drop';
+      };
+
+      // Obrázky a odkazy jsou v prohlížeči draggable implicitně – atribut draggable="true" u nich nic neznamená
+      const items = (Array.from(d.querySelectorAll(draggableSelector)) as any[]).filter((el) => {
+        if (el.closest('[aria-hidden="true"], [inert], [hidden]')) return false;
+        const rect = el.getBoundingClientRect();
+        return rect.width > 0 && rect.height > 0 && !['IMG', 'A'].includes(el.tagName);
+      });
+
+      // Seskupení do kontejnerů – nejbližší předek, který obsahuje aspoň dvě položky
+      const groups = new Map<any, any[]>();
+      for (const item of items) {
+        let container = item.parentElement;
+        while (container && container !== d.body) {
+          const count = items.filter((other) => container.contains(other)).length;
+          if (count >= 2) break;
+          container = container.parentElement;
+        }
+        const key = container && container !== d.body ? container : item.parentElement || item;
+        if (!groups.has(key)) groups.set(key, []);
+        const group = groups.get(key)!;
+        if (!group.includes(item)) group.push(item);
+      }
+
+      const hasAlternative = (container: any): boolean => {
+        // Výběr pozice nebo číselné pole pořadí
+        if (container.querySelector('select, input[type="number"]')) return true;
+
+        const controls = Array.from(
+          container.querySelectorAll('button, [role="button"], a[href], [role="menuitem"]'),
+        ) as any[];
+        return controls.some((control) => {
+          const name = [
+            control.getAttribute('aria-label'),
+            control.getAttribute('title'),
+            control.textContent,
+          ].filter(Boolean).join(' ');
+          // Samotný úchyt pro tažení (drag handle) alternativou není
+          if (control.matches(draggableSelector) || /drag|grab|handle|táhn/i.test(name + ' ' + (control.className || ''))) {
+            return false;
+          }
+          return alternativePattern.test(name);
+        });
+      };
+
+      const widgets: any[] = [];
+      for (const [container, groupItems] of groups) {
+        if (hasAlternative(container)) continue;
+
+        widgets.push({
+          selector: makeSelector(container),
+          htmlSnippet: String(container.outerHTML || '').slice(0, 300),
+          itemCount: groupItems.length,
+          library: detectLibrary(groupItems[0]),
+        });
+
+        if (widgets.length >= 10) break;
+      }
+
+      return widgets;
+    },
+    DRAGGABLE_SELECTOR,
+    ALTERNATIVE_PATTERN.source,
+  ) as Promise<DragOnlyWidget[]>;
+}
@@ -0,0 +1,44 @@
+import { Page } from 'puppeteer-core';
+import { traceReverseFocusOrder } from './FocusOrder';
+
+// Stránka, na které Shift+Tab postupně fokusuje zadané prvky (null = focus opustil stránku)
+function reversePage(reverseFocus: Array<string | null>) {
+  const steps = [...reverseFocus];
+  const keyboard = { down: jest.fn(async () => undefined), press: jest.fn(async () => undefined), up: jest.fn(async () => undefined) };
+  const evaluate = jest.fn(async (_fn: unknown, selector?: string) => {
+    // První evaluate fokusuje poslední prvek dopředného průchodu
+    if (selector !== undefined) return true;
+    const next = steps.shift();
+    return next ? { hasActive: true, selector: next, htmlSnippet: `<a id="${next.slice(1)}"></a>` } : { hasActive: false };
+  });
+  return { page: { keyboard, evaluate } as unknown as Page, keyboard };
+}
+
+describe('traceReverseFocusOrder', () => {
+  const forward = ['#home', '#products', '#contact'];
+
+  it('accepts Shift+Tab visiting the forward order backwards up to the start of the page', async () => {
+    const { page, keyboard } = reversePage(['#products', '#home', null]);
+
+    expect(await traceReverseFocusOrder(page, forward)).toEqual([]);
+    expect(keyboard.press).toHaveBeenCalledTimes(3);
+    expect(keyboard.up).toHaveBeenCalledWith('Shift');
+  });
+
+  it('reports a different previous element and keeps walking from it', async () => {
+    const { page } = reversePage(['#home', null]);
+
+    expect(await traceReverseFocusOrder(page, forward)).toEqual([
+      { kind: 'order', step: 1, from: '#contact', expected: '#products', selector: '#home', htmlSnippet: '<a id="home"></a>' },
+    ]);
+  });
+
+  it('reports leaving the page before the first element and a focus that does not move', async () => {
+    expect(await traceReverseFocusOrder(reversePage(['#products', null]).page, forward)).toEqual([
+      { kind: 'left-page', step: 2, from: '#products', expected: '#home', htmlSnippet: '' },
+    ]);
+    expect(await traceReverseFocusOrder(reversePage(['#contact']).page, forward)).toEqual([
+      expect.objectContaining({ kind: 'stuck', step: 1, from: '#contact', selector: '#contact' }),
+    ]);
+  });
+});
@@ -14,6 +14,8 @@ import { AccessibilityViolation, ImpactLevel, HumanReadableActionItem } from '..
  *    - Keyboard Traps (smyčky) - WCAG 2.1.2
  *    - Visual Continuity (hrubé skoky v pořadí) - částečně WCAG 2.4.3
  *    - Modal Focus Bleed (únik z modálu) - WCAG 2.1.2 + best practices
+ * 4. Zpětný průchod (Shift+Tab) od posledního prvku - pořadí musí být přesně
+ *    obrácené pořadí dopředného průchodu (WCAG 2.4.3), fokus se nesmí zaseknout (WCAG 2.1.2)
  * 
  * POZNÁMKA: Plné pokrytí WCAG 2.4.3 vyžaduje sémantickou analýzu významu
  * a vztahů mezi prvky, což je náročné automatizovat. Tento test detekuje
@@ -36,9 +38,16 @@ const ACT_RULE_URL = `https://www.w3.org/WAI/standards-guidelines/act/rules/${AC
 const WCAG_FOCUS_ORDER_URL = 'https://www.w3.org/WAI/WCAG21/Understanding/focus-order.html';
 const WCAG_NO_TRAP_URL = 'https://www.w3.org/WAI/WCAG21/Understanding/no-keyboard-trap.html';
 
+// Všechna ID, pod kterými test hlásí nálezy (addViolation idSuffix)
+export const FOCUS_ORDER_RULE_IDS = ['focus-trap', 'visual-focus-jump', 'reverse-focus-order', 'modal-focus-bleed'].map(
+    (suffix) => `a11yflow-${suffix}`
+);
+
 export async function runFocusOrderActTest(page: Page, pageUrl: string): Promise<FocusOrderActResult | null> {
   const maxSteps = 200;
   const visitedSelectors = new Map<string, number>();
+  // Pořadí prvků při prvním průchodu Tabem – reference pro Shift+Tab
+  const forwardOrder: string[] = [];
   const violations: AccessibilityViolation[] = [];
   const actionItems: HumanReadableActionItem[] = [];
 
@@ -219,6 +228,7 @@ export async function runFocusOrderActTest(page: Page, pageUrl: string): Promise
       }
     } else {
       visitedSelectors.set(currentSelector, step);
+      forwardOrder.push(currentSelector);
     }
 
     // B. Detekce vizuálních skoků (Visual Continuity)
@@ -259,6 +269,10 @@ export async function runFocusOrderActTest(page: Page, pageUrl: string): Promise
     }
   }
 
+  if (!detectedLoop && forwardOrder.length >= 2) {
+    await checkReverseFocusOrder(page, pageUrl, forwardOrder, violations, actionItems);
+  }
+
   const pageDimensions = await page.evaluate(() => {
       const d = (globalThis as any).document;
       return {
@@ -282,6 +296,192 @@ export async function runFocusOrderActTest(page: Page, pageUrl: string): Promise
   };
 }
 
+/**
+ * Odchylka zpětného průchodu od dopředného:
+ * - 'left-page' – Shift+Tab opustil stránku dřív, než došel na první prvek
+ * - 'stuck'     – Shift+Tab focus nepřesunul (past)
+ * - 'order'     – focus přešel jinam, než kde byl při průchodu Tabem předchozí prvek
+ */
+export interface ReverseFocusMismatch {
+    kind: 'left-page' | 'stuck' | 'order';
+    // Pořadí stisku Shift+Tab
+    step: number;
+    from: string;
+    // Prvek, který při průchodu Tabem předcházel prvku `from` (u prvního prvku chybí)
+    expected?: string;
+    // Prvek, na který focus skutečně přešel (u 'left-page' chybí)
+    selector?: string;
+    htmlSnippet: string;
+}
+
+/**
+ * Shift+Tab od posledního prvku dopředného průchodu. Každý krok zpět musí vést
+ * na prvek, který byl při Tab průchodu bezprostředně před aktuálním prvkem.
+ * Sdílí ho tento test i klávesnicový audit WebScanneru.
+ */
+export async function traceReverseFocusOrder(
+    page: Page,
+    forwardOrder: string[],
+    maxMismatches = 5
+): Promise<ReverseFocusMismatch[]> {
+    const mismatches: ReverseFocusMismatch[] = [];
+    const previousInForward = new Map<string, string | undefined>(
+        forwardOrder.map((selector, i) => [selector, forwardOrder[i - 1]])
+    );
+    const last = forwardOrder[forwardOrder.length - 1];
+
+    const focused = await page.evaluate((selector: string) => {
+        const d = (globalThis as any).document;
+        let el: any = null;
+        try {
+            el = d.querySelector(selector);
+        } catch {
+            return false;
+        }
+        if (!el || typeof el.focus !== 'function') return false;
+        el.focus();
+        return d.activeElement === el;
+    }, last);
+
+    // Prvek v Shadow DOM apod. – zpětný průchod nemáme odkud začít
+    if (!focused) return mismatches;
+
+    let current = last;
+
+    for (let step = 1; step <= forwardOrder.length + 1; step++) {
+        await page.keyboard.down('Shift');
+        try {
+            await page.keyboard.press('Tab');
+        } finally {
+            await page.keyboard.up('Shift');
+        }
+        await new Promise((resolve) => setTimeout(resolve, 35));
+
+        const info = await page.evaluate(() => {
+            const d = (globalThis as any).document;
+
+            let active = d.activeElement;
+            while (active && active.shadowRoot && active.shadowRoot.activeElement) {
+                active = active.shadowRoot.activeElement;
+            }
+            if (!active || active === d.body) return { hasActive: false };
+
+            const getUniqueSelector = (el: any) => {
+                if (!el || el.nodeType !== 1) return '';
+                if (el.id) return '#' + el.id;
+
+                const path: string[] = [];
+                let current = el;
+
+                while (current && current.nodeType === 1) {
+                    let selector = current.tagName.toLowerCase();
+                    if (current.id) {
+                        selector = '#' + current.id;
+                        path.unshift(selector);
+                        break;
+                    } else {
+                        let sibling = current;
+                        let nth = 1;
+                        while (sibling = sibling.previousElementSibling) {
+                            if (sibling.tagName === current.tagName) nth++;
+                        }
+                        if (nth > 1) selector += `:nth-of-type(${nth})`;
+                    }
+                    path.unshift(selector);
+                    current = current.parentNode;
+                }
+                return path.join(' > ');
+            };
+
+            let htmlSnippet = '';
+            try {
+                const outer = active.outerHTML || '';
+                htmlSnippet = outer.length > 400 ? outer.slice(0, 400) + '…' : outer;
+            } catch { htmlSnippet = ''; }
+
+            return { hasActive: true, selector: getUniqueSelector(active), htmlSnippet };
+        });
+
+        const expected = previousInForward.get(current);
+
+        if (!info.hasActive) {
+            // Začátek stránky – v pořádku jen tehdy, když jsme na prvním prvku dopředného průchodu
+            if (expected !== undefined) {
+                mismatches.push({ kind: 'left-page', step, from: current, expected, htmlSnippet: '' });
+            }
+            break;
+        }
+
+        const selector = info.selector || 'unknown';
+
+        if (selector === current) {
+            mismatches.push({ kind: 'stuck', step, from: current, expected, selector, htmlSnippet: info.htmlSnippet || '' });
+            break;
+        }
+
+        if (selector !== expected) {
+            mismatches.push({ kind: 'order', step, from: current, expected, selector, htmlSnippet: info.htmlSnippet || '' });
+            if (mismatches.length >= maxMismatches) break;
+        }
+
+        current = selector;
+    }
+
+    return mismatches;
+}
+
+async function checkReverseFocusOrder(
+    page: Page,
+    pageUrl: string,
+    forwardOrder: string[],
+    violations: AccessibilityViolation[],
+    actionItems: HumanReadableActionItem[]
+) {
+    for (const mismatch of await traceReverseFocusOrder(page, forwardOrder)) {
+        const { from: current, expected, selector } = mismatch;
+
+        if (mismatch.kind === 'left-page') {
+            addViolation(
+                violations, actionItems, pageUrl,
+                'reverse-focus-order',
+                'Shift+Tab neprochází stránku v opačném pořadí',
+                'serious',
+                `Shift+Tab z prvku ${current} opustil stránku, ale při průchodu Tabem mu předcházel prvek ${expected}. Část stránky je při zpětném pohybu klávesnicí nedosažitelná. Porušení WCAG 2.4.3 (Focus Order).`,
+                '',
+                current,
+                WCAG_SC_FOCUS_ORDER,
+                WCAG_FOCUS_ORDER_URL
+            );
+        } else if (mismatch.kind === 'stuck') {
+            addViolation(
+                violations, actionItems, pageUrl,
+                'focus-trap',
+                'Klávesnicová past (focus loop)',
+                'critical',
+                `Shift+Tab focus z prvku ${current} nepřesune – uživatel se nemůže vrátit zpět. Porušení WCAG 2.1.2 (No Keyboard Trap).`,
+                mismatch.htmlSnippet,
+                current,
+                WCAG_SC_NO_TRAP,
+                WCAG_NO_TRAP_URL
+            );
+        } else {
+            addViolation(
+                violations, actionItems, pageUrl,
+                'reverse-focus-order',
+                'Shift+Tab neprochází stránku v opačném pořadí',
+                'serious',
+                expected === undefined
+                    ? `Shift+Tab z prvního prvku ${current} přesunul focus na ${selector}, který při průchodu Tabem nebyl. Pořadí vpřed a vzad si neodpovídá. Porušení WCAG 2.4.3 (Focus Order).`
+                    : `Shift+Tab z prvku ${current} přesunul focus na ${selector}, ale při průchodu Tabem mu předcházel prvek ${expected}. Pořadí vpřed a vzad si neodpovídá. Porušení WCAG 2.4.3 (Focus Order).`,
+                mismatch.htmlSnippet,
+                selector!,
+                WCAG_SC_FOCUS_ORDER,
+                WCAG_FOCUS_ORDER_URL
+            );
+        }
+    }
+}
+
 function addViolation(
     violations: AccessibilityViolation[],
     actionItems: HumanReadableActionItem[],
@@ -308,6 +508,8 @@ function addViolation(
         suggestedFix = 'Opravte keyboard trap - zajistěte, že uživatel se může dostat pryč pomocí Tab/Shift+Tab nebo Escape. Pro modální dialogy použijte focus management s správným chytáním fokusu.';
     } else if (idSuffix === 'visual-focus-jump') {
         suggestedFix = 'Upravte pořadí prvků v DOM tak, aby odpovídalo vizuálnímu pořadí, nebo použijte CSS properties jako flexbox order opatrně. Zvažte také správné použití tabindex.';
+    } else if (idSuffix === 'reverse-focus-order') {
+        suggestedFix = 'Zajistěte, aby Shift+Tab procházel prvky přesně v opačném pořadí než Tab. Nepřesouvejte focus skriptem při události keydown/blur a neměňte tabindex podle směru pohybu.';
     } else if (idSuffix === 'modal-focus-bleed') {
         suggestedFix = 'Implementujte správný focus management pro modální okna - při otevření přesuňte focus dovnitř, zamkněte focus trap v rámci modalu, při zavření vraťte focus zpět na původní element.';
     } else {
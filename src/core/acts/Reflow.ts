@@ -0,0 +1,380 @@
+import { Page } from 'puppeteer-core';
+import { AccessibilityViolation, HumanReadableActionItem, ImpactLevel, ViolationNode } from '../types';
+
+export interface ReflowActResult {
+  violations: AccessibilityViolation[];
+  actionItems: HumanReadableActionItem[];
+}
+
+type LayoutProblemKind = 'horizontal-scroll' | 'clipped-text' | 'overlapping-text';
+
+interface LayoutProblem {
+  kind: LayoutProblemKind;
+  selector: string;
+  htmlSnippet: string;
+  boundingBox: { x: number; y: number; width: number; height: number };
+  // Selector druhého prvku u překryvu, jinak popis (přesah, skrytý text)
+  detail: string;
+}
+
+// 1280 × 1024 při 400% zoomu (WCAG 1.4.10 Reflow)
+const REFLOW_VIEWPORT = { width: 320, height: 256, deviceScaleFactor: 1, isMobile: false, hasTouch: false };
+const TEXT_SCALE = 2;
+const MAX_PROBLEMS_PER_KIND = 10;
+
+export const REFLOW_RULE_IDS = ['a11yflow-reflow', 'a11yflow-resize-text'];
+
+/**
+ * Custom test pro WCAG 1.4.10 (Reflow) a 1.4.4 (Resize Text).
+ *
+ * Logika:
+ * 1. Na výchozím viewportu zaznamená už existující oříznutí / překryvy (ty nejsou důsledkem zoomu).
+ * 2. Přepne viewport na 320 CSS px (ekvivalent 400% zoomu) a hledá horizontální scroll,
+ *    oříznutý text (overflow: hidden / clip, text-overflow) a překrývající se text.
+ * 3. Vrátí viewport, zdvojnásobí velikost písma všech prvků (200% text) a hledá oříznutý
+ *    a překrývající se text.
+ *
+ * Bounding boxy nodů odpovídají viewportu, ve kterém byl problém nalezen
+ * (captureBoundingBoxes je proto u těchto nodů nepřepisuje).
+ */
+export async function runReflowActTest(page: Page, pageUrl: string): Promise<ReflowActResult | null> {
+  const originalViewport = page.viewport();
+
+  const baseline = await collectLayoutProblems(page, false);
+  const baselineKeys = new Set(baseline.map(problemKey));
+
+  let reflowProblems: LayoutProblem[] = [];
+  let resizeProblems: LayoutProblem[] = [];
+
+  try {
+    await page.setViewport(REFLOW_VIEWPORT);
+    await new Promise((r) => setTimeout(r, 300));
+    reflowProblems = (await collectLayoutProblems(page, true)).filter((p) => !baselineKeys.has(problemKey(p)));
+  } finally {
+    if (originalViewport) {
+      await page.setViewport(originalViewport);
+    }
+  }
+
+  try {
+    await scaleText(page, TEXT_SCALE);
+    await new Promise((r) => setTimeout(r, 300));
+    resizeProblems = (await collectLayoutProblems(page, false)).filter((p) => !baselineKeys.has(problemKey(p)));
+  } finally {
+    await restoreText(page);
+  }
+
+  const violations: AccessibilityViolation[] = [];
+  const actionItems: HumanReadableActionItem[] = [];
+
+  if (reflowProblems.length > 0) {
+    const violation: AccessibilityViolation = {
+      id: 'a11yflow-reflow',
+      title: 'Obsah se při šířce 320 px nepřizpůsobí (reflow)',
+      description:
+        'Při šířce 320 CSS px (odpovídá 400% přiblížení) stránka vyžaduje vodorovné posouvání, ' +
+        'nebo se text ořízne či překryje. Uživatelé se zvětšením musí číst posouváním ve dvou směrech.',
+      impact: 'serious',
+      helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/reflow.html',
+      count: reflowProblems.length,
+      suggestedFix:
+        'Použijte responzivní layout (max-width: 100%, flex-wrap, media queries), nepoužívejte pevné šířky v px ' +
+        'a u kontejnerů s textem nenastavujte pevnou výšku s overflow: hidden.',
+      nodes: reflowProblems.map((p) => toNode(p, 'šířce 320 CSS px')),
+    };
+    violations.push(violation);
+    actionItems.push(buildActionItem(violation, reflowProblems[0], pageUrl, {
+      what: 'Při úzkém zobrazení (400% zoom, 320 px) se obsah nepřizpůsobí šířce – vzniká vodorovný scroll nebo se text ořízne.',
+      fix: 'Upravte layout tak, aby se obsah při šířce 320 px skládal pod sebe a nevyžadoval posouvání do stran.',
+      wcagReference: '1.4.10 Přizpůsobení obsahu',
+    }));
+  }
+
+  if (resizeProblems.length > 0) {
+    const violation: AccessibilityViolation = {
+      id: 'a11yflow-resize-text',
+      title: 'Text při zvětšení na 200 % mizí nebo se překrývá',
+      description:
+        'Po zvětšení písma na 200 % se část textu ořízne (overflow: hidden, pevná výška) nebo se překryje s jiným textem.',
+      impact: 'serious',
+      helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/resize-text.html',
+      count: resizeProblems.length,
+      suggestedFix:
+        'Používejte relativní jednotky (rem, em) i pro výšky a rozestupy, nenastavujte pevnou výšku kontejnerům s textem ' +
+        'a nahraďte text-overflow: ellipsis zalamováním.',
+      nodes: resizeProblems.map((p) => toNode(p, '200% velikosti písma')),
+    };
+    violations.push(violation);
+    actionItems.push(buildActionItem(violation, resizeProblems[0], pageUrl, {
+      what: 'Po zvětšení písma na 200 % se text ořízne nebo překryje s jiným obsahem.',
+      fix: 'Nechte kontejnery s textem růst s obsahem (min-height místo height, bez overflow: hidden).',
+      wcagReference: '1.4.4 Změna velikosti textu',
+    }));
+  }
+
+  if (violations.length === 0) {
+    return null;
+  }
+
+  return { violations, actionItems };
+}
+
+function problemKey(problem: LayoutProblem): string {
+  return `${problem.kind}::${problem.selector}`;
+}
+
+async function collectLayoutProblems(page: Page, checkHorizontalScroll: boolean): Promise<LayoutProblem[]> {
+  return page.evaluate(
+    (checkScroll: boolean, maxPerKind: number) => {
+      const d = (globalThis as any).document as any;
+      const w = globalThis as any;
+      if (!d || !d.body) return [] as any[];
+
+      const makeSelector = (el: any): string => {
+        if (!el) return '';
+        const tag = (el.tagName || 'div').toLowerCase();
+        if (el.id) return `${tag}#${el.id}`;
+        const className = el.className;
+        if (className && typeof className === 'string') {
+          const cls = className
+            .split(/\s+/)
+            .filter(Boolean)
+            .slice(0, 2)
+            .map((c: string) => `.${c}`)
+            .join('');
+          if (cls) return `${tag}${cls}`;
+        }
+        return tag;
+      };
+
+      const box = (rect: any) => ({ x: rect.x, y: rect.y, width: rect.width, height: rect.height });
+      const snippet = (el: any): string => String(el.outerHTML || '').slice(0, 300);
+
+      const isVisible = (el: any): boolean => {
+        const rect = el.getBoundingClientRect();
+        if (rect.width === 0 || rect.height === 0) return false;
+        const style = w.getComputedStyle(el);
+        return style.visibility !== 'hidden' && style.display !== 'none' && style.opacity !== '0';
+      };
+
+      const isHiddenFromUsers = (el: any): boolean =>
+        !!el.closest('[aria-hidden="true"], [inert], [hidden]');
+
+      const problems: any[] = [];
+      const elements = (Array.from(d.body.querySelectorAll('*')) as any[]).filter(
+        (el) => !['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'BR'].includes(el.tagName),
+      );
+      const viewportWidth = d.documentElement.clientWidth;
+
+      // --- Horizontální scroll ---
+      // Výjimky WCAG 1.4.10: obsah, který potřebuje 2D layout (tabulky, mapy, obrázky, kód, toolbary)
+      const TWO_D_CONTENT = 'table, pre, code, img, picture, video, canvas, svg, iframe, map, [role="toolbar"], [role="grid"], [role="application"]';
+
+      if (checkScroll && d.documentElement.scrollWidth > viewportWidth + 1) {
+        let count = 0;
+        for (const el of elements) {
+          if (count >= maxPerKind) break;
+          if (!isVisible(el)) continue;
+
+          const rect = el.getBoundingClientRect();
+          if (rect.right <= viewportWidth + 1) continue;
+          if (el.closest(TWO_D_CONTENT)) continue;
+
+          // Uvnitř vlastního scroll kontejneru je vodorovné posouvání přípustné
+          let parent = el.parentElement;
+          let insideScroller = false;
+          while (parent && parent !== d.body) {
+            const overflowX = w.getComputedStyle(parent).overflowX;
+            if (overflowX === 'auto' || overflowX === 'scroll') {
+              insideScroller = true;
+              break;
+            }
+            parent = parent.parentElement;
+          }
+          if (insideScroller) continue;
+
+          // Hlásíme jen příčinu – prvek, jehož rodič se do viewportu ještě vejde
+          const parentRect = el.parentElement ? el.parentElement.getBoundingClientRect() : null;
+          if (parentRect && parentRect.right > viewportWidth + 1) continue;
+
+          problems.push({
+            kind: 'horizontal-scroll',
+            selector: makeSelector(el),
+            htmlSnippet: snippet(el),
+            boundingBox: box(rect),
+            detail: `pravý okraj na ${Math.round(rect.right)} px při šířce viewportu ${viewportWidth} px`,
+          });
+          count++;
+        }
+      }
+
+      // --- Oříznutý text (overflow: hidden / clip, text-overflow: ellipsis) ---
+      const clipped: any[] = [];
+      for (const el of elements) {
+        if (clipped.length >= maxPerKind) break;
+        const style = w.getComputedStyle(el);
+        const clipsX = style.overflowX === 'hidden' || style.overflowX === 'clip';
+        const clipsY = style.overflowY === 'hidden' || style.overflowY === 'clip';
+        if (!clipsX && !clipsY) continue;
+        // Visually-hidden (sr-only) vzor je záměrný
+        if (el.clientWidth <= 2 || el.clientHeight <= 2) continue;
+        const overflowsX = clipsX && el.scrollWidth > el.clientWidth + 2;
+        const overflowsY = clipsY && el.scrollHeight > el.clientHeight + 2;
+        if (!overflowsX && !overflowsY) continue;
+        if (!isVisible(el) || isHiddenFromUsers(el)) continue;
+        if (clipped.some((c) => c.contains(el))) continue;
+
+        const rect = el.getBoundingClientRect();
+        const walker = d.createTreeWalker(el, 4 /* NodeFilter.SHOW_TEXT */);
+        let textNode = walker.nextNode();
+        let hiddenText = '';
+        let checked = 0;
+
+        while (textNode && checked < 50) {
+          checked++;
+          const text = String(textNode.textContent || '').trim();
+          const parentEl = textNode.parentElement;
+          if (text && parentEl && !isHiddenFromUsers(parentEl) && isVisible(parentEl)) {
+            const range = d.createRange();
+            range.selectNodeContents(textNode);
+            const textRect = range.getBoundingClientRect();
+            const outside =
+              textRect.width > 0 &&
+              ((overflowsX && (textRect.right > rect.right + 2 || textRect.left < rect.left - 2)) ||
+                (overflowsY && (textRect.bottom > rect.bottom + 2 || textRect.top < rect.top - 2)));
+            if (outside) {
+              hiddenText = text.slice(0, 60);
+              break;
+            }
+          }
+          textNode = walker.nextNode();
+        }
+
+        const ellipsis = style.textOverflow === 'ellipsis' && overflowsX && String(el.textContent || '').trim().length > 0;
+        if (!hiddenText && !ellipsis) continue;
+
+        clipped.push(el);
+        problems.push({
+          kind: 'clipped-text',
+          selector: makeSelector(el),
+          htmlSnippet: snippet(el),
+          boundingBox: box(rect),
+          detail: hiddenText ? `skrytý text "${hiddenText}"` : 'text zkrácený výpustkou (text-overflow: ellipsis)',
+        });
+      }
+
+      // --- Překrývající se text ---
+      const textBoxes: { el: any; rect: any }[] = [];
+      for (const el of elements) {
+        if (textBoxes.length >= 400) break;
+        const hasOwnText = (Array.from(el.childNodes) as any[]).some(
+          (n) => n.nodeType === 3 && String(n.textContent || '').trim().length > 0,
+        );
+        if (!hasOwnText || !isVisible(el) || isHiddenFromUsers(el)) continue;
+        const range = d.createRange();
+        range.selectNodeContents(el);
+        const rect = range.getBoundingClientRect();
+        if (rect.width > 0 && rect.height > 0) textBoxes.push({ el, rect });
+      }
+
+      let overlaps = 0;
+      for (let i = 0; i < textBoxes.length && overlaps < maxPerKind; i++) {
+        for (let j = i + 1; j < textBoxes.length && overlaps < maxPerKind; j++) {
+          const a = textBoxes[i];
+          const b = textBoxes[j];
+          if (a.el.contains(b.el) || b.el.contains(a.el)) continue;
+
+          const width = Math.min(a.rect.right, b.rect.right) - Math.max(a.rect.left, b.rect.left);
+          const height = Math.min(a.rect.bottom, b.rect.bottom) - Math.max(a.rect.top, b.rect.top);
+          if (width <= 0 || height <= 0) continue;
+
+          const smaller = Math.min(a.rect.width * a.rect.height, b.rect.width * b.rect.height);
+          if (width * height < smaller * 0.3) continue;
+
+          problems.push({
+            kind: 'overlapping-text',
+            selector: makeSelector(a.el),
+            htmlSnippet: snippet(a.el),
+            boundingBox: box(a.rect),
+            detail: makeSelector(b.el),
+          });
+          overlaps++;
+        }
+      }
+
+      return problems;
+    },
+    checkHorizontalScroll,
+    MAX_PROBLEMS_PER_KIND,
+  ) as Promise<LayoutProblem[]>;
+}
+
+/**
+ * Zvětší písmo všech prvků (emulace "jen text" zoomu – rem i px hodnoty).
+ * Původní inline hodnoty si uloží do window, aby je restoreText mohl vrátit.
+ */
+async function scaleText(page: Page, factor: number): Promise<void> {
+  await page.evaluate((scale: number) => {
+    const d = (globalThis as any).document as any;
+    const w = globalThis as any;
+    if (!d || !d.body) return;
+
+    const elements = [d.documentElement, d.body, ...(Array.from(d.body.querySelectorAll('*')) as any[])];
+    // Velikosti čteme předem – jinak by se em hodnoty potomků násobily opakovaně
+    const sizes = elements.map((el) => parseFloat(w.getComputedStyle(el).fontSize) || 16);
+
+    w.__a11yflowTextResize = elements.map((el, i) => {
+      const previous = [el, el.style.getPropertyValue('font-size'), el.style.getPropertyPriority('font-size')];
+      el.style.setProperty('font-size', `${sizes[i] * scale}px`, 'important');
+      return previous;
+    });
+  }, factor);
+}
+
+async function restoreText(page: Page): Promise<void> {
+  await page.evaluate(() => {
+    const w = globalThis as any;
+    const saved = w.__a11yflowTextResize as [any, string, string][] | undefined;
+    if (!saved) return;
+
+    for (const [el, value, priority] of saved) {
+      if (value) el.style.setProperty('font-size', value, priority);
+      else el.style.removeProperty('font-size');
+    }
+    delete w.__a11yflowTextResize;
+  }).catch(() => {});
+}
+
+function toNode(problem: LayoutProblem, context: string): ViolationNode {
+  const summaries: Record<LayoutProblemKind, string> = {
+    'horizontal-scroll': `Při ${context} přesahuje prvek šířku stránky a vynucuje vodorovné posouvání (${problem.detail}).`,
+    'clipped-text': `Při ${context} je část textu oříznutá kontejnerem s overflow: hidden (${problem.detail}).`,
+    'overlapping-text': `Při ${context} se text prvku překrývá s ${problem.detail}.`,
+  };
+
+  return {
+    html: problem.htmlSnippet,
+    target: problem.selector ? [problem.selector] : [],
+    failureSummary: summaries[problem.kind],
+    conditionBox: { ...problem.boundingBox, condition: context },
+  };
+}
+
+function buildActionItem(
+  violation: AccessibilityViolation,
+  firstProblem: LayoutProblem,
+  pageUrl: string,
+  texts: { what: string; fix: string; wcagReference: string },
+): HumanReadableActionItem {
+  return {
+    id: violation.id,
+    impact: violation.impact as ImpactLevel,
+    priority: '🟠 Serious',
+    category: 'Content',
+    what: texts.what,
+    fix: texts.fix,
+    exampleUrl: pageUrl,
+    exampleTarget: firstProblem.selector || undefined,
+    wcagReference: texts.wcagReference,
+  };
+}
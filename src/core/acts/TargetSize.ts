@@ -0,0 +1,278 @@
+import { Page } from 'puppeteer-core';
+import { AccessibilityViolation, HumanReadableActionItem, ImpactLevel } from '../types';
+
+export interface TargetSizeActResult {
+  violations: AccessibilityViolation[];
+  actionItems: HumanReadableActionItem[];
+}
+
+interface UndersizedTarget {
+  selector: string;
+  htmlSnippet: string;
+  label: string;
+  boundingBox: { x: number; y: number; width: number; height: number };
+  // Pod minimem WCAG 2.5.8 (24 px) a bez výjimky na rozestup
+  failsMinimum: boolean;
+}
+
+// WCAG 2.5.8 (AA) a 2.5.5 (AAA, dotyková zařízení)
+export const TARGET_SIZE_MINIMUM = 24;
+export const TARGET_SIZE_ENHANCED = 44;
+
+export const TARGET_SIZE_RULE_IDS = ['a11yflow-target-size', 'a11yflow-target-size-enhanced'];
+
+const MAX_REPORTED_TARGETS = 30;
+
+/**
+ * Custom test pro WCAG 2.5.8 Target Size (Minimum).
+ *
+ * Logika:
+ * 1. Změří vykreslený box (getBoundingClientRect) všech viditelných interaktivních prvků.
+ * 2. Vynechá výjimky: odkazy v řádku textu (inline), nativní prvky bez úprav autora (UA control)
+ *    a prvky, jejichž <label> má dostatečnou velikost.
+ * 3. Na cíl menší než 24 × 24 px uplatní výjimku na rozestup – kruh o průměru 24 px se středem
+ *    v boxu cíle nesmí zasahovat do jiného cíle ani do kruhu jiného malého cíle.
+ * 4. S options.minSize > 24 (mobile / tablet profil – 44 px) hlásí navíc cíle mezi 24 a minSize
+ *    jako WCAG 2.5.5 (Enhanced), kde výjimka na rozestup neplatí.
+ */
+export async function runTargetSizeActTest(
+  page: Page,
+  pageUrl: string,
+  options: Record<string, unknown> = {},
+): Promise<TargetSizeActResult | null> {
+  const minSize = Math.max(TARGET_SIZE_MINIMUM, Number(options.minSize) || TARGET_SIZE_MINIMUM);
+
+  const targets = await findUndersizedTargets(page, minSize);
+  if (targets.length === 0) {
+    return null;
+  }
+
+  const violations: AccessibilityViolation[] = [];
+  const actionItems: HumanReadableActionItem[] = [];
+
+  const minimum = targets.filter((t) => t.failsMinimum);
+  const enhanced = targets.filter((t) => !t.failsMinimum);
+
+  if (minimum.length > 0) {
+    const impact: ImpactLevel = 'serious';
+    const violation: AccessibilityViolation = {
+      id: 'a11yflow-target-size',
+      title: 'Klikací cíl je menší než 24 × 24 px',
+      description:
+        'Interaktivní prvek má vykreslenou plochu menší než 24 × 24 CSS px a je příliš blízko jiným cílům. ' +
+        'Uživatelé s třesem rukou nebo na dotykovém displeji trefí vedlejší prvek.',
+      impact,
+      helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/target-size-minimum.html',
+      count: minimum.length,
+      suggestedFix:
+        'Zvětšete klikací plochu na alespoň 24 × 24 px (padding, min-width/min-height), nebo mezi malé cíle přidejte takový rozestup, ' +
+        'aby se kruhy o průměru 24 px kolem nich nepřekrývaly.',
+      nodes: minimum.slice(0, MAX_REPORTED_TARGETS).map((t) => ({
+        html: t.htmlSnippet,
+        target: t.selector ? [t.selector] : [],
+        failureSummary: `Cíl má ${Math.round(t.boundingBox.width)} × ${Math.round(t.boundingBox.height)} px a jeho okolí (kruh 24 px) zasahuje do jiného cíle.`,
+        boundingBox: t.boundingBox,
+        elementLabel: t.label || undefined,
+      })),
+    };
+    violations.push(violation);
+    actionItems.push({
+      id: violation.id,
+      impact,
+      priority: '🟠 Serious',
+      category: 'Graphics',
+      what: 'Některá tlačítka, odkazy nebo ikony jsou menší než 24 × 24 px a leží těsně u sebe – snadno se klikne vedle.',
+      fix: 'Zvětšete klikací plochu malých prvků (padding, min-width/min-height 24px) nebo mezi ně přidejte rozestup.',
+      exampleUrl: pageUrl,
+      exampleTarget: minimum[0].selector || undefined,
+      elementLabel: minimum[0].label || undefined,
+      wcagReference: '2.5.8 Target Size (Minimum)',
+    });
+  }
+
+  if (enhanced.length > 0) {
+    const impact: ImpactLevel = 'moderate';
+    const violation: AccessibilityViolation = {
+      id: 'a11yflow-target-size-enhanced',
+      title: `Klikací cíl je na dotykovém zařízení menší než ${minSize} × ${minSize} px`,
+      description:
+        `Na dotykovém profilu je interaktivní prvek menší než doporučených ${minSize} × ${minSize} CSS px ` +
+        '(WCAG 2.5.5 Target Size (Enhanced), doporučení Apple / Material pro dotyk).',
+      impact,
+      helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/target-size-enhanced.html',
+      count: enhanced.length,
+      suggestedFix: `Na malých obrazovkách zvětšete klikací plochu na alespoň ${minSize} × ${minSize} px (např. v media query pro pointer: coarse).`,
+      nodes: enhanced.slice(0, MAX_REPORTED_TARGETS).map((t) => ({
+        html: t.htmlSnippet,
+        target: t.selector ? [t.selector] : [],
+        failureSummary: `Cíl má ${Math.round(t.boundingBox.width)} × ${Math.round(t.boundingBox.height)} px, pro dotyk je potřeba ${minSize} × ${minSize} px.`,
+        boundingBox: t.boundingBox,
+        elementLabel: t.label || undefined,
+      })),
+    };
+    violations.push(violation);
+    actionItems.push({
+      id: violation.id,
+      impact,
+      priority: '🟡 Moderate',
+      category: 'Graphics',
+      what: `Na mobilu / tabletu jsou některé klikací prvky menší než ${minSize} × ${minSize} px.`,
+      fix: `Pro dotykové obrazovky zvětšete klikací plochu na ${minSize} × ${minSize} px.`,
+      exampleUrl: pageUrl,
+      exampleTarget: enhanced[0].selector || undefined,
+      elementLabel: enhanced[0].label || undefined,
+      wcagReference: '2.5.5 Target Size (Enhanced)',
+    });
+  }
+
+  return { violations, actionItems };
+}
+
+async function findUndersizedTargets(page: Page, minSize: number): Promise<UndersizedTarget[]> {
+  return page.evaluate(
+    (threshold: number, minimum: number) => {
+      const d = (globalThis as any).document as any;
+      const w = globalThis as any;
+      if (!d || !d.body) return [] as any[];
+
+      const makeSelector = (el: any): string => {
+        if (!el) return '';
+        const tag = (el.tagName || 'div').toLowerCase();
+        if (el.id) return `${tag}#${el.id}`;
+        const className = el.className;
+        if (className && typeof className === 'string') {
+          const cls = className
+            .split(/\s+/)
+            .filter(Boolean)
+            .slice(0, 2)
+            .map((c: string) => `.${c}`)
+            .join('');
+          if (cls) return `${tag}${cls}`;
+        }
+        return tag;
+      };
+
+      const INTERACTIVE = [
+        'a[href]',
+        'button',
+        'input:not([type="hidden"])',
+        'select',
+        'textarea',
+        'summary',
+        '[role="button"]',
+        '[role="link"]',
+        '[role="checkbox"]',
+        '[role="radio"]',
+        '[role="switch"]',
+        '[role="tab"]',
+        '[role="menuitem"]',
+        '[role="option"]',
+        '[onclick]',
+        '[tabindex]:not([tabindex="-1"])',
+      ].join(', ');
+
+      const isVisible = (el: any, rect: any): boolean => {
+        if (rect.width === 0 || rect.height === 0) return false;
+        const style = w.getComputedStyle(el);
+        if (style.visibility === 'hidden' || style.display === 'none' || style.opacity === '0') return false;
+        if (style.pointerEvents === 'none') return false;
+        // Visually-hidden (sr-only) prvky nejsou klikací cíle
+        return !(rect.width <= 1 && rect.height <= 1);
+      };
+
+      // Výjimka "Inline": odkaz uvnitř věty, jehož velikost určuje řádkování textu
+      const isInline = (el: any): boolean => {
+        if (el.tagName !== 'A') return false;
+        if (!w.getComputedStyle(el).display.startsWith('inline')) return false;
+        const block = el.parentElement;
+        if (!block) return false;
+        const ownText = (Array.from(block.childNodes) as any[])
+          .filter((n) => n.nodeType === 3)
+          .map((n) => String(n.textContent || '').trim())
+          .join('');
+        return ownText.length > 0;
+      };
+
+      // Výjimka "User agent control": nativní checkbox/radio, jejichž vzhled autor neměnil
+      const isUserAgentControl = (el: any): boolean => {
+        if (el.tagName !== 'INPUT' || !['checkbox', 'radio'].includes(el.type)) return false;
+        const style = w.getComputedStyle(el);
+        return style.appearance !== 'none' && !el.getAttribute('style');
+      };
+
+      const labelIsLargeEnough = (el: any): boolean => {
+        const labels = el.labels ? (Array.from(el.labels) as any[]) : [];
+        return labels.some((label) => {
+          const rect = label.getBoundingClientRect();
+          return rect.width >= minimum && rect.height >= minimum;
+        });
+      };
+
+      const targets: { el: any; rect: any }[] = [];
+      for (const el of Array.from(d.querySelectorAll(INTERACTIVE)) as any[]) {
+        if (el.disabled || el.closest('[aria-hidden="true"], [inert], [hidden]')) continue;
+        // Vnořený interaktivní prvek (ikona v tlačítku) – cílem je vnější prvek
+        if (el.parentElement && el.parentElement.closest(INTERACTIVE)) continue;
+        const rect = el.getBoundingClientRect();
+        if (!isVisible(el, rect)) continue;
+        targets.push({ el, rect });
+      }
+
+      const center = (rect: any) => ({ x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 });
+
+      // Vzdálenost středu kruhu od nejbližšího bodu obdélníku
+      const distanceToRect = (point: any, rect: any): number => {
+        const dx = Math.max(rect.left - point.x, 0, point.x - rect.right);
+        const dy = Math.max(rect.top - point.y, 0, point.y - rect.bottom);
+        return Math.sqrt(dx * dx + dy * dy);
+      };
+
+      const undersized = targets.filter(
+        (t) =>
+          (t.rect.width < threshold - 0.5 || t.rect.height < threshold - 0.5) &&
+          !isInline(t.el) &&
+          !isUserAgentControl(t.el) &&
+          !labelIsLargeEnough(t.el),
+      );
+      const belowMinimum = new Set(
+        undersized.filter((t) => t.rect.width < minimum - 0.5 || t.rect.height < minimum - 0.5),
+      );
+
+      const result: any[] = [];
+
+      for (const target of undersized) {
+        let failsMinimum = false;
+
+        if (belowMinimum.has(target)) {
+          // Výjimka na rozestup (Spacing) – kruh 24 px nesmí zasáhnout jiný cíl ani kruh jiného malého cíle
+          const c = center(target.rect);
+          const radius = minimum / 2;
+          failsMinimum = targets.some((other) => {
+            if (other === target) return false;
+            if (other.el.contains(target.el) || target.el.contains(other.el)) return false;
+            if (belowMinimum.has(other)) {
+              const oc = center(other.rect);
+              return Math.hypot(c.x - oc.x, c.y - oc.y) < minimum;
+            }
+            return distanceToRect(c, other.rect) < radius;
+          });
+
+          // Malý cíl s dostatečným rozestupem projde 2.5.8; hlásíme ho jen proti vyššímu prahu
+          if (!failsMinimum && threshold <= minimum) continue;
+        }
+
+        result.push({
+          selector: makeSelector(target.el),
+          htmlSnippet: String(target.el.outerHTML || '').slice(0, 300),
+          label: String(target.el.getAttribute('aria-label') || target.el.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 80),
+          boundingBox: { x: target.rect.x, y: target.rect.y, width: target.rect.width, height: target.rect.height },
+          failsMinimum,
+        });
+      }
+
+      return result;
+    },
+    minSize,
+    TARGET_SIZE_MINIMUM,
+  ) as Promise<UndersizedTarget[]>;
+}
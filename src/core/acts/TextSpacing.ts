@@ -0,0 +1,252 @@
+import { Page } from 'puppeteer-core';
+import { AccessibilityViolation, HumanReadableActionItem, ImpactLevel } from '../types';
+import { RemediationService } from '../RemediationService';
+
+export interface TextSpacingActResult {
+  violations: AccessibilityViolation[];
+  actionItems: HumanReadableActionItem[];
+}
+
+interface TextSpacingProblem {
+  kind: 'clipped' | 'overlapped';
+  selector: string;
+  htmlSnippet: string;
+  boundingBox: { x: number; y: number; width: number; height: number };
+  detail: string;
+}
+
+export const TEXT_SPACING_RULE_ID = 'a11yflow-text-spacing';
+
+// Styl z WCAG 1.4.12 (stejné hodnoty používá "text spacing bookmarklet")
+const TEXT_SPACING_CSS = `
+  * {
+    line-height: 1.5 !important;
+    letter-spacing: 0.12em !important;
+    word-spacing: 0.16em !important;
+  }
+  p {
+    margin-bottom: 2em !important;
+  }
+`;
+
+const MAX_PROBLEMS = 15;
+
+/**
+ * Custom test pro WCAG 1.4.12 (Text Spacing).
+ *
+ * Logika:
+ * 1. Zaznamená rozměry textových prvků a kontejnerů s overflow: hidden (bounding box, scroll/client velikost).
+ * 2. Vloží styl s řádkováním 1.5, mezerou za odstavcem 2em, prostrkáním 0.12em a mezerou mezi slovy 0.16em.
+ * 3. Porovná stav před a po: kontejner, který nově přetéká (text se ořízne), a textové prvky,
+ *    které se nově překrývají.
+ * 4. Styl odstraní.
+ */
+export async function runTextSpacingActTest(page: Page, pageUrl: string): Promise<TextSpacingActResult | null> {
+  await snapshotTextLayout(page);
+
+  let problems: TextSpacingProblem[] = [];
+  const styleHandle = await page.addStyleTag({ content: TEXT_SPACING_CSS });
+
+  try {
+    await new Promise((r) => setTimeout(r, 300));
+    problems = await compareTextLayout(page);
+  } finally {
+    await styleHandle.evaluate((el) => el.remove()).catch(() => {});
+    await page.evaluate(() => {
+      delete (globalThis as any).__a11yflowTextSpacing;
+    }).catch(() => {});
+  }
+
+  if (problems.length === 0) {
+    return null;
+  }
+
+  const impact: ImpactLevel = 'serious';
+  const meta = RemediationService.getRuleMeta(TEXT_SPACING_RULE_ID);
+
+  const violation: AccessibilityViolation = {
+    id: TEXT_SPACING_RULE_ID,
+    title: 'Text se po úpravě řádkování a mezer ořízne nebo překryje',
+    description:
+      'Po nastavení řádkování 1,5, mezery za odstavcem 2em, prostrkání 0,12em a mezer mezi slovy 0,16em ' +
+      'část textu zmizí v kontejneru s pevnou velikostí nebo se překryje s jiným obsahem. ' +
+      'Uživatelé s dyslexií nebo slabozrakostí si takové mezery nastavují vlastním stylem.',
+    impact,
+    helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/text-spacing.html',
+    count: problems.length,
+    suggestedFix: meta.fix,
+    nodes: problems.map((problem) => ({
+      html: problem.htmlSnippet,
+      target: problem.selector ? [problem.selector] : [],
+      failureSummary:
+        problem.kind === 'clipped'
+          ? `Po úpravě mezer kontejner přetéká a text se ořízne (${problem.detail}).`
+          : `Po úpravě mezer se text prvku překrývá s ${problem.detail}.`,
+      conditionBox: { ...problem.boundingBox, condition: 'upravené mezery v textu' },
+    })),
+  };
+
+  const actionItem: HumanReadableActionItem = {
+    id: violation.id,
+    impact,
+    priority: '🟠 Serious',
+    category: meta.category,
+    what: meta.what,
+    fix: meta.fix,
+    exampleUrl: pageUrl,
+    exampleTarget: problems[0].selector || undefined,
+    wcagReference: meta.wcag,
+    codeSnippet: RemediationService.getCodeSnippet(TEXT_SPACING_RULE_ID),
+  };
+
+  return {
+    violations: [violation],
+    actionItems: [actionItem],
+  };
+}
+
+/**
+ * Uloží do window seznam sledovaných prvků a jejich rozměry před úpravou mezer.
+ */
+async function snapshotTextLayout(page: Page): Promise<void> {
+  await page.evaluate(() => {
+    const d = (globalThis as any).document as any;
+    const w = globalThis as any;
+    if (!d || !d.body) return;
+
+    const isVisible = (el: any): boolean => {
+      const rect = el.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) return false;
+      const style = w.getComputedStyle(el);
+      return style.visibility !== 'hidden' && style.display !== 'none' && style.opacity !== '0';
+    };
+
+    const hasText = (el: any) => String(el.textContent || '').trim().length > 0;
+    const hasOwnText = (el: any) =>
+      (Array.from(el.childNodes) as any[]).some((n) => n.nodeType === 3 && String(n.textContent || '').trim().length > 0);
+
+    const clippers: any[] = [];
+    const texts: any[] = [];
+
+    for (const el of Array.from(d.body.querySelectorAll('*')) as any[]) {
+      if (['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE'].includes(el.tagName)) continue;
+      if (el.closest('[aria-hidden="true"], [inert], [hidden]')) continue;
+      if (!isVisible(el)) continue;
+
+      const style = w.getComputedStyle(el);
+      const clips = ['hidden', 'clip'].includes(style.overflowX) || ['hidden', 'clip'].includes(style.overflowY);
+      // Stejné vynechání sr-only prvků jako oříznutý text v Reflow
+      if (clips && hasText(el) && el.clientWidth > 2 && el.clientHeight > 2 && clippers.length < 300) {
+        clippers.push({
+          el,
+          overflowX: el.scrollWidth > el.clientWidth + 2,
+          overflowY: el.scrollHeight > el.clientHeight + 2,
+        });
+      }
+
+      if (hasOwnText(el) && texts.length < 400) {
+        const range = d.createRange();
+        range.selectNodeContents(el);
+        texts.push({ el, range });
+      }
+    }
+
+    // Dvojice, které se překrývají už před úpravou, nejsou důsledkem mezer
+    const rects = texts.map((t) => t.range.getBoundingClientRect());
+    const overlapping: string[] = [];
+    for (let i = 0; i < rects.length; i++) {
+      for (let j = i + 1; j < rects.length; j++) {
+        const width = Math.min(rects[i].right, rects[j].right) - Math.max(rects[i].left, rects[j].left);
+        const height = Math.min(rects[i].bottom, rects[j].bottom) - Math.max(rects[i].top, rects[j].top);
+        if (width > 0 && height > 0) overlapping.push(`${i}:${j}`);
+      }
+    }
+
+    w.__a11yflowTextSpacing = { clippers, texts, overlapping };
+  });
+}
+
+async function compareTextLayout(page: Page): Promise<TextSpacingProblem[]> {
+  return page.evaluate((maxProblems: number) => {
+    const w = globalThis as any;
+    const snapshot = w.__a11yflowTextSpacing;
+    if (!snapshot) return [] as any[];
+
+    const makeSelector = (el: any): string => {
+      if (!el) return '';
+      const tag = (el.tagName || 'div').toLowerCase();
+      if (el.id) return `${tag}#${el.id}`;
+      const className = el.className;
+      if (className && typeof className === 'string') {
+        const cls = className
+          .split(/\s+/)
+          .filter(Boolean)
+          .slice(0, 2)
+          .map((c: string) => `.${c}`)
+          .join('');
+        if (cls) return `${tag}${cls}`;
+      }
+      return tag;
+    };
+
+    const box = (rect: any) => ({ x: rect.x, y: rect.y, width: rect.width, height: rect.height });
+    const snippet = (el: any): string => String(el.outerHTML || '').slice(0, 300);
+
+    const problems: any[] = [];
+    const reported: any[] = [];
+
+    for (const clipper of snapshot.clippers) {
+      if (problems.length >= maxProblems) break;
+      const el = clipper.el;
+      if (!el.isConnected) continue;
+
+      const grewX = !clipper.overflowX && el.scrollWidth > el.clientWidth + 2;
+      const grewY = !clipper.overflowY && el.scrollHeight > el.clientHeight + 2;
+      if (!grewX && !grewY) continue;
+      if (reported.some((r) => r.contains(el))) continue;
+
+      reported.push(el);
+      problems.push({
+        kind: 'clipped',
+        selector: makeSelector(el),
+        htmlSnippet: snippet(el),
+        boundingBox: box(el.getBoundingClientRect()),
+        detail: grewY
+          ? `obsah ${el.scrollHeight} px, viditelná výška ${el.clientHeight} px`
+          : `obsah ${el.scrollWidth} px, viditelná šířka ${el.clientWidth} px`,
+      });
+    }
+
+    const before = new Set<string>(snapshot.overlapping);
+    const rects = snapshot.texts.map((t: any) => t.range.getBoundingClientRect());
+
+    for (let i = 0; i < rects.length && problems.length < maxProblems; i++) {
+      for (let j = i + 1; j < rects.length && problems.length < maxProblems; j++) {
+        if (before.has(`${i}:${j}`)) continue;
+        const a = snapshot.texts[i].el;
+        const b = snapshot.texts[j].el;
+        if (a.contains(b) || b.contains(a)) continue;
+        // Text v oříznutém kontejneru už je nahlášený – jeho range přesahuje i přes skrytou část
+        if (reported.some((r) => r.contains(a) || r.contains(b))) continue;
+
+        const width = Math.min(rects[i].right, rects[j].right) - Math.max(rects[i].left, rects[j].left);
+        const height = Math.min(rects[i].bottom, rects[j].bottom) - Math.max(rects[i].top, rects[j].top);
+        if (width <= 0 || height <= 0) continue;
+
+        // Drobný dotyk řádků (zaokrouhlení) nepočítáme
+        const smaller = Math.min(rects[i].width * rects[i].height, rects[j].width * rects[j].height);
+        if (width * height < smaller * 0.2) continue;
+
+        problems.push({
+          kind: 'overlapped',
+          selector: makeSelector(a),
+          htmlSnippet: snippet(a),
+          boundingBox: box(rects[i]),
+          detail: makeSelector(b),
+        });
+      }
+    }
+
+    return problems;
+  }, MAX_PROBLEMS) as Promise<TextSpacingProblem[]>;
+}
@@ -0,0 +1,93 @@
+import { ActRuleRegistry } from './acts/ActRuleRegistry';
+import {
+  AccessibilityViolation,
+  AuditReport,
+  CrawlSummary,
+  ImpactLevel,
+  ManualChecklistItem,
+  ManualVerdict,
+  RuleOutcome,
+  ViolationNode,
+} from './types';
+
+/**
+ * Sdílené fixtures pro specy služeb, které zpracovávají hotové reporty
+ * (diff, policy, exporty, checklist, matice souladu, ACR, nadpisy, kontrast).
+ * Do buildu se nedostanou – importují je jen *.test.ts soubory.
+ */
+
+export const PAGE_URL = 'https://example.com/';
+
+// Node se selectorem `#<fingerprint>` – ReportDiffer / ProfileComparator ho párují podle fingerprintu
+export function node(fingerprint: string, extra: Partial<ViolationNode> = {}): ViolationNode {
+  return {
+    html: `<div data-fp="${fingerprint}"></div>`,
+    target: [`#${fingerprint}`],
+    failureSummary: 'Fix it',
+    cssSelector: `#${fingerprint}`,
+    fingerprint,
+    ...extra,
+  };
+}
+
+// Řetězec v `nodes` je zkratka pro node(fingerprint); bez nodů jde o nález na úrovni stránky
+export function violation(
+  id: string,
+  impact: ImpactLevel,
+  nodes: Array<string | ViolationNode> = [],
+  extra: Partial<AccessibilityViolation> = {},
+): AccessibilityViolation {
+  const mapped = nodes.map((n) => (typeof n === 'string' ? node(n) : n));
+  return {
+    id,
+    title: `${id} title`,
+    description: `${id} description`,
+    impact,
+    count: mapped.length,
+    nodes: mapped,
+    ...extra,
+  };
+}
+
+export function page(url = PAGE_URL, violations: AccessibilityViolation[] = [], extra: Partial<AuditReport> = {}): AuditReport {
+  const byImpact = (impact: ImpactLevel) => violations.filter((v) => v.impact === impact);
+  const countOf = (list: AccessibilityViolation[]) => list.reduce((acc, v) => acc + v.count, 0);
+  return {
+    url,
+    timestamp: '2026-01-01T00:00:00.000Z',
+    score: 90,
+    meta: { browserVersion: 'axe-core 4.11.0', engineVersion: '4.11.0' },
+    violations: {
+      critical: byImpact('critical'),
+      serious: byImpact('serious'),
+      moderate: byImpact('moderate'),
+      minor: byImpact('minor'),
+    },
+    stats: { totalViolations: countOf(violations), criticalCount: countOf(byImpact('critical')) },
+    humanReadable: { actionItems: [], topIssues: [] },
+    ...extra,
+  };
+}
+
+export function crawl(pages: AuditReport[], extra: Partial<CrawlSummary> = {}): CrawlSummary {
+  return {
+    rootUrl: pages[0]?.url ?? PAGE_URL,
+    totalPagesScanned: pages.length,
+    averageScore: pages.length > 0 ? Math.round(pages.reduce((acc, p) => acc + p.score, 0) / pages.length) : 0,
+    totalCriticalViolations: pages.reduce((acc, p) => acc + p.stats.criticalCount, 0),
+    totalViolations: pages.reduce((acc, p) => acc + p.stats.totalViolations, 0),
+    pages,
+    ...extra,
+  };
+}
+
+// Výsledky pravidel (passes / inapplicable) jen podle ID
+export function outcomes(...ids: string[]): RuleOutcome[] {
+  return ids.map((id) => ({ id, title: id, nodeCount: 1 }));
+}
+
+// Položka ručního checklistu pro pravidlo z ActRuleRegistry
+export function manual(ruleId: string, status: ManualVerdict | 'pending'): ManualChecklistItem {
+  const rule = ActRuleRegistry.find((r) => r.id === ruleId)!;
+  return { ruleId, name: rule.name, wcag: rule.wcag, guidance: '', status };
+}
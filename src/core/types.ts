@@ -35,10 +35,22 @@ export interface ViolationNode {
   componentName?: string;
   // Bounding box prvku na stránce (pro screenshot annotator)
   boundingBox?: { x: number; y: number; width: number; height: number };
+  // Box změřený za podmínek testu (viewport 320 px, upravené mezery) – na screenshot původního viewportu nepatří
+  conditionBox?: { x: number; y: number; width: number; height: number; condition: string };
   // Číslo anotace na screenshotu (pro reference v reportu)
   annotationNumber?: number;
   // Impact level tohoto konkrétního node (pro color-coding v annotaci)
   impact?: ImpactLevel;
+  // Přístupný název a popis podle accname 1.2 (spočítal Chromium, čteno přes CDP)
+  accName?: AccessibleNameInfo;
+}
+
+export interface AccessibleNameInfo {
+  role: string;
+  name: string;
+  // Odkud název pochází (aria-labelledby, aria-label, label, contents, title, placeholder …)
+  nameSource?: string;
+  description?: string;
 }
 
 export interface AccessibilityViolation {
@@ -55,6 +67,20 @@ export interface AccessibilityViolation {
   actRuleUrls?: string[];
 }
 
+// Pravidlo mimo violations – prošlo, nebylo použitelné, nebo ho automat nerozhodl
+// (axe passes / inapplicable / incomplete, custom ACT testy)
+export interface RuleOutcome {
+  id: string;
+  title: string;
+  description?: string;
+  helpUrl?: string;
+  impact?: ImpactLevel | null;
+  // Počet prvků, na kterých bylo pravidlo vyhodnoceno (u inapplicable vždy 0)
+  nodeCount: number;
+  // Obohacené nody (selector, label, fingerprint, komponenta); u passes jen vzorek
+  nodes?: ViolationNode[];
+}
+
 // Snippet s ukázkou opravy kódu
 export interface CodeSnippet {
   before: string;  // Špatný kód
@@ -132,7 +158,21 @@ export type KeyboardIssueType =
   | 'focus-loop'
   | 'no-visible-focus'
   | 'no-focusable-elements'
-  | 'offscreen-focus';
+  | 'offscreen-focus'
+  | 'focus-obscured'
+  | 'focus-appearance'
+  // Shift+Tab neprochází prvky v opačném pořadí než Tab
+  | 'reverse-focus-order';
+
+// Fixed/sticky prvek (hlavička, cookie lišta, chat), který zakrývá fokusovaný prvek
+export interface FocusObscuringOverlay {
+  selector: string;
+  // 'fixed' | 'sticky'
+  position: string;
+  htmlSnippet?: string;
+  // Podíl plochy fokusovaného prvku (0–1), který overlay zakrývá
+  coveredRatio: number;
+}
 
 export interface KeyboardNavigationIssue {
   type: KeyboardIssueType;
@@ -145,6 +185,27 @@ export interface KeyboardNavigationIssue {
    wcagReference?: string;
    // Doporučení, jak problém opravit (pár vět)
    recommendation?: string;
+   // Jen u 'focus-obscured' – overlay, který fokus zakrývá, a zda celý (2.4.11) nebo částečně (2.4.12)
+   obscuredBy?: FocusObscuringOverlay;
+   fullyObscured?: boolean;
+   // Naměřený indikátor fokusu (rozdíl screenshotů), pokud se měření podařilo
+   focusIndicator?: FocusIndicatorMeasurement;
+}
+
+// Indikátor fokusu z porovnání screenshotů s fokusem a bez něj (plochy v CSS px²)
+export interface FocusIndicatorMeasurement {
+  // Plocha všech pixelů, které se při fokusu změnily
+  area: number;
+  // Plocha pixelů, jejichž změna má kontrast aspoň 3:1
+  contrastingArea: number;
+  // Plocha 2px silného obvodu prvku – minimum podle WCAG 2.4.13
+  minimumArea: number;
+  // Medián kontrastu změněných pixelů vůči stavu bez fokusu
+  changeContrast: number;
+  // Medián kontrastu indikátoru vůči sousedním barvám
+  adjacentContrast?: number;
+  visible: boolean;
+  meetsFocusAppearance: boolean;
 }
 
 export interface KeyboardNavigationReport {
@@ -152,24 +213,221 @@ export interface KeyboardNavigationReport {
   issues: KeyboardNavigationIssue[];
 }
 
+// Uzel accessibility stromu Chromia (page.accessibility.snapshot, jen "zajímavé" uzly)
+export interface AccessibilityTreeNode {
+  role: string;
+  name?: string;
+  value?: string | number;
+  description?: string;
+  level?: number;
+  // Stavy jako "checked", "expanded", "collapsed", "disabled", "required", "invalid"
+  states?: string[];
+  children?: AccessibilityTreeNode[];
+}
+
+export type ScreenReaderUtteranceKind =
+  | 'document'
+  | 'landmark'
+  | 'heading'
+  | 'link'
+  | 'control'
+  | 'image'
+  | 'list'
+  | 'table'
+  | 'dialog'
+  | 'text';
+
+// Jeden řádek přepisu – co by čtečka oznámila při čtení stránky šipkou dolů
+export interface ScreenReaderUtterance {
+  kind: ScreenReaderUtteranceKind;
+  role: string;
+  text: string;
+  // Hloubka vnoření v accessibility stromu (pro odsazení v reportu)
+  depth: number;
+  level?: number;
+  // Interaktivní prvek nebo obrázek bez přístupného názvu
+  unnamed?: boolean;
+}
+
+export interface AccessibilityTreeReport {
+  nodeCount: number;
+  // Strom nebo přepis byly zkráceny kvůli velikosti reportu
+  truncated: boolean;
+  root?: AccessibilityTreeNode;
+  transcript: ScreenReaderUtterance[];
+  counts: {
+    headings: number;
+    landmarks: number;
+    links: number;
+    controls: number;
+    images: number;
+    unnamed: number;
+  };
+}
+
+// Inventář interaktivních prvků s přístupnými názvy (accname 1.2)
+export interface InteractiveElement extends AccessibleNameInfo {
+  selector: string;
+  tag: string;
+  // Text, který uživatel na prvku vidí (obsah, value tlačítka, <label> pole)
+  visibleLabel?: string;
+  // Ovládací prvek bez viditelného textu – jen ikona / obrázek
+  iconOnly?: boolean;
+  href?: string;
+  // Viditelný text není obsažen v přístupném názvu (WCAG 2.5.3)
+  labelInNameMismatch?: boolean;
+}
+
+export interface InteractiveElementsReport {
+  // Počet nalezených prvků (elements může být zkrácené)
+  total: number;
+  truncated: boolean;
+  counts: {
+    unnamed: number;
+    labelInNameMismatches: number;
+    iconOnly: number;
+    duplicateIconNames: number;
+  };
+  elements: InteractiveElement[];
+}
+
+// Oznámení dynamických změn (live regiony, stavové zprávy) – WCAG 4.1.3
+export type LiveAnnouncementStatus = 'announced' | 'missed';
+
+// Proč čtečka zprávu nejspíš neoznámí
+export type LiveAnnouncementMissReason =
+  | 'outside-live-region' // toast / stavová zpráva mimo aria-live
+  | 'region-inserted-with-content' // live region vložený do DOM i s textem
+  | 'hidden-region'; // změna v live regionu s display:none / aria-hidden
+
+export interface LiveAnnouncement {
+  status: LiveAnnouncementStatus;
+  reason?: LiveAnnouncementMissReason;
+  text: string;
+  selector: string;
+  htmlSnippet?: string;
+  politeness?: 'polite' | 'assertive';
+  regionRole?: string;
+  // Akce, během které se zpráva objevila (fáze skenu nebo krok user flow)
+  action: string;
+  timestamp: string;
+  // Čas od připojení observeru
+  offsetMs: number;
+  pageUrl?: string;
+}
+
+export interface LiveRegionReport {
+  // Počet live regionů v DOM při vyhodnocení
+  regionCount: number;
+  announcedCount: number;
+  missedCount: number;
+  // Záznamy byly zkráceny kvůli velikosti reportu
+  truncated: boolean;
+  announcements: LiveAnnouncement[];
+}
+
+// Kontrast textu změřený z pixelů pozadí (obrázky, gradienty, pseudo-elementy)
+export interface ContrastMeasurement {
+  selector: string;
+  text?: string;
+  foreground: string; // #rrggbb
+  // Pixel pozadí s nejhorším kontrastem (po odečtení šumu) a mediánový pixel
+  worstBackground: string;
+  medianBackground: string;
+  worstRatio: number;
+  medianRatio: number;
+  requiredRatio: number; // 4.5, u velkého textu 3
+  largeText: boolean;
+  passed: boolean;
+}
+
+export type ContrastSkipReason = 'not-found' | 'no-text' | 'offscreen' | 'unsupported-color' | 'gradient-text' | 'limit';
+
+export interface BackgroundContrastReport {
+  // Prvky, u kterých axe color-contrast nerozhodl (incomplete)
+  candidates: number;
+  measured: number;
+  failed: number;
+  skipped: { selector: string; reason: ContrastSkipReason }[];
+  measurements: ContrastMeasurement[];
+}
+
 // Heading structure pro kontrolu hierarchie nadpisů
+export type HeadingHiddenReason = 'display-none' | 'visibility-hidden' | 'aria-hidden';
+
 export interface HeadingInfo {
-  level: number; // 1-6 (h1-h6)
+  level: number; // 1-6 (h1-h6 nebo aria-level)
   text: string;
   selector?: string;
+  // 'aria' = role="heading" na jiném elementu než h1–h6
+  source?: 'native' | 'aria';
+  // Nejbližší landmark, do kterého nadpis patří (main, navigation, region …)
+  landmark?: string;
+  // Vizuálně skrytý (sr-only), ale čtečka ho čte
+  visuallyHidden?: boolean;
+  // Proč nadpis čtečka neoznámí – jen u položek v hiddenHeadings
+  hiddenReason?: HeadingHiddenReason;
+}
+
+// Uzel osnovy dokumentu: landmark obsahuje nadpisy, nadpis obsahuje podnadpisy
+export interface HeadingOutlineNode {
+  kind: 'landmark' | 'heading';
+  role?: string; // jen landmark
+  label?: string; // přístupný název landmarku
+  level?: number; // jen heading
+  text?: string;
+  selector?: string;
+  source?: 'native' | 'aria';
+  visuallyHidden?: boolean;
+  children: HeadingOutlineNode[];
+}
+
+export interface HeadingLandmark {
+  role: string;
+  label?: string;
+  selector: string;
+  headingCount: number;
 }
 
 export interface HeadingStructure {
+  // Nadpisy, které čtečka oznámí (včetně sr-only a role="heading")
   headings: HeadingInfo[];
+  // Nadpisy skryté přes display:none / visibility:hidden / aria-hidden
+  hiddenHeadings?: HeadingInfo[];
+  outline?: HeadingOutlineNode[];
+  landmarks?: HeadingLandmark[];
   issues: {
     type: 'missing-h1' | 'multiple-h1' | 'skipped-level' | 'empty-heading' | 
-          'first-not-h1' | 'duplicate-headings' | 'generic-heading' | 'very-long-heading' | 'very-short-heading';
+          'first-not-h1' | 'duplicate-headings' | 'generic-heading' | 'very-long-heading' | 'very-short-heading' |
+          'landmark-without-heading' | 'heading-without-content' | 'non-descriptive-heading' | 'aria-hidden-heading';
     description: string;
     wcagReference?: string;
     affectedHeadings?: HeadingInfo[]; // Konkrétní nadpisy, které způsobují problém
   }[];
 }
 
+// Porovnání šablony nadpisů napříč stránkami crawlu
+export interface HeadingTemplateIssue {
+  type: 'inconsistent-level' | 'missing-template-heading' | 'h1-placement';
+  description: string;
+  wcagReference?: string;
+  text?: string; // nadpis, kterého se nález týká
+  landmark?: string;
+  pages: string[]; // URL stránek, které se od většiny liší
+}
+
+export interface HeadingTemplateComparison {
+  pagesCompared: number;
+  // Nadpisy, které se opakují na většině stránek (hlavička, navigace, patička …)
+  sharedHeadings: {
+    text: string;
+    landmark?: string;
+    levels: number[];
+    pageCount: number;
+  }[];
+  issues: HeadingTemplateIssue[];
+}
+
 export interface PageDimensions {
   width: number;
   height: number;
@@ -208,6 +466,12 @@ export interface AuditReport {
   keyboardNavigation?: KeyboardNavigationReport;
   // Struktura nadpisů na stránce
   headingStructure?: HeadingStructure;
+  // Accessibility strom Chromia a z něj odvozený přepis "virtuální čtečky obrazovky"
+  accessibilityTree?: AccessibilityTreeReport;
+  liveRegions?: LiveRegionReport;
+  interactiveElements?: InteractiveElementsReport;
+  // Kontrast textu nad obrázky a gradienty, který axe nerozhodl – změřený ze screenshotu
+  backgroundContrast?: BackgroundContrastReport;
   // Auto-generované prohlášení o přístupnosti (Markdown)
   accessibilityStatement?: string;
   // Auto-generované prohlášení o přístupnosti (HTML)
@@ -216,6 +480,19 @@ export interface AuditReport {
   pdfUrl?: string;
   // Hash domény pro badge lookup
   domainHash?: string;
+  // Nálezy, které automat nerozhodl (axe incomplete) – checklist pro ruční audit
+  needsReview?: RuleOutcome[];
+  // Kritéria WCAG k ručnímu ověření a verdikty auditora
+  manualChecklist?: ManualChecklist;
+  // Stav jednotlivých kritérií WCAG (failed / needs-review / passed / not-tested)
+  conformance?: ConformanceMatrix;
+  // Průběh jednotlivých custom ACT testů (stav, doba běhu, chyba)
+  customActRuns?: CustomActRun[];
+  // Upozornění na neúplné nebo nespolehlivé části skenu
+  warnings?: string[];
+  // Pravidla bez nálezu – potřebná pro JUnit/TAP výstup (trend "prošlo / přeskočeno" v CI)
+  passes?: RuleOutcome[];
+  inapplicable?: RuleOutcome[];
 }
 
 export interface CrawlSummary {
@@ -225,6 +502,10 @@ export interface CrawlSummary {
   totalCriticalViolations: number;
   totalViolations: number; // NOVÉ: Celkový počet všech chyb
   pages: AuditReport[];
+  // Matice souladu s WCAG sloučená přes všechny stránky
+  conformance?: ConformanceMatrix;
+  // Rozdíly ve struktuře nadpisů mezi stránkami (stejná šablona, jiné úrovně)
+  headingTemplates?: HeadingTemplateComparison;
   // Agregované Core Web Vitals přes všechny stránky (pokud dostupné)
   performanceSummary?: {
     averageLcp?: number | null;
@@ -232,4 +513,297 @@ export interface CrawlSummary {
     averageInp?: number | null;
     averageTbt?: number | null;
   };
-}
\ No newline at end of file
+  // Upozornění na neúplné části celého běhu (např. nenačtený rule pack), stránky mají vlastní
+  warnings?: string[];
+}
+// Skriptovaný uživatelský průchod (user flow) – např. košík → checkout → odeslání
+export type FlowStep =
+  | { action: 'goto'; url: string; label?: string }
+  | { action: 'click'; selector: string; label?: string }
+  | { action: 'type'; selector: string; text: string; label?: string }
+  | { action: 'select'; selector: string; value: string; label?: string }
+  | { action: 'press'; key: string; label?: string }
+  | { action: 'waitForSelector'; selector: string; timeoutMs?: number; label?: string }
+  | { action: 'scan'; label?: string };
+
+export type FlowStepAction = FlowStep['action'];
+
+export interface UserFlow {
+  name: string;
+  startUrl: string;
+  steps: FlowStep[];
+}
+
+export type FlowStepStatus = 'passed' | 'failed' | 'skipped';
+
+export interface FlowStepResult {
+  index: number;
+  action: FlowStepAction;
+  label?: string;
+  status: FlowStepStatus;
+  durationMs: number;
+  // URL stránky po provedení kroku
+  pageUrl?: string;
+  error?: string;
+  // Plný audit – pouze pro krok "scan" (checkpoint)
+  report?: AuditReport;
+}
+
+export interface FlowReport {
+  name: string;
+  startUrl: string;
+  timestamp: string;
+  completed: boolean; // false, pokud se průchod přerušil na chybném kroku
+  checkpointCount: number;
+  averageScore: number;
+  totalViolations: number;
+  totalCriticalViolations: number;
+  steps: FlowStepResult[];
+  // Jako CrawlSummary.warnings, checkpointy mají vlastní
+  warnings?: string[];
+}
+
+// Jeden výskyt chyby v reportu (node, u nálezu bez prvků celá stránka) pro párování mezi běhy a profily
+export interface ViolationOccurrence {
+  // `ruleId::fingerprint`, opakovaný fingerprint dostane pořadí
+  key: string;
+  violation: AccessibilityViolation;
+  fingerprint: string;
+  node?: ViolationNode;
+}
+
+// Porovnání dvou běhů (baseline vs. aktuální) podle fingerprintů prvků
+export type DiffStatus = 'new' | 'fixed' | 'persisting';
+
+export interface DiffNodeEntry {
+  status: DiffStatus;
+  ruleId: string;
+  impact: ImpactLevel | null;
+  fingerprint: string;
+  cssSelector?: string;
+  elementLabel?: string;
+  html?: string;
+}
+
+export interface DiffCounts {
+  new: number;
+  fixed: number;
+  persisting: number;
+}
+
+export interface PageDiff {
+  url: string;
+  // added = stránka jen v aktuálním běhu, removed = jen v baseline
+  presence: 'added' | 'removed' | 'both';
+  baselineScore: number | null;
+  currentScore: number | null;
+  scoreDelta: number | null;
+  counts: DiffCounts;
+  nodes: DiffNodeEntry[];
+}
+
+export interface RuleDiff {
+  ruleId: string;
+  title: string;
+  impact: ImpactLevel | null;
+  baselineCount: number;
+  currentCount: number;
+  counts: DiffCounts;
+  // Změna skóre způsobená tímto pravidlem (kladné = zlepšení)
+  scoreDelta: number;
+}
+
+export interface ReportDiff {
+  baselineTimestamp: string;
+  currentTimestamp: string;
+  baselineScore: number;
+  currentScore: number;
+  scoreDelta: number;
+  counts: DiffCounts;
+  pages: PageDiff[];
+  rules: RuleDiff[];
+}
+
+// Ruční audit – kritéria WCAG, která automat nerozhodne (ActRuleRegistry status 'manual')
+export type ManualVerdict = 'pass' | 'fail' | 'not-applicable';
+
+export interface ManualChecklistItem {
+  ruleId: string; // ID z ActRuleRegistry
+  name: string;
+  wcag: string[];
+  guidance: string;
+  status: ManualVerdict | 'pending';
+  // Stav odvozený automaticky (např. stránka nemá žádné video), ne od auditora
+  autoResolved?: boolean;
+  note?: string;
+}
+
+export interface ManualChecklist {
+  items: ManualChecklistItem[];
+  // Skóre před započtením ručních verdiktů – verdikty lze aplikovat opakovaně
+  automatedScore: number;
+  auditor?: string;
+  auditedAt?: string;
+}
+
+export interface ManualAuditVerdict {
+  ruleId: string;
+  verdict: ManualVerdict;
+  // Bez pageUrl platí verdikt pro všechny stránky (např. konzistentní navigace)
+  pageUrl?: string;
+  note?: string;
+}
+
+export interface ManualAuditInput {
+  auditor?: string;
+  auditedAt?: string;
+  verdicts: ManualAuditVerdict[];
+}
+
+// Matice souladu s jednotlivými kritérii WCAG (viz WcagCatalogue + ConformanceMatrixBuilder)
+export type WcagLevel = 'A' | 'AA' | 'AAA';
+export type WcagVersion = '2.0' | '2.1' | '2.2';
+// passed = potvrzeno ručním auditem; needs-review = nerozhodnuto, nebo jen prošlá automatická pravidla (passedRules)
+export type CriterionStatus = 'failed' | 'needs-review' | 'passed' | 'not-tested';
+
+export interface WcagCriterion {
+  id: string; // např. "1.4.3"
+  title: string;
+  level: WcagLevel;
+  version: WcagVersion; // verze WCAG, ve které kritérium přibylo
+  // Kritérium bylo v novější verzi zrušeno (4.1.1 Parsing ve WCAG 2.2)
+  obsoleteIn?: WcagVersion;
+}
+
+export interface ConformanceEntry extends WcagCriterion {
+  status: CriterionStatus;
+  // ID pravidel (axe, a11yflow-*, manuální), která k danému stavu vedla
+  failedRules: string[];
+  reviewRules: string[];
+  passedRules: string[];
+  // Jen u crawlu: na kolika stránkách kritérium selhalo
+  failedPages?: number;
+}
+
+export interface ConformanceMatrix {
+  version: WcagVersion;
+  level: WcagLevel;
+  entries: ConformanceEntry[];
+  summary: Record<CriterionStatus, number>;
+}
+
+// Accessibility Conformance Report (VPAT 2.x) – viz AcrGenerator
+export type AcrEdition = 'WCAG' | '508' | 'EU' | 'INT';
+export type AcrConformance =
+  | 'Supports'
+  | 'Partially Supports'
+  | 'Does Not Support'
+  | 'Not Applicable'
+  | 'Not Evaluated';
+
+export interface AcrRow {
+  id: string; // "1.4.3", "302.1", "9.1.4.3"
+  title: string;
+  level?: WcagLevel;
+  conformance: AcrConformance;
+  remarks: string;
+}
+
+export interface AcrTable {
+  id: string;
+  title: string;
+  description?: string;
+  rows: AcrRow[];
+}
+
+export interface AcrReport {
+  edition: AcrEdition;
+  productName: string;
+  productVersion?: string;
+  productDescription?: string;
+  vendor?: string;
+  contact?: string;
+  reportDate: string;
+  wcagVersion: WcagVersion;
+  en301549Edition?: string;
+  evaluationMethods: string;
+  // Vyhodnocené URL (u crawlu všechny stránky)
+  scope: string[];
+  notes?: string;
+  tables: AcrTable[];
+}
+
+// Telemetrie custom ACT suite – jeden záznam na registrovaný test
+export type CustomActRunStatus = 'passed' | 'failed' | 'errored' | 'timed-out' | 'skipped';
+
+export interface CustomActRun {
+  testId: string;
+  label: string;
+  packId?: string;
+  status: CustomActRunStatus;
+  durationMs: number;
+  violationCount: number;
+  error?: string;
+  // Jak byl stav stránky po testu obnoven ('reload' = stránka se znovu načetla)
+  restored?: 'restore' | 'reload';
+  // Pravidla, která test pokrývá – stabilní ID testcase v JUnit/TAP
+  ruleIds: string[];
+  // Test přerušený timeoutem, běžící vedle přerušeného testu, který ještě nedoběhl,
+  // nebo na stránce, kterou se po předchozím testu nepodařilo obnovit
+  unreliable?: boolean;
+}
+
+// Sken jedné URL přes více profilů (desktop, mobile, low-vision …) a porovnání nálezů mezi nimi
+export type ProfileScanStatus = 'completed' | 'failed';
+
+export interface ProfileScanResult {
+  device: string; // ScanDevice z WebScanneru
+  status: ProfileScanStatus;
+  durationMs: number;
+  score?: number;
+  totalViolations?: number;
+  criticalCount?: number;
+  error?: string;
+  report?: AuditReport;
+}
+
+export interface ProfileViolationEntry {
+  ruleId: string;
+  title: string;
+  impact: ImpactLevel | null;
+  fingerprint: string;
+  cssSelector?: string;
+  elementLabel?: string;
+  html?: string;
+  // Profily, na kterých se výskyt objevil
+  devices: string[];
+  // Výskyt chybí aspoň na jednom úspěšně naskenovaném profilu (např. hamburger menu jen na mobilu)
+  profileSpecific: boolean;
+}
+
+export interface ProfileRuleComparison {
+  ruleId: string;
+  title: string;
+  impact: ImpactLevel | null;
+  // Počet výskytů pravidla na jednotlivých profilech
+  countsByDevice: Record<string, number>;
+  profileSpecific: boolean;
+}
+
+export interface ProfileMatrixReport {
+  url: string;
+  timestamp: string;
+  devices: string[];
+  averageScore: number;
+  // Profil s nejnižším skóre – kde je stránka nejméně přístupná
+  worstDevice?: string;
+  profiles: ProfileScanResult[];
+  violations: ProfileViolationEntry[];
+  rules: ProfileRuleComparison[];
+  counts: {
+    common: number; // výskyty na všech profilech
+    profileSpecific: number;
+  };
+  // Jako CrawlSummary.warnings, profily mají vlastní v reportu
+  warnings?: string[];
+}
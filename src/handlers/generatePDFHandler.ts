@@ -3,6 +3,7 @@ import { DynamoDBClient, GetItemCommand } from '@aws-sdk/client-dynamodb';
 import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { unmarshall } from '@aws-sdk/util-dynamodb';
 import { PDFGenerator, PDFGenerationOptions } from '../core/PDFGenerator.js';
+import { AcrGenerator, AcrOptions } from '../core/AcrGenerator.js';
 import { AuditReport } from '../core/types.js';
 import * as crypto from 'crypto';
 
@@ -16,6 +17,7 @@ const PDF_BUCKET = process.env.PDF_BUCKET || 'a11yflow-pdf-reports';
  * Lambda Handler for PDF Generation
  * 
  * Endpoint: POST /report/{reportId}/pdf
+ * Body { "acr": { "edition": "EU", ... } } vygeneruje místo reportu VPAT / ACR.
  * 
  * Access Control:
  * - Free tier: 402 Payment Required
@@ -105,7 +107,7 @@ export async function handler(
     const reportData: AuditReport = JSON.parse(scanRecord.reportData || '{}');
 
     // Parse PDF options from request body
-    let options: PDFGenerationOptions = {};
+    let options: PDFGenerationOptions & { acr?: AcrOptions } = {};
     if (event.body) {
       try {
         options = JSON.parse(event.body);
@@ -116,18 +118,21 @@ export async function handler(
 
     // Generate PDF
     const pdfGenerator = new PDFGenerator();
-    const pdfBuffer = await pdfGenerator.generatePDF(reportData, options);
+    const pdfBuffer = options.acr
+      ? await pdfGenerator.generateAcrPDF(AcrGenerator.build(reportData, options.acr), options)
+      : await pdfGenerator.generatePDF(reportData, options);
     await pdfGenerator.close();
 
     // Upload PDF to S3
-    const pdfKey = `reports/${reportId}/report-${Date.now()}.pdf`;
+    const pdfName = options.acr ? 'acr' : 'report';
+    const pdfKey = `reports/${reportId}/${pdfName}-${Date.now()}.pdf`;
     await s3.send(
       new PutObjectCommand({
         Bucket: PDF_BUCKET,
         Key: pdfKey,
         Body: pdfBuffer,
         ContentType: 'application/pdf',
-        ContentDisposition: `attachment; filename="accessibility-report-${reportId}.pdf"`,
+        ContentDisposition: `attachment; filename="accessibility-${options.acr ? 'conformance-report' : 'report'}-${reportId}.pdf"`,
         // PDF is valid for 30 days for free tier, forever for paid
         // This can be controlled via S3 Lifecycle policies
       })
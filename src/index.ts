@@ -1,13 +1,62 @@
 import { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from 'aws-lambda';
-import { WebScanner, ScanDevice } from './core/WebScanner';
+import { WebScanner, ScanDevice, ScanAuthOptions, ScanOptions, SCAN_DEVICES } from './core/WebScanner';
 import { Crawler } from './core/Crawler';
 export { stripeWebhookHandler } from './handlers/StripeWebhookHandler';
 export { scanSchedulerHandler } from './handlers/ScanScheduler';
 export { historyHandler } from './handlers/HistoryHandler';
-import { AuditReport, CrawlSummary } from './core/types';
+import { UserFlowParser } from './core/UserFlowParser';
+import { ReportDiffer } from './core/ReportDiffer';
+import { ManualChecklistGenerator } from './core/ManualChecklistGenerator';
+import { AcrGenerator } from './core/AcrGenerator';
+import { listCustomActTests, loadActRulePack } from './core/acts/CustomActSuite';
+import { AuditReport, CrawlSummary, FlowReport, ProfileMatrixReport, ReportDiff } from './core/types';
 
 // Export WebScanner pro externí použití
-export { WebScanner, ScanDevice } from './core/WebScanner';
+export { WebScanner, ScanDevice, ScanOptions, ScanAuthOptions } from './core/WebScanner';
+export { ReportDiffer } from './core/ReportDiffer';
+export { ProfileComparator } from './core/ProfileComparator';
+export { SarifExporter } from './core/SarifExporter';
+export { TestRunnerExporter } from './core/TestRunnerExporter';
+export { ManualChecklistGenerator } from './core/ManualChecklistGenerator';
+export { ConformanceMatrixBuilder } from './core/ConformanceMatrixBuilder';
+export { WCAG_CRITERIA, getWcagCriteria } from './core/WcagCatalogue';
+export { AcrGenerator, AcrOptions } from './core/AcrGenerator';
+export {
+  registerCustomActTest,
+  registerActRulePack,
+  loadActRulePack,
+  listCustomActTests,
+  listActRulePacks,
+  RegisteredActTest,
+  ActRulePack,
+  CustomActSuiteOptions,
+  CustomActIsolation,
+} from './core/acts/CustomActSuite';
+export { ActRuleDescriptor } from './core/acts/ActRuleRegistry';
+
+// Problémy s načtením rule packů – null, dokud se packy nezkusily načíst
+let rulePackWarnings: string[] | null = null;
+
+/**
+ * Externí rule packy (A11Y_RULE_PACKS="./packs/design-system.js,@acme/a11y-rules") načteme
+ * líně při prvním skenu, ne při importu modulu – chybný pack nesmí shodit cold start.
+ * Každý pack se načítá zvlášť; chyba skončí jako warning v reportu a zkouší se jen jednou.
+ */
+function ensureRulePacksLoaded(): string[] {
+  if (rulePackWarnings) return rulePackWarnings;
+
+  rulePackWarnings = [];
+  for (const modulePath of (process.env.A11Y_RULE_PACKS || '').split(',').map((p) => p.trim()).filter(Boolean)) {
+    try {
+      loadActRulePack(modulePath);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[Handler] Rule pack "${modulePath}" not loaded:`, message);
+      rulePackWarnings.push(`Rule pack "${modulePath}" was not loaded: ${message}`);
+    }
+  }
+  return rulePackWarnings;
+}
 
 export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
   const headers = {
@@ -34,46 +83,175 @@ export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGateway
     // 2. PARSE BODY
     if (!event.body) throw new Error('Missing body');
     const body = JSON.parse(event.body);
-    const url = body.url;
     const mode = body.mode || 'single';
 
-    // Volitelný přepínač pro zařízení / profil (desktop, mobile, tablet, low-vision, reduced-motion)
+    // Ruční audit – verdikty auditora se zapracují do dodaného reportu, nic se neskenuje
+    if (mode === 'manual-audit') {
+      if (!body.report || typeof body.report !== 'object') {
+        throw new Error('Missing "report" for manual-audit mode');
+      }
+      const audit = ManualChecklistGenerator.parseAudit(body.audit);
+      const language = ['cs', 'en', 'de'].includes(body.language) ? body.language : 'cs';
+      const merged = ManualChecklistGenerator.applyAudit(body.report as AuditReport | CrawlSummary, audit, language);
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify(merged),
+      };
+    }
+
+    // ACR (VPAT 2.x) z dodaného reportu – nic se neskenuje; PDF řeší generatePDFHandler
+    if (mode === 'acr') {
+      if (!body.report || typeof body.report !== 'object') {
+        throw new Error('Missing "report" for acr mode');
+      }
+      const acr = AcrGenerator.build(body.report as AuditReport | CrawlSummary, body.acr || {});
+      const format = body.format || 'json';
+
+      if (format === 'html' || format === 'docx') {
+        return {
+          statusCode: 200,
+          headers: {
+            ...headers,
+            'Content-Type': format === 'html' ? 'text/html; charset=utf-8' : 'application/msword',
+            ...(format === 'docx' ? { 'Content-Disposition': 'attachment; filename="accessibility-conformance-report.doc"' } : {}),
+          },
+          body: format === 'html' ? AcrGenerator.toHtml(acr) : AcrGenerator.toWordHtml(acr),
+        };
+      }
+
+      return {
+        statusCode: 200,
+        headers,
+        body: JSON.stringify(acr),
+      };
+    }
+
+    // Flow režim bere startovní URL přímo z definice průchodu
+    const flow = mode === 'flow' ? UserFlowParser.parse(body.flow) : undefined;
+    // Diff režim porovnává s dodaným baseline reportem (AuditReport nebo CrawlSummary)
+    const baseline: AuditReport | CrawlSummary | undefined =
+      mode === 'diff' ? ReportDiffer.parseReport(body.baseline, 'baseline') : undefined;
+    const isCrawlBaseline = !!baseline && Array.isArray((baseline as CrawlSummary).pages);
+
+    const url = flow
+      ? flow.startUrl
+      : body.url || (baseline && (isCrawlBaseline ? (baseline as CrawlSummary).rootUrl : (baseline as AuditReport).url));
+
+    // Volitelný přepínač pro zařízení / profil (desktop, mobile, tablet, low-vision, reduced-motion,
+    // protanopia, deuteranopia, tritanopia, achromatopsia, forced-colors, dark-mode)
     const rawDevice = (body.device || 'desktop') as string;
-    const allowedDevices: ScanDevice[] = [
-      'desktop',
-      'mobile',
-      'tablet',
-      'low-vision',
-      'reduced-motion',
-    ];
-    const device: ScanDevice = allowedDevices.includes(rawDevice as ScanDevice)
+    const device: ScanDevice = SCAN_DEVICES.includes(rawDevice as ScanDevice)
       ? (rawDevice as ScanDevice)
       : 'desktop';
 
+    // Režim profiles – jedna URL přes více profilů (výchozí desktop, mobile, tablet)
+    let devices: ScanDevice[] = ['desktop', 'mobile', 'tablet'];
+    if (mode === 'profiles' && body.devices !== undefined) {
+      if (!Array.isArray(body.devices) || body.devices.length === 0) {
+        throw new Error('Invalid "devices": expected a non-empty array of profiles');
+      }
+      const unknownDevice = body.devices.find((d: unknown) => !SCAN_DEVICES.includes(d as ScanDevice));
+      if (unknownDevice !== undefined) {
+        throw new Error(`Invalid "devices": unknown profile "${String(unknownDevice)}"`);
+      }
+      devices = Array.from(new Set(body.devices as ScanDevice[]));
+    }
+
     // Volitelný limit pro crawl – chráníme se horním stropem
     const requestedMaxPages = Number(body.maxPages) || 5;
     const maxPages = Math.min(Math.max(requestedMaxPages, 1), 50); // 1–50 stránek
 
+    // Volitelné přihlášení (cookies, hlavičky, basic auth, form login) – do výsledku se nepropisuje
+    const auth: ScanAuthOptions | undefined =
+      body.auth && typeof body.auth === 'object' ? (body.auth as ScanAuthOptions) : undefined;
+
+    // Packy musí být načtené před validací enabledTests
+    const warnings = ensureRulePacksLoaded();
+
+    // Volitelný výběr custom ACT testů (vestavěné + z rule packů) a jejich options
+    let enabledTests: string[] | undefined;
+    if (body.enabledTests !== undefined) {
+      const knownTests = listCustomActTests().map((t) => t.id);
+      if (!Array.isArray(body.enabledTests) || body.enabledTests.some((id: unknown) => typeof id !== 'string')) {
+        throw new Error('Invalid "enabledTests": expected an array of test IDs');
+      }
+      const unknownTest = body.enabledTests.find((id: string) => !knownTests.includes(id));
+      if (unknownTest) {
+        throw new Error(`Invalid "enabledTests": unknown test "${unknownTest}"`);
+      }
+      enabledTests = body.enabledTests;
+    }
+    const actTestOptions =
+      body.actTestOptions && typeof body.actTestOptions === 'object' ? body.actTestOptions : undefined;
+
+    const actTimeoutMs = Number(body.actTimeoutMs) > 0 ? Math.min(Number(body.actTimeoutMs), 120000) : undefined;
+    const actIsolation = ['none', 'restore', 'reload'].includes(body.actIsolation) ? body.actIsolation : undefined;
+
+    const scanOptions: ScanOptions = { device, auth, enabledTests, actTestOptions, actTimeoutMs, actIsolation };
+
     if (!url) throw new Error('Missing "url"');
 
     console.log(`🚀 Processing ${mode} request for: ${url}`);
 
-    let result: AuditReport | CrawlSummary;
+    let result:
+      | AuditReport
+      | CrawlSummary
+      | FlowReport
+      | ProfileMatrixReport
+      | { current: AuditReport | CrawlSummary; diff: ReportDiff };
 
     // 3. EXECUTE
-    if (mode === 'crawl') {
+    if (baseline) {
+      // Aktuální běh lze dodat rovnou (např. z CI), jinak ho naskenujeme stejným režimem jako baseline
+      let current: AuditReport | CrawlSummary;
+      if (body.current !== undefined && body.current !== null) {
+        current = ReportDiffer.parseReport(body.current, 'current');
+      } else if (isCrawlBaseline) {
+        const crawler = new Crawler(maxPages, scanOptions);
+        current = await crawler.crawl(url);
+      } else {
+        const scanner = new WebScanner();
+        try {
+          current = await scanner.scan(url, scanOptions);
+        } finally {
+          await scanner.closeBrowser();
+        }
+      }
+      result = { current, diff: ReportDiffer.diff(baseline, current) };
+    } else if (mode === 'crawl') {
       // Crawl režim – počet stránek je konfigurovatelný přes body.maxPages (s limitem 50)
-      const crawler = new Crawler(maxPages, { device });
+      const crawler = new Crawler(maxPages, scanOptions);
       result = await crawler.crawl(url);
+    } else if (mode === 'profiles') {
+      // Všechny profily běží v jednom prohlížeči
+      const scanner = new WebScanner();
+      try {
+        result = await scanner.scanProfiles(url, devices, scanOptions);
+      } finally {
+        await scanner.closeBrowser();
+      }
+    } else if (flow) {
+      const scanner = new WebScanner();
+      try {
+        result = await scanner.scanFlow(flow, scanOptions);
+      } finally {
+        await scanner.closeBrowser();
+      }
     } else {
       const scanner = new WebScanner();
       try {
-        result = await scanner.scan(url, { device });
+        result = await scanner.scan(url, scanOptions);
       } finally {
         await scanner.closeBrowser();
       }
     }
 
+    if (warnings.length > 0) {
+      const target = 'diff' in result ? result.current : result;
+      target.warnings = [...(target.warnings || []), ...warnings];
+    }
+
     return {
       statusCode: 200,
       headers,
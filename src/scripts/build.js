@@ -10,31 +10,44 @@ const path = require('path');
 
 console.log('🚀 Starting build with esbuild...');
 
-esbuild.build({
-  // __dirname = <project-root>/src/scripts
-  // Entry musí mířit na root "src/index.ts"
-  entryPoints: [path.join(__dirname, '../index.ts')],
-  bundle: true,
-  minify: true,
-  sourcemap: true, // Užitečné pro debugování v CloudWatch
-  platform: 'node',
-  target: 'node20', // Cílíme na Node.js 20 (AWS Lambda runtime)
-  // Výstup do root "dist/index.js"
-  outfile: path.join(__dirname, '../../dist/index.js'),
-  
-  // Externí moduly, které nechceme bundlovat (buď jsou v layeru, nebo je to AWS SDK)
-  // DŮLEŽITÉ: '@sparticuz/chromium' a 'puppeteer-core' musí zůstat jako runtime
-  // závislosti v `node_modules`, jinak `chromium.executablePath()` vrací `undefined`
-  // a Lambda padá s chybou "The \"path\" argument must be of type string...".
-  external: [
-    '@aws-sdk/client-s3',
-    '@sparticuz/chromium',
-    'puppeteer-core',
-    '@axe-core/puppeteer',
-    'axe-core',
-  ], 
-}).then(() => {
-  console.log('✅ Build successful: dist/index.js');
+// Externí moduly, které nechceme bundlovat (buď jsou v layeru, nebo je to AWS SDK)
+// DŮLEŽITÉ: '@sparticuz/chromium' a 'puppeteer-core' musí zůstat jako runtime
+// závislosti v `node_modules`, jinak `chromium.executablePath()` vrací `undefined`
+// a Lambda padá s chybou "The \"path\" argument must be of type string...".
+const external = [
+  '@aws-sdk/client-s3',
+  '@sparticuz/chromium',
+  'puppeteer-core',
+  '@axe-core/puppeteer',
+  'axe-core',
+];
+
+Promise.all([
+  esbuild.build({
+    // __dirname = <project-root>/src/scripts
+    // Entry musí mířit na root "src/index.ts"
+    entryPoints: [path.join(__dirname, '../index.ts')],
+    bundle: true,
+    minify: true,
+    sourcemap: true, // Užitečné pro debugování v CloudWatch
+    platform: 'node',
+    target: 'node20', // Cílíme na Node.js 20 (AWS Lambda runtime)
+    // Výstup do root "dist/index.js"
+    outfile: path.join(__dirname, '../../dist/index.js'),
+    external,
+  }),
+  // CLI pro CI pipeline (package.json "bin") – shebang zachová esbuild z entry souboru
+  esbuild.build({
+    entryPoints: [path.join(__dirname, '../cli.ts')],
+    bundle: true,
+    minify: true,
+    platform: 'node',
+    target: 'node20',
+    outfile: path.join(__dirname, '../../dist/cli.js'),
+    external,
+  }),
+]).then(() => {
+  console.log('✅ Build successful: dist/index.js, dist/cli.js');
 }).catch(() => {
   console.error('❌ Build failed');
   process.exit(1);